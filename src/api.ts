@@ -1,5 +1,26 @@
-import type { Kernel, LogStore, LogEntry, LogFilter, Plugin } from './types'
+import type {
+  Kernel,
+  LogStore,
+  LogEntry,
+  LogFilter,
+  LogSession,
+  LogEvent,
+  LogLevel,
+  LogFunction,
+  LogMethods,
+  Plugin,
+  ExportData,
+  KernelOptions,
+  TimeTravelSnapshot,
+} from './types'
 import { getGlobalKernel } from './react/provider'
+import { buildSnapshot, createKernel, readExportBundle } from './kernel'
+
+/**
+ * Component ID and name used for entries logged outside of a component
+ */
+const GLOBAL_LOG_COMPONENT_ID = 'global'
+const GLOBAL_LOG_COMPONENT_NAME = 'Global'
 
 /**
  * Get the global kernel instance
@@ -39,6 +60,64 @@ export function filterLogs(filter: LogFilter): LogEntry[] {
   return kernel?.filterLogs(filter) ?? []
 }
 
+/**
+ * Reconstruct the props, state and context of every mounted component at an instant
+ *
+ * @param timestamp - Instant to reconstruct, defaults to now
+ * @returns Snapshot folded from the stored entries, or an empty one if kernel not initialized
+ */
+export function getSnapshot(timestamp: number = Date.now()): TimeTravelSnapshot {
+  const logs = getLogs()
+  return buildSnapshot(logs?.entries ?? [], timestamp)
+}
+
+/**
+ * Get the current session and previous sessions loaded from storage
+ *
+ * @returns Sessions newest first, or empty array if kernel not initialized
+ */
+export function getSessions(): LogSession[] {
+  const kernel = getKernel()
+  return kernel?.getSessions() ?? []
+}
+
+/**
+ * Creates a leveled log function bound to the global kernel
+ */
+function createGlobalLogFunction(level: LogLevel): LogFunction {
+  return (message, data, tags) => {
+    const kernel = getKernel()
+    if (!kernel || !kernel.isEnabled()) return
+
+    const logEvent: LogEvent = {
+      type: 'log',
+      componentId: GLOBAL_LOG_COMPONENT_ID,
+      componentName: GLOBAL_LOG_COMPONENT_NAME,
+      timestamp: Date.now(),
+      level,
+      message,
+      ...(data !== undefined && { data }),
+      ...(tags !== undefined && tags.length > 0 && { tags }),
+    }
+    kernel.emit(logEvent)
+  }
+}
+
+/**
+ * Imperative log API for code outside of tracked components
+ *
+ * Usage:
+ * ```ts
+ * log.info('Cart loaded', { items: 3 }, ['cart'])
+ * ```
+ */
+export const log: LogMethods = {
+  debug: createGlobalLogFunction('debug'),
+  info: createGlobalLogFunction('info'),
+  warn: createGlobalLogFunction('warn'),
+  error: createGlobalLogFunction('error'),
+}
+
 /**
  * Export logs as JSON string
  *
@@ -62,6 +141,24 @@ export function exportLogs(pretty: boolean = false): string {
   return pretty ? JSON.stringify(exportData, null, 2) : JSON.stringify(exportData)
 }
 
+/**
+ * Load an exported session into a read-only replay kernel
+ *
+ * Usage:
+ * ```ts
+ * const kernel = importLogs(await file.text())
+ * kernel.register(panelUI())
+ * ```
+ *
+ * @param data - Bundle from `fileExporter().exportJSON()` or `exportLogs()`, parsed or as JSON text
+ * @param options - Kernel options for the replay kernel
+ * @returns A kernel holding the recorded entries; it ignores new events and clears
+ * @throws Error when the bundle is not a ReactLog export
+ */
+export function importLogs(data: ExportData | string, options: Omit<KernelOptions, 'replay'> = {}): Kernel {
+  return createKernel({ ...options, replay: readExportBundle(data) })
+}
+
 /**
  * Get plugin API from the kernel
  *
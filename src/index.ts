@@ -6,6 +6,7 @@ export {
 
 export {
   ReactLogContext,
+  LogParentContext,
   useLogContext,
   useOptionalLogContext,
 } from './react/context'
@@ -14,6 +15,21 @@ export {
   useLog,
 } from './react/hooks/use-log'
 
+export {
+  useLoggedState,
+  useLoggedReducer,
+} from './react/hooks/use-logged-state'
+
+export {
+  useLoggedContext,
+} from './react/hooks/use-logged-context'
+
+export {
+  useLoggedEffect,
+  useLoggedLayoutEffect,
+  useLoggedInsertionEffect,
+} from './react/hooks/use-logged-effect'
+
 export {
   useLogMetrics,
   useAllMetrics,
@@ -24,6 +40,14 @@ export {
   createLogWrapper,
 } from './react/components/log'
 
+export {
+  LogScope,
+} from './react/components/log-scope'
+
+export {
+  LogProfiler,
+} from './react/components/log-profiler'
+
 export {
   DebugPanel,
 } from './react/components/debug-panel'
@@ -39,7 +63,11 @@ export {
   getLogs,
   clearLogs,
   filterLogs,
+  getSessions,
+  getSnapshot,
   exportLogs,
+  importLogs,
+  log,
   getPluginAPI,
   isEnabled,
   enable,
@@ -57,6 +85,17 @@ export {
 export {
   createKernel,
   Kernel,
+  createMemoryStorage,
+  MemoryStorage,
+  createIndexedDBStorage,
+  IndexedDBStorage,
+  type IndexedDBStorageOptions,
+  parseLogQuery,
+  suggestLogQuery,
+  readExportBundle,
+  buildSnapshot,
+  ComponentTree,
+  createComponentTree,
 } from './kernel'
 
 // Core plugins (for manual installation)
@@ -76,11 +115,33 @@ export type {
   // Kernel types
   Kernel as KernelInterface,
   KernelOptions,
+  ReplaySession,
+  ComponentSnapshot,
+  TimeTravelSnapshot,
+  ComponentTreeNode,
   KernelEvent,
   EventType,
   EventHandler,
   LogHandler,
   Unsubscribe,
+  KernelMiddleware,
+  MiddlewareNext,
+  SamplingOptions,
+  SamplingSummary,
+  SuppressedComponentCount,
+  LogSession,
+  LogStorageBackend,
+  LogPersistenceOptions,
+  PersistedLogRecord,
+  LogQuery,
+  QueryCondition,
+  FieldCondition,
+  QueryOperator,
+  QueryPage,
+  SortDirection,
+  ParsedLogQuery,
+  LogQueryParseError,
+  LogQuerySuggestion,
 
   // Plugin types
   Plugin,
@@ -98,23 +159,32 @@ export type {
   PropChange,
   StateChangeEvent,
   HookType,
+  StateUpdateType,
   EffectRunEvent,
   EffectCleanupEvent,
   EffectCleanupReason,
   ContextChangeEvent,
   ErrorEvent,
+  LogEvent,
 
   // Log types
   LogEntry,
   LogStore,
   LogFilter,
   LogLevel,
+  LogFunction,
+  LogMethods,
 
   // React types
   ReactLogProviderProps,
   ReactLogOptions,
   UseLogOptions,
+  UseLogResult,
+  TrackedHookKind,
+  ChangeSource,
   LogProps,
+  LogScopeProps,
+  LogProfilerProps,
   DebugPanelProps,
   WithLogOptions,
 
@@ -140,17 +210,52 @@ export type {
   RenderTimerOptions,
   RenderTimerAPI,
   RenderTimeStats,
+  RenderHistogramBucket,
   RenderTimeRecord,
+  RenderTimerMode,
+  RenderPhase,
+  RenderTimingSource,
   RenderChainOptions,
   RenderChainAPI,
   RenderChainNode,
+  RenderChainSource,
+  RenderCommit,
+  FiberRenderStatus,
   PanelUIOptions,
   PanelUIAPI,
   FileExporterOptions,
   FileExporterAPI,
   ExportData,
+  TraceEvent,
+  TraceData,
   RemoteLoggerOptions,
   RemoteLoggerAPI,
+  RemoteQueueSnapshot,
+  RemoteQueueStorage,
+  RemoteQueueOverflow,
+  RemoteTransport,
+  RemoteBatch,
+  RemoteEnvelope,
+  OtelExporterOptions,
+  OtelExporterAPI,
+  OtelTraceContext,
+  RedactionOptions,
+  RedactionAPI,
+  RedactionStrategy,
+  RedactionRule,
+  RedactionDetector,
+  BuiltInRedactionDetector,
+  RenderStormOptions,
+  RenderStormAPI,
+  RenderStormKind,
+  RenderStormReport,
+  EffectLoopStep,
+  WastedRendersOptions,
+  WastedRendersAPI,
+  WastedRenderRecord,
+  WastedRenderStats,
+  UnstableProp,
+  UnstablePropKind,
 
   // Utility types
   ComponentMetrics,
@@ -0,0 +1,133 @@
+import type { ChangeSource, ComponentTreeNode, KernelEvent } from '../types'
+
+/**
+ * Unmounted components kept in the tree before the oldest is forgotten
+ */
+const MAX_UNMOUNTED = 100
+
+/**
+ * Tree node without its resolved children
+ */
+type ComponentRecord = Omit<ComponentTreeNode, 'children'>
+
+/**
+ * Change events and the source badge they set
+ */
+const CHANGE_SOURCES: Partial<Record<KernelEvent['type'], ChangeSource>> = {
+  'props-change': 'props',
+  'state-change': 'state',
+  'context-change': 'context',
+}
+
+/**
+ * ComponentTree folds lifecycle events into the hierarchy of tracked components
+ *
+ * Components link to their nearest tracked ancestor through `parentId` on
+ * mount. React runs child effects before parent ones, so a child usually
+ * mounts before its parent; children are therefore resolved when the tree is
+ * read, and a component whose parent is unknown is a root. Unmounted
+ * components stay in the tree, marked unmounted, until `MAX_UNMOUNTED` newer
+ * ones have unmounted.
+ */
+export class ComponentTree {
+  private records: Map<string, ComponentRecord> = new Map()
+  private unmounted: string[] = []
+
+  /**
+   * Apply one kernel event to the tree
+   *
+   * @param event - The event to apply
+   */
+  apply(event: KernelEvent): void {
+    if (event.type === 'mount') {
+      this.records.set(event.componentId, {
+        componentId: event.componentId,
+        componentName: event.componentName,
+        parentId: event.parentId ?? null,
+        mounted: true,
+        mountedAt: event.timestamp,
+        unmountedAt: null,
+        renderCount: 1,
+        lastChanges: {},
+      })
+      return
+    }
+
+    const record = this.records.get(event.componentId)
+    if (!record) return
+
+    const source = CHANGE_SOURCES[event.type]
+    if (source) {
+      record.lastChanges[source] = event.timestamp
+    } else if (event.type === 'update') {
+      record.renderCount = event.renderCount
+    } else if (event.type === 'unmount' && record.mounted) {
+      record.mounted = false
+      record.unmountedAt = event.timestamp
+      this.unmounted.push(event.componentId)
+      if (this.unmounted.length > MAX_UNMOUNTED) {
+        this.records.delete(this.unmounted.shift() as string)
+      }
+    }
+  }
+
+  /**
+   * Get the components without a known tracked ancestor, each with its subtree
+   */
+  getRoots(): ComponentTreeNode[] {
+    const children = this.groupChildren()
+    return Array.from(this.records.values())
+      .filter((record) => record.parentId === null || !this.records.has(record.parentId))
+      .map((record) => this.toNode(record, children))
+  }
+
+  /**
+   * Get one component with its subtree
+   *
+   * @param componentId - Component to look up
+   * @returns The node, or null for unknown or forgotten components
+   */
+  getNode(componentId: string): ComponentTreeNode | null {
+    const record = this.records.get(componentId)
+    return record ? this.toNode(record, this.groupChildren()) : null
+  }
+
+  /**
+   * Forget every component
+   */
+  clear(): void {
+    this.records.clear()
+    this.unmounted = []
+  }
+
+  private groupChildren(): Map<string, ComponentRecord[]> {
+    const children = new Map<string, ComponentRecord[]>()
+    for (const record of this.records.values()) {
+      if (record.parentId === null) continue
+      const siblings = children.get(record.parentId)
+      if (siblings) {
+        siblings.push(record)
+      } else {
+        children.set(record.parentId, [record])
+      }
+    }
+    return children
+  }
+
+  private toNode(record: ComponentRecord, children: Map<string, ComponentRecord[]>): ComponentTreeNode {
+    return {
+      ...record,
+      lastChanges: { ...record.lastChanges },
+      children: (children.get(record.componentId) ?? []).map((child) => this.toNode(child, children)),
+    }
+  }
+}
+
+/**
+ * Creates a new ComponentTree instance
+ *
+ * @returns A new, empty ComponentTree
+ */
+export function createComponentTree(): ComponentTree {
+  return new ComponentTree()
+}
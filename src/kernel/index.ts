@@ -1,4 +1,14 @@
 export { Kernel, createKernel } from './kernel'
 export { EventBus, createEventBus } from './event-bus'
 export { LogStore, createLogStore } from './log-store'
+export { RingBuffer, createRingBuffer } from './ring-buffer'
 export { PluginRegistry, createPluginRegistry } from './plugin-registry'
+export { MiddlewarePipeline, createMiddlewarePipeline } from './middleware-pipeline'
+export { EventSampler, createEventSampler } from './sampler'
+export { MemoryStorage, createMemoryStorage } from './memory-storage'
+export { IndexedDBStorage, createIndexedDBStorage, type IndexedDBStorageOptions } from './indexeddb-storage'
+export { LogQuery, createLogQuery, applyLogFilter, compileCondition, getFieldValues, type QuerySource } from './query'
+export { parseLogQuery, suggestLogQuery } from './query-language'
+export { readExportBundle } from './replay'
+export { buildSnapshot } from './snapshot'
+export { ComponentTree, createComponentTree } from './component-tree'
@@ -0,0 +1,132 @@
+import type { LogSession, LogStorageBackend, PersistedLogRecord } from '../types'
+import { openDatabase, runTransaction } from '../utils'
+
+/**
+ * Schema version of the ReactLog database
+ */
+const DB_VERSION = 1
+
+/**
+ * Object store holding LogSession metadata, keyed by id
+ */
+const SESSIONS_STORE = 'sessions'
+
+/**
+ * Object store holding PersistedLogRecords, keyed by [sessionId, seq]
+ */
+const ENTRIES_STORE = 'entries'
+
+/**
+ * Options for the IndexedDB storage backend
+ */
+export interface IndexedDBStorageOptions {
+  /** Database name, change it to keep several apps on one origin apart */
+  dbName?: string
+}
+
+/**
+ * IndexedDBStorage persists sessions and log entries in IndexedDB
+ * The connection opens lazily on first use. Entries are keyed by
+ * [sessionId, seq] so a session's records can be read, trimmed or
+ * deleted with a single key range.
+ */
+export class IndexedDBStorage implements LogStorageBackend {
+  private dbName: string
+  private db: Promise<IDBDatabase> | null = null
+
+  constructor(options: IndexedDBStorageOptions = {}) {
+    this.dbName = options.dbName ?? 'reactlog'
+  }
+
+  async listSessions(): Promise<LogSession[]> {
+    return this.transaction([SESSIONS_STORE], 'readonly', (tx) =>
+      tx.objectStore(SESSIONS_STORE).getAll()
+    )
+  }
+
+  async loadEntries(sessionId: string): Promise<PersistedLogRecord[]> {
+    return this.transaction([ENTRIES_STORE], 'readonly', (tx) =>
+      tx.objectStore(ENTRIES_STORE).getAll(sessionRange(sessionId))
+    )
+  }
+
+  async append(session: LogSession, records: PersistedLogRecord[], maxEntries: number): Promise<void> {
+    await this.transaction([SESSIONS_STORE, ENTRIES_STORE], 'readwrite', (tx) => {
+      tx.objectStore(SESSIONS_STORE).put(session)
+
+      const entries = tx.objectStore(ENTRIES_STORE)
+      for (const record of records) {
+        entries.put(record)
+      }
+
+      // Keep the last maxEntries records: seq values above lastSeq - maxEntries
+      const lastSeq = records[records.length - 1]?.seq
+      if (lastSeq !== undefined && lastSeq - maxEntries >= 0) {
+        entries.delete(sessionRange(session.id, lastSeq - maxEntries))
+      }
+    })
+  }
+
+  async clearEntries(sessionId: string): Promise<void> {
+    await this.transaction([ENTRIES_STORE], 'readwrite', (tx) => {
+      tx.objectStore(ENTRIES_STORE).delete(sessionRange(sessionId))
+    })
+  }
+
+  async deleteSession(sessionId: string): Promise<void> {
+    await this.transaction([SESSIONS_STORE, ENTRIES_STORE], 'readwrite', (tx) => {
+      tx.objectStore(SESSIONS_STORE).delete(sessionId)
+      tx.objectStore(ENTRIES_STORE).delete(sessionRange(sessionId))
+    })
+  }
+
+  close(): void {
+    const db = this.db
+    this.db = null
+    db?.then((connection) => connection.close()).catch(() => {
+      // Opening failed, so there is nothing to close
+    })
+  }
+
+  /**
+   * Open the database, creating the object stores on first use
+   */
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = openDatabase(this.dbName, DB_VERSION, (db) => {
+        if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+          db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' })
+        }
+        if (!db.objectStoreNames.contains(ENTRIES_STORE)) {
+          db.createObjectStore(ENTRIES_STORE, { keyPath: ['sessionId', 'seq'] })
+        }
+      })
+    }
+    return this.db
+  }
+
+  private async transaction<T>(
+    stores: string[],
+    mode: IDBTransactionMode,
+    work: (tx: IDBTransaction) => IDBRequest<T> | void
+  ): Promise<T> {
+    return runTransaction(await this.open(), stores, mode, work)
+  }
+}
+
+/**
+ * Key range covering a session's records, optionally only up to a seq
+ */
+function sessionRange(sessionId: string, upperSeq: number = Infinity): IDBKeyRange {
+  return IDBKeyRange.bound([sessionId, 0], [sessionId, upperSeq])
+}
+
+/**
+ * Creates a new IndexedDBStorage instance
+ *
+ * @param options - IndexedDB storage options
+ * @returns A new IndexedDBStorage
+ */
+export function createIndexedDBStorage(options?: IndexedDBStorageOptions): IndexedDBStorage {
+  return new IndexedDBStorage(options)
+}
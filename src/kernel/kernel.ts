@@ -12,10 +12,18 @@ import type {
   PluginInfo,
   PluginHooks,
   LogLevel,
+  LogSession,
+  LogQuery,
+  KernelMiddleware,
+  Unsubscribe,
+  ComponentTreeNode,
 } from '../types'
 import { EventBus, createEventBus } from './event-bus'
 import { LogStore as LogStoreImpl, createLogStore } from './log-store'
 import { PluginRegistry, createPluginRegistry } from './plugin-registry'
+import { MiddlewarePipeline, createMiddlewarePipeline } from './middleware-pipeline'
+import { EventSampler, createEventSampler } from './sampler'
+import { ComponentTree, createComponentTree } from './component-tree'
 import { generateUID, formatValue } from '../utils'
 
 /**
@@ -25,8 +33,16 @@ const DEFAULT_OPTIONS: Required<KernelOptions> = {
   enabled: true,
   maxLogs: 1000,
   logLevel: 'debug',
+  sampling: {},
+  persistence: null,
+  replay: null,
 }
 
+/**
+ * Component id used for synthetic sampling summary entries
+ */
+const SAMPLER_COMPONENT_ID = 'reactlog-sampler'
+
 /**
  * Log level priorities for filtering
  */
@@ -44,6 +60,8 @@ function getLogLevelForEvent(event: KernelEvent): LogLevel {
   switch (event.type) {
     case 'error':
       return 'error'
+    case 'log':
+      return event.level
     case 'unmount':
     case 'effect-cleanup':
       return 'info'
@@ -80,6 +98,8 @@ function formatEventForLog(event: KernelEvent): string {
       return `CONTEXT ${event.componentName} ${event.contextName}`
     case 'error':
       return `ERROR ${event.componentName}: ${event.error.message}`
+    case 'log':
+      return `LOG ${event.componentName}: ${event.message}`
   }
 }
 
@@ -90,6 +110,10 @@ export class Kernel implements IKernel {
   private eventBus: EventBus
   private logStore: LogStoreImpl
   private pluginRegistry: PluginRegistry
+  private middlewarePipeline: MiddlewarePipeline
+  private sampler: EventSampler
+  private componentTree: ComponentTree
+  private summaryTimer: ReturnType<typeof setTimeout> | null = null
   private options: Required<KernelOptions>
   private _enabled: boolean
 
@@ -97,12 +121,26 @@ export class Kernel implements IKernel {
     this.options = { ...DEFAULT_OPTIONS, ...options }
     this._enabled = this.options.enabled
 
+    const { replay } = this.options
     this.eventBus = createEventBus()
-    this.logStore = createLogStore(this.options.maxLogs)
+    // A replay keeps every recorded entry and never writes to storage
+    this.logStore = replay
+      ? createLogStore(Math.max(this.options.maxLogs, replay.entries.length), null)
+      : createLogStore(this.options.maxLogs, this.options.persistence)
+    this.componentTree = createComponentTree()
+    if (replay) {
+      this.logStore.loadSession(replay)
+      for (const entry of replay.entries) {
+        this.componentTree.apply(entry.event)
+      }
+    }
     this.pluginRegistry = createPluginRegistry()
+    this.middlewarePipeline = createMiddlewarePipeline()
+    this.sampler = createEventSampler(this.options.sampling)
 
-    // Set kernel reference in plugin registry
+    // Set kernel reference in plugin registry and middleware pipeline
     this.pluginRegistry.setKernel(this)
+    this.middlewarePipeline.setKernel(this)
   }
 
   // ============================================
@@ -137,6 +175,19 @@ export class Kernel implements IKernel {
     return this.pluginRegistry.listPlugins()
   }
 
+  // ============================================
+  // MIDDLEWARE
+  // ============================================
+
+  /**
+   * Add a middleware that sees every event and log entry before plugins and the store
+   * A middleware that throws before calling `next` is logged and skipped, so the
+   * value passes on unchanged; set `failClosed` to drop it instead.
+   */
+  use(middleware: KernelMiddleware): Unsubscribe {
+    return this.middlewarePipeline.use(middleware)
+  }
+
   // ============================================
   // EVENT SYSTEM
   // ============================================
@@ -145,7 +196,56 @@ export class Kernel implements IKernel {
    * Emit an event
    */
   emit(event: KernelEvent): void {
-    if (!this._enabled) return
+    if (!this._enabled || this.options.replay) return
+
+    if (!this.sampler.shouldKeep(event)) {
+      this.scheduleSamplingSummary()
+      return
+    }
+
+    this.middlewarePipeline.run('event', event, (processed) => this.dispatchEvent(processed))
+  }
+
+  /**
+   * Schedule a summary entry for events suppressed by sampling
+   * One timer covers every suppression until it fires
+   */
+  private scheduleSamplingSummary(): void {
+    const interval = this.sampler.getSummaryInterval()
+    if (this.summaryTimer !== null || interval <= 0) return
+
+    this.summaryTimer = setTimeout(() => {
+      this.summaryTimer = null
+      this.emitSamplingSummary()
+    }, interval)
+  }
+
+  /**
+   * Log the suppressed-event summary, bypassing sampling
+   */
+  private emitSamplingSummary(): void {
+    const summary = this.sampler.takeSummary()
+    if (!summary || !this._enabled) return
+
+    const event: KernelEvent = {
+      type: 'log',
+      componentId: SAMPLER_COMPONENT_ID,
+      componentName: 'ReactLog',
+      timestamp: Date.now(),
+      level: 'info',
+      message: `Sampling suppressed ${summary.total} events from ${summary.components.length} components`,
+      data: summary,
+      tags: ['sampling'],
+    }
+
+    this.middlewarePipeline.run('event', event, (processed) => this.dispatchEvent(processed))
+  }
+
+  /**
+   * Deliver an event that passed the middleware pipeline
+   */
+  private dispatchEvent(event: KernelEvent): void {
+    this.componentTree.apply(event)
 
     // Emit to event bus first
     this.eventBus.emit(event)
@@ -209,7 +309,7 @@ export class Kernel implements IKernel {
       'effect-cleanup': 'onEffectCleanup',
       'context-change': 'onContextChange',
       'error': 'onError',
-      'log': null,
+      'log': 'onLogMessage',
     }
     return hookMap[eventType]
   }
@@ -235,6 +335,24 @@ export class Kernel implements IKernel {
     this.eventBus.off(eventType, handler)
   }
 
+  // ============================================
+  // COMPONENT TREE
+  // ============================================
+
+  /**
+   * Get the live tree of tracked components, roots first in mount order
+   */
+  getComponentTree(): ComponentTreeNode[] {
+    return this.componentTree.getRoots()
+  }
+
+  /**
+   * Get one tracked component with its subtree
+   */
+  getComponent(componentId: string): ComponentTreeNode | null {
+    return this.componentTree.getNode(componentId)
+  }
+
   // ============================================
   // LOG STORE
   // ============================================
@@ -250,6 +368,14 @@ export class Kernel implements IKernel {
    * Add a log entry
    */
   addLog(entry: LogEntry): void {
+    if (this.options.replay) return
+    this.middlewarePipeline.run('entry', entry, (processed) => this.storeLog(processed))
+  }
+
+  /**
+   * Store a log entry that passed the middleware pipeline and notify listeners
+   */
+  private storeLog(entry: LogEntry): void {
     this.logStore.addLog(entry)
 
     // Emit log event
@@ -267,9 +393,10 @@ export class Kernel implements IKernel {
   }
 
   /**
-   * Clear all logs
+   * Clear all logs; a replay kernel keeps its recorded session
    */
   clearLogs(): void {
+    if (this.options.replay) return
     this.logStore.clearLogs()
   }
 
@@ -280,6 +407,27 @@ export class Kernel implements IKernel {
     return this.logStore.filterLogs(filter)
   }
 
+  /**
+   * Start an indexed query over the current session or a previous one
+   */
+  query(sessionId?: string): LogQuery {
+    return this.logStore.query(sessionId)
+  }
+
+  /**
+   * Get the current session and previous sessions loaded from storage, newest first
+   */
+  getSessions(): LogSession[] {
+    return this.logStore.getSessions()
+  }
+
+  /**
+   * Write pending log entries to storage
+   */
+  flushLogs(): Promise<void> {
+    return this.logStore.flush()
+  }
+
   // ============================================
   // CONFIGURATION
   // ============================================
@@ -291,13 +439,18 @@ export class Kernel implements IKernel {
     if (options.enabled !== undefined) {
       this._enabled = options.enabled
     }
-    if (options.maxLogs !== undefined) {
+    // A replay store is sized to its recorded session and never evicts
+    if (options.maxLogs !== undefined && !this.options.replay) {
       this.options.maxLogs = options.maxLogs
       this.logStore.setMaxLogs(options.maxLogs)
     }
     if (options.logLevel !== undefined) {
       this.options.logLevel = options.logLevel
     }
+    if (options.sampling !== undefined) {
+      this.options.sampling = options.sampling
+      this.sampler.configure(options.sampling)
+    }
   }
 
   /**
@@ -307,6 +460,13 @@ export class Kernel implements IKernel {
     return this._enabled
   }
 
+  /**
+   * Check if kernel replays a recorded session
+   */
+  isReplay(): boolean {
+    return this.options.replay !== null
+  }
+
   /**
    * Enable the kernel
    */
@@ -338,7 +498,16 @@ export class Kernel implements IKernel {
   destroy(): void {
     this.disable()
     this.pluginRegistry.clear()
+    this.middlewarePipeline.clear()
+    if (this.summaryTimer !== null) {
+      clearTimeout(this.summaryTimer)
+      this.summaryTimer = null
+    }
+    this.sampler.reset()
+    this.componentTree.clear()
     this.eventBus.removeAllListeners()
+    // Detach storage first so clearing memory keeps the persisted session
+    void this.logStore.close()
     this.logStore.clearLogs()
   }
 }
@@ -1,26 +1,105 @@
-import type { EventType, LogEntry, LogFilter, LogStore as ILogStore } from '../types'
+import type {
+  EventType,
+  LogEntry,
+  LogFilter,
+  LogPersistenceOptions,
+  LogSession,
+  LogStorageBackend,
+  LogStore as ILogStore,
+  PersistedLogRecord,
+  ReplaySession,
+} from '../types'
+import { generateUID, toSerializable } from '../utils'
+import { LogQuery, applyLogFilter, createLogQuery } from './query'
+import { RingBuffer } from './ring-buffer'
 
 /**
  * Default maximum number of logs to store
  */
 const DEFAULT_MAX_LOGS = 1000
 
+/**
+ * Default number of sessions kept in storage, including the current one
+ */
+const DEFAULT_MAX_SESSIONS = 5
+
+function logStorageError(error: unknown): void {
+  console.error('[ReactLog] Log storage error:', error)
+}
+
 /**
  * LogStore manages the storage and retrieval of log entries
  * Provides indexing by component and event type for efficient filtering
+ *
+ * Entries live in a ring buffer of `maxLogs` slots, and each index is a FIFO
+ * queue. The evicted entry is always the oldest, so it sits at the front of
+ * its component and type queues and eviction is O(1) at any `maxLogs`.
+ * `entries`, `byComponent` and `byType` are array snapshots built on first
+ * read after a change, which keeps `addLog` free of copying under load.
+ *
+ * With a storage backend, entries are also written through in batches (one
+ * write per microtask) and previous sessions are loaded back on creation, so
+ * `filterLogs({ sessionId })` can query what happened before a reload.
  */
 export class LogStore implements ILogStore {
-  entries: LogEntry[] = []
-  byComponent: Map<string, LogEntry[]> = new Map()
-  byType: Map<EventType, LogEntry[]> = new Map()
   startTime: number
   lastEntry: LogEntry | null = null
+  sessionId: string
 
   private maxLogs: number
+  private buffer: RingBuffer<LogEntry>
+  private componentIndex: Map<string, RingBuffer<LogEntry>> = new Map()
+  private typeIndex: Map<EventType, RingBuffer<LogEntry>> = new Map()
+  /** Incremented on every change; snapshots remember the version they were built at */
+  private version = 0
+  private entriesSnapshot: { version: number; value: LogEntry[] } | null = null
+  private componentSnapshot: { version: number; value: Map<string, LogEntry[]> } | null = null
+  private typeSnapshot: { version: number; value: Map<EventType, LogEntry[]> } | null = null
+  private session: LogSession
+  private storage: LogStorageBackend | null
+  private maxSessions: number
+  private nextSeq = 0
+  private pending: LogEntry[] = []
+  private flushScheduled = false
+  private writeChain: Promise<void>
+  private previousSessions: LogSession[] = []
+  private sessionEntries: Map<string, LogEntry[]> = new Map()
+  private ordinals: WeakMap<LogEntry, number> = new WeakMap()
+  private nextOrdinal = 0
 
-  constructor(maxLogs: number = DEFAULT_MAX_LOGS) {
+  constructor(maxLogs: number = DEFAULT_MAX_LOGS, persistence: LogPersistenceOptions | null = null) {
     this.maxLogs = maxLogs
+    this.buffer = new RingBuffer(maxLogs)
     this.startTime = Date.now()
+    this.sessionId = generateUID()
+    this.session = {
+      id: this.sessionId,
+      startTime: this.startTime,
+      lastActivity: this.startTime,
+      entryCount: 0,
+      ...(typeof location !== 'undefined' && { url: location.href }),
+      ...(typeof navigator !== 'undefined' && { userAgent: navigator.userAgent }),
+    }
+    this.storage = persistence?.storage ?? null
+    this.maxSessions = persistence?.maxSessions ?? DEFAULT_MAX_SESSIONS
+
+    // Writes queue behind hydration so flush() also waits for previous sessions
+    this.writeChain = this.storage
+      ? this.loadPreviousSessions(this.storage).catch(logStorageError)
+      : Promise.resolve()
+  }
+
+  /**
+   * Load a recorded session's entries as if they had just been logged
+   *
+   * @param session - Session start time and entries, oldest first
+   */
+  loadSession(session: ReplaySession): void {
+    this.startTime = session.startTime
+    this.session.startTime = session.startTime
+    for (const entry of session.entries) {
+      this.addLog(entry)
+    }
   }
 
   /**
@@ -29,80 +108,190 @@ export class LogStore implements ILogStore {
    * @param entry - The log entry to add
    */
   addLog(entry: LogEntry): void {
-    this.entries.push(entry)
     this.lastEntry = entry
+    this.ordinals.set(entry, this.nextOrdinal++)
+    this.session.entryCount++
+    this.session.lastActivity = entry.timestamp
+    this.version++
 
     // Index by component
-    let componentLogs = this.byComponent.get(entry.componentId)
+    let componentLogs = this.componentIndex.get(entry.componentId)
     if (!componentLogs) {
-      componentLogs = []
-      this.byComponent.set(entry.componentId, componentLogs)
+      componentLogs = new RingBuffer()
+      this.componentIndex.set(entry.componentId, componentLogs)
     }
     componentLogs.push(entry)
 
     // Index by event type
-    let typeLogs = this.byType.get(entry.event.type)
+    let typeLogs = this.typeIndex.get(entry.event.type)
     if (!typeLogs) {
-      typeLogs = []
-      this.byType.set(entry.event.type, typeLogs)
+      typeLogs = new RingBuffer()
+      this.typeIndex.set(entry.event.type, typeLogs)
     }
     typeLogs.push(entry)
 
-    // Trim if over max
-    if (this.entries.length > this.maxLogs) {
-      this.trimLogs()
+    // A full buffer hands back the oldest entry
+    const evicted = this.buffer.push(entry)
+    if (evicted) {
+      this.evict(evicted)
+    }
+
+    if (this.storage) {
+      this.pending.push(entry)
+      this.scheduleFlush()
+    }
+  }
+
+  /**
+   * Write pending entries on the next microtask, batching synchronous bursts
+   */
+  private scheduleFlush(): void {
+    if (this.flushScheduled) return
+    this.flushScheduled = true
+    queueMicrotask(() => {
+      this.flushScheduled = false
+      void this.flush()
+    })
+  }
+
+  /**
+   * Write pending entries to storage now
+   *
+   * @returns Promise resolving once previous sessions are loaded and every write has settled
+   */
+  flush(): Promise<void> {
+    const storage = this.storage
+    if (storage && this.pending.length > 0) {
+      const records: PersistedLogRecord[] = this.pending.map((entry) => ({
+        sessionId: this.sessionId,
+        seq: this.nextSeq++,
+        entry: toSerializable(entry) as LogEntry,
+      }))
+      const session = { ...this.session }
+      this.pending = []
+
+      this.writeChain = this.writeChain
+        .then(() => storage.append(session, records, this.maxLogs))
+        .catch(logStorageError)
+    }
+    return this.writeChain
+  }
+
+  /**
+   * Load metadata and entries of previous sessions, deleting sessions beyond maxSessions
+   */
+  private async loadPreviousSessions(storage: LogStorageBackend): Promise<void> {
+    const sessions = (await storage.listSessions())
+      .filter((session) => session.id !== this.sessionId)
+      .sort((a, b) => b.startTime - a.startTime)
+
+    const kept = sessions.slice(0, Math.max(0, this.maxSessions - 1))
+    for (const session of sessions.slice(kept.length)) {
+      await storage.deleteSession(session.id)
+    }
+
+    for (const session of kept) {
+      const records = await storage.loadEntries(session.id)
+      const entries = records.map((record) => record.entry)
+      entries.forEach((entry, index) => this.ordinals.set(entry, index))
+      this.sessionEntries.set(session.id, entries)
     }
+    this.previousSessions = kept
+  }
+
+  /**
+   * Get the current session followed by previous sessions, newest first
+   *
+   * @returns Session metadata
+   */
+  getSessions(): LogSession[] {
+    return [{ ...this.session }, ...this.previousSessions.map((session) => ({ ...session }))]
+  }
+
+  /**
+   * Flush pending entries and detach the storage backend
+   * Persisted entries are kept, so clearing the store afterwards only affects memory
+   *
+   * @returns Promise resolving once the backend is closed
+   */
+  close(): Promise<void> {
+    const storage = this.storage
+    if (!storage) return Promise.resolve()
+
+    const flushed = this.flush()
+    this.storage = null
+    return flushed.then(() => storage.close())
   }
 
   /**
-   * Trim old logs to stay within maxLogs limit
+   * Remove an evicted entry from the front of its index queues
    */
-  private trimLogs(): void {
-    const removeCount = this.entries.length - this.maxLogs
-    if (removeCount <= 0) return
+  private evict(entry: LogEntry): void {
+    const componentLogs = this.componentIndex.get(entry.componentId) as RingBuffer<LogEntry>
+    componentLogs.shift()
+    if (componentLogs.length === 0) {
+      this.componentIndex.delete(entry.componentId)
+    }
 
-    const removed = this.entries.splice(0, removeCount)
+    const typeLogs = this.typeIndex.get(entry.event.type) as RingBuffer<LogEntry>
+    typeLogs.shift()
+    if (typeLogs.length === 0) {
+      this.typeIndex.delete(entry.event.type)
+    }
+  }
+
+  /**
+   * All logs, oldest first
+   */
+  get entries(): LogEntry[] {
+    if (this.entriesSnapshot?.version !== this.version) {
+      this.entriesSnapshot = { version: this.version, value: this.buffer.toArray() }
+    }
+    return this.entriesSnapshot.value
+  }
 
-    // Clean up indexes for removed entries
-    for (const entry of removed) {
-      // Clean component index
-      const componentLogs = this.byComponent.get(entry.componentId)
-      if (componentLogs) {
-        const index = componentLogs.indexOf(entry)
-        if (index !== -1) {
-          componentLogs.splice(index, 1)
-        }
-        if (componentLogs.length === 0) {
-          this.byComponent.delete(entry.componentId)
-        }
-      }
+  /**
+   * Logs grouped by component ID
+   */
+  get byComponent(): Map<string, LogEntry[]> {
+    if (this.componentSnapshot?.version !== this.version) {
+      this.componentSnapshot = { version: this.version, value: snapshotIndex(this.componentIndex) }
+    }
+    return this.componentSnapshot.value
+  }
 
-      // Clean type index
-      const typeLogs = this.byType.get(entry.event.type)
-      if (typeLogs) {
-        const index = typeLogs.indexOf(entry)
-        if (index !== -1) {
-          typeLogs.splice(index, 1)
-        }
-        if (typeLogs.length === 0) {
-          this.byType.delete(entry.event.type)
-        }
-      }
+  /**
+   * Logs grouped by event type
+   */
+  get byType(): Map<EventType, LogEntry[]> {
+    if (this.typeSnapshot?.version !== this.version) {
+      this.typeSnapshot = { version: this.version, value: snapshotIndex(this.typeIndex) }
     }
+    return this.typeSnapshot.value
   }
 
   /**
    * Get all logs
+   * `entries`, `byComponent` and `byType` are read from the store when accessed,
+   * so reading only `startTime` or `lastEntry` copies nothing.
    *
    * @returns The log store interface
    */
   getLogs(): ILogStore {
+    const store = this
     return {
-      entries: this.entries,
-      byComponent: this.byComponent,
-      byType: this.byType,
+      get entries() {
+        return store.entries
+      },
+      get byComponent() {
+        return store.byComponent
+      },
+      get byType() {
+        return store.byType
+      },
       startTime: this.startTime,
       lastEntry: this.lastEntry,
+      sessionId: this.sessionId,
     }
   }
 
@@ -110,57 +299,51 @@ export class LogStore implements ILogStore {
    * Clear all logs
    */
   clearLogs(): void {
-    this.entries = []
-    this.byComponent.clear()
-    this.byType.clear()
+    this.buffer.clear()
+    this.componentIndex.clear()
+    this.typeIndex.clear()
+    this.version++
     this.lastEntry = null
     // Don't reset startTime - it tracks session start
+
+    const storage = this.storage
+    if (storage) {
+      this.pending = []
+      this.writeChain = this.writeChain
+        .then(() => storage.clearEntries(this.sessionId))
+        .catch(logStorageError)
+    }
   }
 
   /**
-   * Filter logs based on criteria
+   * Start a query over the current session, or a previous session loaded from storage
    *
-   * @param filter - Filter criteria
-   * @returns Filtered log entries
+   * @param sessionId - Session to query, defaults to the current one
+   * @returns A new query
    */
-  filterLogs(filter: LogFilter): LogEntry[] {
-    let result = this.entries
+  query(sessionId?: string): LogQuery {
+    const ordinal = (entry: LogEntry): number => this.ordinals.get(entry) as number
 
-    // Filter by component name
-    if (filter.componentName !== undefined) {
-      if (filter.componentName instanceof RegExp) {
-        const regex = filter.componentName
-        result = result.filter((entry) => regex.test(entry.componentName))
-      } else {
-        const name = filter.componentName
-        result = result.filter((entry) => entry.componentName === name)
-      }
+    if (sessionId !== undefined && sessionId !== this.sessionId) {
+      return createLogQuery({ entries: this.sessionEntries.get(sessionId) ?? [], ordinal })
     }
 
-    // Filter by event type
-    if (filter.eventType !== undefined) {
-      const types = Array.isArray(filter.eventType) ? filter.eventType : [filter.eventType]
-      result = result.filter((entry) => types.includes(entry.event.type))
-    }
-
-    // Filter by log level
-    if (filter.level !== undefined) {
-      const levels = Array.isArray(filter.level) ? filter.level : [filter.level]
-      result = result.filter((entry) => levels.includes(entry.level))
-    }
-
-    // Filter by time range
-    if (filter.timeRange !== undefined) {
-      const { start, end } = filter.timeRange
-      result = result.filter((entry) => entry.timestamp >= start && entry.timestamp <= end)
-    }
-
-    // Apply limit
-    if (filter.limit !== undefined && filter.limit > 0) {
-      result = result.slice(-filter.limit)
-    }
+    return createLogQuery({
+      entries: this.entries,
+      byComponent: { get: (componentId) => this.componentIndex.get(componentId)?.toArray() },
+      byType: { get: (eventType) => this.typeIndex.get(eventType)?.toArray() },
+      ordinal,
+    })
+  }
 
-    return result
+  /**
+   * Filter logs based on criteria
+   *
+   * @param filter - Filter criteria
+   * @returns Filtered log entries
+   */
+  filterLogs(filter: LogFilter): LogEntry[] {
+    return applyLogFilter(this.query(filter.sessionId), filter)
   }
 
   /**
@@ -170,7 +353,7 @@ export class LogStore implements ILogStore {
    * @returns Logs for the component
    */
   getLogsByComponent(componentId: string): LogEntry[] {
-    return this.byComponent.get(componentId) ?? []
+    return this.componentIndex.get(componentId)?.toArray() ?? []
   }
 
   /**
@@ -180,7 +363,7 @@ export class LogStore implements ILogStore {
    * @returns Logs for the event type
    */
   getLogsByType(eventType: EventType): LogEntry[] {
-    return this.byType.get(eventType) ?? []
+    return this.typeIndex.get(eventType)?.toArray() ?? []
   }
 
   /**
@@ -189,7 +372,7 @@ export class LogStore implements ILogStore {
    * @returns Total log count
    */
   getLogCount(): number {
-    return this.entries.length
+    return this.buffer.length
   }
 
   /**
@@ -198,7 +381,7 @@ export class LogStore implements ILogStore {
    * @returns Number of unique components
    */
   getComponentCount(): number {
-    return this.byComponent.size
+    return this.componentIndex.size
   }
 
   /**
@@ -208,8 +391,10 @@ export class LogStore implements ILogStore {
    */
   setMaxLogs(max: number): void {
     this.maxLogs = max
-    if (this.entries.length > max) {
-      this.trimLogs()
+    const evicted = this.buffer.setCapacity(max)
+    if (evicted.length > 0) {
+      evicted.forEach((entry) => this.evict(entry))
+      this.version++
     }
   }
 
@@ -223,12 +408,21 @@ export class LogStore implements ILogStore {
   }
 }
 
+function snapshotIndex<K>(index: Map<K, RingBuffer<LogEntry>>): Map<K, LogEntry[]> {
+  const snapshot = new Map<K, LogEntry[]>()
+  for (const [key, logs] of index) {
+    snapshot.set(key, logs.toArray())
+  }
+  return snapshot
+}
+
 /**
  * Creates a new LogStore instance
  *
  * @param maxLogs - Maximum number of logs to store
+ * @param persistence - Optional storage backend for persisting entries across reloads
  * @returns A new LogStore instance
  */
-export function createLogStore(maxLogs?: number): LogStore {
-  return new LogStore(maxLogs)
+export function createLogStore(maxLogs?: number, persistence?: LogPersistenceOptions | null): LogStore {
+  return new LogStore(maxLogs, persistence)
 }
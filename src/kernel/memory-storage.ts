@@ -0,0 +1,48 @@
+import type { LogSession, LogStorageBackend, PersistedLogRecord } from '../types'
+
+/**
+ * MemoryStorage is an in-memory LogStorageBackend
+ * Nothing survives a reload; use it in tests, SSR and environments without IndexedDB.
+ * Sharing one instance between kernels simulates a reload.
+ */
+export class MemoryStorage implements LogStorageBackend {
+  private sessions: Map<string, LogSession> = new Map()
+  private records: Map<string, PersistedLogRecord[]> = new Map()
+
+  async listSessions(): Promise<LogSession[]> {
+    return Array.from(this.sessions.values(), (session) => ({ ...session }))
+  }
+
+  async loadEntries(sessionId: string): Promise<PersistedLogRecord[]> {
+    return [...(this.records.get(sessionId) ?? [])]
+  }
+
+  async append(session: LogSession, records: PersistedLogRecord[], maxEntries: number): Promise<void> {
+    this.sessions.set(session.id, { ...session })
+
+    const stored = [...(this.records.get(session.id) ?? []), ...records]
+    this.records.set(session.id, maxEntries > 0 ? stored.slice(-maxEntries) : [])
+  }
+
+  async clearEntries(sessionId: string): Promise<void> {
+    this.records.delete(sessionId)
+  }
+
+  async deleteSession(sessionId: string): Promise<void> {
+    this.sessions.delete(sessionId)
+    this.records.delete(sessionId)
+  }
+
+  close(): void {
+    // Nothing to release
+  }
+}
+
+/**
+ * Creates a new MemoryStorage instance
+ *
+ * @returns A new MemoryStorage
+ */
+export function createMemoryStorage(): MemoryStorage {
+  return new MemoryStorage()
+}
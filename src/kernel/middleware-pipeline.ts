@@ -0,0 +1,125 @@
+import type { Kernel, KernelMiddleware, MiddlewareNext, Unsubscribe } from '../types'
+
+/**
+ * Stage of the pipeline a middleware function runs in
+ */
+type MiddlewareStage = 'event' | 'entry'
+
+/**
+ * MiddlewarePipeline runs events and log entries through registered middleware
+ * before they reach plugins and the store
+ *
+ * Middleware runs in registration order. Each one may call `next` zero times
+ * (drop), once with the same or a modified value (pass/mutate/enrich) or
+ * several times (fan out). A middleware that throws is logged and, by default,
+ * skipped: the value it received continues down the chain unless it already
+ * called `next`. With `failClosed` the value is dropped instead.
+ * Errors thrown while delivering a value past the last middleware are logged as
+ * delivery errors, so they never reach or get blamed on a middleware.
+ */
+export class MiddlewarePipeline {
+  private middleware: KernelMiddleware[] = []
+  private kernel: Kernel | null = null
+
+  /**
+   * Set the kernel reference passed to middleware functions
+   *
+   * @param kernel - The kernel instance
+   */
+  setKernel(kernel: Kernel): void {
+    this.kernel = kernel
+  }
+
+  /**
+   * Add a middleware to the end of the pipeline
+   *
+   * @param middleware - The middleware to add
+   * @returns Function that removes the middleware
+   * @throws Error if a middleware with the same name already exists
+   */
+  use(middleware: KernelMiddleware): Unsubscribe {
+    if (this.middleware.some((m) => m.name === middleware.name)) {
+      throw new Error(`Middleware "${middleware.name}" is already registered`)
+    }
+
+    this.middleware = [...this.middleware, middleware]
+
+    return () => {
+      this.middleware = this.middleware.filter((m) => m !== middleware)
+    }
+  }
+
+  /**
+   * Get registered middleware names in execution order
+   */
+  list(): string[] {
+    return this.middleware.map((m) => m.name)
+  }
+
+  /**
+   * Run a value through the given stage, then hand each result to the sink
+   *
+   * @param stage - Which middleware function to run
+   * @param value - The event or log entry
+   * @param sink - Receives every value that reaches the end of the chain
+   */
+  run<T>(stage: MiddlewareStage, value: T, sink: MiddlewareNext<T>): void {
+    // Snapshot so middleware added or removed mid-run does not affect this value
+    const chain = this.middleware.filter((m) => typeof m[stage] === 'function')
+    if (chain.length === 0) {
+      sink(value)
+      return
+    }
+
+    const dispatch = (index: number, current: T): void => {
+      const middleware = chain[index]
+      if (!middleware) {
+        // Caught here so it is not reported as an error of the middleware that called next
+        try {
+          sink(current)
+        } catch (error) {
+          console.error(`[ReactLog] Middleware pipeline ${stage} delivery error:`, error)
+        }
+        return
+      }
+
+      const handler = middleware[stage] as unknown as (
+        value: T,
+        next: MiddlewareNext<T>,
+        kernel: Kernel | null
+      ) => void
+      let calledNext = false
+      const next: MiddlewareNext<T> = (nextValue) => {
+        calledNext = true
+        dispatch(index + 1, nextValue)
+      }
+
+      try {
+        handler(current, next, this.kernel)
+      } catch (error) {
+        console.error(`[ReactLog] Middleware "${middleware.name}" ${stage} error:`, error)
+        if (!calledNext && !middleware.failClosed) {
+          dispatch(index + 1, current)
+        }
+      }
+    }
+
+    dispatch(0, value)
+  }
+
+  /**
+   * Remove all middleware
+   */
+  clear(): void {
+    this.middleware = []
+  }
+}
+
+/**
+ * Creates a new MiddlewarePipeline instance
+ *
+ * @returns A new MiddlewarePipeline
+ */
+export function createMiddlewarePipeline(): MiddlewarePipeline {
+  return new MiddlewarePipeline()
+}
@@ -0,0 +1,299 @@
+import type {
+  EventType,
+  LogFilter,
+  LogLevel,
+  LogQueryParseError,
+  LogQuerySuggestion,
+  ParsedLogQuery,
+  QueryCondition,
+} from '../types'
+
+/**
+ * Event types accepted by `type:`
+ */
+export const EVENT_TYPES: EventType[] = [
+  'mount',
+  'unmount',
+  'update',
+  'props-change',
+  'state-change',
+  'effect-run',
+  'effect-cleanup',
+  'context-change',
+  'error',
+  'log',
+]
+
+/**
+ * Log levels accepted by `level`, in priority order
+ */
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error']
+
+/**
+ * Filter keys and the comparisons each one accepts
+ */
+const QUERY_KEYS: Record<string, string[]> = {
+  component: [':'],
+  type: [':'],
+  level: [':', '>=', '>', '<=', '<'],
+  since: [':'],
+  prop: [':'],
+  limit: [':'],
+}
+
+/**
+ * Milliseconds per `since:` duration unit
+ */
+const DURATION_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+}
+
+/**
+ * Maximum number of suggestions returned
+ */
+const MAX_SUGGESTIONS = 8
+
+/**
+ * A whitespace-separated token with its position in the input
+ */
+interface Token {
+  text: string
+  start: number
+  end: number
+}
+
+/**
+ * Splits input on whitespace, keeping double-quoted sections together
+ */
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = []
+  const pattern = /(?:[^\s"]+|"[^"]*"?)+/g
+  let match: RegExpExecArray | null
+
+  while ((match = pattern.exec(input)) !== null) {
+    tokens.push({ text: match[0], start: match.index, end: match.index + match[0].length })
+  }
+
+  return tokens
+}
+
+function unquote(value: string): string {
+  return value.replace(/"/g, '')
+}
+
+/**
+ * Converts a `*`/`?` glob into an anchored, case-insensitive pattern source
+ */
+function globToPattern(glob: string): string {
+  return glob
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*')
+    .replace(/\?/g, '.')
+}
+
+function parseDuration(value: string): number | null {
+  const match = /^(\d+(?:\.\d+)?)(ms|s|m|h|d)$/.exec(value)
+  if (!match) return null
+  return Number(match[1]) * (DURATION_UNITS[match[2] as string] as number)
+}
+
+function selectLevels(op: string, level: LogLevel): LogLevel[] {
+  const index = LOG_LEVELS.indexOf(level)
+  switch (op) {
+    case '>=':
+      return LOG_LEVELS.slice(index)
+    case '>':
+      return LOG_LEVELS.slice(index + 1)
+    case '<=':
+      return LOG_LEVELS.slice(0, index + 1)
+    case '<':
+      return LOG_LEVELS.slice(0, index)
+    default:
+      return [level]
+  }
+}
+
+/**
+ * Parses the panel filter language into a LogFilter
+ *
+ * Terms are separated by spaces; anything that is not a `key:value` term is
+ * free text matched against component names, event types and messages.
+ *
+ * - `component:Cart*` - component name glob (`*`, `?`), comma-separated alternatives
+ * - `type:state-change` - event types, comma-separated
+ * - `level>=warn` - log level, with `:`, `>=`, `>`, `<=` or `<`
+ * - `since:30s` - entries from the last `ms`/`s`/`m`/`h`/`d`
+ * - `prop:items` - props-change entries where one of these props changed
+ * - `limit:50` - keep only the most recent entries
+ *
+ * Invalid terms are reported in `errors` with their position and left out of the filter.
+ *
+ * @param input - Query text
+ * @param now - Reference time for `since:`
+ * @returns The filter and any validation errors
+ */
+export function parseLogQuery(input: string, now: number = Date.now()): ParsedLogQuery {
+  const filter: LogFilter = {}
+  const errors: LogQueryParseError[] = []
+  const components: string[] = []
+  const types: EventType[] = []
+  const levels = new Set<LogLevel>()
+  const props: string[] = []
+  const text: string[] = []
+
+  const fail = (token: Token, message: string): void => {
+    errors.push({ message, start: token.start, end: token.end })
+  }
+
+  for (const token of tokenize(input)) {
+    const match = /^([a-zA-Z]+)(>=|<=|>|<|:)(.*)$/.exec(token.text)
+    if (!match) {
+      text.push(unquote(token.text))
+      continue
+    }
+
+    const [, rawKey, op, rawValue] = match as unknown as [string, string, string, string]
+    const key = rawKey.toLowerCase()
+    const value = unquote(rawValue)
+    const allowedOps = QUERY_KEYS[key]
+
+    if (!allowedOps) {
+      fail(token, `Unknown filter "${rawKey}"`)
+      continue
+    }
+    if (!allowedOps.includes(op)) {
+      fail(token, `"${key}" does not support "${op}"`)
+      continue
+    }
+    if (value === '') {
+      fail(token, `Missing value for "${key}"`)
+      continue
+    }
+
+    const values = value.split(',').filter(Boolean)
+
+    switch (key) {
+      case 'component':
+        components.push(...values)
+        break
+
+      case 'type': {
+        const invalid = values.find((v) => !EVENT_TYPES.includes(v as EventType))
+        if (invalid) {
+          fail(token, `Unknown event type "${invalid}"`)
+        } else {
+          types.push(...(values as EventType[]))
+        }
+        break
+      }
+
+      case 'level': {
+        const invalid = values.find((v) => !LOG_LEVELS.includes(v as LogLevel))
+        if (invalid) {
+          fail(token, `Unknown level "${invalid}"`)
+        } else if (op !== ':' && values.length > 1) {
+          fail(token, `"level${op}" takes a single level`)
+        } else {
+          for (const level of values) {
+            selectLevels(op, level as LogLevel).forEach((l) => levels.add(l))
+          }
+        }
+        break
+      }
+
+      case 'since': {
+        const duration = parseDuration(value)
+        if (duration === null) {
+          fail(token, `Invalid duration "${value}", use e.g. 500ms, 30s, 5m, 1h or 1d`)
+        } else {
+          filter.timeRange = { start: now - duration, end: Infinity }
+        }
+        break
+      }
+
+      case 'prop':
+        props.push(...values)
+        break
+
+      case 'limit': {
+        const limit = Number(value)
+        if (!Number.isInteger(limit) || limit <= 0) {
+          fail(token, `Invalid limit "${value}", expected a positive integer`)
+        } else {
+          filter.limit = limit
+        }
+        break
+      }
+    }
+  }
+
+  if (components.length > 0) {
+    filter.componentName = new RegExp(`^(?:${components.map(globToPattern).join('|')})$`, 'i')
+  }
+  if (types.length > 0) {
+    filter.eventType = types
+  }
+  if (levels.size > 0) {
+    filter.level = LOG_LEVELS.filter((level) => levels.has(level))
+  }
+  if (props.length > 0) {
+    const condition: QueryCondition = { field: 'event.changes.key', op: 'in', value: props }
+    filter.where = condition
+  }
+  if (text.length > 0) {
+    filter.search = text.join(' ')
+  }
+
+  return { filter, errors }
+}
+
+/**
+ * Suggests completions for the last term of a query
+ *
+ * @param input - Query text, completed at its end
+ * @param componentNames - Known component names offered after `component:`
+ * @returns Suggestions, each with the full input it would produce
+ */
+export function suggestLogQuery(input: string, componentNames: string[] = []): LogQuerySuggestion[] {
+  const tokenStart = /\S*$/.exec(input)?.index ?? input.length
+  const prefix = input.slice(0, tokenStart)
+  const current = input.slice(tokenStart)
+  const complete = (term: string, label: string, final: boolean): LogQuerySuggestion => ({
+    label,
+    value: prefix + term + (final ? ' ' : ''),
+  })
+
+  const match = /^([a-zA-Z]+)(>=|<=|>|<|:)([^,]*,)*([^,]*)$/.exec(current)
+  if (!match) {
+    const lower = current.toLowerCase()
+    return Object.entries(QUERY_KEYS)
+      .flatMap(([key, ops]) => ops.map((op) => key + op))
+      .filter((term) => term.startsWith(lower) && term !== lower)
+      .slice(0, MAX_SUGGESTIONS)
+      .map((term) => complete(term, term, false))
+  }
+
+  const [, rawKey, op, , partial = ''] = match
+  const key = (rawKey as string).toLowerCase()
+  const head = current.slice(0, current.length - partial.length)
+  const candidates =
+    key === 'component'
+      ? Array.from(new Set(componentNames)).sort()
+      : key === 'type'
+        ? EVENT_TYPES
+        : key === 'level'
+          ? LOG_LEVELS
+          : key === 'since'
+            ? ['30s', '1m', '5m', '1h']
+            : []
+  const lower = partial.toLowerCase()
+
+  return candidates
+    .filter((candidate) => candidate.toLowerCase().startsWith(lower) && candidate !== partial)
+    .slice(0, MAX_SUGGESTIONS)
+    .map((candidate) => complete(head + candidate, `${key}${op}${candidate}`, true))
+}
@@ -0,0 +1,445 @@
+import type {
+  EventType,
+  FieldCondition,
+  LogEntry,
+  LogFilter,
+  LogQuery as ILogQuery,
+  QueryCondition,
+  QueryOperator,
+  QueryPage,
+  SortDirection,
+} from '../types'
+
+/**
+ * Entries a query runs over, with the indexes it may use
+ */
+export interface QuerySource {
+  entries: LogEntry[]
+  byComponent?: Pick<Map<string, LogEntry[]>, 'get'>
+  byType?: Pick<Map<EventType, LogEntry[]>, 'get'>
+  /** Insertion position of an entry, used for merging index lists and stable ordering */
+  ordinal: (entry: LogEntry) => number
+}
+
+/**
+ * Compiled condition
+ */
+type Predicate = (entry: LogEntry) => boolean
+
+/**
+ * A single orderBy clause
+ */
+interface OrderKey {
+  field: string
+  direction: SortDirection
+}
+
+/**
+ * Fields backed by a LogStore index
+ */
+const INDEXED_FIELDS: Record<string, 'byComponent' | 'byType'> = {
+  'componentId': 'byComponent',
+  'event.componentId': 'byComponent',
+  'event.type': 'byType',
+}
+
+function isFieldCondition(condition: QueryCondition): condition is FieldCondition {
+  return typeof condition === 'object' && 'field' in condition
+}
+
+/**
+ * Resolves a dot path against a value
+ * Arrays along the path fan out, and an array at the end of the path yields
+ * both the array and its elements.
+ *
+ * @param target - The value to read from
+ * @param path - Dot-separated path (`event.changes.key`)
+ * @returns Every value found at the path
+ */
+export function getFieldValues(target: unknown, path: string): unknown[] {
+  let values: unknown[] = [target]
+
+  for (const segment of path.split('.')) {
+    const next: unknown[] = []
+    for (const value of values) {
+      if (value === null || typeof value !== 'object') continue
+      const child = (value as Record<string, unknown>)[segment]
+      if (Array.isArray(child)) {
+        next.push(child, ...child)
+      } else if (child !== undefined) {
+        next.push(child)
+      }
+    }
+    values = next
+  }
+
+  return values
+}
+
+function compareOrdered(actual: unknown, expected: unknown): number | null {
+  if (typeof actual === 'number' && typeof expected === 'number') return actual - expected
+  if (typeof actual === 'string' && typeof expected === 'string') {
+    return actual < expected ? -1 : actual > expected ? 1 : 0
+  }
+  return null
+}
+
+function compileOperator(op: QueryOperator, expected: unknown): (actual: unknown) => boolean {
+  switch (op) {
+    case 'eq':
+    case 'neq':
+      return (actual) => actual === expected
+    case 'gt':
+      return (actual) => (compareOrdered(actual, expected) ?? 0) > 0
+    case 'gte':
+      return (actual) => (compareOrdered(actual, expected) ?? -1) >= 0
+    case 'lt':
+      return (actual) => (compareOrdered(actual, expected) ?? 0) < 0
+    case 'lte':
+      return (actual) => (compareOrdered(actual, expected) ?? 1) <= 0
+    case 'in': {
+      const allowed = new Set(Array.isArray(expected) ? expected : [expected])
+      return (actual) => allowed.has(actual)
+    }
+    case 'contains':
+      return (actual) => typeof actual === 'string' && actual.includes(String(expected))
+    case 'matches': {
+      const pattern =
+        expected instanceof RegExp
+          ? new RegExp(expected.source, expected.flags.replace('g', ''))
+          : new RegExp(String(expected))
+      return (actual) => typeof actual === 'string' && pattern.test(actual)
+    }
+    case 'exists':
+      return () => true
+  }
+}
+
+function compileField(condition: FieldCondition): Predicate {
+  const { field, op, value } = condition
+  const matches = compileOperator(op, value)
+
+  if (op === 'exists') {
+    const shouldExist = value !== false
+    return (entry) => getFieldValues(entry, field).length > 0 === shouldExist
+  }
+  if (op === 'neq') {
+    return (entry) => !getFieldValues(entry, field).some(matches)
+  }
+  return (entry) => getFieldValues(entry, field).some(matches)
+}
+
+/**
+ * Compiles a condition tree into a predicate
+ *
+ * @param condition - The condition to compile
+ * @returns Predicate testing a log entry
+ */
+export function compileCondition(condition: QueryCondition): Predicate {
+  if (typeof condition === 'function') return condition
+  if (isFieldCondition(condition)) return compileField(condition)
+
+  if ('and' in condition) {
+    const parts = condition.and.map(compileCondition)
+    return (entry) => parts.every((part) => part(entry))
+  }
+  if ('or' in condition) {
+    const parts = condition.or.map(compileCondition)
+    return (entry) => parts.some((part) => part(entry))
+  }
+
+  const inner = compileCondition(condition.not)
+  return (entry) => !inner(entry)
+}
+
+/**
+ * Collects the indexable field conditions that every match must satisfy
+ */
+function collectIndexTerms(condition: QueryCondition | null, terms: FieldCondition[]): void {
+  if (!condition || typeof condition === 'function') return
+
+  if (isFieldCondition(condition)) {
+    if (condition.field in INDEXED_FIELDS && (condition.op === 'eq' || condition.op === 'in')) {
+      terms.push(condition)
+    }
+    return
+  }
+
+  if ('and' in condition) {
+    for (const part of condition.and) collectIndexTerms(part, terms)
+  }
+}
+
+function compareSortValues(a: unknown, b: unknown): number {
+  const aMissing = a === undefined || a === null
+  const bMissing = b === undefined || b === null
+  if (aMissing || bMissing) {
+    return aMissing === bMissing ? 0 : aMissing ? 1 : -1
+  }
+  return compareOrdered(a, b) ?? compareOrdered(String(a), String(b)) as number
+}
+
+/**
+ * Reads a page cursor: the sort values of the last entry on the previous page
+ * followed by its ordinal
+ *
+ * @param cursor - `nextCursor` of a previous page
+ * @param length - Number of sort keys plus one
+ * @returns The parsed sort key
+ * @throws When the cursor did not come from a page of a query with the same order
+ */
+function parseCursor(cursor: string, length: number): unknown[] {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(cursor)
+  } catch {
+    parsed = null
+  }
+  if (!Array.isArray(parsed) || parsed.length !== length || typeof parsed[length - 1] !== 'number') {
+    throw new Error(`Invalid page cursor ${JSON.stringify(cursor)}: pass the nextCursor of a page from the same query`)
+  }
+  return parsed
+}
+
+/**
+ * LogQuery builds and runs queries over a LogStore
+ *
+ * Conditions combine with `where`/`and` (AND), `or` and `not`. Equality and
+ * `in` conditions on `componentId` or `event.type` that every result must
+ * satisfy narrow the scan to the matching index lists; everything else is
+ * evaluated in a single pass over those candidates.
+ */
+export class LogQuery implements ILogQuery {
+  private source: QuerySource
+  private condition: QueryCondition | null = null
+  private order: OrderKey[] = []
+  private skip = 0
+  private take: number | null = null
+  private cursor: string | null = null
+
+  constructor(source: QuerySource) {
+    this.source = source
+  }
+
+  where(condition: QueryCondition): this
+  where(field: string, op: QueryOperator, value?: unknown): this
+  where(conditionOrField: QueryCondition | string, op?: QueryOperator, value?: unknown): this {
+    return this.and(toCondition(conditionOrField, op, value))
+  }
+
+  and(condition: QueryCondition): this
+  and(field: string, op: QueryOperator, value?: unknown): this
+  and(conditionOrField: QueryCondition | string, op?: QueryOperator, value?: unknown): this {
+    const condition = toCondition(conditionOrField, op, value)
+    this.condition = this.condition ? { and: [this.condition, condition] } : condition
+    return this
+  }
+
+  or(condition: QueryCondition): this
+  or(field: string, op: QueryOperator, value?: unknown): this
+  or(conditionOrField: QueryCondition | string, op?: QueryOperator, value?: unknown): this {
+    const condition = toCondition(conditionOrField, op, value)
+    this.condition = this.condition ? { or: [this.condition, condition] } : condition
+    return this
+  }
+
+  not(condition: QueryCondition): this {
+    return this.and({ not: condition })
+  }
+
+  orderBy(field: string, direction: SortDirection = 'asc'): this {
+    this.order.push({ field, direction })
+    return this
+  }
+
+  offset(count: number): this {
+    this.skip = Math.max(0, count)
+    return this
+  }
+
+  limit(count: number): this {
+    this.take = Math.max(0, count)
+    return this
+  }
+
+  after(cursor: string | null): this {
+    this.cursor = cursor
+    return this
+  }
+
+  run(): LogEntry[] {
+    const sorted = this.execute()
+    const start = this.startAfter(sorted, this.cursor) + this.skip
+    return this.take === null
+      ? sorted.slice(start)
+      : sorted.slice(start, start + this.take)
+  }
+
+  count(): number {
+    return this.filter().length
+  }
+
+  first(): LogEntry | null {
+    const sorted = this.execute()
+    return sorted[this.startAfter(sorted, this.cursor) + this.skip] ?? null
+  }
+
+  page(size: number, cursor: string | null = null): QueryPage {
+    const sorted = this.execute()
+    const start = this.startAfter(sorted, cursor ?? this.cursor)
+
+    const entries = sorted.slice(start, start + size)
+    const last = entries[entries.length - 1]
+    const hasMore = start + size < sorted.length
+
+    return {
+      entries,
+      nextCursor: hasMore && last ? JSON.stringify(this.sortKey(last)) : null,
+    }
+  }
+
+  /**
+   * Index of the first sorted entry after a page cursor, 0 without one
+   */
+  private startAfter(sorted: LogEntry[], cursor: string | null): number {
+    if (!cursor) return 0
+    const after = parseCursor(cursor, this.order.length + 1)
+    const start = sorted.findIndex((entry) => this.compareKeys(this.sortKey(entry), after) > 0)
+    return start === -1 ? sorted.length : start
+  }
+
+  /**
+   * Smallest index list that contains every possible match
+   */
+  private candidates(): LogEntry[] {
+    const terms: FieldCondition[] = []
+    collectIndexTerms(this.condition, terms)
+
+    let best = this.source.entries
+    for (const term of terms) {
+      const index = this.source[INDEXED_FIELDS[term.field] as 'byComponent' | 'byType'] as
+        | Pick<Map<unknown, LogEntry[]>, 'get'>
+        | undefined
+      if (!index) continue
+
+      const keys = term.op === 'in' && Array.isArray(term.value) ? term.value : [term.value]
+      const lists = keys.map((key) => index.get(key) ?? [])
+      const merged =
+        lists.length === 1
+          ? (lists[0] as LogEntry[])
+          : lists.flat().sort((a, b) => this.source.ordinal(a) - this.source.ordinal(b))
+
+      if (merged.length < best.length) best = merged
+    }
+
+    return best
+  }
+
+  private filter(): LogEntry[] {
+    const candidates = this.candidates()
+    if (!this.condition) return [...candidates]
+
+    const predicate = compileCondition(this.condition)
+    return candidates.filter(predicate)
+  }
+
+  private execute(): LogEntry[] {
+    const results = this.filter()
+    if (this.order.length === 0) return results
+
+    const keys = new Map(results.map((entry) => [entry, this.sortKey(entry)]))
+    return results.sort((a, b) => this.compareKeys(keys.get(a) as unknown[], keys.get(b) as unknown[]))
+  }
+
+  /**
+   * Sort values of an entry followed by its ordinal, which also serves as the page cursor
+   */
+  private sortKey(entry: LogEntry): unknown[] {
+    return [
+      ...this.order.map(({ field }) => getFieldValues(entry, field)[0] ?? null),
+      this.source.ordinal(entry),
+    ]
+  }
+
+  private compareKeys(a: unknown[], b: unknown[]): number {
+    for (let i = 0; i < this.order.length; i++) {
+      const result = compareSortValues(a[i], b[i])
+      if (result !== 0) {
+        return (this.order[i] as OrderKey).direction === 'desc' ? -result : result
+      }
+    }
+
+    // Ties keep insertion order, reversed when the primary order is descending
+    const tie = (a[this.order.length] as number) - (b[this.order.length] as number)
+    return this.order[0]?.direction === 'desc' ? -tie : tie
+  }
+}
+
+function toCondition(
+  conditionOrField: QueryCondition | string,
+  op?: QueryOperator,
+  value?: unknown
+): QueryCondition {
+  if (typeof conditionOrField === 'string') {
+    return { field: conditionOrField, op: op ?? 'exists', value }
+  }
+  return conditionOrField
+}
+
+/**
+ * Narrows a query by a LogFilter and runs it
+ *
+ * @param query - Query to add the filter's conditions to
+ * @param filter - Filter criteria
+ * @returns Matching entries, the most recent `limit` ones when a limit is set
+ */
+export function applyLogFilter(query: ILogQuery, filter: LogFilter): LogEntry[] {
+  if (filter.componentName !== undefined) {
+    query.where('componentName', filter.componentName instanceof RegExp ? 'matches' : 'eq', filter.componentName)
+  }
+
+  if (filter.eventType !== undefined) {
+    query.where('event.type', 'in', Array.isArray(filter.eventType) ? filter.eventType : [filter.eventType])
+  }
+
+  if (filter.level !== undefined) {
+    query.where('level', 'in', Array.isArray(filter.level) ? filter.level : [filter.level])
+  }
+
+  if (filter.timeRange !== undefined) {
+    query.where('timestamp', 'gte', filter.timeRange.start).where('timestamp', 'lte', filter.timeRange.end)
+  }
+
+  if (filter.search) {
+    const search = filter.search.toLowerCase()
+    query.where(
+      (entry) =>
+        entry.componentName.toLowerCase().includes(search) ||
+        entry.event.type.includes(search) ||
+        entry.formatted.toLowerCase().includes(search)
+    )
+  }
+
+  if (filter.where !== undefined) {
+    query.where(filter.where)
+  }
+
+  const result = query.run()
+
+  // Apply limit, keeping the most recent entries
+  if (filter.limit !== undefined && filter.limit > 0) {
+    return result.slice(-filter.limit)
+  }
+
+  return result
+}
+
+/**
+ * Creates a new LogQuery over the given source
+ *
+ * @param source - Entries and indexes to query
+ * @returns A new LogQuery
+ */
+export function createLogQuery(source: QuerySource): LogQuery {
+  return new LogQuery(source)
+}
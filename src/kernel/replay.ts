@@ -0,0 +1,167 @@
+import type { EventType, ExportData, LogEntry, LogLevel, ReplaySession } from '../types'
+import { EVENT_TYPES, LOG_LEVELS } from './query-language'
+
+/**
+ * Throws the error for an unreadable export
+ */
+function invalid(reason: string): never {
+  throw new Error(`Invalid ReactLog export: ${reason}`)
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * JSON types an event field can be checked against, as named in errors
+ */
+const TYPE_NAMES = {
+  string: 'a string',
+  number: 'a number',
+  boolean: 'a boolean',
+  object: 'an object',
+  array: 'an array',
+}
+
+/**
+ * Expected shape of an event field: a JSON type or the allowed string values
+ */
+type FieldCheck = keyof typeof TYPE_NAMES | readonly string[]
+
+function hasType(value: unknown, type: keyof typeof TYPE_NAMES): boolean {
+  switch (type) {
+    case 'object':
+      return isRecord(value)
+    case 'array':
+      return Array.isArray(value)
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value)
+    default:
+      return typeof value === type
+  }
+}
+
+/**
+ * Fields every event carries; a trailing `?` marks an optional field
+ */
+const BASE_FIELDS: Record<string, FieldCheck> = {
+  componentId: 'string',
+  componentName: 'string',
+  timestamp: 'number',
+  'meta?': 'object',
+}
+
+/**
+ * Fields each event type adds. Values typed `unknown`, such as `prevState`,
+ * are not checked because JSON drops them when undefined.
+ */
+const EVENT_FIELDS: Record<EventType, Record<string, FieldCheck>> = {
+  'mount': { props: 'object', initialState: 'object', 'initialContext?': 'object', 'parentId?': 'string' },
+  'unmount': { lifetime: 'number' },
+  'update': {
+    reason: ['props', 'state', 'context', 'parent', 'force'],
+    renderCount: 'number',
+    'changedKeys?': 'array',
+  },
+  'props-change': { changes: 'array' },
+  'state-change': {
+    hookIndex: 'number',
+    hookType: ['useState', 'useReducer'],
+    'updateType?': ['value', 'function', 'dispatch'],
+  },
+  'effect-run': { effectIndex: 'number', dependencies: 'array', dependenciesChanged: 'array' },
+  'effect-cleanup': { effectIndex: 'number', reason: ['unmount', 'deps-change'] },
+  'context-change': { contextName: 'string' },
+  'error': { error: 'object', errorInfo: 'object', recovered: 'boolean' },
+  'log': { level: LOG_LEVELS, message: 'string', 'tags?': 'array' },
+}
+
+/**
+ * Fields of each `props-change` entry in `changes`
+ */
+const PROP_CHANGE_FIELDS: Record<string, FieldCheck> = { key: 'string', isDeepEqual: 'boolean' }
+
+/**
+ * Checks the fields of an object against their expected shapes
+ */
+function checkFields(value: Record<string, unknown>, fields: Record<string, FieldCheck>, path: string): void {
+  for (const [name, check] of Object.entries(fields)) {
+    const optional = name.endsWith('?')
+    const key = optional ? name.slice(0, -1) : name
+    const field = value[key]
+    if (optional && field === undefined) continue
+
+    if (typeof check === 'string') {
+      if (!hasType(field, check)) invalid(`${path}.${key} must be ${TYPE_NAMES[check]}`)
+    } else if (!check.includes(field as string)) {
+      invalid(`${path}.${key} must be one of ${check.join(', ')}`)
+    }
+  }
+}
+
+/**
+ * Checks the fields the panel, queries and plugins read from every entry and
+ * the payload of its event type
+ */
+function readEntry(value: unknown, index: number): LogEntry {
+  const path = `logs[${index}]`
+  if (!isRecord(value)) invalid(`${path} must be an object`)
+
+  for (const key of ['id', 'componentId', 'componentName', 'formatted']) {
+    if (typeof value[key] !== 'string') invalid(`${path}.${key} must be a string`)
+  }
+  if (typeof value['timestamp'] !== 'number' || !Number.isFinite(value['timestamp'])) {
+    invalid(`${path}.timestamp must be a number`)
+  }
+  if (!LOG_LEVELS.includes(value['level'] as LogLevel)) {
+    invalid(`${path}.level must be one of ${LOG_LEVELS.join(', ')}`)
+  }
+  const event = value['event']
+  if (!isRecord(event) || !EVENT_TYPES.includes(event['type'] as EventType)) {
+    invalid(`${path}.event.type must be a known event type`)
+  }
+  checkFields(event, { ...BASE_FIELDS, ...EVENT_FIELDS[event['type'] as EventType] }, `${path}.event`)
+  if (event['type'] === 'props-change') {
+    (event['changes'] as unknown[]).forEach((change, i) => {
+      const changePath = `${path}.event.changes[${i}]`
+      if (!isRecord(change)) invalid(`${changePath} must be an object`)
+      checkFields(change, PROP_CHANGE_FIELDS, changePath)
+    })
+  }
+
+  return value as unknown as LogEntry
+}
+
+/**
+ * Reads a bundle written by `fileExporter().exportJSON()` or `exportLogs()`
+ *
+ * @param data - Parsed bundle or its JSON text
+ * @returns The recorded session, entries sorted oldest first
+ * @throws Error naming the first field that does not match the export format
+ */
+export function readExportBundle(data: ExportData | string): ReplaySession {
+  let bundle: unknown = data
+  if (typeof data === 'string') {
+    try {
+      bundle = JSON.parse(data)
+    } catch {
+      invalid('not valid JSON')
+    }
+  }
+  if (!isRecord(bundle)) invalid('expected an object')
+
+  // fileExporter writes `logs` and `metadata`, exportLogs() writes `entries` and `startTime`
+  const logs = bundle['logs'] ?? bundle['entries']
+  if (!Array.isArray(logs)) invalid('missing logs array')
+
+  const entries = logs.map(readEntry).sort((a, b) => a.timestamp - b.timestamp)
+  const metadata = bundle['metadata']
+  const startTime = isRecord(metadata)
+    ? Date.parse(String(metadata['sessionStart']))
+    : Number(bundle['startTime'])
+
+  return {
+    startTime: Number.isFinite(startTime) && startTime > 0 ? startTime : (entries[0]?.timestamp ?? 0),
+    entries,
+  }
+}
@@ -0,0 +1,153 @@
+/**
+ * Initial slot count; storage doubles from here up to the capacity
+ */
+const INITIAL_SLOTS = 16
+
+/**
+ * RingBuffer is a FIFO queue with a fixed capacity
+ * Pushing onto a full buffer overwrites the oldest item, and both ends are
+ * updated in constant time. Storage grows geometrically until it reaches the
+ * capacity, so a large capacity costs nothing until it is used.
+ */
+export class RingBuffer<T> {
+  private items: Array<T | undefined> = []
+  private head = 0
+  private count = 0
+  private capacity: number
+
+  /**
+   * @param capacity - Maximum number of items, Infinity for an unbounded queue
+   */
+  constructor(capacity: number = Infinity) {
+    this.capacity = Math.max(0, capacity)
+  }
+
+  /**
+   * Number of items in the buffer
+   */
+  get length(): number {
+    return this.count
+  }
+
+  /**
+   * Append an item, evicting the oldest one when the buffer is full
+   *
+   * @param item - The item to append
+   * @returns The evicted item, if any
+   */
+  push(item: T): T | undefined {
+    if (this.capacity === 0) return item
+
+    let evicted: T | undefined
+    if (this.count === this.capacity) {
+      evicted = this.shift()
+    } else if (this.count === this.items.length) {
+      this.grow()
+    }
+
+    this.items[(this.head + this.count) % this.items.length] = item
+    this.count++
+    return evicted
+  }
+
+  /**
+   * Remove and return the oldest item
+   *
+   * @returns The oldest item, or undefined when empty
+   */
+  shift(): T | undefined {
+    if (this.count === 0) return undefined
+
+    const item = this.items[this.head]
+    // Release the slot so the evicted item can be collected
+    this.items[this.head] = undefined
+    this.head = (this.head + 1) % this.items.length
+    this.count--
+    return item
+  }
+
+  /**
+   * Get an item by position, 0 being the oldest
+   *
+   * @param index - Position from the oldest item
+   * @returns The item, or undefined when out of range
+   */
+  get(index: number): T | undefined {
+    if (index < 0 || index >= this.count) return undefined
+    return this.items[(this.head + index) % this.items.length]
+  }
+
+  /**
+   * Copy the items into an array, oldest first
+   *
+   * @returns A new array
+   */
+  toArray(): T[] {
+    const result = new Array<T>(this.count)
+    for (let i = 0; i < this.count; i++) {
+      result[i] = this.items[(this.head + i) % this.items.length] as T
+    }
+    return result
+  }
+
+  /**
+   * Remove every item
+   */
+  clear(): void {
+    this.items = []
+    this.head = 0
+    this.count = 0
+  }
+
+  getCapacity(): number {
+    return this.capacity
+  }
+
+  /**
+   * Change the capacity, evicting the oldest items that no longer fit
+   *
+   * @param capacity - New maximum number of items
+   * @returns The evicted items, oldest first
+   */
+  setCapacity(capacity: number): T[] {
+    this.capacity = Math.max(0, capacity)
+
+    const evicted: T[] = []
+    while (this.count > this.capacity) {
+      evicted.push(this.shift() as T)
+    }
+
+    if (this.items.length > this.capacity) {
+      this.items = this.toArray()
+      this.head = 0
+    }
+    return evicted
+  }
+
+  *[Symbol.iterator](): IterableIterator<T> {
+    for (let i = 0; i < this.count; i++) {
+      yield this.items[(this.head + i) % this.items.length] as T
+    }
+  }
+
+  /**
+   * Double the storage, up to the capacity, unwrapping items to start at slot 0
+   */
+  private grow(): void {
+    const size = Math.min(this.capacity, Math.max(INITIAL_SLOTS, this.items.length * 2))
+    const items = this.toArray() as Array<T | undefined>
+    items.length = size
+    this.items = items
+    this.head = 0
+  }
+}
+
+/**
+ * Creates a new RingBuffer instance
+ *
+ * @param capacity - Maximum number of items, Infinity for an unbounded queue
+ * @returns A new RingBuffer instance
+ */
+export function createRingBuffer<T>(capacity?: number): RingBuffer<T> {
+  return new RingBuffer<T>(capacity)
+}
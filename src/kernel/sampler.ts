@@ -0,0 +1,226 @@
+import type {
+  EventType,
+  KernelEvent,
+  SamplingOptions,
+  SamplingSummary,
+  SuppressedComponentCount,
+} from '../types'
+
+/**
+ * Event types that are never sampled: errors, and the lifecycle events the
+ * component tree and per-component plugin state depend on
+ */
+const ALWAYS_KEPT: ReadonlySet<EventType> = new Set<EventType>(['error', 'mount', 'unmount'])
+
+/**
+ * Token bucket state for one component
+ */
+interface TokenBucket {
+  tokens: number
+  lastRefill: number
+}
+
+/**
+ * Fixed burst window state for one component
+ */
+interface BurstWindow {
+  start: number
+  count: number
+}
+
+/**
+ * EventSampler decides which events are kept under the configured policies
+ * and counts what it suppresses for periodic summaries
+ *
+ * Policies are checked in order: per-type rate, first-N-then-every-Nth,
+ * burst window, then the per-component token bucket, so tokens are only
+ * spent on events every other policy kept.
+ */
+export class EventSampler {
+  private options: SamplingOptions
+  private typeCounts: Map<string, Map<EventType, number>> = new Map()
+  private buckets: Map<string, TokenBucket> = new Map()
+  private bursts: Map<string, BurstWindow> = new Map()
+  private suppressed: Map<string, SuppressedComponentCount> = new Map()
+  private suppressedSince: number | null = null
+
+  constructor(options: SamplingOptions = {}) {
+    this.options = options
+  }
+
+  /**
+   * Replace the sampling policies, keeping counters and pending suppressions
+   *
+   * @param options - New sampling options
+   */
+  configure(options: SamplingOptions): void {
+    this.options = options
+  }
+
+  /**
+   * Check whether any sampling policy is configured
+   */
+  isActive(): boolean {
+    const { rates, perComponent, firstThenEvery, burst } = this.options
+    return Boolean(rates || perComponent || firstThenEvery || burst)
+  }
+
+  /**
+   * Get the delay before a summary of suppressed events is emitted
+   */
+  getSummaryInterval(): number {
+    return this.options.summaryInterval ?? 5000
+  }
+
+  /**
+   * Decide whether an event is kept, recording it as suppressed otherwise
+   *
+   * @param event - The emitted event
+   * @returns true if the event should be processed
+   */
+  shouldKeep(event: KernelEvent): boolean {
+    // Forget per-component state once the component is gone
+    if (event.type === 'unmount') {
+      this.forgetComponent(event.componentId)
+    }
+
+    if (ALWAYS_KEPT.has(event.type) || !this.isActive()) return true
+
+    const keep =
+      this.passesRate(event.type) &&
+      this.passesFirstThenEvery(event) &&
+      this.passesBurst(event) &&
+      this.passesTokenBucket(event)
+
+    if (!keep) {
+      this.recordSuppressed(event)
+    }
+
+    return keep
+  }
+
+  /**
+   * Take the summary of events suppressed since the last call
+   *
+   * @returns The summary, or null if nothing was suppressed
+   */
+  takeSummary(): SamplingSummary | null {
+    if (this.suppressed.size === 0 || this.suppressedSince === null) return null
+
+    const components = Array.from(this.suppressed.values()).sort((a, b) => b.count - a.count)
+    const summary: SamplingSummary = {
+      total: components.reduce((sum, c) => sum + c.count, 0),
+      since: this.suppressedSince,
+      until: Date.now(),
+      components,
+    }
+
+    this.suppressed.clear()
+    this.suppressedSince = null
+    return summary
+  }
+
+  /**
+   * Clear all sampling state
+   */
+  reset(): void {
+    this.typeCounts.clear()
+    this.buckets.clear()
+    this.bursts.clear()
+    this.suppressed.clear()
+    this.suppressedSince = null
+  }
+
+  private passesRate(type: EventType): boolean {
+    const rate = this.options.rates?.[type]
+    if (rate === undefined) return true
+    return Math.random() < rate
+  }
+
+  private passesFirstThenEvery(event: KernelEvent): boolean {
+    const policy = this.options.firstThenEvery
+    if (!policy) return true
+
+    let counts = this.typeCounts.get(event.componentId)
+    if (!counts) {
+      counts = new Map()
+      this.typeCounts.set(event.componentId, counts)
+    }
+    const count = (counts.get(event.type) ?? 0) + 1
+    counts.set(event.type, count)
+
+    if (count <= policy.first) return true
+    return policy.every > 0 && (count - policy.first) % policy.every === 0
+  }
+
+  private passesBurst(event: KernelEvent): boolean {
+    const policy = this.options.burst
+    if (!policy) return true
+
+    const now = Date.now()
+    let window = this.bursts.get(event.componentId)
+    if (!window || now - window.start >= policy.windowMs) {
+      window = { start: now, count: 0 }
+      this.bursts.set(event.componentId, window)
+    }
+
+    window.count++
+    return window.count <= policy.threshold
+  }
+
+  private passesTokenBucket(event: KernelEvent): boolean {
+    const policy = this.options.perComponent
+    if (!policy) return true
+
+    const now = Date.now()
+    let bucket = this.buckets.get(event.componentId)
+    if (!bucket) {
+      bucket = { tokens: policy.capacity, lastRefill: now }
+      this.buckets.set(event.componentId, bucket)
+    }
+
+    const refill = ((now - bucket.lastRefill) / 1000) * policy.refillPerSecond
+    bucket.tokens = Math.min(policy.capacity, bucket.tokens + refill)
+    bucket.lastRefill = now
+
+    if (bucket.tokens < 1) return false
+    bucket.tokens -= 1
+    return true
+  }
+
+  private recordSuppressed(event: KernelEvent): void {
+    if (this.suppressedSince === null) {
+      this.suppressedSince = Date.now()
+    }
+
+    let record = this.suppressed.get(event.componentId)
+    if (!record) {
+      record = {
+        componentId: event.componentId,
+        componentName: event.componentName,
+        count: 0,
+        byType: {},
+      }
+      this.suppressed.set(event.componentId, record)
+    }
+
+    record.count++
+    record.byType[event.type] = (record.byType[event.type] ?? 0) + 1
+  }
+
+  private forgetComponent(componentId: string): void {
+    this.buckets.delete(componentId)
+    this.bursts.delete(componentId)
+    this.typeCounts.delete(componentId)
+  }
+}
+
+/**
+ * Creates a new EventSampler instance
+ *
+ * @param options - Sampling options
+ * @returns A new EventSampler
+ */
+export function createEventSampler(options?: SamplingOptions): EventSampler {
+  return new EventSampler(options)
+}
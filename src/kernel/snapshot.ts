@@ -0,0 +1,85 @@
+import type { ComponentSnapshot, LogEntry, TimeTravelSnapshot } from '../types'
+
+/**
+ * Folds log entries up to `timestamp` into the props, state and context of
+ * every component mounted at that instant.
+ *
+ * Mount entries seed props, initial state (keyed by the hook index later
+ * state changes address) and initial context, later changes overwrite them and
+ * unmounts drop the component. A component whose mount entry was already evicted from the
+ * store still appears from its first remaining event, with `mountedAt: null`.
+ *
+ * @param entries - Log entries, oldest first
+ * @param timestamp - Instant to reconstruct; entries after it are ignored
+ * @returns The snapshot at `timestamp`
+ */
+export function buildSnapshot(entries: LogEntry[], timestamp: number): TimeTravelSnapshot {
+  const components = new Map<string, ComponentSnapshot>()
+
+  for (const entry of entries) {
+    const { event } = entry
+    if (entry.timestamp > timestamp) continue
+
+    if (event.type === 'mount') {
+      components.delete(entry.componentId)
+      components.set(entry.componentId, {
+        componentId: entry.componentId,
+        componentName: entry.componentName,
+        parentId: event.parentId ?? null,
+        mountedAt: entry.timestamp,
+        props: { ...event.props },
+        state: { ...event.initialState },
+        context: { ...event.initialContext },
+        renderCount: 1,
+        lastEventAt: entry.timestamp,
+      })
+      continue
+    }
+    if (event.type === 'unmount') {
+      components.delete(entry.componentId)
+      continue
+    }
+    // Messages logged outside of components are not component activity
+    if (event.type === 'log' && !components.has(entry.componentId)) continue
+
+    let component = components.get(entry.componentId)
+    if (!component) {
+      component = {
+        componentId: entry.componentId,
+        componentName: entry.componentName,
+        parentId: null,
+        mountedAt: null,
+        props: {},
+        state: {},
+        context: {},
+        renderCount: 0,
+        lastEventAt: entry.timestamp,
+      }
+      components.set(entry.componentId, component)
+    }
+    component.lastEventAt = entry.timestamp
+
+    switch (event.type) {
+      case 'update':
+        component.renderCount = event.renderCount
+        break
+      case 'props-change':
+        for (const change of event.changes) {
+          if (change.nextValue === undefined) {
+            delete component.props[change.key]
+          } else {
+            component.props[change.key] = change.nextValue
+          }
+        }
+        break
+      case 'state-change':
+        component.state[event.hookIndex] = event.nextState
+        break
+      case 'context-change':
+        component.context[event.contextName] = event.nextValue
+        break
+    }
+  }
+
+  return { timestamp, components: Array.from(components.values()) }
+}
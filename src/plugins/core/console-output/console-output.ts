@@ -9,6 +9,7 @@ import {
   formatEffectCleanupEvent,
   formatContextChangeEvent,
   formatErrorEvent,
+  formatLogEvent,
   formatTimestampForConsole,
   CONSOLE_STYLES,
 } from './formatters'
@@ -131,6 +132,9 @@ export function consoleOutput(
       case 'error':
         formatted = formatErrorEvent(event)
         break
+      case 'log':
+        formatted = formatLogEvent(event)
+        break
       default:
         return
     }
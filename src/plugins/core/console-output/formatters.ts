@@ -8,6 +8,7 @@ import type {
   EffectCleanupEvent,
   ContextChangeEvent,
   ErrorEvent,
+  LogEvent,
 } from '../../../types'
 import { formatValue, formatDuration } from '../../../utils'
 
@@ -26,6 +27,7 @@ export const CONSOLE_STYLES = {
     effectCleanup: '\uD83E\uDDF9',
     context: '\uD83C\uDF10',
     error: '\u274C',
+    log: '\uD83D\uDCDD',
     time: '\u23F1\uFE0F',
   },
 
@@ -40,6 +42,12 @@ export const CONSOLE_STYLES = {
   effect: 'color: #00bcd4',
   context: 'color: #8bc34a',
   error: 'color: #f44336; font-weight: bold',
+  log: {
+    debug: 'color: #888; font-weight: bold',
+    info: 'color: #2196f3; font-weight: bold',
+    warn: 'color: #ff9800; font-weight: bold',
+    error: 'color: #f44336; font-weight: bold',
+  },
   changed: 'color: #ff5722',
   unchanged: 'color: #888',
   label: 'color: #aaa',
@@ -86,9 +94,12 @@ export function formatUnmountEvent(event: UnmountEvent): { message: string; args
  */
 export function formatUpdateEvent(event: UpdateEvent): { message: string; args: unknown[] } {
   const icon = CONSOLE_STYLES.icons.update
+  const changed = event.changedKeys && event.changedKeys.length > 0
+    ? `: ${event.changedKeys.join(', ')}`
+    : ''
 
   return {
-    message: `%c${icon} UPDATE%c ${event.componentName} %c(${event.reason}, render #${event.renderCount})`,
+    message: `%c${icon} UPDATE%c ${event.componentName} %c(${event.reason}${changed}, render #${event.renderCount})`,
     args: [CONSOLE_STYLES.update, CONSOLE_STYLES.componentName, CONSOLE_STYLES.timestamp],
   }
 }
@@ -108,7 +119,7 @@ export function formatPropsChangeEvent(event: PropsChangeEvent): {
     const prevStr = formatValue(change.prevValue)
     const nextStr = formatValue(change.nextValue)
     return {
-      message: `  %c${change.key}:%c ${prevStr} %c\u2192%c ${nextStr}`,
+      message: `  %c${change.key}:%c ${prevStr} %c\u2192%c ${nextStr}${change.isDeepEqual ? ' (new reference, same value)' : ''}`,
       args: [CONSOLE_STYLES.label, CONSOLE_STYLES.unchanged, CONSOLE_STYLES.changed, CONSOLE_STYLES.value],
     }
   })
@@ -207,6 +218,37 @@ export function formatErrorEvent(event: ErrorEvent): { message: string; args: un
   }
 }
 
+/**
+ * Format custom log event for console
+ */
+export function formatLogEvent(event: LogEvent): {
+  message: string
+  args: unknown[]
+  details: { message: string; args: unknown[] }[]
+} {
+  const icon = CONSOLE_STYLES.icons.log
+  const details: { message: string; args: unknown[] }[] = []
+
+  if (event.data !== undefined) {
+    details.push({
+      message: `  %cdata:%c ${formatValue(event.data)}`,
+      args: [CONSOLE_STYLES.label, CONSOLE_STYLES.value],
+    })
+  }
+  if (event.tags && event.tags.length > 0) {
+    details.push({
+      message: `  %ctags:%c ${event.tags.join(', ')}`,
+      args: [CONSOLE_STYLES.label, CONSOLE_STYLES.value],
+    })
+  }
+
+  return {
+    message: `%c${icon} ${event.level.toUpperCase()}%c ${event.componentName}%c: ${event.message}`,
+    args: [CONSOLE_STYLES.log[event.level], CONSOLE_STYLES.componentName, CONSOLE_STYLES.value],
+    details,
+  }
+}
+
 /**
  * Format timestamp for console header
  */
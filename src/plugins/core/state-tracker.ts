@@ -115,6 +115,8 @@ export function stateTracker(): Plugin & { api: StateTrackerAPI } {
           type: event.hookType,
           value: event.nextState,
           prevValue: event.prevState,
+          ...(event.action !== undefined && { action: event.action }),
+          ...(event.updateType !== undefined && { updateType: event.updateType }),
         })
 
         component.changeCount++
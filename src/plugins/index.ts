@@ -3,9 +3,36 @@ export { contextTracker } from './optional/context-tracker'
 export { errorTracker } from './optional/error-tracker'
 export { renderTimer } from './optional/render-timer'
 export { renderChain } from './optional/render-chain'
+export { installDevToolsHookShim } from '../utils/fiber'
 export { panelUI } from './optional/panel-ui'
+export { parseLogQuery, suggestLogQuery } from '../kernel/query-language'
 export { fileExporter } from './optional/file-exporter'
 export { remoteLogger } from './optional/remote-logger'
+export {
+  createLocalStorageQueue,
+  createIndexedDBQueue,
+  LocalStorageQueue,
+  IndexedDBQueue,
+  type LocalStorageQueueOptions,
+  type IndexedDBQueueOptions,
+} from './optional/remote-queue'
+export {
+  createHttpTransport,
+  createWebSocketTransport,
+  createBeaconTransport,
+  createCustomTransport,
+  HttpTransport,
+  WebSocketTransport,
+  BeaconTransport,
+  type HttpTransportOptions,
+  type WebSocketTransportOptions,
+  type BeaconTransportOptions,
+  type RemoteTransportCallback,
+} from './optional/remote-transports'
+export { otelExporter, parseTraceparent } from './optional/otel-exporter'
+export { redaction } from './optional/redaction'
+export { renderStormDetector } from './optional/render-storm-detector'
+export { wastedRenders } from './optional/wasted-renders'
 
 // Re-export types for convenience
 export type {
@@ -18,10 +45,17 @@ export type {
   RenderTimerOptions,
   RenderTimerAPI,
   RenderTimeStats,
+  RenderHistogramBucket,
   RenderTimeRecord,
+  RenderTimerMode,
+  RenderPhase,
+  RenderTimingSource,
   RenderChainOptions,
   RenderChainAPI,
   RenderChainNode,
+  RenderChainSource,
+  RenderCommit,
+  FiberRenderStatus,
   PanelUIOptions,
   PanelUIAPI,
   FileExporterOptions,
@@ -29,4 +63,30 @@ export type {
   ExportData,
   RemoteLoggerOptions,
   RemoteLoggerAPI,
+  RemoteQueueSnapshot,
+  RemoteQueueStorage,
+  RemoteQueueOverflow,
+  RemoteTransport,
+  RemoteBatch,
+  RemoteEnvelope,
+  OtelExporterOptions,
+  OtelExporterAPI,
+  OtelTraceContext,
+  RedactionOptions,
+  RedactionAPI,
+  RedactionStrategy,
+  RedactionRule,
+  RedactionDetector,
+  BuiltInRedactionDetector,
+  RenderStormOptions,
+  RenderStormAPI,
+  RenderStormKind,
+  RenderStormReport,
+  EffectLoopStep,
+  WastedRendersOptions,
+  WastedRendersAPI,
+  WastedRenderRecord,
+  WastedRenderStats,
+  UnstableProp,
+  UnstablePropKind,
 } from '../types'
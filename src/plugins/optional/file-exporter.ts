@@ -6,6 +6,10 @@ import type {
   FileExporterOptions,
   FileExporterAPI,
   ExportData,
+  TraceEvent,
+  TraceData,
+  RenderTimerAPI,
+  RenderChainAPI,
 } from '../../types'
 
 /**
@@ -17,9 +21,14 @@ const DEFAULT_OPTIONS: FileExporterOptions = {
   prettyPrint: true,
 }
 
+/**
+ * All trace events belong to one process; each component gets its own thread
+ */
+const TRACE_PID = 1
+
 /**
  * Creates the file-exporter plugin
- * Exports logs to JSON/CSV files
+ * Exports logs to JSON/CSV files and Chrome traces
  */
 export function fileExporter(
   userOptions: Partial<FileExporterOptions> = {}
@@ -120,6 +129,140 @@ export function fileExporter(
     return [headers.join(','), ...rows.map((row) => row.join(','))].join('\n')
   }
 
+  function getTraceDataInternal(): TraceData {
+    const traceEvents: TraceEvent[] = [
+      { name: 'process_name', ph: 'M', ts: 0, pid: TRACE_PID, tid: 0, args: { name: 'ReactLog' } },
+    ]
+    const data: TraceData = {
+      traceEvents,
+      displayTimeUnit: 'ms',
+      otherData: { sessionId: '', exportedAt: new Date().toISOString() },
+    }
+    if (!kernel) {
+      return data
+    }
+
+    const logStore = kernel.getLogs()
+    const now = Date.now()
+    const threads = new Map<string, number>()
+    const mounted = new Map<string, LogEntry>()
+    data.otherData.sessionId = logStore.sessionId
+
+    const micros = (ms: number): number => Math.round(ms * 1000)
+    const ts = (timestamp: number): number => micros(timestamp - logStore.startTime)
+
+    function threadFor(componentId: string, componentName: string): number {
+      let tid = threads.get(componentId)
+      if (tid === undefined) {
+        tid = threads.size + 1
+        threads.set(componentId, tid)
+        traceEvents.push({ name: 'thread_name', ph: 'M', ts: 0, pid: TRACE_PID, tid, args: { name: componentName } })
+      }
+      return tid
+    }
+
+    for (const entry of logStore.entries) {
+      const { event } = entry
+      const tid = threadFor(entry.componentId, entry.componentName)
+
+      switch (event.type) {
+        case 'mount':
+          mounted.set(entry.componentId, entry)
+          break
+        case 'unmount':
+          mounted.delete(entry.componentId)
+          traceEvents.push({
+            name: entry.componentName,
+            cat: 'lifetime',
+            ph: 'X',
+            ts: ts(entry.timestamp - event.lifetime),
+            dur: micros(event.lifetime),
+            pid: TRACE_PID,
+            tid,
+          })
+          break
+        case 'state-change':
+        case 'props-change':
+        case 'context-change':
+          traceEvents.push({
+            name: event.type,
+            cat: 'change',
+            ph: 'i',
+            s: 't',
+            ts: ts(entry.timestamp),
+            pid: TRACE_PID,
+            tid,
+            args: { entryId: entry.id, summary: entry.formatted },
+          })
+          break
+      }
+    }
+
+    // Components still mounted at export time
+    for (const entry of mounted.values()) {
+      traceEvents.push({
+        name: entry.componentName,
+        cat: 'lifetime',
+        ph: 'X',
+        ts: ts(entry.timestamp),
+        dur: micros(now - entry.timestamp),
+        pid: TRACE_PID,
+        tid: threadFor(entry.componentId, entry.componentName),
+        args: { mounted: true },
+      })
+    }
+
+    const timer = kernel.getPlugin<Plugin & { api: RenderTimerAPI }>('render-timer')
+    for (const record of timer?.api.getRenders() ?? []) {
+      // Estimates are stamped when the render starts, profiler records when it commits
+      const start = record.source === 'estimate' ? record.timestamp : record.timestamp - record.duration
+      traceEvents.push({
+        name: 'render',
+        cat: 'render',
+        ph: 'X',
+        ts: ts(start),
+        dur: micros(record.duration),
+        pid: TRACE_PID,
+        tid: threadFor(record.componentId, record.componentName),
+        args: { phase: record.phase, source: record.source, baseDuration: record.baseDuration },
+      })
+    }
+
+    const chain = kernel.getPlugin<Plugin & { api: RenderChainAPI }>('render-chain')
+    const nodes = chain?.api.getNodes() ?? []
+    const byId = new Map(nodes.map((node) => [node.componentId, node]))
+    let flowId = 0
+    for (const node of nodes) {
+      const tid = threadFor(node.componentId, node.componentName)
+      traceEvents.push({ name: 'thread_sort_index', ph: 'M', ts: 0, pid: TRACE_PID, tid, args: { sort_index: node.depth } })
+
+      const parent = node.triggeredBy ? byId.get(node.triggeredBy) : undefined
+      if (!parent) continue
+      flowId++
+      traceEvents.push({
+        name: 'triggered',
+        cat: 'render-chain',
+        ph: 's',
+        id: flowId,
+        ts: ts(parent.timestamp),
+        pid: TRACE_PID,
+        tid: threadFor(parent.componentId, parent.componentName),
+      })
+      traceEvents.push({
+        name: 'triggered',
+        cat: 'render-chain',
+        ph: 'f',
+        bp: 'e',
+        id: flowId,
+        ts: ts(node.timestamp),
+        pid: TRACE_PID,
+        tid,
+      })
+    }
+
+    return data
+  }
+
   const api: FileExporterAPI = {
     exportJSON(filename?: string): void {
       const data = getExportDataInternal()
@@ -137,10 +280,23 @@ export function fileExporter(
       downloadFileInternal(csvStr, fname, 'text/csv')
     },
 
+    exportTrace(filename?: string): void {
+      const data = getTraceDataInternal()
+      const jsonStr = options.prettyPrint
+        ? JSON.stringify(data, null, 2)
+        : JSON.stringify(data)
+      const fname = filename ?? `reactlog-trace-${Date.now()}.json`
+      downloadFileInternal(jsonStr, fname, 'application/json')
+    },
+
     getExportData(): ExportData {
       return getExportDataInternal()
     },
 
+    getTraceData(): TraceData {
+      return getTraceDataInternal()
+    },
+
     downloadFile(data: string, filename: string, mimeType: string): void {
       downloadFileInternal(data, filename, mimeType)
     },
@@ -5,3 +5,6 @@ export { renderChain } from './render-chain'
 export { panelUI } from './panel-ui'
 export { fileExporter } from './file-exporter'
 export { remoteLogger } from './remote-logger'
+export { redaction } from './redaction'
+export { renderStormDetector } from './render-storm-detector'
+export { wastedRenders } from './wasted-renders'
@@ -0,0 +1,454 @@
+import type {
+  Plugin,
+  Kernel,
+  LogEntry,
+  LogLevel,
+  RemoteTransport,
+  RemoteBatch,
+  RenderTimeRecord,
+  RenderTimerAPI,
+  OtelExporterOptions,
+  OtelExporterAPI,
+  OtelTraceContext,
+  Unsubscribe,
+} from '../../types'
+import { generateUID, hashString } from '../../utils'
+import { remoteLogger, SDK } from './remote-logger'
+import { createHttpTransport } from './remote-transports'
+
+/**
+ * Default options for the OpenTelemetry exporter
+ */
+const DEFAULT_OPTIONS: Pick<OtelExporterOptions, 'endpoint' | 'serviceName'> = {
+  endpoint: 'http://localhost:4318',
+  serviceName: 'react-app',
+}
+
+/**
+ * OTLP severity numbers for each log level
+ */
+const SEVERITY_NUMBERS: Record<LogLevel, number> = {
+  debug: 5,
+  info: 9,
+  warn: 13,
+  error: 17,
+}
+
+/**
+ * OTLP span kind and status codes used here
+ */
+const SPAN_KIND_INTERNAL = 1
+const STATUS_CODE_ERROR = 2
+
+/**
+ * Render awaiting export, with an id that keeps its span id stable across retries
+ */
+interface PendingRender {
+  id: string
+  record: RenderTimeRecord
+}
+
+/**
+ * OTLP/JSON attribute value
+ */
+type OtlpAnyValue = { stringValue: string } | { boolValue: boolean } | { intValue: string } | { doubleValue: number }
+
+/**
+ * OTLP/JSON key-value attribute
+ */
+interface OtlpAttribute {
+  key: string
+  value: OtlpAnyValue
+}
+
+/**
+ * OTLP/JSON span event
+ */
+interface OtlpSpanEvent {
+  name: string
+  timeUnixNano: string
+  attributes: OtlpAttribute[]
+}
+
+/**
+ * OTLP/JSON span
+ */
+interface OtlpSpan {
+  traceId: string
+  spanId: string
+  parentSpanId?: string
+  name: string
+  kind: number
+  startTimeUnixNano: string
+  endTimeUnixNano: string
+  attributes: OtlpAttribute[]
+  events?: OtlpSpanEvent[]
+  status?: { code: number; message?: string }
+}
+
+/**
+ * OTLP/JSON log record
+ */
+interface OtlpLogRecord {
+  timeUnixNano: string
+  severityNumber: number
+  severityText: string
+  body: OtlpAnyValue
+  attributes: OtlpAttribute[]
+  traceId: string
+  spanId?: string
+}
+
+/**
+ * Parses a W3C `traceparent` header, e.g. from a `<meta>` tag the server rendered
+ *
+ * @param header - `00-<trace-id>-<parent-id>-<flags>`
+ * @returns The trace context, or undefined when the header is malformed
+ *
+ * @example
+ * ```typescript
+ * otelExporter({
+ *   traceContext: parseTraceparent(document.querySelector('meta[name=traceparent]')?.content ?? ''),
+ * })
+ * ```
+ */
+export function parseTraceparent(header: string): OtelTraceContext | undefined {
+  const match = /^[\da-f]{2}-([\da-f]{32})-([\da-f]{16})-[\da-f]{2}$/.exec(header.trim().toLowerCase())
+  if (!match || /^0+$/.test(match[1] as string) || /^0+$/.test(match[2] as string)) return undefined
+  return { traceId: match[1] as string, spanId: match[2] as string }
+}
+
+function randomHex(length: number): string {
+  let hex = ''
+  while (hex.length < length) {
+    hex += Math.floor(Math.random() * 16).toString(16)
+  }
+  return hex
+}
+
+/**
+ * Span id derived from a log entry or render id, so a retried batch repeats its spans exactly
+ */
+function spanIdFor(id: string): string {
+  return hashString(id) + hashString(`${id}:span`)
+}
+
+function toUnixNano(ms: number): string {
+  return (BigInt(Math.round(ms * 1000)) * BigInt(1000)).toString()
+}
+
+function toAnyValue(value: string | number | boolean): OtlpAnyValue {
+  if (typeof value === 'string') return { stringValue: value }
+  if (typeof value === 'boolean') return { boolValue: value }
+  return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value }
+}
+
+/**
+ * Converts primitive values to OTLP attributes, skipping everything else
+ */
+function toAttributes(values: Record<string, unknown>): OtlpAttribute[] {
+  const attributes: OtlpAttribute[] = []
+  for (const [key, value] of Object.entries(values)) {
+    if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+      attributes.push({ key, value: toAnyValue(value) })
+    }
+  }
+  return attributes
+}
+
+function componentAttributes(componentName: string, componentId: string): Record<string, unknown> {
+  return { 'react.component.name': componentName, 'react.component.id': componentId }
+}
+
+/**
+ * Creates the otel-exporter plugin
+ * Exports ReactLog activity to an OpenTelemetry collector as OTLP/JSON:
+ * every log entry becomes a log record, unmounts become spans covering the
+ * component's lifetime, errors become spans with an `exception` event, and
+ * renders measured by render-timer become spans. Batching, retries and the
+ * offline queue come from an internal remoteLogger; render spans ride along
+ * with the next batch of log entries.
+ *
+ * @example
+ * ```typescript
+ * otelExporter({
+ *   endpoint: 'https://collector.example.com',
+ *   serviceName: 'storefront',
+ *   traceContext: parseTraceparent(serverTraceparent),
+ * })
+ * ```
+ */
+export function otelExporter(
+  userOptions: Partial<OtelExporterOptions> = {}
+): Plugin & { api: OtelExporterAPI } {
+  const {
+    endpoint = DEFAULT_OPTIONS.endpoint,
+    headers,
+    serviceName = DEFAULT_OPTIONS.serviceName,
+    resourceAttributes,
+    traceContext,
+    ...delivery
+  } = userOptions
+  const baseUrl = endpoint.replace(/\/+$/, '')
+  const logsTransport = createHttpTransport({ endpoint: `${baseUrl}/v1/logs`, headers })
+  const tracesTransport = createHttpTransport({ endpoint: `${baseUrl}/v1/traces`, headers })
+
+  let kernel: Kernel | null = null
+  let fallbackContext: OtelTraceContext = { traceId: randomHex(32) }
+  let pendingRenders: PendingRender[] = []
+  let watchedTimer: (Plugin & { api: RenderTimerAPI }) | null = null
+  let unsubscribeRenders: Unsubscribe | null = null
+  // Entries whose log records were delivered while their spans were not, so a
+  // retry only resends the failed signal
+  const deliveredLogs = new Set<string>()
+  const maxQueueSize = delivery.maxQueueSize ?? 1000
+
+  function getTraceContext(): OtelTraceContext {
+    const context = typeof traceContext === 'function' ? traceContext() : traceContext
+    return context ?? fallbackContext
+  }
+
+  /**
+   * Subscribe to render-timer once it is registered, whichever plugin came
+   * first, and follow it when it is unregistered or replaced
+   */
+  function watchRenders(): void {
+    if (!kernel) return
+    const timer = kernel.getPlugin<Plugin & { api: RenderTimerAPI }>('render-timer') ?? null
+    if (timer === watchedTimer) return
+
+    unsubscribeRenders?.()
+    watchedTimer = timer
+    unsubscribeRenders =
+      timer?.api.onRender((record) => {
+        pendingRenders.push({ id: generateUID(), record })
+        const excess = pendingRenders.length - maxQueueSize
+        if (excess > 0) pendingRenders.splice(0, excess)
+      }) ?? null
+  }
+
+  function markLogsDelivered(logs: LogEntry[]): void {
+    for (const entry of logs) {
+      deliveredLogs.add(entry.id)
+    }
+    // Batches dropped after their last retry never clear their entries
+    for (const id of deliveredLogs) {
+      if (deliveredLogs.size <= maxQueueSize) break
+      deliveredLogs.delete(id)
+    }
+  }
+
+  function createSpan(
+    context: OtelTraceContext,
+    spanId: string,
+    name: string,
+    start: number,
+    end: number,
+    attributes: Record<string, unknown>
+  ): OtlpSpan {
+    return {
+      traceId: context.traceId,
+      spanId,
+      ...(context.spanId && { parentSpanId: context.spanId }),
+      name,
+      kind: SPAN_KIND_INTERNAL,
+      startTimeUnixNano: toUnixNano(start),
+      endTimeUnixNano: toUnixNano(end),
+      attributes: toAttributes(attributes),
+    }
+  }
+
+  /**
+   * Spans derived from a log entry: lifetimes from unmounts, exceptions from errors
+   */
+  function toSpan(entry: LogEntry, context: OtelTraceContext): OtlpSpan | null {
+    const { event } = entry
+    const attributes = componentAttributes(entry.componentName, entry.componentId)
+
+    if (event.type === 'unmount') {
+      const start = entry.timestamp - event.lifetime
+      return createSpan(context, spanIdFor(entry.id), `lifetime ${entry.componentName}`, start, entry.timestamp, attributes)
+    }
+
+    if (event.type === 'error') {
+      const span = createSpan(context, spanIdFor(entry.id), `error ${entry.componentName}`, entry.timestamp, entry.timestamp, {
+        ...attributes,
+        'react.error.recovered': event.recovered,
+      })
+      span.status = { code: STATUS_CODE_ERROR, message: event.error?.message }
+      span.events = [
+        {
+          name: 'exception',
+          timeUnixNano: toUnixNano(entry.timestamp),
+          attributes: toAttributes({
+            'exception.type': event.error?.name,
+            'exception.message': event.error?.message,
+            'exception.stacktrace': event.error?.stack,
+            'react.component_stack': event.errorInfo?.componentStack,
+          }),
+        },
+      ]
+      return span
+    }
+
+    return null
+  }
+
+  function toRenderSpan({ id, record }: PendingRender, context: OtelTraceContext): OtlpSpan {
+    // Estimates are stamped when rendering starts, measured renders when they commit
+    const start = record.source === 'estimate' ? record.timestamp : record.timestamp - record.duration
+    return createSpan(context, spanIdFor(id), `render ${record.componentName}`, start, start + record.duration, {
+      ...componentAttributes(record.componentName, record.componentId),
+      'react.render.phase': record.phase,
+      'react.render.source': record.source,
+      'react.render.base_duration_ms': record.baseDuration,
+    })
+  }
+
+  function toLogRecord(entry: LogEntry, context: OtelTraceContext): OtlpLogRecord {
+    const { event } = entry
+    const attributes = toAttributes({
+      ...componentAttributes(entry.componentName, entry.componentId),
+      'reactlog.event.type': event.type,
+      'reactlog.entry.id': entry.id,
+      ...(event.type === 'error' && {
+        'exception.type': event.error?.name,
+        'exception.message': event.error?.message,
+        'exception.stacktrace': event.error?.stack,
+      }),
+      ...Object.fromEntries(Object.entries(event.meta ?? {}).map(([key, value]) => [`reactlog.meta.${key}`, value])),
+    })
+
+    return {
+      timeUnixNano: toUnixNano(entry.timestamp),
+      severityNumber: SEVERITY_NUMBERS[entry.level],
+      severityText: entry.level.toUpperCase(),
+      body: { stringValue: entry.formatted },
+      attributes,
+      traceId: context.traceId,
+      ...(context.spanId && { spanId: context.spanId }),
+    }
+  }
+
+  function getResource(): { attributes: OtlpAttribute[] } {
+    return {
+      attributes: toAttributes({
+        'service.name': serviceName,
+        'telemetry.sdk.name': SDK.name,
+        'telemetry.sdk.version': SDK.version,
+        'telemetry.sdk.language': 'webjs',
+        'session.id': kernel?.getLogs().sessionId,
+        ...resourceAttributes,
+      }),
+    }
+  }
+
+  /**
+   * Encodes one remoteLogger batch as OTLP logs and traces requests, leaving
+   * out log records that were already delivered
+   */
+  function toRequests(
+    logs: LogEntry[],
+    renders: PendingRender[]
+  ): { logs: RemoteBatch | null; traces: RemoteBatch | null; unsent: LogEntry[] } {
+    const context = getTraceContext()
+    const resource = getResource()
+    const scope = { name: SDK.name, version: SDK.version }
+    const unsent = logs.filter((entry) => !deliveredLogs.has(entry.id))
+
+    const spans = logs
+      .map((entry) => toSpan(entry, context))
+      .filter((span): span is OtlpSpan => span !== null)
+      .concat(renders.map((render) => toRenderSpan(render, context)))
+
+    const logsBody = {
+      resourceLogs: [{ resource, scopeLogs: [{ scope, logRecords: unsent.map((entry) => toLogRecord(entry, context)) }] }],
+    }
+    const tracesBody = { resourceSpans: [{ resource, scopeSpans: [{ scope, spans }] }] }
+
+    return {
+      logs: unsent.length > 0 ? { logs: unsent, body: JSON.stringify(logsBody) } : null,
+      traces: spans.length > 0 ? { logs, body: JSON.stringify(tracesBody) } : null,
+      unsent,
+    }
+  }
+
+  function forgetDelivered(logs: LogEntry[]): void {
+    for (const entry of logs) {
+      deliveredLogs.delete(entry.id)
+    }
+  }
+
+  const transport: RemoteTransport = {
+    async send(batch: RemoteBatch): Promise<void> {
+      const renders = pendingRenders
+      pendingRenders = []
+      try {
+        const requests = toRequests(batch.logs, renders)
+        if (requests.logs) {
+          await logsTransport.send(requests.logs)
+          markLogsDelivered(requests.unsent)
+        }
+        if (requests.traces) await tracesTransport.send(requests.traces)
+        forgetDelivered(batch.logs)
+      } catch (error) {
+        pendingRenders = renders.concat(pendingRenders)
+        throw error
+      }
+    },
+
+    sendOnUnload(batch: RemoteBatch): boolean {
+      const requests = toRequests(batch.logs, pendingRenders)
+      if (requests.logs) {
+        if (!logsTransport.sendOnUnload(requests.logs)) return false
+        markLogsDelivered(requests.unsent)
+      }
+      // Renders stay pending and the batch stays queued for the next send
+      if (requests.traces && !tracesTransport.sendOnUnload(requests.traces)) return false
+      forgetDelivered(batch.logs)
+      pendingRenders = []
+      return true
+    },
+  }
+
+  const logger = remoteLogger({ ...delivery, transport })
+
+  const api: OtelExporterAPI = {
+    ...logger.api,
+    getTraceContext,
+  }
+
+  const plugin: Plugin = {
+    name: 'otel-exporter',
+    version: '1.0.0',
+    type: 'optional',
+
+    install(k: Kernel): void {
+      kernel = k
+      logger.install(k)
+      watchRenders()
+    },
+
+    uninstall(): void {
+      logger.uninstall()
+      unsubscribeRenders?.()
+      unsubscribeRenders = null
+      watchedTimer = null
+      pendingRenders = []
+      deliveredLogs.clear()
+      fallbackContext = { traceId: randomHex(32) }
+      kernel = null
+    },
+
+    hooks: {
+      onLog(entry: LogEntry): void {
+        watchRenders()
+        logger.hooks?.onLog?.(entry)
+      },
+    },
+
+    api: api as unknown as Record<string, unknown>,
+  }
+
+  return plugin as Plugin & { api: OtelExporterAPI }
+}
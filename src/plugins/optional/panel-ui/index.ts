@@ -2,9 +2,22 @@ import type {
   Plugin,
   Kernel,
   LogEntry,
+  LogFilter,
+  LogQuerySuggestion,
   PanelUIOptions,
   PanelUIAPI,
+  PanelTab,
+  ComponentSnapshot,
+  ComponentTreeNode,
+  ChangeSource,
+  TimeTravelSnapshot,
+  WastedRendersAPI,
+  WastedRenderStats,
 } from '../../../types'
+import { applyLogFilter, createLogQuery } from '../../../kernel/query'
+import { parseLogQuery, suggestLogQuery } from '../../../kernel/query-language'
+import { buildSnapshot } from '../../../kernel/snapshot'
+import { formatValue } from '../../../utils'
 
 /**
  * Default options for panel UI
@@ -19,8 +32,19 @@ const DEFAULT_OPTIONS: PanelUIOptions = {
   defaultCollapsed: false,
   theme: 'dark',
   maxLogs: 500,
+  recentChangeMs: 3000,
 }
 
+/**
+ * localStorage key for recent filter queries
+ */
+const HISTORY_STORAGE_KEY = 'reactlog:query-history'
+
+/**
+ * Maximum number of recent filter queries kept
+ */
+const MAX_HISTORY = 10
+
 /**
  * Panel state
  */
@@ -32,7 +56,18 @@ interface PanelState {
   height: number
   logs: LogEntry[]
   filter: string
+  /** Recent filter queries, newest first */
+  history: string[]
+  /** Position while stepping through history with the arrow keys, -1 when not browsing */
+  historyIndex: number
   isPaused: boolean
+  /** Entries shown from a replayed session, null for live kernels */
+  replayPosition: number | null
+  tab: PanelTab
+  /** Snapshot slider position, null to follow the latest entry */
+  snapshotTime: number | null
+  /** Tree nodes whose children are hidden */
+  collapsed: Set<string>
 }
 
 /**
@@ -58,7 +93,13 @@ export function panelUI(
     height: options.defaultHeight,
     logs: [],
     filter: '',
+    history: loadHistory(),
+    historyIndex: -1,
     isPaused: false,
+    replayPosition: null,
+    tab: 'logs',
+    snapshotTime: null,
+    collapsed: new Set(),
   }
 
   function getPositionStyles(): Record<string, string> {
@@ -158,6 +199,8 @@ export function panelUI(
       .reactlog-event-effect-run { color: #00bcd4; }
       .reactlog-event-effect-cleanup { color: #00bcd4; }
       .reactlog-event-error { color: #f44336; }
+      .reactlog-event-log { color: ${colors.text}; }
+      .reactlog-message { color: ${colors.textSecondary}; margin-left: 8px; }
       .reactlog-footer {
         padding: 6px 12px;
         background: ${colors.bgSecondary};
@@ -179,6 +222,69 @@ export function panelUI(
         margin-right: 8px;
       }
       .reactlog-filter:focus { outline: none; border-color: ${colors.accent}; }
+      .reactlog-filter-invalid, .reactlog-filter-invalid:focus { border-color: #f44336; }
+      .reactlog-query { flex: 1; position: relative; display: flex; flex-direction: column; margin-right: 8px; }
+      .reactlog-query .reactlog-filter { margin-right: 0; }
+      .reactlog-filter-error { color: #f44336; margin-top: 2px; }
+      .reactlog-suggestions {
+        position: absolute;
+        bottom: 100%;
+        left: 0;
+        right: 0;
+        margin-bottom: 4px;
+        background: ${colors.bg};
+        border: 1px solid ${colors.border};
+        border-radius: 4px;
+        display: flex;
+        flex-direction: column;
+      }
+      .reactlog-suggestions:empty { display: none; }
+      .reactlog-suggestion {
+        background: none;
+        border: none;
+        color: ${colors.text};
+        text-align: left;
+        padding: 3px 8px;
+        font-size: 11px;
+        cursor: pointer;
+      }
+      .reactlog-suggestion:hover { background: ${colors.bgSecondary}; }
+      .reactlog-timeline {
+        padding: 4px 12px;
+        border-top: 1px solid ${colors.border};
+        display: flex;
+        gap: 8px;
+        align-items: center;
+        font-size: 10px;
+        color: ${colors.textSecondary};
+      }
+      .reactlog-scrubber { flex: 1; accent-color: ${colors.accent}; }
+      .reactlog-tabs { display: flex; border-bottom: 1px solid ${colors.border}; }
+      .reactlog-tab {
+        background: none;
+        border: none;
+        border-bottom: 2px solid transparent;
+        color: ${colors.textSecondary};
+        padding: 4px 12px;
+        font-size: 11px;
+        cursor: pointer;
+      }
+      .reactlog-tab-active { color: ${colors.text}; border-bottom-color: ${colors.accent}; }
+      .reactlog-snapshot-row { color: ${colors.textSecondary}; padding-left: 12px; word-break: break-all; }
+      .reactlog-tree-node { display: flex; align-items: center; gap: 4px; }
+      .reactlog-tree-unmounted { opacity: 0.5; }
+      .reactlog-tree-toggle {
+        background: none;
+        border: none;
+        color: ${colors.textSecondary};
+        width: 12px;
+        cursor: pointer;
+        font-size: 10px;
+      }
+      .reactlog-badge { border-radius: 3px; padding: 0 4px; font-size: 9px; color: #fff; }
+      .reactlog-badge-props { background: #ff9800; }
+      .reactlog-badge-state { background: #9c27b0; }
+      .reactlog-badge-context { background: #00bcd4; }
     `
   }
 
@@ -192,8 +298,8 @@ export function panelUI(
     })
   }
 
-  function formatElapsedTime(startTime: number): string {
-    const elapsed = Math.floor((Date.now() - startTime) / 1000)
+  function formatElapsedTime(startTime: number, now: number = Date.now()): string {
+    const elapsed = Math.floor((now - startTime) / 1000)
     const minutes = Math.floor(elapsed / 60)
     const seconds = elapsed % 60
     return `${minutes}:${seconds.toString().padStart(2, '0')}`
@@ -210,6 +316,131 @@ export function panelUI(
     return el
   }
 
+  function loadHistory(): string[] {
+    try {
+      const stored = JSON.parse(localStorage.getItem(HISTORY_STORAGE_KEY) ?? '[]') as unknown
+      return Array.isArray(stored) ? stored.filter((q): q is string => typeof q === 'string').slice(0, MAX_HISTORY) : []
+    } catch {
+      return []
+    }
+  }
+
+  function saveHistory(query: string): void {
+    const trimmed = query.trim()
+    if (!trimmed) return
+
+    state.history = [trimmed, ...state.history.filter((q) => q !== trimmed)].slice(0, MAX_HISTORY)
+    try {
+      localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(state.history))
+    } catch {
+      // Storage may be unavailable or full; history still works for this page
+    }
+  }
+
+  function filterLogs(logs: LogEntry[], filter: LogFilter): LogEntry[] {
+    const ordinals = new Map(logs.map((log, index) => [log, index]))
+    return applyLogFilter(createLogQuery({ entries: logs, ordinal: (log) => ordinals.get(log) as number }), filter)
+  }
+
+  /**
+   * Entries up to the replay position, or every entry for live kernels
+   */
+  function getVisibleLogs(): LogEntry[] {
+    return state.replayPosition === null ? state.logs : state.logs.slice(0, state.replayPosition)
+  }
+
+  /**
+   * Session time shown in the footer: elapsed so far, or at the replay position
+   */
+  function formatSessionTime(): string {
+    const startTime = kernel?.getLogs().startTime ?? Date.now()
+    if (state.replayPosition === null) return formatElapsedTime(startTime)
+
+    const current = state.logs[state.replayPosition - 1]
+    return formatElapsedTime(startTime, current?.timestamp ?? startTime)
+  }
+
+  /**
+   * Earliest and latest instants the snapshot slider can reach
+   */
+  function getSnapshotRange(): { start: number; end: number } {
+    const logStore = kernel?.getLogs()
+    const start = logStore?.startTime ?? Date.now()
+    return { start, end: Math.max(start, logStore?.lastEntry?.timestamp ?? start) }
+  }
+
+  function getSnapshotInternal(): TimeTravelSnapshot {
+    return buildSnapshot(kernel?.getLogs().entries ?? [], state.snapshotTime ?? getSnapshotRange().end)
+  }
+
+  function clearChildren(element: HTMLElement): void {
+    while (element.firstChild) {
+      element.removeChild(element.firstChild)
+    }
+  }
+
+  function suggestQuery(input: string): LogQuerySuggestion[] {
+    const componentNames = Array.from(new Set(state.logs.map((log) => log.componentName)))
+    return suggestLogQuery(input, componentNames)
+  }
+
+  /**
+   * Fills the suggestion list: recent queries for an empty box, completions otherwise
+   */
+  function renderSuggestions(list: HTMLElement, input: HTMLInputElement): void {
+    clearChildren(list)
+
+    const suggestions = input.value.trim()
+      ? suggestQuery(input.value)
+      : state.history.map((query) => ({ label: query, value: query }))
+
+    for (const suggestion of suggestions) {
+      const button = createElement('button', 'reactlog-suggestion', suggestion.label)
+      // mousedown keeps focus in the input
+      button.addEventListener('mousedown', (e) => {
+        e.preventDefault()
+        applyQuery(suggestion.value)
+      })
+      list.appendChild(button)
+    }
+  }
+
+  function applyQuery(query: string): void {
+    state.filter = query
+    state.historyIndex = -1
+    renderPanel()
+  }
+
+  function handleFilterKeydown(e: KeyboardEvent, input: HTMLInputElement, list: HTMLElement): void {
+    switch (e.key) {
+      case 'Enter':
+        saveHistory(input.value)
+        state.historyIndex = -1
+        renderSuggestions(list, input)
+        break
+
+      case 'ArrowUp':
+      case 'ArrowDown': {
+        if (state.history.length === 0) return
+        e.preventDefault()
+        const step = e.key === 'ArrowUp' ? 1 : -1
+        const index = Math.max(-1, Math.min(state.history.length - 1, state.historyIndex + step))
+        state.filter = index === -1 ? '' : (state.history[index] as string)
+        state.historyIndex = index
+        renderPanel()
+        break
+      }
+
+      case 'Tab': {
+        const [first] = input.value.trim() ? suggestQuery(input.value) : []
+        if (!first) return
+        e.preventDefault()
+        applyQuery(first.value)
+        break
+      }
+    }
+  }
+
   function createLogEntry(log: LogEntry): HTMLDivElement {
     const entry = createElement('div', 'reactlog-entry')
 
@@ -221,12 +452,147 @@ export function panelUI(
     entry.appendChild(component)
     entry.appendChild(event)
 
+    if (log.event.type === 'log') {
+      event.textContent = log.event.level
+      entry.appendChild(createElement('span', 'reactlog-message', log.event.message))
+    }
+
     return entry
   }
 
+  function createComponentSnapshot(component: ComponentSnapshot): HTMLDivElement {
+    const item = createElement('div', 'reactlog-entry')
+    const title = createElement('div')
+    title.appendChild(createElement('span', 'reactlog-component', component.componentName))
+    const status = component.mountedAt === null ? 'mount not in store' : `render #${component.renderCount}`
+    title.appendChild(createElement('span', 'reactlog-message', status))
+    item.appendChild(title)
+
+    const sections: [string, Record<string | number, unknown>][] = [
+      ['props', component.props],
+      ['state', component.state],
+      ['context', component.context],
+    ]
+    for (const [label, values] of sections) {
+      if (Object.keys(values).length === 0) continue
+      item.appendChild(createElement('div', 'reactlog-snapshot-row', `${label} ${formatValue(values)}`))
+    }
+    return item
+  }
+
+  function createWastedRenderStats(stats: WastedRenderStats): HTMLDivElement {
+    const item = createElement('div', 'reactlog-entry')
+    const title = createElement('div')
+    title.appendChild(createElement('span', 'reactlog-component', stats.componentName))
+    const possibly = stats.possiblyWasted > 0 ? `, ${stats.possiblyWasted} possibly` : ''
+    title.appendChild(createElement('span', 'reactlog-message', `${stats.wastedRenders}/${stats.updates} updates wasted${possibly}`))
+    item.appendChild(title)
+
+    for (const prop of stats.props) {
+      item.appendChild(createElement('div', 'reactlog-snapshot-row', `${prop.suggestion} (\u00D7${prop.count})`))
+    }
+    return item
+  }
+
+  /**
+   * Slider over the session that picks the snapshot instant
+   */
+  function createSnapshotTimeline(renderSnapshot: () => void): HTMLDivElement {
+    const timeline = createElement('div', 'reactlog-timeline')
+    const { start, end } = getSnapshotRange()
+    const label = createElement('span')
+    const updateLabel = (): void => {
+      label.textContent = `t=${(((state.snapshotTime ?? end) - start) / 1000).toFixed(1)}s`
+    }
+
+    const scrubber = createElement('input', 'reactlog-scrubber') as HTMLInputElement
+    scrubber.type = 'range'
+    scrubber.min = String(start)
+    scrubber.max = String(end)
+    scrubber.value = String(state.snapshotTime ?? end)
+    scrubber.setAttribute('aria-label', 'Snapshot time')
+    scrubber.addEventListener('input', () => {
+      const time = Number(scrubber.value)
+      // The right end keeps following new entries
+      state.snapshotTime = time >= end ? null : time
+      updateLabel()
+      renderSnapshot()
+    })
+    updateLabel()
+
+    timeline.appendChild(scrubber)
+    timeline.appendChild(label)
+    return timeline
+  }
+
+  /**
+   * Appends a tree row for `node` and, unless it is collapsed, its descendants
+   */
+  function appendTreeNode(list: HTMLElement, node: ComponentTreeNode, depth: number, now: number): void {
+    const row = createElement('div', 'reactlog-entry reactlog-tree-node')
+    row.style.paddingLeft = `${8 + depth * 12}px`
+    if (!node.mounted) row.classList.add('reactlog-tree-unmounted')
+
+    const isCollapsed = state.collapsed.has(node.componentId)
+    const toggle = createElement('button', 'reactlog-tree-toggle')
+    if (node.children.length > 0) {
+      toggle.textContent = isCollapsed ? '\u25B8' : '\u25BE'
+      toggle.setAttribute('aria-expanded', String(!isCollapsed))
+      toggle.addEventListener('click', () => {
+        if (isCollapsed) {
+          state.collapsed.delete(node.componentId)
+        } else {
+          state.collapsed.add(node.componentId)
+        }
+        renderPanel()
+      })
+    } else {
+      toggle.disabled = true
+    }
+
+    row.appendChild(toggle)
+    row.appendChild(createElement('span', 'reactlog-component', node.componentName))
+    row.appendChild(createElement('span', 'reactlog-message', `\u00D7${node.renderCount}`))
+    if (!node.mounted) {
+      row.appendChild(createElement('span', 'reactlog-message', 'unmounted'))
+    }
+    for (const source of ['props', 'state', 'context'] as ChangeSource[]) {
+      const changedAt = node.lastChanges[source]
+      if (changedAt !== undefined && now - changedAt <= options.recentChangeMs) {
+        row.appendChild(createElement('span', `reactlog-badge reactlog-badge-${source}`, source))
+      }
+    }
+    list.appendChild(row)
+
+    if (!isCollapsed) {
+      node.children.forEach((child) => appendTreeNode(list, child, depth + 1, now))
+    }
+  }
+
+  function countMounted(nodes: ComponentTreeNode[]): number {
+    return nodes.reduce((count, node) => count + (node.mounted ? 1 : 0) + countMounted(node.children), 0)
+  }
+
+  function createTabs(): HTMLDivElement {
+    const tabs = createElement('div', 'reactlog-tabs')
+    const labels: Record<PanelTab, string> = { logs: 'Logs', tree: 'Tree', snapshot: 'Snapshot', wasted: 'Wasted' }
+
+    for (const tab of Object.keys(labels) as PanelTab[]) {
+      const button = createElement('button', 'reactlog-tab', labels[tab])
+      if (tab === state.tab) button.classList.add('reactlog-tab-active')
+      button.addEventListener('click', () => api.setTab(tab))
+      tabs.appendChild(button)
+    }
+    return tabs
+  }
+
   function renderPanel(): void {
     if (!panelElement || !state.isOpen) return
 
+    // Keep typing uninterrupted when the panel is rebuilt
+    const activeFilter = shadowRoot?.activeElement
+    const filterFocused = activeFilter instanceof HTMLInputElement && activeFilter.classList.contains('reactlog-filter')
+
     // Clear panel
     while (panelElement.firstChild) {
       panelElement.removeChild(panelElement.firstChild)
@@ -250,7 +616,7 @@ export function panelUI(
 
     const controls = createElement('div', 'reactlog-controls')
 
-    const logCount = createElement('span', undefined, `${state.logs.length} logs`)
+    const logCount = createElement('span')
     logCount.style.color = '#888'
     logCount.style.fontSize = '10px'
 
@@ -274,8 +640,11 @@ export function panelUI(
     })
 
     controls.appendChild(logCount)
-    controls.appendChild(clearBtn)
-    controls.appendChild(pauseBtn)
+    // A replayed session is read-only and never grows
+    if (state.replayPosition === null) {
+      controls.appendChild(clearBtn)
+      controls.appendChild(pauseBtn)
+    }
     controls.appendChild(toggleBtn)
 
     header.appendChild(title)
@@ -284,49 +653,166 @@ export function panelUI(
     // Content
     const content = createElement('div', 'reactlog-content')
 
-    const filteredLogs = state.logs.filter((log) => {
-      if (state.filter) {
-        const searchLower = state.filter.toLowerCase()
-        return log.componentName.toLowerCase().includes(searchLower) ||
-               log.event.type.toLowerCase().includes(searchLower)
+    const query = parseLogQuery(state.filter)
+    const elapsed = createElement('span')
+
+    // Also run while scrubbing, which must not rebuild the slider being dragged
+    const renderLogs = (): void => {
+      clearChildren(content)
+      const filteredLogs = filterLogs(getVisibleLogs(), query.filter)
+
+      if (filteredLogs.length === 0) {
+        const empty = createElement('div', 'reactlog-empty', 'No logs yet')
+        content.appendChild(empty)
+      } else {
+        filteredLogs.slice(-options.maxLogs).forEach((log) => {
+          content.appendChild(createLogEntry(log))
+        })
       }
-      return true
-    })
 
-    if (filteredLogs.length === 0) {
-      const empty = createElement('div', 'reactlog-empty', 'No logs yet')
-      content.appendChild(empty)
+      logCount.textContent = state.replayPosition === null
+        ? `${state.logs.length} logs`
+        : `${state.replayPosition}/${state.logs.length} logs`
+      elapsed.textContent = formatSessionTime()
+      content.scrollTop = content.scrollHeight
+    }
+
+    const renderSnapshot = (): void => {
+      clearChildren(content)
+      const { components } = getSnapshotInternal()
+
+      if (components.length === 0) {
+        content.appendChild(createElement('div', 'reactlog-empty', 'No mounted components'))
+      } else {
+        components.forEach((component) => content.appendChild(createComponentSnapshot(component)))
+      }
+      logCount.textContent = `${components.length} mounted`
+      elapsed.textContent = formatSessionTime()
+    }
+
+    const renderTree = (): void => {
+      clearChildren(content)
+      const roots = kernel?.getComponentTree() ?? []
+      // A replay is badged relative to its last entry
+      const now = state.replayPosition === null ? Date.now() : getSnapshotRange().end
+
+      if (roots.length === 0) {
+        content.appendChild(createElement('div', 'reactlog-empty', 'No tracked components'))
+      } else {
+        roots.forEach((root) => appendTreeNode(content, root, 0, now))
+      }
+      logCount.textContent = `${countMounted(roots)} mounted`
+      elapsed.textContent = formatSessionTime()
+    }
+
+    const renderWasted = (): void => {
+      clearChildren(content)
+      const analyzer = kernel?.getPlugin<Plugin & { api: WastedRendersAPI }>('wasted-renders')
+      const ranking = analyzer?.api.getRanking() ?? []
+
+      if (!analyzer) {
+        content.appendChild(createElement('div', 'reactlog-empty', 'Register wastedRenders() to find wasted renders'))
+      } else if (ranking.length === 0) {
+        content.appendChild(createElement('div', 'reactlog-empty', 'No wasted renders'))
+      } else {
+        ranking.forEach((stats) => content.appendChild(createWastedRenderStats(stats)))
+      }
+      logCount.textContent = `${analyzer?.api.getTotalWasted() ?? 0} wasted`
+      elapsed.textContent = formatSessionTime()
+    }
+
+    if (state.tab === 'snapshot') {
+      renderSnapshot()
+    } else if (state.tab === 'tree') {
+      renderTree()
+    } else if (state.tab === 'wasted') {
+      renderWasted()
     } else {
-      filteredLogs.slice(-options.maxLogs).forEach((log) => {
-        content.appendChild(createLogEntry(log))
-      })
+      renderLogs()
     }
 
     // Footer
     const footer = createElement('div', 'reactlog-footer')
 
+    const queryBox = createElement('div', 'reactlog-query')
+    const suggestionList = createElement('div', 'reactlog-suggestions')
+
     const filterInput = createElement('input', 'reactlog-filter') as HTMLInputElement
     filterInput.type = 'text'
-    filterInput.placeholder = 'Filter...'
+    filterInput.placeholder = 'Filter... (component:Cart* level>=warn since:30s)'
     filterInput.value = state.filter
     filterInput.addEventListener('input', (e) => {
       state.filter = (e.target as HTMLInputElement).value
+      state.historyIndex = -1
       renderPanel()
     })
+    filterInput.addEventListener('keydown', (e) => handleFilterKeydown(e, filterInput, suggestionList))
+    filterInput.addEventListener('focus', () => renderSuggestions(suggestionList, filterInput))
+    filterInput.addEventListener('blur', () => clearChildren(suggestionList))
+
+    queryBox.appendChild(suggestionList)
+    queryBox.appendChild(filterInput)
+
+    const [firstError] = query.errors
+    if (firstError) {
+      filterInput.classList.add('reactlog-filter-invalid')
+      const more = query.errors.length > 1 ? ` (+${query.errors.length - 1} more)` : ''
+      queryBox.appendChild(createElement('div', 'reactlog-filter-error', `${firstError.message}${more}`))
+    }
 
-    const elapsed = createElement('span', undefined, formatElapsedTime(kernel?.getLogs().startTime ?? Date.now()))
-
-    footer.appendChild(filterInput)
+    // The query filters log entries, not the snapshot
+    if (state.tab === 'logs') {
+      footer.appendChild(queryBox)
+    }
     footer.appendChild(elapsed)
 
     // Assemble panel
     panel.appendChild(header)
+    panel.appendChild(createTabs())
     panel.appendChild(content)
+    if (state.tab === 'snapshot') {
+      panel.appendChild(createSnapshotTimeline(renderSnapshot))
+    } else if (state.tab === 'logs' && state.replayPosition !== null) {
+      panel.appendChild(createTimeline(renderLogs))
+    }
     panel.appendChild(footer)
     panelElement.appendChild(panel)
 
-    // Scroll to bottom
-    content.scrollTop = content.scrollHeight
+    if (filterFocused) {
+      filterInput.focus()
+      filterInput.setSelectionRange(filterInput.value.length, filterInput.value.length)
+      renderSuggestions(suggestionList, filterInput)
+    }
+  }
+
+  /**
+   * Slider and step buttons that move through a replayed session
+   */
+  function createTimeline(renderLogs: () => void): HTMLDivElement {
+    const timeline = createElement('div', 'reactlog-timeline')
+
+    const scrubber = createElement('input', 'reactlog-scrubber') as HTMLInputElement
+    scrubber.type = 'range'
+    scrubber.min = '0'
+    scrubber.max = String(state.logs.length)
+    scrubber.value = String(state.replayPosition)
+    scrubber.setAttribute('aria-label', 'Replay position')
+    scrubber.addEventListener('input', () => {
+      state.replayPosition = Number(scrubber.value)
+      renderLogs()
+    })
+
+    const stepBack = createElement('button', 'reactlog-btn', '\u25C0')
+    stepBack.addEventListener('click', () => api.seek((state.replayPosition ?? 0) - 1))
+
+    const stepForward = createElement('button', 'reactlog-btn', '\u25B6')
+    stepForward.addEventListener('click', () => api.seek((state.replayPosition ?? 0) + 1))
+
+    timeline.appendChild(createElement('span', undefined, 'Replay'))
+    timeline.appendChild(stepBack)
+    timeline.appendChild(scrubber)
+    timeline.appendChild(stepForward)
+    return timeline
   }
 
   function renderCollapsed(): void {
@@ -470,6 +956,34 @@ export function panelUI(
         }
       }
     },
+
+    seek(position: number): void {
+      if (state.replayPosition === null) return
+      state.replayPosition = Math.max(0, Math.min(state.logs.length, Math.floor(position)))
+      renderPanel()
+    },
+
+    getReplayPosition(): number | null {
+      return state.replayPosition
+    },
+
+    setTab(tab: PanelTab): void {
+      state.tab = tab
+      renderPanel()
+    },
+
+    getTab(): PanelTab {
+      return state.tab
+    },
+
+    seekSnapshot(timestamp: number | null): void {
+      state.snapshotTime = timestamp
+      renderPanel()
+    },
+
+    getSnapshot(): TimeTravelSnapshot {
+      return getSnapshotInternal()
+    },
   }
 
   const plugin: Plugin = {
@@ -483,6 +997,8 @@ export function panelUI(
       // Get existing logs
       const logStore = kernel.getLogs()
       state.logs = [...logStore.entries]
+      // Replays open at the end of the recorded session
+      state.replayPosition = kernel.isReplay() ? state.logs.length : null
 
       // Subscribe to new logs
       unsubscribeLog = kernel.onLog((entry) => {
@@ -517,6 +1033,9 @@ export function panelUI(
 
       kernel = null
       state.logs = []
+      state.replayPosition = null
+      state.snapshotTime = null
+      state.collapsed.clear()
     },
 
     api: api as unknown as Record<string, unknown>,
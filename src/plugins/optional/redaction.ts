@@ -0,0 +1,494 @@
+import type {
+  Plugin,
+  Kernel,
+  KernelEvent,
+  PropChange,
+  RedactionOptions,
+  RedactionAPI,
+  RedactionRule,
+  RedactionDetector,
+  RedactionStrategy,
+  Unsubscribe,
+} from '../../types'
+import { hmacSha256 } from '../../utils'
+
+/**
+ * Marker for values removed by the drop strategy
+ */
+const DROP = Symbol('drop')
+
+/**
+ * Compiled key-name or path rule
+ */
+interface CompiledRule {
+  test: (candidate: string) => boolean
+  strategy: RedactionStrategy
+}
+
+/**
+ * Compiled path rule, matched segment by segment
+ */
+interface CompiledPathRule {
+  segments: string[] | null
+  regex: RegExp | null
+  strategy: RedactionStrategy
+}
+
+/**
+ * Compiled value detector
+ */
+interface CompiledDetector {
+  pattern: RegExp
+  validate?: (match: string) => boolean
+  strategy: RedactionStrategy
+}
+
+/**
+ * Default options for redaction
+ */
+const DEFAULT_OPTIONS: RedactionOptions = {
+  keys: [
+    'password',
+    'passwd',
+    'secret',
+    'token',
+    'apikey',
+    'api_key',
+    'authorization',
+    'cookie',
+    'ssn',
+    'creditcard',
+    'cardnumber',
+    'cvv',
+  ],
+  detectors: ['jwt', 'credit-card', 'email'],
+  paths: [],
+  strategy: 'mask',
+  mask: '[REDACTED]',
+  maxDepth: 10,
+  hashSecret: null,
+}
+
+/**
+ * Hex characters kept from the HMAC digest in hashed values
+ */
+const HASH_LENGTH = 16
+
+/**
+ * Luhn checksum, used to avoid masking arbitrary digit runs as card numbers
+ */
+function passesLuhn(candidate: string): boolean {
+  const digits = candidate.replace(/\D/g, '')
+  if (digits.length < 13 || digits.length > 19) return false
+
+  let sum = 0
+  let double = false
+  for (let i = digits.length - 1; i >= 0; i--) {
+    let digit = Number(digits[i])
+    if (double) {
+      digit *= 2
+      if (digit > 9) digit -= 9
+    }
+    sum += digit
+    double = !double
+  }
+  return sum % 10 === 0
+}
+
+/**
+ * Splits a key into lowercase words at camelCase, snake_case and kebab-case
+ * boundaries: `x-apiKey_v2` becomes `x`, `api`, `key`, `v`, `2`
+ */
+function splitKey(key: string): string[] {
+  return key
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .replace(/([a-zA-Z])(\d)/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+}
+
+/**
+ * Whether consecutive words of a key spell the needle, optionally plural, so
+ * `apiKey` matches `apikey` while `className` does not match `ssn`
+ */
+function matchesWords(words: string[], needle: string): boolean {
+  for (let start = 0; start < words.length; start++) {
+    let joined = ''
+    for (let end = start; end < words.length && joined.length < needle.length; end++) {
+      joined += words[end]
+      if (joined === needle || joined === `${needle}s`) return true
+    }
+  }
+  return false
+}
+
+/**
+ * Random secret keying the hash strategy for one plugin instance
+ */
+function createSecret(): string {
+  const bytes = new Uint8Array(32)
+  if (typeof crypto !== 'undefined' && typeof crypto.getRandomValues === 'function') {
+    crypto.getRandomValues(bytes)
+  } else {
+    bytes.forEach((_, i) => { bytes[i] = Math.floor(Math.random() * 256) })
+  }
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * Serializes a value for hashing
+ */
+function stringifyForHash(value: unknown): string {
+  if (typeof value === 'string') return value
+  try {
+    return JSON.stringify(value) ?? String(value)
+  } catch {
+    return String(value)
+  }
+}
+
+/**
+ * Checks for plain objects and arrays, the only containers redaction walks into
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (value === null || typeof value !== 'object') return false
+  const proto = Object.getPrototypeOf(value)
+  return proto === Object.prototype || proto === null
+}
+
+/**
+ * Ensures a detector pattern replaces every occurrence
+ */
+function toGlobal(pattern: RegExp): RegExp {
+  return pattern.flags.includes('g') ? pattern : new RegExp(pattern.source, pattern.flags + 'g')
+}
+
+/**
+ * Creates the redaction plugin
+ * Masks, hashes or drops sensitive values in event payloads before they
+ * reach plugins, the console, the log store and exporters
+ *
+ * Hashes are HMAC-SHA-256 keyed with `hashSecret`, or with a random secret
+ * per plugin instance, so they only correlate values hashed with the same secret
+ *
+ * Usage:
+ * ```tsx
+ * <ReactLogProvider plugins={[redaction({ paths: ['props.user.email'], strategy: 'hash' })]}>
+ * ```
+ */
+export function redaction(
+  userOptions: Partial<RedactionOptions> = {}
+): Plugin & { api: RedactionAPI } {
+  const options: RedactionOptions = { ...DEFAULT_OPTIONS, ...userOptions }
+  let removeMiddleware: Unsubscribe | null = null
+  let redactionCount = 0
+  const hashSecret = options.hashSecret ?? createSecret()
+
+  const keyRules: CompiledRule[] = options.keys.map((rule) => {
+    const { pattern, strategy } = normalizeRule(rule)
+    if (typeof pattern === 'string') {
+      const needle = splitKey(pattern).join('')
+      return { test: (key: string) => matchesWords(splitKey(key), needle), strategy }
+    }
+    return { test: (key: string) => new RegExp(pattern.source, pattern.flags.replace('g', '')).test(key), strategy }
+  })
+
+  const pathRules: CompiledPathRule[] = options.paths.map((rule) => {
+    const { pattern, strategy } = normalizeRule(rule)
+    return typeof pattern === 'string'
+      ? { segments: pattern.split('.'), regex: null, strategy }
+      : { segments: null, regex: new RegExp(pattern.source, pattern.flags.replace('g', '')), strategy }
+  })
+
+  const detectors: CompiledDetector[] = options.detectors.map(compileDetector)
+
+  function normalizeRule(rule: RedactionRule): { pattern: string | RegExp; strategy: RedactionStrategy } {
+    if (typeof rule === 'string' || rule instanceof RegExp) {
+      return { pattern: rule, strategy: options.strategy }
+    }
+    return rule
+  }
+
+  function compileDetector(detector: RedactionDetector): CompiledDetector {
+    switch (detector) {
+      case 'jwt':
+        return {
+          pattern: /\beyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*/g,
+          strategy: options.strategy,
+        }
+      case 'credit-card':
+        return {
+          pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+          validate: passesLuhn,
+          strategy: options.strategy,
+        }
+      case 'email':
+        return {
+          pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+          strategy: options.strategy,
+        }
+      default:
+        return {
+          pattern: toGlobal(detector.pattern),
+          strategy: detector.strategy ?? options.strategy,
+        }
+    }
+  }
+
+  function matchKey(key: string): RedactionStrategy | null {
+    for (const rule of keyRules) {
+      if (rule.test(key)) return rule.strategy
+    }
+    return null
+  }
+
+  function matchPath(path: string[]): RedactionStrategy | null {
+    for (const rule of pathRules) {
+      if (rule.regex) {
+        if (rule.regex.test(path.join('.'))) return rule.strategy
+        continue
+      }
+      const segments = rule.segments as string[]
+      if (
+        segments.length === path.length &&
+        segments.every((segment, i) => segment === '*' || segment === path[i])
+      ) {
+        return rule.strategy
+      }
+    }
+    return null
+  }
+
+  function applyStrategy(value: unknown, strategy: RedactionStrategy): unknown {
+    redactionCount++
+    switch (strategy) {
+      case 'drop':
+        return DROP
+      case 'hash':
+        return `[hash:${hmacSha256(hashSecret, stringifyForHash(value)).slice(0, HASH_LENGTH)}]`
+      case 'mask':
+        return options.mask
+    }
+  }
+
+  function redactString(value: string): string | typeof DROP {
+    let result = value
+    for (const detector of detectors) {
+      detector.pattern.lastIndex = 0
+      let dropped = false
+      result = result.replace(detector.pattern, (match) => {
+        if (detector.validate && !detector.validate(match)) return match
+        const replacement = applyStrategy(match, detector.strategy)
+        if (replacement === DROP) {
+          dropped = true
+          return match
+        }
+        return replacement as string
+      })
+      if (dropped) return DROP
+    }
+    return result
+  }
+
+  function redactValue(value: unknown, path: string[], depth: number, seen: WeakSet<object>): unknown {
+    const pathStrategy = matchPath(path)
+    if (pathStrategy) return applyStrategy(value, pathStrategy)
+
+    if (typeof value === 'string') return redactString(value)
+
+    const isArray = Array.isArray(value)
+    if (!isArray && !isPlainObject(value)) return value
+
+    const container = value as Record<string, unknown> | unknown[]
+    if (seen.has(container)) return '[Circular]'
+    if (depth >= options.maxDepth) return options.mask
+
+    seen.add(container)
+    let result: Record<string, unknown> | unknown[]
+
+    if (isArray) {
+      result = []
+      ;(container as unknown[]).forEach((item, index) => {
+        const redacted = redactValue(item, [...path, String(index)], depth + 1, seen)
+        if (redacted !== DROP) (result as unknown[]).push(redacted)
+      })
+    } else {
+      result = {}
+      for (const [key, item] of Object.entries(container)) {
+        const keyStrategy = matchKey(key)
+        const redacted = keyStrategy
+          ? applyStrategy(item, keyStrategy)
+          : redactValue(item, [...path, key], depth + 1, seen)
+        if (redacted !== DROP) (result as Record<string, unknown>)[key] = redacted
+      }
+    }
+
+    seen.delete(container)
+    return result
+  }
+
+  /**
+   * Redacts a top-level payload field, resolving drop to undefined
+   */
+  function redactField(value: unknown, path: string[]): unknown {
+    const redacted = redactValue(value, path, 0, new WeakSet())
+    return redacted === DROP ? undefined : redacted
+  }
+
+  function redactRecord(value: Record<string, unknown>, path: string[]): Record<string, unknown> {
+    const redacted = redactField(value, path)
+    return isPlainObject(redacted) ? redacted : {}
+  }
+
+  function redactPropChange(change: PropChange): PropChange | null {
+    const keyStrategy = matchKey(change.key)
+    if (keyStrategy) {
+      const prevValue = applyStrategy(change.prevValue, keyStrategy)
+      if (prevValue === DROP) return null
+      return { ...change, prevValue, nextValue: applyStrategy(change.nextValue, keyStrategy) }
+    }
+
+    const path = ['props', ...change.key.split('.')]
+    const prevValue = redactValue(change.prevValue, path, 0, new WeakSet())
+    const nextValue = redactValue(change.nextValue, path, 0, new WeakSet())
+    if (prevValue === DROP || nextValue === DROP) return null
+    return { ...change, prevValue, nextValue }
+  }
+
+  /**
+   * Copies an error with its message and stack redacted, keeping its prototype
+   * and own properties such as `code`
+   */
+  function redactError(error: Error): Error {
+    const redacted = Object.assign(Object.create(Object.getPrototypeOf(error)) as Error, error)
+    const message = redactString(error.message)
+    redacted.message = message === DROP ? options.mask : message
+    if (error.stack !== undefined) {
+      const stack = redactString(error.stack)
+      redacted.stack = stack === DROP ? options.mask : stack
+    }
+    return redacted
+  }
+
+  function redactContextEntry(contextName: string, value: unknown): unknown {
+    const keyStrategy = matchKey(contextName)
+    if (keyStrategy) return applyStrategy(value, keyStrategy)
+    return redactValue(value, ['context', contextName], 0, new WeakSet())
+  }
+
+  function redactContextValue(contextName: string, value: unknown): unknown {
+    const redacted = redactContextEntry(contextName, value)
+    return redacted === DROP ? undefined : redacted
+  }
+
+  /**
+   * Redacts initial context values by context name, leaving out dropped ones
+   */
+  function redactContextRecord(values: Record<string, unknown>): Record<string, unknown> {
+    const result: Record<string, unknown> = {}
+    for (const [contextName, value] of Object.entries(values)) {
+      const redacted = redactContextEntry(contextName, value)
+      if (redacted !== DROP) result[contextName] = redacted
+    }
+    return result
+  }
+
+  function redactEvent<T extends KernelEvent>(event: T): T {
+    const redacted: KernelEvent = event
+    switch (redacted.type) {
+      case 'mount':
+        return {
+          ...redacted,
+          props: redactRecord(redacted.props, ['props']),
+          initialState: redactRecord(redacted.initialState, ['state']),
+          ...(redacted.initialContext && { initialContext: redactContextRecord(redacted.initialContext) }),
+        } as T
+      case 'props-change':
+        return {
+          ...redacted,
+          changes: redacted.changes
+            .map(redactPropChange)
+            .filter((change): change is PropChange => change !== null),
+        } as T
+      case 'state-change':
+        return {
+          ...redacted,
+          prevState: redactField(redacted.prevState, ['state']),
+          nextState: redactField(redacted.nextState, ['state']),
+          ...('action' in redacted && { action: redactField(redacted.action, ['action']) }),
+        } as T
+      case 'context-change':
+        return {
+          ...redacted,
+          prevValue: redactContextValue(redacted.contextName, redacted.prevValue),
+          nextValue: redactContextValue(redacted.contextName, redacted.nextValue),
+        } as T
+      case 'effect-run':
+        return {
+          ...redacted,
+          dependencies: redacted.dependencies.map((dep, index) => redactField(dep, ['deps', String(index)])),
+        } as T
+      case 'log': {
+        const message = redactString(redacted.message)
+        return {
+          ...redacted,
+          message: message === DROP ? options.mask : message,
+          ...('data' in redacted && { data: redactField(redacted.data, ['data']) }),
+        } as T
+      }
+      case 'error':
+        return { ...redacted, error: redactError(redacted.error) } as T
+      default:
+        return event
+    }
+  }
+
+  const api: RedactionAPI = {
+    redact<T>(value: T, path?: string): T | undefined {
+      return redactField(value, path ? path.split('.') : []) as T | undefined
+    },
+
+    redactEvent,
+
+    getRedactionCount(): number {
+      return redactionCount
+    },
+  }
+
+  const plugin: Plugin = {
+    name: 'redaction',
+    version: '1.0.0',
+    type: 'optional',
+
+    install(kernel: Kernel): void {
+      removeMiddleware = kernel.use({
+        name: 'redaction',
+        failClosed: true,
+        event: (event, next) => {
+          // Fail closed: an event that cannot be redacted, such as one with a
+          // throwing getter, is dropped rather than passed on unredacted
+          let redacted: KernelEvent
+          try {
+            redacted = redactEvent(event)
+          } catch (error) {
+            console.error(`[ReactLog] Redaction failed, dropping ${event.type} event:`, error)
+            return
+          }
+          next(redacted)
+        },
+      })
+    },
+
+    uninstall(): void {
+      removeMiddleware?.()
+      removeMiddleware = null
+      redactionCount = 0
+    },
+
+    api: api as unknown as Record<string, unknown>,
+  }
+
+  return plugin as Plugin & { api: RedactionAPI }
+}
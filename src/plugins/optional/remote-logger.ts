@@ -4,7 +4,24 @@ import type {
   LogEntry,
   RemoteLoggerOptions,
   RemoteLoggerAPI,
+  RemoteQueueSnapshot,
+  RemoteTransport,
+  RemoteBatch,
+  RemoteEnvelope,
 } from '../../types'
+import { toSerializable } from '../../utils'
+import { VERSION } from '../../version'
+import { createHttpTransport } from './remote-transports'
+
+/**
+ * Envelope format version; bump on incompatible changes
+ */
+const SCHEMA_VERSION = 1
+
+/**
+ * SDK identity reported in envelopes
+ */
+export const SDK = { name: '@oxog/reactlog', version: VERSION }
 
 /**
  * Default options for remote logger
@@ -12,30 +29,91 @@ import type {
 const DEFAULT_OPTIONS: Omit<RemoteLoggerOptions, 'endpoint'> = {
   method: 'POST',
   headers: undefined,
+  transport: undefined,
   batchSize: 10,
   batchInterval: 5000,
   retryAttempts: 3,
   retryDelay: 1000,
+  retryMaxDelay: 30000,
+  queueStorage: undefined,
+  maxQueueSize: 1000,
+  overflow: 'drop-oldest',
+  beacon: true,
+  envelope: false,
+  compress: false,
   filter: undefined,
   transform: undefined,
   onError: undefined,
   onSuccess: undefined,
 }
 
+/**
+ * Entries waiting for delivery during one install of the plugin
+ */
+interface Queue {
+  pending: LogEntry[]
+  failed: LogEntry[]
+  /** Batches handed to the transport, still saved until delivered */
+  inFlight: Set<LogEntry[]>
+}
+
+function createQueue(): Queue {
+  return { pending: [], failed: [], inFlight: new Set() }
+}
+
+function logQueueError(error: unknown): void {
+  console.error('[ReactLog] Remote logger queue error:', error)
+}
+
+function isOffline(): boolean {
+  return typeof navigator !== 'undefined' && navigator.onLine === false
+}
+
+/**
+ * Gzip a body with CompressionStream
+ */
+async function gzip(body: string): Promise<Blob> {
+  const stream = new CompressionStream('gzip')
+  const writer = stream.writable.getWriter()
+  const [, compressed] = await Promise.all([
+    writer.write(new TextEncoder().encode(body)).then(() => writer.close()),
+    new Response(stream.readable).blob(),
+  ])
+  return compressed
+}
+
 /**
  * Creates the remote-logger plugin
- * Sends logs to remote HTTP endpoint
+ * Sends logs to remote HTTP endpoint, or through any `transport`
+ *
+ * Undelivered entries stay queued: while offline nothing is sent, failed
+ * sends retry with exponential backoff, and with `queueStorage` the queue
+ * (including batches in flight) is saved and restored on the next page load,
+ * so delivery is at-least-once. When the page is hidden or unloaded the queue
+ * is handed to the transport's `sendOnUnload` (navigator.sendBeacon for HTTP).
  */
 export function remoteLogger(
-  userOptions: Partial<RemoteLoggerOptions> & { endpoint: string }
+  userOptions: Partial<RemoteLoggerOptions> & ({ endpoint: string } | { transport: RemoteTransport })
 ): Plugin & { api: RemoteLoggerAPI } {
   const options: RemoteLoggerOptions = { ...DEFAULT_OPTIONS, ...userOptions }
+  const transport: RemoteTransport =
+    options.transport ??
+    createHttpTransport({
+      endpoint: options.endpoint as string,
+      method: options.method,
+      headers: options.headers,
+      onSuccess: options.onSuccess,
+    })
 
   let kernel: Kernel | null = null
-  let pendingLogs: LogEntry[] = []
-  let failedLogs: LogEntry[] = []
+  let queue: Queue = createQueue()
+  let droppedCount = 0
   let paused = false
   let batchTimer: ReturnType<typeof setTimeout> | null = null
+  let writeChain: Promise<void> = Promise.resolve()
+  let saveScheduled = false
+  let sequence = 0
+  const serialized = new WeakMap<LogEntry, LogEntry>()
 
   function shouldLog(entry: LogEntry): boolean {
     if (!options.filter) return true
@@ -63,44 +141,177 @@ export function remoteLogger(
     return true
   }
 
-  async function sendLogs(logs: LogEntry[], attempt: number = 1): Promise<boolean> {
-    const transformedLogs = options.transform
-      ? logs.map(options.transform)
-      : logs
+  /**
+   * Encode entries as a bare JSON array, or an envelope when enabled
+   */
+  function encode(logs: LogEntry[], batchSequence: number): string {
+    const transformed = options.transform ? logs.map(options.transform) : logs
+    if (!options.envelope) return JSON.stringify(transformed)
+
+    const envelope: RemoteEnvelope = {
+      schemaVersion: SCHEMA_VERSION,
+      sdk: SDK,
+      sessionId: kernel?.getLogs().sessionId ?? null,
+      sequence: batchSequence,
+      entryIds: logs.map((entry) => entry.id),
+      sentAt: Date.now(),
+      logs: transformed,
+    }
+    return JSON.stringify(envelope)
+  }
 
-    try {
-      const response = await fetch(options.endpoint, {
-        method: options.method,
-        headers: {
-          'Content-Type': 'application/json',
-          ...options.headers,
-        },
-        body: JSON.stringify(transformedLogs),
+  function toBatch(logs: LogEntry[], batchSequence: number): RemoteBatch {
+    return { logs, body: encode(logs, batchSequence) }
+  }
+
+  async function toCompressedBatch(logs: LogEntry[], batchSequence: number): Promise<RemoteBatch> {
+    const body = encode(logs, batchSequence)
+    if (typeof CompressionStream === 'undefined') return { logs, body }
+    return { logs, body: await gzip(body), encoding: 'gzip' }
+  }
+
+  /**
+   * Delay before the next attempt: doubling from retryDelay up to retryMaxDelay,
+   * with half of it randomized so clients that failed together retry apart
+   */
+  function getRetryDelay(attempt: number): number {
+    const delay = Math.min(options.retryMaxDelay, options.retryDelay * 2 ** (attempt - 1))
+    return delay / 2 + Math.random() * (delay / 2)
+  }
+
+  /**
+   * Drop entries beyond maxQueueSize according to the overflow policy
+   */
+  function enforceLimit(q: Queue): void {
+    const excess = q.pending.length + q.failed.length - options.maxQueueSize
+    if (excess <= 0) return
+
+    droppedCount += excess
+    if (options.overflow === 'drop-newest') {
+      const fromPending = Math.min(excess, q.pending.length)
+      q.pending.splice(q.pending.length - fromPending)
+      q.failed.splice(q.failed.length - (excess - fromPending))
+    } else {
+      // Failed entries are older than anything still pending
+      const fromFailed = Math.min(excess, q.failed.length)
+      q.failed.splice(0, fromFailed)
+      q.pending.splice(0, excess - fromFailed)
+    }
+  }
+
+  function serialize(entry: LogEntry): LogEntry {
+    let value = serialized.get(entry)
+    if (!value) {
+      value = toSerializable(entry) as LogEntry
+      serialized.set(entry, value)
+    }
+    return value
+  }
+
+  /**
+   * Queue a save of the given queue behind earlier writes
+   * The snapshot is taken when the write runs, after a pending restore has merged in.
+   */
+  function saveQueue(q: Queue): Promise<void> {
+    const storage = options.queueStorage
+    if (!storage) return Promise.resolve()
+
+    writeChain = writeChain
+      .then(() => {
+        const snapshot: RemoteQueueSnapshot = {
+          pending: [...Array.from(q.inFlight).flat(), ...q.pending].map(serialize),
+          failed: q.failed.map(serialize),
+        }
+        return storage.save(snapshot)
       })
+      .catch(logQueueError)
+    return writeChain
+  }
 
-      if (!response.ok) {
-        throw new Error(`HTTP error: ${response.status}`)
-      }
+  /**
+   * Save the current queue on the next microtask, batching synchronous bursts
+   */
+  function scheduleSave(): void {
+    if (!options.queueStorage || saveScheduled) return
+    saveScheduled = true
+    const q = queue
+    queueMicrotask(() => {
+      saveScheduled = false
+      // Uninstall already saved this queue; don't overwrite it with the fresh one
+      if (q === queue) void saveQueue(q)
+    })
+  }
 
-      options.onSuccess?.(response)
-      return true
-    } catch (error) {
-      if (attempt < options.retryAttempts) {
-        await new Promise((resolve) => setTimeout(resolve, options.retryDelay * attempt))
-        return sendLogs(logs, attempt + 1)
-      }
+  /**
+   * Restore entries saved by a previous page load, then try to deliver them
+   */
+  function restoreQueue(q: Queue): void {
+    const storage = options.queueStorage
+    if (!storage) return
+
+    writeChain = storage
+      .load()
+      .then((stored) => {
+        if (!stored) return
+        q.pending.unshift(...stored.pending)
+        q.failed.unshift(...stored.failed)
+        enforceLimit(q)
+      })
+      .catch(logQueueError)
 
-      options.onError?.(error as Error)
-      failedLogs.push(...logs)
-      return false
+    void writeChain.then(() => {
+      if (q !== queue) return
+      void flushInternal()
+      void api.retryFailed()
+    })
+  }
+
+  async function sendLogs(logs: LogEntry[]): Promise<boolean> {
+    const q = queue
+    const batchSequence = ++sequence
+    q.inFlight.add(logs)
+
+    try {
+      for (let attempt = 1; ; attempt++) {
+        try {
+          // Uncompressed batches reach the transport synchronously, ahead of an uninstall
+          const batch = options.compress
+            ? await toCompressedBatch(logs, batchSequence)
+            : toBatch(logs, batchSequence)
+          await transport.send(batch)
+          return true
+        } catch (error) {
+          // Uninstalled meanwhile: the batch is still in the saved queue
+          if (q !== queue) return false
+
+          // Connection lost: hold the batch until the browser is back online
+          if (isOffline()) {
+            q.pending.unshift(...logs)
+            enforceLimit(q)
+            return false
+          }
+
+          if (attempt >= options.retryAttempts) {
+            options.onError?.(error as Error)
+            q.failed.push(...logs)
+            enforceLimit(q)
+            return false
+          }
+
+          await new Promise((resolve) => setTimeout(resolve, getRetryDelay(attempt)))
+        }
+      }
+    } finally {
+      q.inFlight.delete(logs)
+      if (q === queue) scheduleSave()
     }
   }
 
   async function flushInternal(): Promise<void> {
-    if (pendingLogs.length === 0) return
+    if (queue.pending.length === 0 || isOffline()) return
 
-    const logsToSend = [...pendingLogs]
-    pendingLogs = []
+    const logsToSend = queue.pending
+    queue.pending = []
 
     await sendLogs(logsToSend)
   }
@@ -111,10 +322,10 @@ export function remoteLogger(
     /* c8 ignore start - async timer callback is difficult to test deterministically */
     batchTimer = setTimeout(async () => {
       batchTimer = null
-      if (pendingLogs.length >= options.batchSize) {
+      if (queue.pending.length >= options.batchSize) {
         await flushInternal()
       }
-      if (pendingLogs.length > 0) {
+      if (queue.pending.length > 0) {
         scheduleBatch()
       }
     }, options.batchInterval)
@@ -125,15 +336,50 @@ export function remoteLogger(
     if (paused) return
     if (!shouldLog(entry)) return
 
-    pendingLogs.push(entry)
+    queue.pending.push(entry)
+    enforceLimit(queue)
+    scheduleSave()
 
-    if (pendingLogs.length >= options.batchSize) {
+    if (queue.pending.length >= options.batchSize) {
       void flushInternal()
     } else {
       scheduleBatch()
     }
   }
 
+  /**
+   * Hand queued entries to the transport's unload send, which outlives the page, and save the rest
+   */
+  function sendOnUnload(): void {
+    if (options.beacon && transport.sendOnUnload && !isOffline()) {
+      const queued = [...queue.failed, ...queue.pending]
+      let sent = 0
+      while (sent < queued.length) {
+        const batch = queued.slice(sent, sent + options.batchSize)
+        // No time to compress while the page goes away
+        if (!transport.sendOnUnload(toBatch(batch, ++sequence))) break
+        sent += batch.length
+      }
+
+      const fromFailed = Math.min(sent, queue.failed.length)
+      queue.failed.splice(0, fromFailed)
+      queue.pending.splice(0, sent - fromFailed)
+    }
+
+    void saveQueue(queue)
+  }
+
+  function handleVisibilityChange(): void {
+    if (document.visibilityState === 'hidden') {
+      sendOnUnload()
+    }
+  }
+
+  function handleOnline(): void {
+    void flushInternal()
+    void api.retryFailed()
+  }
+
   const api: RemoteLoggerAPI = {
     async flush(): Promise<void> {
       await flushInternal()
@@ -152,25 +398,24 @@ export function remoteLogger(
     },
 
     getPendingCount(): number {
-      return pendingLogs.length
+      return queue.pending.length
     },
 
     getFailedCount(): number {
-      return failedLogs.length
+      return queue.failed.length
+    },
+
+    getDroppedCount(): number {
+      return droppedCount
     },
 
     async retryFailed(): Promise<void> {
-      if (failedLogs.length === 0) return
+      if (queue.failed.length === 0 || isOffline()) return
 
-      const logsToRetry = [...failedLogs]
-      failedLogs = []
+      const logsToRetry = queue.failed
+      queue.failed = []
 
-      const success = await sendLogs(logsToRetry)
-      /* c8 ignore start - empty block: logs already added back to failedLogs by sendLogs */
-      if (!success) {
-        // Already added back to failedLogs by sendLogs
-      }
-      /* c8 ignore stop */
+      await sendLogs(logsToRetry)
     },
   }
 
@@ -181,6 +426,14 @@ export function remoteLogger(
 
     install(k: Kernel): void {
       kernel = k
+      transport.open?.()
+      restoreQueue(queue)
+
+      if (typeof window !== 'undefined') {
+        window.addEventListener('online', handleOnline)
+        window.addEventListener('pagehide', sendOnUnload)
+        document.addEventListener('visibilitychange', handleVisibilityChange)
+      }
     },
 
     uninstall(): void {
@@ -188,13 +441,24 @@ export function remoteLogger(
         clearTimeout(batchTimer)
         batchTimer = null
       }
-      // Try to flush remaining logs
-      if (pendingLogs.length > 0) {
+
+      if (typeof window !== 'undefined') {
+        window.removeEventListener('online', handleOnline)
+        window.removeEventListener('pagehide', sendOnUnload)
+        document.removeEventListener('visibilitychange', handleVisibilityChange)
+      }
+
+      if (options.queueStorage) {
+        // Keep everything, including batches in flight, for the next page load
+        void saveQueue(queue)
+      } else if (queue.pending.length > 0) {
+        // Try to flush remaining logs
         void flushInternal()
       }
+
+      transport.close?.()
       kernel = null
-      pendingLogs = []
-      failedLogs = []
+      queue = createQueue()
     },
 
     hooks: {
@@ -0,0 +1,124 @@
+import type { RemoteQueueSnapshot, RemoteQueueStorage } from '../../types'
+import { openDatabase, runTransaction } from '../../utils'
+
+/**
+ * Default localStorage key and IndexedDB record id for the queue
+ */
+const DEFAULT_QUEUE_KEY = 'reactlog:remote-queue'
+
+/**
+ * Schema version of the remote queue database
+ */
+const DB_VERSION = 1
+
+/**
+ * Object store holding queue snapshots, keyed by id
+ */
+const QUEUE_STORE = 'queue'
+
+/**
+ * Options for the localStorage queue
+ */
+export interface LocalStorageQueueOptions {
+  /** localStorage key, change it to keep several loggers on one origin apart */
+  key?: string
+}
+
+/**
+ * Options for the IndexedDB queue
+ */
+export interface IndexedDBQueueOptions {
+  /** Database name */
+  dbName?: string
+  /** Record id within the database, change it to keep several loggers apart */
+  key?: string
+}
+
+/**
+ * LocalStorageQueue keeps the remote logger queue in localStorage
+ * Writes are synchronous, so a save started from `pagehide` always lands.
+ * Suited to small queues: localStorage is limited to a few megabytes per origin.
+ */
+export class LocalStorageQueue implements RemoteQueueStorage {
+  private key: string
+
+  constructor(options: LocalStorageQueueOptions = {}) {
+    this.key = options.key ?? DEFAULT_QUEUE_KEY
+  }
+
+  async load(): Promise<RemoteQueueSnapshot | null> {
+    const stored = localStorage.getItem(this.key)
+    return stored ? (JSON.parse(stored) as RemoteQueueSnapshot) : null
+  }
+
+  async save(snapshot: RemoteQueueSnapshot): Promise<void> {
+    if (snapshot.pending.length === 0 && snapshot.failed.length === 0) {
+      localStorage.removeItem(this.key)
+    } else {
+      localStorage.setItem(this.key, JSON.stringify(snapshot))
+    }
+  }
+}
+
+/**
+ * IndexedDBQueue keeps the remote logger queue in IndexedDB
+ * Each save replaces the whole snapshot in one transaction. The connection
+ * opens lazily on first use.
+ */
+export class IndexedDBQueue implements RemoteQueueStorage {
+  private dbName: string
+  private key: string
+  private db: Promise<IDBDatabase> | null = null
+
+  constructor(options: IndexedDBQueueOptions = {}) {
+    this.dbName = options.dbName ?? 'reactlog-remote'
+    this.key = options.key ?? DEFAULT_QUEUE_KEY
+  }
+
+  async load(): Promise<RemoteQueueSnapshot | null> {
+    const record = await runTransaction<(RemoteQueueSnapshot & { id: string }) | undefined>(
+      await this.open(),
+      [QUEUE_STORE],
+      'readonly',
+      (tx) => tx.objectStore(QUEUE_STORE).get(this.key)
+    )
+    return record ? { pending: record.pending, failed: record.failed } : null
+  }
+
+  async save(snapshot: RemoteQueueSnapshot): Promise<void> {
+    await runTransaction(await this.open(), [QUEUE_STORE], 'readwrite', (tx) => {
+      tx.objectStore(QUEUE_STORE).put({ id: this.key, ...snapshot })
+    })
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = openDatabase(this.dbName, DB_VERSION, (db) => {
+        if (!db.objectStoreNames.contains(QUEUE_STORE)) {
+          db.createObjectStore(QUEUE_STORE, { keyPath: 'id' })
+        }
+      })
+    }
+    return this.db
+  }
+}
+
+/**
+ * Creates a new LocalStorageQueue instance
+ *
+ * @param options - localStorage queue options
+ * @returns A new LocalStorageQueue
+ */
+export function createLocalStorageQueue(options?: LocalStorageQueueOptions): LocalStorageQueue {
+  return new LocalStorageQueue(options)
+}
+
+/**
+ * Creates a new IndexedDBQueue instance
+ *
+ * @param options - IndexedDB queue options
+ * @returns A new IndexedDBQueue
+ */
+export function createIndexedDBQueue(options?: IndexedDBQueueOptions): IndexedDBQueue {
+  return new IndexedDBQueue(options)
+}
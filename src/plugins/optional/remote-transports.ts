@@ -0,0 +1,232 @@
+import type { RemoteBatch, RemoteTransport } from '../../types'
+
+/**
+ * Options for the HTTP transport
+ */
+export interface HttpTransportOptions {
+  /** URL batches are sent to */
+  endpoint: string
+  /** HTTP method, POST by default */
+  method?: 'POST' | 'PUT'
+  /** Extra request headers */
+  headers?: Record<string, string>
+  /** Called with the response of each delivered batch */
+  onSuccess?: (response: Response) => void
+}
+
+/**
+ * Options for the WebSocket transport
+ */
+export interface WebSocketTransportOptions {
+  /** ws:// or wss:// URL */
+  url: string
+  /** Subprotocols offered to the server */
+  protocols?: string | string[]
+}
+
+/**
+ * Options for the sendBeacon transport
+ */
+export interface BeaconTransportOptions {
+  /** URL beacons are sent to */
+  url: string
+}
+
+/**
+ * Callback behind a custom transport; throw or reject to have the batch retried
+ */
+export type RemoteTransportCallback = (batch: RemoteBatch) => Promise<void> | void
+
+/**
+ * Queue a batch with navigator.sendBeacon, false when unavailable or refused
+ * Beacons cannot set Content-Encoding, so gzipped bodies go out as application/gzip.
+ */
+function sendBeacon(url: string, batch: RemoteBatch): boolean {
+  if (typeof navigator === 'undefined' || typeof navigator.sendBeacon !== 'function') return false
+  const type = batch.encoding === 'gzip' ? 'application/gzip' : 'application/json'
+  return navigator.sendBeacon(url, new Blob([batch.body], { type }))
+}
+
+/**
+ * HttpTransport sends each batch as a JSON request with fetch
+ * On unload it falls back to sendBeacon, which only carries plain POSTs, so
+ * PUT or custom headers leave the batch queued instead.
+ */
+export class HttpTransport implements RemoteTransport {
+  private endpoint: string
+  private method: 'POST' | 'PUT'
+  private headers: Record<string, string> | undefined
+  private onSuccess: ((response: Response) => void) | undefined
+
+  constructor(options: HttpTransportOptions) {
+    this.endpoint = options.endpoint
+    this.method = options.method ?? 'POST'
+    this.headers = options.headers
+    this.onSuccess = options.onSuccess
+  }
+
+  async send(batch: RemoteBatch): Promise<void> {
+    const response = await fetch(this.endpoint, {
+      method: this.method,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(batch.encoding && { 'Content-Encoding': batch.encoding }),
+        ...this.headers,
+      },
+      body: batch.body,
+    })
+
+    if (!response.ok) {
+      throw new Error(`HTTP error: ${response.status}`)
+    }
+
+    this.onSuccess?.(response)
+  }
+
+  sendOnUnload(batch: RemoteBatch): boolean {
+    if (this.method !== 'POST' || this.headers) return false
+    return sendBeacon(this.endpoint, batch)
+  }
+}
+
+/**
+ * WebSocketTransport streams each batch as one message over a shared socket,
+ * a text frame, or a binary frame when gzipped
+ * The socket opens on install and reopens on the next send after it drops;
+ * sends during the outage reject and go through the remote logger's retries.
+ * A message counts as delivered once the socket accepts it.
+ */
+export class WebSocketTransport implements RemoteTransport {
+  private url: string
+  private protocols: string | string[] | undefined
+  private socket: WebSocket | null = null
+  private connecting: Promise<WebSocket> | null = null
+
+  constructor(options: WebSocketTransportOptions) {
+    this.url = options.url
+    this.protocols = options.protocols
+  }
+
+  async send(batch: RemoteBatch): Promise<void> {
+    // Write synchronously when open, so a flush right before close() still goes out
+    const socket = this.socket?.readyState === WebSocket.OPEN ? this.socket : await this.connect()
+    socket.send(batch.body)
+  }
+
+  sendOnUnload(batch: RemoteBatch): boolean {
+    if (this.socket?.readyState !== WebSocket.OPEN) return false
+    this.socket.send(batch.body)
+    return true
+  }
+
+  open(): void {
+    // Failures surface on the first send
+    this.connect().catch(() => {})
+  }
+
+  close(): void {
+    const socket = this.socket
+    this.socket = null
+    this.connecting = null
+    socket?.close()
+  }
+
+  private connect(): Promise<WebSocket> {
+    if (this.socket?.readyState === WebSocket.OPEN) return Promise.resolve(this.socket)
+    if (this.connecting) return this.connecting
+
+    const socket = new WebSocket(this.url, this.protocols)
+    this.socket = socket
+
+    this.connecting = new Promise<WebSocket>((resolve, reject) => {
+      socket.addEventListener('open', () => {
+        if (this.socket === socket) this.connecting = null
+        resolve(socket)
+      })
+      // Also fires after a failed handshake, and is a no-op once resolved
+      socket.addEventListener('close', () => {
+        if (this.socket === socket) {
+          this.socket = null
+          this.connecting = null
+        }
+        reject(new Error(`WebSocket closed: ${this.url}`))
+      })
+    })
+
+    return this.connecting
+  }
+}
+
+/**
+ * BeaconTransport hands every batch to navigator.sendBeacon
+ * Beacons outlive the page but report no response, so a batch counts as
+ * delivered once the browser queues it.
+ */
+export class BeaconTransport implements RemoteTransport {
+  private url: string
+
+  constructor(options: BeaconTransportOptions) {
+    this.url = options.url
+  }
+
+  async send(batch: RemoteBatch): Promise<void> {
+    if (!sendBeacon(this.url, batch)) {
+      throw new Error('sendBeacon is unavailable or refused the batch')
+    }
+  }
+
+  sendOnUnload(batch: RemoteBatch): boolean {
+    return sendBeacon(this.url, batch)
+  }
+}
+
+/**
+ * Creates a new HttpTransport instance
+ *
+ * @param options - HTTP transport options
+ * @returns A new HttpTransport
+ */
+export function createHttpTransport(options: HttpTransportOptions): HttpTransport {
+  return new HttpTransport(options)
+}
+
+/**
+ * Creates a new WebSocketTransport instance
+ *
+ * @param options - WebSocket transport options
+ * @returns A new WebSocketTransport
+ */
+export function createWebSocketTransport(options: WebSocketTransportOptions): WebSocketTransport {
+  return new WebSocketTransport(options)
+}
+
+/**
+ * Creates a new BeaconTransport instance
+ *
+ * @param options - Beacon transport options
+ * @returns A new BeaconTransport
+ */
+export function createBeaconTransport(options: BeaconTransportOptions): BeaconTransport {
+  return new BeaconTransport(options)
+}
+
+/**
+ * Creates a transport that passes each batch to a callback
+ *
+ * @param send - Delivers one batch
+ * @returns A transport for remoteLogger
+ *
+ * @example
+ * ```typescript
+ * remoteLogger({
+ *   transport: createCustomTransport(({ logs }) => dashboard.push(logs)),
+ * })
+ * ```
+ */
+export function createCustomTransport(send: RemoteTransportCallback): RemoteTransport {
+  return {
+    async send(batch: RemoteBatch): Promise<void> {
+      await send(batch)
+    },
+  }
+}
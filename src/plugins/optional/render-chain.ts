@@ -6,13 +6,23 @@ import type {
   RenderChainOptions,
   RenderChainAPI,
   RenderChainNode,
+  RenderCommit,
+  Unsubscribe,
 } from '../../types'
+import type { CommittedFiber, Fiber, FiberRoot } from '../../utils/fiber'
+import {
+  getLogComponentId,
+  installDevToolsHookShim,
+  subscribeToFiberCommits,
+  walkCommittedFibers,
+} from '../../utils/fiber'
 
 /**
  * Default options for render chain
  */
 const DEFAULT_OPTIONS: RenderChainOptions = {
   maxDepth: 10,
+  source: 'timing',
 }
 
 /**
@@ -23,6 +33,12 @@ const CHAIN_WINDOW = 50
 /**
  * Creates the render-chain plugin
  * Tracks parent→child render propagation
+ *
+ * With `source: 'fiber'` the chain comes from committed fibers reported to
+ * `__REACT_DEVTOOLS_GLOBAL_HOOK__`: a component is triggered by its owner when
+ * the owner re-rendered in the same commit, otherwise it is a root cause (its
+ * own state or context changed). React attaches to the hook when react-dom
+ * loads, so without React DevTools call `installDevToolsHookShim()` first.
  */
 export function renderChain(
   userOptions: Partial<RenderChainOptions> = {}
@@ -34,6 +50,128 @@ export function renderChain(
   let lastRenderTimestamp = 0
   let lastRenderComponentId: string | null = null
   let kernel: Kernel | null = null
+  let lastCommit: RenderCommit | null = null
+  let unsubscribeCommits: Unsubscribe | null = null
+  const fiberIds = new WeakMap<Fiber, string>()
+  let nextFiberId = 0
+
+  /**
+   * Resolves a stable id for a fiber pair: the useLog componentId when the
+   * component is tracked, otherwise a generated `fiber-<n>` id
+   */
+  function getFiberId(fiber: Fiber): string {
+    const known = fiberIds.get(fiber) ?? (fiber.alternate ? fiberIds.get(fiber.alternate) : undefined)
+    if (known) {
+      fiberIds.set(fiber, known)
+      return known
+    }
+
+    const id = getLogComponentId(fiber) ?? `fiber-${nextFiberId++}`
+    fiberIds.set(fiber, id)
+    if (fiber.alternate) fiberIds.set(fiber.alternate, id)
+    return id
+  }
+
+  function linkTrigger(componentId: string, parentId: string): void {
+    const node = nodes.get(componentId)
+    const parentNode = nodes.get(parentId)
+    if (!node || !parentNode) return
+
+    node.triggeredBy = parentId
+    parentMap.set(componentId, parentId)
+
+    if (!parentNode.triggered.includes(componentId)) {
+      parentNode.triggered.push(componentId)
+    }
+
+    let children = childrenMap.get(parentId)
+    if (!children) {
+      children = new Set()
+      childrenMap.set(parentId, children)
+    }
+    children.add(componentId)
+
+    node.depth = parentNode.depth + 1
+    if (node.depth > options.maxDepth) {
+      console.warn(
+        `[ReactLog] Deep render chain detected: ${node.componentName} at depth ${node.depth}`
+      )
+    }
+  }
+
+  function handleCommit(root: FiberRoot): void {
+    const timestamp = Date.now()
+    const committed: CommittedFiber[] = walkCommittedFibers(root)
+    const commit: RenderCommit = { timestamp, rendered: [], bailedOut: [], rootCauses: [] }
+    const renderedIds = new Set<string>()
+
+    for (const { fiber, name, status, owner } of committed) {
+      const componentId = getFiberId(fiber)
+      const ownerId = owner ? getFiberId(owner) : null
+
+      let node = nodes.get(componentId)
+      if (!node) {
+        node = {
+          componentId,
+          componentName: name,
+          triggeredBy: null,
+          triggered: [],
+          depth: 0,
+          timestamp,
+        }
+        nodes.set(componentId, node)
+      }
+      node.ownerId = ownerId
+      node.status = status
+
+      if (status === 'bailed-out') {
+        commit.bailedOut.push(componentId)
+        continue
+      }
+
+      // The incoming edge always reflects the latest commit that rendered the component
+      node.timestamp = timestamp
+      node.depth = 0
+      const previousParent = parentMap.get(componentId)
+      if (previousParent) {
+        childrenMap.get(previousParent)?.delete(componentId)
+        const previousParentNode = nodes.get(previousParent)
+        if (previousParentNode) {
+          previousParentNode.triggered = previousParentNode.triggered.filter((id) => id !== componentId)
+        }
+      }
+      parentMap.delete(componentId)
+      node.triggeredBy = null
+
+      renderedIds.add(componentId)
+      commit.rendered.push(componentId)
+
+      if (ownerId && renderedIds.has(ownerId)) {
+        linkTrigger(componentId, ownerId)
+      } else {
+        commit.rootCauses.push(componentId)
+      }
+    }
+
+    lastCommit = commit
+  }
+
+  function handleFiberUnmount(fiber: Fiber): void {
+    const componentId = fiberIds.get(fiber)
+    if (!componentId) return
+
+    nodes.delete(componentId)
+    childrenMap.delete(componentId)
+    const parentId = parentMap.get(componentId)
+    if (parentId) {
+      childrenMap.get(parentId)?.delete(componentId)
+      parentMap.delete(componentId)
+      const parentNode = nodes.get(parentId)
+      if (parentNode) {
+        parentNode.triggered = parentNode.triggered.filter((id) => id !== componentId)
+      }
+    }
+  }
 
   function updateChain(componentId: string, componentName: string, timestamp: number): void {
     // Check if this render is part of the current chain
@@ -139,6 +277,14 @@ export function renderChain(
       return parentMap.get(componentId) ?? null
     },
 
+    getLastCommit(): RenderCommit | null {
+      return lastCommit
+    },
+
+    getNodes(): RenderChainNode[] {
+      return Array.from(nodes.values())
+    },
+
     visualizeChain(): string {
       // Find root nodes (nodes with no parent)
       const roots: string[] = []
@@ -166,9 +312,26 @@ export function renderChain(
 
     install(k: Kernel): void {
       kernel = k
+
+      if (options.source === 'fiber') {
+        const hook = installDevToolsHookShim()
+        if (hook.renderers.size === 0) {
+          console.warn(
+            '[ReactLog] render-chain: no React renderer is attached to the DevTools hook yet. ' +
+              'Call installDevToolsHookShim() before react-dom loads.'
+          )
+        }
+        unsubscribeCommits = subscribeToFiberCommits(hook, {
+          onCommit: handleCommit,
+          onUnmount: handleFiberUnmount,
+        })
+      }
     },
 
     uninstall(): void {
+      unsubscribeCommits?.()
+      unsubscribeCommits = null
+      lastCommit = null
       kernel = null
       nodes.clear()
       parentMap.clear()
@@ -179,10 +342,12 @@ export function renderChain(
 
     hooks: {
       onMount(event: MountEvent): void {
+        if (options.source === 'fiber') return
         updateChain(event.componentId, event.componentName, event.timestamp)
       },
 
       onUpdate(event: UpdateEvent): void {
+        if (options.source === 'fiber') return
         updateChain(event.componentId, event.componentName, event.timestamp)
       },
     },
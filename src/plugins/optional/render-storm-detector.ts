@@ -0,0 +1,343 @@
+import type {
+  Plugin,
+  Kernel,
+  MountEvent,
+  UnmountEvent,
+  UpdateEvent,
+  StateChangeEvent,
+  EffectRunEvent,
+  LogEvent,
+  ConsoleOutputAPI,
+  RenderStormOptions,
+  RenderStormAPI,
+  RenderStormKind,
+  RenderStormReport,
+  EffectLoopStep,
+} from '../../types'
+import { generateUID } from '../../utils'
+
+/**
+ * Default options for render storm detector
+ */
+const DEFAULT_OPTIONS: RenderStormOptions = {
+  windowMs: 1000,
+  maxUpdates: 30,
+  maxStateChanges: 30,
+  maxEffectRuns: 30,
+  loopThreshold: 20,
+  pauseConsole: false,
+  cooldownMs: 5000,
+  maxReports: 100,
+}
+
+/**
+ * Verb used in storm messages for each watched event kind
+ */
+const KIND_VERBS: Record<RenderStormKind, string> = {
+  'update': 'updated',
+  'state-change': 'changed state',
+  'effect-run': 'ran effects',
+}
+
+/**
+ * Last run of a tracked effect
+ */
+interface EffectRecord {
+  seq: number
+  /** Timestamps of consecutive effect → state → effect cycles */
+  cycles: number[]
+}
+
+/**
+ * State change kept for loop detection
+ */
+interface StateRecord {
+  seq: number
+  timestamp: number
+  step: EffectLoopStep
+}
+
+/**
+ * Detector state for one mounted component
+ */
+interface ComponentRecord {
+  /** Nearest tracked ancestor recorded at mount */
+  parentId: string | null
+  rates: Map<RenderStormKind, number[]>
+  effects: Map<number, EffectRecord>
+  /** Last report time per storm kind or effect loop */
+  reportedAt: Map<string, number>
+}
+
+/**
+ * Formats a loop step as `Name effect[0]` or `Name state[1]`
+ */
+function formatStep(step: EffectLoopStep): string {
+  const hook = step.type === 'effect-run' ? 'effect' : 'state'
+  return `${step.componentName} ${hook}[${step.index}]`
+}
+
+/**
+ * Creates the render-storm-detector plugin
+ * Watches per-component update, state change and effect run rates over a
+ * sliding window, and detects effects whose state updates retrigger them.
+ *
+ * An effect run counts as a cycle when its dependencies changed and state of
+ * its component or a tracked descendant changed since its previous run. `loopThreshold` consecutive cycles within
+ * `windowMs` are reported as a loop; slower chains, such as an effect reacting
+ * to typed input, reset before reaching the threshold.
+ */
+export function renderStormDetector(
+  userOptions: Partial<RenderStormOptions> = {}
+): Plugin & { api: RenderStormAPI } {
+  const options: RenderStormOptions = { ...DEFAULT_OPTIONS, ...userOptions }
+  const components = new Map<string, ComponentRecord>()
+  const recentStates: StateRecord[] = []
+  const reports: RenderStormReport[] = []
+  let kernel: Kernel | null = null
+  let seq = 0
+
+  function getLimit(kind: RenderStormKind): number {
+    switch (kind) {
+      case 'update':
+        return options.maxUpdates
+      case 'state-change':
+        return options.maxStateChanges
+      case 'effect-run':
+        return options.maxEffectRuns
+    }
+  }
+
+  function getComponent(componentId: string): ComponentRecord {
+    let record = components.get(componentId)
+    if (!record) {
+      record = { parentId: null, rates: new Map(), effects: new Map(), reportedAt: new Map() }
+      components.set(componentId, record)
+    }
+    return record
+  }
+
+  /**
+   * Drops timestamps that fell out of the window ending at `now`
+   */
+  function prune(timestamps: number[], now: number): void {
+    const kept = timestamps.findIndex((timestamp) => timestamp > now - options.windowMs)
+    timestamps.splice(0, kept === -1 ? timestamps.length : kept)
+  }
+
+  function pruneStates(now: number): void {
+    const kept = recentStates.findIndex((state) => state.timestamp > now - options.windowMs)
+    recentStates.splice(0, kept === -1 ? recentStates.length : kept)
+  }
+
+  /**
+   * Whether a component is the given root or one of its tracked descendants
+   */
+  function isInSubtree(componentId: string, rootId: string): boolean {
+    let current: string | null = componentId
+    while (current !== null) {
+      if (current === rootId) return true
+      current = components.get(current)?.parentId ?? null
+    }
+    return false
+  }
+
+  /**
+   * Checks the cooldown for a report key and marks it as reported
+   */
+  function shouldReport(record: ComponentRecord, key: string, now: number): boolean {
+    const last = record.reportedAt.get(key)
+    if (last !== undefined && now - last < options.cooldownMs) return false
+    record.reportedAt.set(key, now)
+    return true
+  }
+
+  /**
+   * Stores a report and logs it through the kernel as a warn/error entry
+   */
+  function report(entry: Omit<RenderStormReport, 'id'>): void {
+    const stored: RenderStormReport = { id: generateUID(), ...entry }
+    reports.push(stored)
+    if (reports.length > options.maxReports) {
+      reports.shift()
+    }
+
+    if (!kernel) return
+    const logEvent: LogEvent = {
+      type: 'log',
+      componentId: stored.componentId,
+      componentName: stored.componentName,
+      timestamp: stored.timestamp,
+      level: stored.level,
+      message: stored.message,
+      data: stored,
+      tags: [stored.type === 'loop' ? 'effect-loop' : 'render-storm'],
+    }
+    kernel.emit(logEvent)
+  }
+
+  function trackRate(
+    event: UpdateEvent | StateChangeEvent | EffectRunEvent,
+    kind: RenderStormKind
+  ): void {
+    const record = getComponent(event.componentId)
+    let timestamps = record.rates.get(kind)
+    if (!timestamps) {
+      timestamps = []
+      record.rates.set(kind, timestamps)
+    }
+    timestamps.push(event.timestamp)
+    prune(timestamps, event.timestamp)
+
+    const count = timestamps.length
+    if (count <= getLimit(kind)) return
+    if (!shouldReport(record, kind, event.timestamp)) return
+
+    report({
+      type: 'storm',
+      timestamp: event.timestamp,
+      componentId: event.componentId,
+      componentName: event.componentName,
+      level: 'warn',
+      message: `Render storm: ${event.componentName} ${KIND_VERBS[kind]} ${count} times in ${options.windowMs}ms`,
+      kind,
+      count,
+      windowMs: options.windowMs,
+    })
+  }
+
+  function trackEffect(event: EffectRunEvent): void {
+    const record = getComponent(event.componentId)
+    const runSeq = ++seq
+    const previous = record.effects.get(event.effectIndex)
+    const effect: EffectRecord = { seq: runSeq, cycles: previous?.cycles ?? [] }
+    record.effects.set(event.effectIndex, effect)
+
+    pruneStates(event.timestamp)
+
+    // State changes in this component or its subtree between the previous run and this one
+    const hops = previous
+      ? recentStates.filter((state) =>
+        state.seq > previous.seq && isInSubtree(state.step.componentId, event.componentId))
+      : []
+    if (event.dependenciesChanged.length === 0 || hops.length === 0) {
+      effect.cycles = []
+      return
+    }
+
+    effect.cycles.push(event.timestamp)
+    prune(effect.cycles, event.timestamp)
+
+    const count = effect.cycles.length
+    if (count < options.loopThreshold) return
+    if (!shouldReport(record, `loop:${event.effectIndex}`, event.timestamp)) return
+
+    const effectStep: EffectLoopStep = {
+      type: 'effect-run',
+      componentId: event.componentId,
+      componentName: event.componentName,
+      index: event.effectIndex,
+      dependenciesChanged: [...event.dependenciesChanged],
+    }
+    const seen = new Set<string>()
+    const stateSteps: EffectLoopStep[] = []
+    for (const hop of hops) {
+      const key = `${hop.step.componentId}:${hop.step.index}`
+      if (seen.has(key)) continue
+      seen.add(key)
+      stateSteps.push(hop.step)
+    }
+    const cycle = [effectStep, ...stateSteps, effectStep]
+
+    report({
+      type: 'loop',
+      timestamp: event.timestamp,
+      componentId: event.componentId,
+      componentName: event.componentName,
+      level: 'error',
+      message: `Effect loop: ${cycle.map(formatStep).join(' → ')} (${count} cycles in ${options.windowMs}ms)`,
+      count,
+      windowMs: options.windowMs,
+      cycle,
+    })
+
+    if (options.pauseConsole) {
+      kernel?.getPlugin<Plugin & { api: ConsoleOutputAPI }>('console-output')?.api.pause()
+    }
+  }
+
+  const api: RenderStormAPI = {
+    getReports(componentId?: string): RenderStormReport[] {
+      if (componentId) {
+        return reports.filter((entry) => entry.componentId === componentId)
+      }
+      return [...reports]
+    },
+
+    getRate(componentId: string, kind: RenderStormKind): number {
+      const timestamps = components.get(componentId)?.rates.get(kind)
+      if (!timestamps) return 0
+      prune(timestamps, Date.now())
+      return timestamps.length
+    },
+
+    clearReports(): void {
+      reports.length = 0
+    },
+  }
+
+  const plugin: Plugin = {
+    name: 'render-storm-detector',
+    version: '1.0.0',
+    type: 'optional',
+
+    install(k: Kernel): void {
+      kernel = k
+    },
+
+    uninstall(): void {
+      components.clear()
+      recentStates.length = 0
+      reports.length = 0
+      kernel = null
+    },
+
+    hooks: {
+      onMount(event: MountEvent): void {
+        getComponent(event.componentId).parentId = event.parentId ?? null
+      },
+
+      onUpdate(event: UpdateEvent): void {
+        trackRate(event, 'update')
+      },
+
+      onStateChange(event: StateChangeEvent): void {
+        recentStates.push({
+          seq: ++seq,
+          timestamp: event.timestamp,
+          step: {
+            type: 'state-change',
+            componentId: event.componentId,
+            componentName: event.componentName,
+            index: event.hookIndex,
+          },
+        })
+        pruneStates(event.timestamp)
+        trackRate(event, 'state-change')
+      },
+
+      onEffectRun(event: EffectRunEvent): void {
+        trackEffect(event)
+        trackRate(event, 'effect-run')
+      },
+
+      onUnmount(event: UnmountEvent): void {
+        components.delete(event.componentId)
+      },
+    },
+
+    api: api as unknown as Record<string, unknown>,
+  }
+
+  return plugin as Plugin & { api: RenderStormAPI }
+}
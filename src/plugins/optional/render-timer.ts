@@ -7,17 +7,35 @@ import type {
   RenderTimerAPI,
   RenderTimeStats,
   RenderTimeRecord,
+  Unsubscribe,
 } from '../../types'
 
+/**
+ * Streaming render duration accumulator with bounded memory
+ * Exact count/total/min/max/stdDev (Welford), percentiles from a reservoir sample
+ */
+interface RenderSampler {
+  count: number
+  total: number
+  min: number
+  max: number
+  last: number
+  mean: number
+  m2: number
+  reservoir: number[]
+  histogramCounts: number[]
+}
+
 /**
  * Component render time data
  */
 interface ComponentRenderData {
   componentId: string
   componentName: string
-  renderTimes: number[]
   lastRenderStart: number
-  stats: RenderTimeStats
+  sampler: RenderSampler
+  /** Slowest renders, slowest first, tagged with their recording order */
+  slowest: Array<{ seq: number; record: RenderTimeRecord }>
 }
 
 /**
@@ -26,93 +44,156 @@ interface ComponentRenderData {
 const DEFAULT_OPTIONS: RenderTimerOptions = {
   warnThreshold: 16, // One frame at 60fps
   errorThreshold: 50,
+  mode: 'estimate',
+  sampleSize: 256,
+  histogramBuckets: [1, 2, 4, 8, 16, 33, 50, 100],
+  maxSlowRenders: 50,
+}
+
+/**
+ * Returns the percentile of a sorted sample using linear interpolation
+ */
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0
+  const rank = (p / 100) * (sorted.length - 1)
+  const lower = Math.floor(rank)
+  const upper = Math.ceil(rank)
+  const lowerValue = sorted[lower] ?? 0
+  const upperValue = sorted[upper] ?? lowerValue
+  return lowerValue + (upperValue - lowerValue) * (rank - lower)
 }
 
 /**
  * Creates the render-timer plugin
- * Measures render duration
+ * Measures render duration, either estimated from lifecycle events
+ * or reported by <LogProfiler> (mode: 'profiler')
  */
 export function renderTimer(
   userOptions: Partial<RenderTimerOptions> = {}
 ): Plugin & { api: RenderTimerAPI } {
   const options: RenderTimerOptions = { ...DEFAULT_OPTIONS, ...userOptions }
+  const buckets = [...options.histogramBuckets].sort((a, b) => a - b)
   const components = new Map<string, ComponentRenderData>()
+  const byName = new Map<string, RenderSampler>()
   const allRenders: RenderTimeRecord[] = []
+  const renderListeners = new Set<(record: RenderTimeRecord) => void>()
+  let seq = 0
+
+  function createSampler(): RenderSampler {
+    return {
+      count: 0,
+      total: 0,
+      min: 0,
+      max: 0,
+      last: 0,
+      mean: 0,
+      m2: 0,
+      reservoir: [],
+      histogramCounts: new Array<number>(buckets.length + 1).fill(0),
+    }
+  }
+
+  function addSample(sampler: RenderSampler, duration: number): void {
+    sampler.count++
+    sampler.total += duration
+    sampler.min = sampler.count === 1 ? duration : Math.min(sampler.min, duration)
+    sampler.max = sampler.count === 1 ? duration : Math.max(sampler.max, duration)
+    sampler.last = duration
+
+    // Welford's online variance
+    const delta = duration - sampler.mean
+    sampler.mean += delta / sampler.count
+    sampler.m2 += delta * (duration - sampler.mean)
 
-  function updateStats(data: ComponentRenderData): void {
-    const times = data.renderTimes
-    /* c8 ignore start - defensive code: times always has at least one entry when called */
-    if (times.length === 0) {
-      data.stats = {
-        count: 0,
-        total: 0,
-        average: 0,
-        min: 0,
-        max: 0,
-        last: 0,
+    // Reservoir sampling (Algorithm R) keeps a uniform sample of bounded size
+    if (sampler.reservoir.length < options.sampleSize) {
+      sampler.reservoir.push(duration)
+    } else {
+      const slot = Math.floor(Math.random() * sampler.count)
+      if (slot < options.sampleSize) {
+        sampler.reservoir[slot] = duration
       }
-      return
     }
-    /* c8 ignore stop */
-
-    const total = times.reduce((sum, t) => sum + t, 0)
-    const min = Math.min(...times)
-    const max = Math.max(...times)
-    const last = times[times.length - 1] ?? 0
-
-    data.stats = {
-      count: times.length,
-      total,
-      average: total / times.length,
-      min,
-      max,
-      last,
+
+    const bucketIndex = buckets.findIndex((le) => duration <= le)
+    const histogramIndex = bucketIndex === -1 ? buckets.length : bucketIndex
+    sampler.histogramCounts[histogramIndex] = (sampler.histogramCounts[histogramIndex] ?? 0) + 1
+  }
+
+  function toStats(sampler: RenderSampler | undefined): RenderTimeStats {
+    const current = sampler ?? createSampler()
+    const sorted = [...current.reservoir].sort((a, b) => a - b)
+
+    return {
+      count: current.count,
+      total: current.total,
+      average: current.count > 0 ? current.total / current.count : 0,
+      min: current.min,
+      max: current.max,
+      last: current.last,
+      p50: percentile(sorted, 50),
+      p75: percentile(sorted, 75),
+      p95: percentile(sorted, 95),
+      p99: percentile(sorted, 99),
+      stdDev: current.count > 1 ? Math.sqrt(current.m2 / current.count) : 0,
+      histogram: current.histogramCounts.map((count, index) => ({
+        le: buckets[index] ?? '+Inf',
+        count,
+      })),
     }
   }
 
-  function recordRender(
-    componentId: string,
-    componentName: string,
-    duration: number,
-    timestamp: number
-  ): void {
+  /**
+   * Keeps the render if it is among the component's slowest
+   */
+  function trackSlowest(data: ComponentRenderData, record: RenderTimeRecord): void {
+    const { slowest } = data
+    const last = slowest[slowest.length - 1]
+    if (slowest.length >= options.maxSlowRenders && (!last || record.duration <= last.record.duration)) return
+
+    const index = slowest.findIndex((entry) => entry.record.duration < record.duration)
+    slowest.splice(index === -1 ? slowest.length : index, 0, { seq: ++seq, record })
+    if (slowest.length > options.maxSlowRenders) {
+      slowest.pop()
+    }
+  }
+
+  function recordRender(record: RenderTimeRecord): void {
+    const { componentId, componentName, duration } = record
     let data = components.get(componentId)
-    /* c8 ignore start - defensive code: onMount always initializes data before recordRender is called */
+    // Profiler records arrive without a preceding mount event
     if (!data) {
       data = {
         componentId,
         componentName,
-        renderTimes: [],
         lastRenderStart: 0,
-        stats: {
-          count: 0,
-          total: 0,
-          average: 0,
-          min: 0,
-          max: 0,
-          last: 0,
-        },
+        sampler: createSampler(),
+        slowest: [],
       }
       components.set(componentId, data)
     }
-    /* c8 ignore stop */
+    addSample(data.sampler, duration)
+    trackSlowest(data, record)
 
-    data.renderTimes.push(duration)
-    updateStats(data)
+    let nameSampler = byName.get(componentName)
+    if (!nameSampler) {
+      nameSampler = createSampler()
+      byName.set(componentName, nameSampler)
+    }
+    addSample(nameSampler, duration)
 
     // Keep global record
-    allRenders.push({
-      componentId,
-      componentName,
-      duration,
-      timestamp,
-    })
+    allRenders.push(record)
 
     // Trim global renders to prevent memory issues
     if (allRenders.length > 1000) {
       allRenders.splice(0, 100)
     }
 
+    for (const listener of renderListeners) {
+      listener(record)
+    }
+
     // Log warning if render is slow
     if (duration >= options.errorThreshold) {
       console.warn(
@@ -127,29 +208,46 @@ export function renderTimer(
 
   const api: RenderTimerAPI = {
     getRenderTime(componentId: string): RenderTimeStats {
-      const data = components.get(componentId)
-      return (
-        data?.stats ?? {
-          count: 0,
-          total: 0,
-          average: 0,
-          min: 0,
-          max: 0,
-          last: 0,
-        }
-      )
+      return toStats(components.get(componentId)?.sampler)
+    },
+
+    getRenderTimeByName(componentName: string): RenderTimeStats {
+      return toStats(byName.get(componentName))
     },
 
     getSlowestRenders(limit: number = 10): RenderTimeRecord[] {
       return [...allRenders].sort((a, b) => b.duration - a.duration).slice(0, limit)
     },
 
+    getRenderBudgetViolations(budgetMs: number): RenderTimeRecord[] {
+      return Array.from(components.values())
+        .flatMap((data) => data.slowest.filter((entry) => entry.record.duration > budgetMs))
+        .sort((a, b) => a.seq - b.seq)
+        .map((entry) => entry.record)
+    },
+
+    getRenders(): RenderTimeRecord[] {
+      return [...allRenders]
+    },
+
     getAverageRenderTime(componentId: string): number {
-      return components.get(componentId)?.stats.average ?? 0
+      const sampler = components.get(componentId)?.sampler
+      return sampler && sampler.count > 0 ? sampler.total / sampler.count : 0
     },
 
     getTotalRenderTime(componentId: string): number {
-      return components.get(componentId)?.stats.total ?? 0
+      return components.get(componentId)?.sampler.total ?? 0
+    },
+
+    recordProfile(record: RenderTimeRecord): void {
+      recordRender(record)
+    },
+
+    onRender(listener: (record: RenderTimeRecord) => void): Unsubscribe {
+      renderListeners.add(listener)
+      return () => {
+        renderListeners.delete(listener)
+      }
     },
   }
 
@@ -164,36 +262,41 @@ export function renderTimer(
 
     uninstall(): void {
       components.clear()
+      byName.clear()
       allRenders.length = 0
+      renderListeners.clear()
     },
 
     hooks: {
       onMount(event: MountEvent): void {
+        if (options.mode === 'profiler') return
+
         // Record render start time
         const data: ComponentRenderData = {
           componentId: event.componentId,
           componentName: event.componentName,
-          renderTimes: [],
           lastRenderStart: event.timestamp,
-          stats: {
-            count: 0,
-            total: 0,
-            average: 0,
-            min: 0,
-            max: 0,
-            last: 0,
-          },
+          sampler: createSampler(),
+          slowest: [],
         }
         components.set(event.componentId, data)
 
         // Calculate initial render time (approximate)
         const duration = Date.now() - event.timestamp
         if (duration > 0) {
-          recordRender(event.componentId, event.componentName, duration, event.timestamp)
+          recordRender({
+            componentId: event.componentId,
+            componentName: event.componentName,
+            duration,
+            timestamp: event.timestamp,
+            source: 'estimate',
+          })
         }
       },
 
       onUpdate(event: UpdateEvent): void {
+        if (options.mode === 'profiler') return
+
         const data = components.get(event.componentId)
         if (data) {
           // Calculate render time from last render start
@@ -202,7 +305,13 @@ export function renderTimer(
 
           if (duration > 0 && duration < 10000) {
             // Sanity check
-            recordRender(event.componentId, event.componentName, duration, event.timestamp)
+            recordRender({
+              componentId: event.componentId,
+              componentName: event.componentName,
+              duration,
+              timestamp: event.timestamp,
+              source: 'estimate',
+            })
           }
         }
       },
@@ -0,0 +1,272 @@
+import type {
+  Plugin,
+  Kernel,
+  PropChange,
+  MountEvent,
+  PropsChangeEvent,
+  UpdateEvent,
+  UnmountEvent,
+  WastedRendersOptions,
+  WastedRendersAPI,
+  WastedRenderRecord,
+  WastedRenderStats,
+  UnstableProp,
+  UnstablePropKind,
+} from '../../types'
+import { generateUID } from '../../utils'
+
+/**
+ * Default options for wasted renders
+ */
+const DEFAULT_OPTIONS: WastedRendersOptions = {
+  maxRecords: 500,
+}
+
+/**
+ * Running totals for one component name
+ */
+interface ComponentStats {
+  componentName: string
+  /** Distinct instances that updated, including unmounted ones */
+  instances: number
+  /** Ids of mounted instances already counted, pruned on unmount */
+  mountedIds: Set<string>
+  updates: number
+  wastedRenders: number
+  possiblyWasted: number
+  lastWastedAt: number | null
+  props: Map<string, UnstableProp>
+}
+
+/**
+ * Whether a changed prop is a function recreated from the same source, such
+ * as an inline callback. Its closure may still hold different values.
+ */
+function isSameSourceCallback(change: PropChange): boolean {
+  return typeof change.prevValue === 'function' &&
+    typeof change.nextValue === 'function' &&
+    change.prevValue.toString() === change.nextValue.toString()
+}
+
+/**
+ * Classifies the props changes before an update: wasted when all were
+ * deep-equal, possibly wasted when the rest were same-source callbacks
+ */
+function classifyChanges(changes: PropChange[]): 'wasted' | 'possible' | null {
+  if (changes.length === 0) return null
+  let possible = false
+  for (const change of changes) {
+    if (change.isDeepEqual) continue
+    if (!isSameSourceCallback(change)) return null
+    possible = true
+  }
+  return possible ? 'possible' : 'wasted'
+}
+
+/**
+ * Classifies the value an unstable prop was recreated as
+ */
+function getPropKind(value: unknown): UnstablePropKind {
+  if (typeof value === 'function') return 'callback'
+  if (Array.isArray(value)) return 'array'
+  return 'object'
+}
+
+/**
+ * Suggests how to keep a prop's reference stable
+ */
+function getSuggestion(key: string, kind: UnstablePropKind): string {
+  switch (kind) {
+    case 'callback':
+      return `${key} is an inline callback; wrap it in useCallback`
+    case 'array':
+      return `${key} is an array literal; memoize it with useMemo or move it out of render`
+    case 'object':
+      return `${key} is an object literal; memoize it with useMemo or move it out of render`
+  }
+}
+
+/**
+ * Creates the wasted-renders plugin
+ * Flags updates whose changed props all got a new reference with a deep-equal
+ * value, ranks components by these wasted renders and names the unstable props.
+ * Functions are never deep-equal. A callback recreated from the same source may
+ * still close over different values, so updates it took part in only count as
+ * possibly wasted.
+ *
+ * Props changes are logged before the update they caused, so the changes seen
+ * for a component are attributed to its next update. Updates caused by the
+ * component's own state or context are never counted as wasted.
+ */
+export function wastedRenders(
+  userOptions: Partial<WastedRendersOptions> = {}
+): Plugin & { api: WastedRendersAPI } {
+  const options: WastedRendersOptions = { ...DEFAULT_OPTIONS, ...userOptions }
+  const pendingChanges = new Map<string, PropChange[]>()
+  const stats = new Map<string, ComponentStats>()
+  const records: WastedRenderRecord[] = []
+  let totalWasted = 0
+
+  function getComponentStats(componentName: string): ComponentStats {
+    let entry = stats.get(componentName)
+    if (!entry) {
+      entry = {
+        componentName,
+        instances: 0,
+        mountedIds: new Set(),
+        updates: 0,
+        wastedRenders: 0,
+        possiblyWasted: 0,
+        lastWastedAt: null,
+        props: new Map(),
+      }
+      stats.set(componentName, entry)
+    }
+    return entry
+  }
+
+  function toStats(entry: ComponentStats): WastedRenderStats {
+    return {
+      componentName: entry.componentName,
+      instances: entry.instances,
+      updates: entry.updates,
+      wastedRenders: entry.wastedRenders,
+      possiblyWasted: entry.possiblyWasted,
+      lastWastedAt: entry.lastWastedAt,
+      props: Array.from(entry.props.values(), (prop) => ({ ...prop }))
+        .sort((a, b) => b.count - a.count || a.key.localeCompare(b.key)),
+    }
+  }
+
+  function recordWasted(event: UpdateEvent, changes: PropChange[], entry: ComponentStats, possible: boolean): void {
+    if (possible) {
+      entry.possiblyWasted++
+    } else {
+      entry.wastedRenders++
+      totalWasted++
+    }
+    entry.lastWastedAt = event.timestamp
+
+    for (const change of changes) {
+      const kind = getPropKind(change.nextValue)
+      const prop = entry.props.get(change.key)
+      if (prop) {
+        prop.count++
+        // The latest value decides the suggestion
+        prop.kind = kind
+        prop.suggestion = getSuggestion(change.key, kind)
+      } else {
+        entry.props.set(change.key, {
+          key: change.key,
+          kind,
+          count: 1,
+          suggestion: getSuggestion(change.key, kind),
+        })
+      }
+    }
+
+    records.push({
+      id: generateUID(),
+      componentId: event.componentId,
+      componentName: event.componentName,
+      timestamp: event.timestamp,
+      renderCount: event.renderCount,
+      props: changes.map((change) => change.key),
+      possible,
+    })
+    if (records.length > options.maxRecords) {
+      records.shift()
+    }
+  }
+
+  function reset(): void {
+    pendingChanges.clear()
+    stats.clear()
+    records.length = 0
+    totalWasted = 0
+  }
+
+  const api: WastedRendersAPI = {
+    getRanking(): WastedRenderStats[] {
+      return Array.from(stats.values())
+        .filter((entry) => entry.wastedRenders > 0 || entry.possiblyWasted > 0)
+        .sort((a, b) =>
+          b.wastedRenders - a.wastedRenders ||
+          b.possiblyWasted - a.possiblyWasted ||
+          a.componentName.localeCompare(b.componentName))
+        .map(toStats)
+    },
+
+    getStats(componentName: string): WastedRenderStats | null {
+      const entry = stats.get(componentName)
+      return entry ? toStats(entry) : null
+    },
+
+    getWastedRenders(componentId?: string): WastedRenderRecord[] {
+      if (componentId) {
+        return records.filter((record) => record.componentId === componentId)
+      }
+      return [...records]
+    },
+
+    getTotalWasted(): number {
+      return totalWasted
+    },
+
+    clear(): void {
+      reset()
+    },
+  }
+
+  const plugin: Plugin = {
+    name: 'wasted-renders',
+    version: '1.0.0',
+    type: 'optional',
+
+    install(_k: Kernel): void {
+      // Plugin installed
+    },
+
+    uninstall(): void {
+      reset()
+    },
+
+    hooks: {
+      // The first props seen belong to the mount render, not to an update
+      onMount(event: MountEvent): void {
+        pendingChanges.delete(event.componentId)
+      },
+
+      onPropsChange(event: PropsChangeEvent): void {
+        const pending = pendingChanges.get(event.componentId) ?? []
+        pendingChanges.set(event.componentId, [...pending, ...event.changes])
+      },
+
+      onUpdate(event: UpdateEvent): void {
+        const changes = pendingChanges.get(event.componentId) ?? []
+        pendingChanges.delete(event.componentId)
+
+        const entry = getComponentStats(event.componentName)
+        if (!entry.mountedIds.has(event.componentId)) {
+          entry.mountedIds.add(event.componentId)
+          entry.instances++
+        }
+        entry.updates++
+
+        if (event.reason === 'state' || event.reason === 'context') return
+        const verdict = classifyChanges(changes)
+        if (verdict === null) return
+        recordWasted(event, changes, entry, verdict === 'possible')
+      },
+
+      onUnmount(event: UnmountEvent): void {
+        pendingChanges.delete(event.componentId)
+        stats.get(event.componentName)?.mountedIds.delete(event.componentId)
+      },
+    },
+
+    api: api as unknown as Record<string, unknown>,
+  }
+
+  return plugin as Plugin & { api: WastedRendersAPI }
+}
@@ -202,6 +202,7 @@ function getEventColor(eventType: string): string {
     'effect-cleanup': '#00bcd4',
     'context-change': '#8bc34a',
     error: '#f44336',
+    log: '#e0e0e0',
   }
   return colors[eventType] ?? '#fff'
 }
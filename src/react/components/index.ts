@@ -1,2 +1,4 @@
 export { Log, createLogWrapper } from './log'
+export { LogScope } from './log-scope'
+export { LogProfiler } from './log-profiler'
 export { DebugPanel } from './debug-panel'
@@ -0,0 +1,108 @@
+import React, { useCallback, useRef } from 'react'
+import type { ProfilerOnRenderCallback } from 'react'
+import type {
+  LogProfilerProps,
+  Plugin,
+  RenderPhase,
+  RenderTimeRecord,
+  RenderTimerAPI,
+  RenderTimingSource,
+} from '../../types'
+import { useOptionalLogContext } from '../context'
+import { useIsomorphicLayoutEffect } from '../hooks/use-isomorphic-layout-effect'
+
+/**
+ * Measurement reported for a single commit
+ */
+interface ProfileSample {
+  source: RenderTimingSource
+  phase: RenderPhase
+  actualDuration: number
+  baseDuration?: number
+  startTime: number
+  commitTime: number
+}
+
+/**
+ * Current high-resolution time, falling back to Date.now()
+ */
+function now(): number {
+  /* c8 ignore next - performance is available in every supported environment */
+  return typeof performance !== 'undefined' ? performance.now() : Date.now()
+}
+
+/**
+ * Measures render cost of a subtree with React's <Profiler> and reports
+ * it to the render-timer plugin
+ *
+ * When the Profiler is unavailable or never reports (production builds
+ * without profiling), the duration from render start to layout commit is
+ * measured with performance.now() instead. The fallback only sees commits
+ * that re-render the LogProfiler itself.
+ *
+ * Usage:
+ * ```tsx
+ * <ReactLogProvider plugins={[renderTimer({ mode: 'profiler' })]}>
+ *   <LogProfiler id="TodoList">
+ *     <TodoList />
+ *   </LogProfiler>
+ * </ReactLogProvider>
+ * ```
+ */
+export function LogProfiler({ id, children }: LogProfilerProps): React.ReactElement {
+  const kernel = useOptionalLogContext()
+  const renderStartRef = useRef(0)
+  const hasMountedRef = useRef(false)
+  const profilerReportedRef = useRef(false)
+
+  renderStartRef.current = now()
+
+  const report = useCallback(
+    (sample: ProfileSample) => {
+      if (!kernel || !kernel.isEnabled()) return
+
+      const timer = kernel.getPlugin<Plugin & { api: RenderTimerAPI }>('render-timer')
+      if (!timer) return
+
+      const record: RenderTimeRecord = {
+        componentId: id,
+        componentName: id,
+        duration: sample.actualDuration,
+        timestamp: Date.now(),
+        ...sample,
+      }
+      timer.api.recordProfile(record)
+    },
+    [kernel, id]
+  )
+
+  const handleRender = useCallback<ProfilerOnRenderCallback>(
+    (_id, phase, actualDuration, baseDuration, startTime, commitTime) => {
+      profilerReportedRef.current = true
+      report({ source: 'profiler', phase, actualDuration, baseDuration, startTime, commitTime })
+    },
+    [report]
+  )
+
+  // Runs after the Profiler's onRender for the same commit
+  useIsomorphicLayoutEffect(() => {
+    const phase: RenderPhase = hasMountedRef.current ? 'update' : 'mount'
+    hasMountedRef.current = true
+    if (profilerReportedRef.current) return
+
+    const startTime = renderStartRef.current
+    const commitTime = now()
+    report({ source: 'performance', phase, actualDuration: commitTime - startTime, startTime, commitTime })
+  })
+
+  const Profiler = React.Profiler
+  if (!Profiler) {
+    return <>{children}</>
+  }
+
+  return (
+    <Profiler id={id} onRender={handleRender}>
+      {children}
+    </Profiler>
+  )
+}
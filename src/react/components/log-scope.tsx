@@ -0,0 +1,23 @@
+import React from 'react'
+import type { LogScopeProps } from '../../types'
+import { LogParentContext } from '../context'
+
+/**
+ * Makes a useLog component the parent of tracked components rendered inside
+ * `Log` and `withLog` do this for their children automatically.
+ *
+ * Usage:
+ * ```tsx
+ * function Cart() {
+ *   const { componentId } = useLog('Cart')
+ *   return (
+ *     <LogScope componentId={componentId}>
+ *       <CartItem />
+ *     </LogScope>
+ *   )
+ * }
+ * ```
+ */
+export function LogScope({ componentId, children }: LogScopeProps): React.ReactElement {
+  return <LogParentContext.Provider value={componentId}>{children}</LogParentContext.Provider>
+}
@@ -1,6 +1,8 @@
-import React, { useEffect } from 'react'
+import React from 'react'
 import type { LogProps } from '../../types'
 import { useLog } from '../hooks/use-log'
+import { useIsomorphicLayoutEffect } from '../hooks/use-isomorphic-layout-effect'
+import { LogScope } from './log-scope'
 
 /**
  * Log component wrapper for tracking child component lifecycle
@@ -20,7 +22,7 @@ export function Log({
   trackEffects = true,
   trackContext = false,
 }: LogProps): React.ReactElement {
-  const { trackProps: doTrackProps } = useLog(name, {
+  const { componentId, trackProps: doTrackProps } = useLog(name, {
     trackProps,
     trackState,
     trackEffects,
@@ -28,14 +30,14 @@ export function Log({
   })
 
   // Track props from children if it's a single element with props
-  useEffect(() => {
+  useIsomorphicLayoutEffect(() => {
     if (trackProps && React.isValidElement(children)) {
       const childProps = children.props as Record<string, unknown>
       doTrackProps(childProps)
     }
   })
 
-  return <>{children}</>
+  return <LogScope componentId={componentId}>{children}</LogScope>
 }
 
 /**
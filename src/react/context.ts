@@ -6,6 +6,11 @@ import type { Kernel } from '../types'
  */
 export const ReactLogContext = createContext<Kernel | null>(null)
 
+/**
+ * Id of the nearest tracked ancestor, provided by Log, withLog and LogScope
+ */
+export const LogParentContext = createContext<string | null>(null)
+
 /**
  * Hook to access the ReactLog kernel from context
  *
@@ -1,6 +1,8 @@
-import React, { useEffect } from 'react'
+import React from 'react'
 import type { WithLogOptions } from '../../types'
 import { useLog } from '../hooks/use-log'
+import { useIsomorphicLayoutEffect } from '../hooks/use-isomorphic-layout-effect'
+import { LogScope } from '../components/log-scope'
 
 /**
  * Higher-Order Component for adding logging to a component
@@ -26,20 +28,24 @@ export function withLog<P extends object>(
   } = options
 
   function WithLogComponent(props: P): React.ReactElement {
-    const { trackProps: doTrackProps } = useLog(name, {
+    const { componentId, trackProps: doTrackProps } = useLog(name, {
       trackProps,
       trackState,
       trackEffects,
     })
 
     // Track props on each render
-    useEffect(() => {
+    useIsomorphicLayoutEffect(() => {
       if (trackProps) {
         doTrackProps(props as Record<string, unknown>)
       }
     })
 
-    return React.createElement(WrappedComponent, props)
+    return (
+      <LogScope componentId={componentId}>
+        <WrappedComponent {...props} />
+      </LogScope>
+    )
   }
 
   // Copy static properties
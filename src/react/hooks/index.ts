@@ -1,3 +1,6 @@
 export { useLog } from './use-log'
+export { useLoggedState, useLoggedReducer } from './use-logged-state'
+export { useLoggedContext } from './use-logged-context'
+export { useLoggedEffect, useLoggedLayoutEffect, useLoggedInsertionEffect } from './use-logged-effect'
 export { useLogMetrics, useAllMetrics } from './use-log-metrics'
 export { useLogContext, useOptionalLogContext } from '../context'
@@ -0,0 +1,8 @@
+import { useEffect, useLayoutEffect } from 'react'
+
+/**
+ * useLayoutEffect in the browser, useEffect during server rendering, where
+ * layout effects never run and React warns about them
+ */
+export const useIsomorphicLayoutEffect =
+  typeof window !== 'undefined' ? useLayoutEffect : useEffect
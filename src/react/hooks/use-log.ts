@@ -1,17 +1,75 @@
-import { useEffect, useRef, useCallback } from 'react'
-import type { UseLogOptions, MountEvent, UnmountEvent, UpdateEvent, PropsChangeEvent, StateChangeEvent } from '../../types'
-import { useOptionalLogContext } from '../context'
+import { useContext, useEffect, useRef, useCallback, useMemo } from 'react'
+import type {
+  UseLogOptions,
+  MountEvent,
+  UnmountEvent,
+  UpdateEvent,
+  PropsChangeEvent,
+  StateChangeEvent,
+  LogEvent,
+  LogLevel,
+  LogFunction,
+  LogMethods,
+  TrackedHookKind,
+  ChangeSource,
+  UpdateReason,
+  UseLogResult,
+} from '../../types'
+import { LogParentContext, useOptionalLogContext } from '../context'
 import { generateUID, diffProps } from '../../utils'
+import { LOG_STATE_MARKER } from '../../utils/fiber'
 
 /**
  * Internal state for tracking component lifecycle
  */
 interface LogState {
+  /** Lets the fiber render-chain source find this component's id */
+  [LOG_STATE_MARKER]: true
   componentId: string
   renderCount: number
   mountTime: number
   prevProps: Record<string, unknown>
   prevState: unknown[]
+  hookCounts: Record<TrackedHookKind, number>
+  pendingChanges: PendingChanges
+  lastTrackedProps: Record<string, unknown> | null
+  initialState: Record<string, unknown>
+  initialContext: Record<string, unknown>
+  /** Set once the mount effect has run */
+  mounted: boolean
+}
+
+/**
+ * Changes recorded since the last committed render
+ */
+interface PendingChanges {
+  sources: Set<ChangeSource>
+  keys: string[]
+  propsIdentityChanged: boolean | null
+}
+
+/**
+ * Creates an empty set of pending changes
+ */
+function createPendingChanges(): PendingChanges {
+  return { sources: new Set(), keys: [], propsIdentityChanged: null }
+}
+
+/**
+ * Attributes an update to the most specific recorded change source
+ * Own state wins over context, context over props. Without tracked changes the
+ * update came from the parent, unless trackProps saw the same props object, in
+ * which case the component re-rendered itself through untracked means.
+ *
+ * @param changes - Changes recorded for the render
+ * @returns The update reason
+ */
+function getUpdateReason(changes: PendingChanges): UpdateReason {
+  if (changes.sources.has('state')) return 'state'
+  if (changes.sources.has('context')) return 'context'
+  if (changes.sources.has('props')) return 'props'
+  if (changes.propsIdentityChanged === false) return 'force'
+  return 'parent'
 }
 
 /**
@@ -24,25 +82,30 @@ interface LogState {
 export function useLog(
   name: string,
   options: UseLogOptions = {}
-): {
-  componentId: string
-  renderCount: number
-  trackProps: (props: Record<string, unknown>) => void
-  trackState: (hookIndex: number, state: unknown) => void
-} {
+): UseLogResult {
   const kernel = useOptionalLogContext()
+  const parentId = useContext(LogParentContext)
   const stateRef = useRef<LogState | null>(null)
   const isMountedRef = useRef(false)
   const strictModeFixRef = useRef(false)
+  const tagsRef = useRef(options.tags)
+  tagsRef.current = options.tags
 
   // Initialize state on first render
   if (!stateRef.current) {
     stateRef.current = {
+      [LOG_STATE_MARKER]: true,
       componentId: generateUID(),
       renderCount: 0,
       mountTime: Date.now(),
       prevProps: {},
       prevState: [],
+      hookCounts: { effect: 0, state: 0, context: 0 },
+      pendingChanges: createPendingChanges(),
+      lastTrackedProps: null,
+      initialState: {},
+      initialContext: {},
+      mounted: false,
     }
   }
 
@@ -52,10 +115,13 @@ export function useLog(
   const {
     trackProps: shouldTrackProps = true,
     trackState: shouldTrackState = true,
+    trackEffects: shouldTrackEffects = true,
+    trackContext: shouldTrackContext = true,
   } = options
 
   // Track mount/unmount
   useEffect(() => {
+    state.mounted = true
     if (!kernel || !kernel.isEnabled()) return undefined
 
     // Handle StrictMode double-invoke
@@ -75,7 +141,9 @@ export function useLog(
       componentName: name,
       timestamp: state.mountTime,
       props: { ...state.prevProps },
-      initialState: {},
+      initialState: { ...state.initialState },
+      ...(Object.keys(state.initialContext).length > 0 && { initialContext: { ...state.initialContext } }),
+      ...(parentId !== null && { parentId }),
     }
     kernel.emit(mountEvent)
 
@@ -102,7 +170,12 @@ export function useLog(
   }, [kernel, name, state])
 
   // Track updates (after initial render)
+  // Changes are recorded by trackProps/trackState and by the useLogged* hooks
+  // in layout effects, so they are all known by the time this passive effect runs
   useEffect(() => {
+    const changes = state.pendingChanges
+    state.pendingChanges = createPendingChanges()
+
     if (!kernel || !kernel.isEnabled()) return
     if (state.renderCount <= 1) return // Skip first render
 
@@ -111,18 +184,51 @@ export function useLog(
       componentId: state.componentId,
       componentName: name,
       timestamp: Date.now(),
-      reason: 'props', // Will be refined based on what changed
+      reason: getUpdateReason(changes),
       renderCount: state.renderCount,
+      changedKeys: changes.keys,
     }
     kernel.emit(updateEvent)
   })
 
+  // Record a change that caused the current render
+  const recordChange = useCallback(
+    (source: ChangeSource, key: string): void => {
+      const changes = state.pendingChanges
+      changes.sources.add(source)
+      if (!changes.keys.includes(key)) {
+        changes.keys.push(key)
+      }
+    },
+    [state]
+  )
+
   // Track props function
   const trackProps = useCallback(
     (props: Record<string, unknown>) => {
       if (!kernel || !kernel.isEnabled() || !shouldTrackProps) return
 
-      const changes = diffProps(state.prevProps, props)
+      if (state.lastTrackedProps !== null) {
+        state.pendingChanges.propsIdentityChanged = props !== state.lastTrackedProps
+      }
+      state.lastTrackedProps = props
+
+      // Props tracked before the mount event only seed the props it reports;
+      // diffing them against nothing would log every prop as added
+      if (!state.mounted) {
+        state.prevProps = { ...props }
+        return
+      }
+
+      // New references with equal values are only logged for the wasted-renders
+      // plugin, and only real value changes make props the reason for the update
+      const includeDeepEqual = kernel.getPlugin('wasted-renders') !== undefined
+      const changes = diffProps(state.prevProps, props, { includeDeepEqual })
+      for (const change of changes) {
+        if (!change.isDeepEqual) {
+          recordChange('props', `props.${change.key}`)
+        }
+      }
       if (changes.length > 0) {
         const propsEvent: PropsChangeEvent = {
           type: 'props-change',
@@ -136,7 +242,7 @@ export function useLog(
 
       state.prevProps = { ...props }
     },
-    [kernel, name, state, shouldTrackProps]
+    [kernel, name, state, shouldTrackProps, recordChange]
   )
 
   // Track state function
@@ -146,6 +252,8 @@ export function useLog(
 
       const prevState = state.prevState[hookIndex]
       if (prevState !== newState) {
+        recordChange('state', `state[${hookIndex}]`)
+
         const stateEvent: StateChangeEvent = {
           type: 'state-change',
           componentId: state.componentId,
@@ -161,13 +269,78 @@ export function useLog(
         state.prevState[hookIndex] = newState
       }
     },
-    [kernel, name, state, shouldTrackState]
+    [kernel, name, state, shouldTrackState, recordChange]
+  )
+
+  // Allocate a stable index for a useLogged* hook (called once per hook instance)
+  const registerHook = useCallback(
+    (kind: TrackedHookKind): number => state.hookCounts[kind]++,
+    [state]
+  )
+
+  // Record a useLogged* hook's first value for the mount event
+  const recordInitialValue = useCallback(
+    (kind: 'state' | 'context', key: string, value: unknown): void => {
+      const values = kind === 'state' ? state.initialState : state.initialContext
+      values[key] = value
+    },
+    [state]
+  )
+
+  // Check whether a useLogged* hook kind should emit events
+  const isTracking = useCallback(
+    (kind: TrackedHookKind): boolean => {
+      switch (kind) {
+        case 'effect':
+          return shouldTrackEffects
+        case 'state':
+          return shouldTrackState
+        case 'context':
+          return shouldTrackContext
+      }
+    },
+    [shouldTrackEffects, shouldTrackState, shouldTrackContext]
   )
 
+  // Leveled log functions
+  const logMethods = useMemo((): LogMethods => {
+    const createLogFunction = (level: LogLevel): LogFunction =>
+      (message, data, tags) => {
+        if (!kernel || !kernel.isEnabled()) return
+
+        const allTags = [...(tagsRef.current ?? []), ...(tags ?? [])]
+        const logEvent: LogEvent = {
+          type: 'log',
+          componentId: state.componentId,
+          componentName: name,
+          timestamp: Date.now(),
+          level,
+          message,
+          ...(data !== undefined && { data }),
+          ...(allTags.length > 0 && { tags: allTags }),
+        }
+        kernel.emit(logEvent)
+      }
+
+    return {
+      debug: createLogFunction('debug'),
+      info: createLogFunction('info'),
+      warn: createLogFunction('warn'),
+      error: createLogFunction('error'),
+    }
+  }, [kernel, name, state])
+
   return {
     componentId: state.componentId,
+    componentName: name,
+    parentId,
     renderCount: state.renderCount,
     trackProps,
     trackState,
+    registerHook,
+    recordInitialValue,
+    isTracking,
+    recordChange,
+    ...logMethods,
   }
 }
@@ -0,0 +1,65 @@
+import { useContext, useRef } from 'react'
+import type { Context } from 'react'
+import type { UseLogResult, ContextChangeEvent } from '../../types'
+import { useOptionalLogContext } from '../context'
+import { useIsomorphicLayoutEffect } from './use-isomorphic-layout-effect'
+import { deepEqual } from '../../utils'
+
+/**
+ * Drop-in replacement for useContext that emits context-change events
+ * Events are named after `Context.displayName`, falling back to `Context[index]`
+ *
+ * Usage:
+ * ```tsx
+ * ThemeContext.displayName = 'ThemeContext'
+ *
+ * const log = useLog('Toolbar')
+ * const theme = useLoggedContext(ThemeContext, log)
+ * ```
+ *
+ * @param context - The React context to read
+ * @param handle - Component handle returned by useLog
+ * @returns The current context value
+ */
+export function useLoggedContext<T>(context: Context<T>, handle: UseLogResult): T {
+  const kernel = useOptionalLogContext()
+  const value = useContext(context)
+  const contextIndexRef = useRef<number | null>(null)
+  const prevValueRef = useRef(value)
+
+  // Assign a stable index on first render, in hook call order, and report
+  // the initial value with the mount event
+  let isFirstRender = false
+  if (contextIndexRef.current === null) {
+    contextIndexRef.current = handle.registerHook('context')
+    isFirstRender = true
+  }
+  const contextName = context.displayName ?? `Context[${contextIndexRef.current}]`
+  if (isFirstRender && handle.isTracking('context')) {
+    handle.recordInitialValue('context', contextName, value)
+  }
+
+  // Layout effect so the change is recorded before useLog emits the update event
+  useIsomorphicLayoutEffect(() => {
+    const prevValue = prevValueRef.current
+    prevValueRef.current = value
+
+    if (deepEqual(prevValue, value)) return
+    handle.recordChange('context', `context.${contextName}`)
+
+    if (!kernel || !kernel.isEnabled() || !handle.isTracking('context')) return
+
+    const contextEvent: ContextChangeEvent = {
+      type: 'context-change',
+      componentId: handle.componentId,
+      componentName: handle.componentName,
+      timestamp: Date.now(),
+      contextName,
+      prevValue,
+      nextValue: value,
+    }
+    kernel.emit(contextEvent)
+  })
+
+  return value
+}
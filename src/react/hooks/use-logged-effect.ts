@@ -0,0 +1,146 @@
+import React, { useEffect, useLayoutEffect, useRef } from 'react'
+import type { DependencyList, EffectCallback } from 'react'
+import type { UseLogResult, EffectRunEvent, EffectCleanupEvent, EffectCleanupReason } from '../../types'
+import { useOptionalLogContext } from '../context'
+import { findChangedDependencies } from '../../utils'
+
+/**
+ * Signature shared by useEffect, useLayoutEffect and useInsertionEffect
+ */
+type EffectHook = (effect: EffectCallback, deps?: DependencyList) => void
+
+/**
+ * useInsertionEffect is only available in React 18+, fall back to useLayoutEffect
+ */
+/* c8 ignore next - fallback only used with React 17 */
+const useInsertionEffectCompat: EffectHook = React.useInsertionEffect ?? useLayoutEffect
+
+/**
+ * Shared implementation for the useLogged*Effect hooks
+ *
+ * @param useEffectHook - The React effect hook to wrap
+ * @param effect - The effect callback
+ * @param deps - The effect dependencies
+ * @param handle - Component handle returned by useLog
+ */
+function useTrackedEffect(
+  useEffectHook: EffectHook,
+  effect: EffectCallback,
+  deps: DependencyList | undefined,
+  handle: UseLogResult
+): void {
+  const kernel = useOptionalLogContext()
+  const effectIndexRef = useRef<number | null>(null)
+  const prevDepsRef = useRef<unknown[] | null>(null)
+  const isUnmountingRef = useRef(false)
+
+  // Assign a stable index on first render, in hook call order
+  if (effectIndexRef.current === null) {
+    effectIndexRef.current = handle.registerHook('effect')
+  }
+  const effectIndex = effectIndexRef.current
+
+  // Declared before the tracked effect so its cleanup runs first on unmount
+  useEffectHook(() => {
+    isUnmountingRef.current = false
+    return () => {
+      isUnmountingRef.current = true
+    }
+  }, [])
+
+  useEffectHook(() => {
+    const isTracking = kernel !== null && kernel.isEnabled() && handle.isTracking('effect')
+    const dependencies = deps ? [...deps] : []
+
+    if (isTracking) {
+      const runEvent: EffectRunEvent = {
+        type: 'effect-run',
+        componentId: handle.componentId,
+        componentName: handle.componentName,
+        timestamp: Date.now(),
+        effectIndex,
+        dependencies,
+        dependenciesChanged: prevDepsRef.current
+          ? findChangedDependencies(prevDepsRef.current, dependencies)
+          : [],
+      }
+      kernel.emit(runEvent)
+    }
+    prevDepsRef.current = dependencies
+
+    const cleanup = effect()
+
+    return () => {
+      if (typeof cleanup === 'function') {
+        cleanup()
+      }
+
+      if (isTracking && kernel.isEnabled()) {
+        const reason: EffectCleanupReason = isUnmountingRef.current ? 'unmount' : 'deps-change'
+        const cleanupEvent: EffectCleanupEvent = {
+          type: 'effect-cleanup',
+          componentId: handle.componentId,
+          componentName: handle.componentName,
+          timestamp: Date.now(),
+          effectIndex,
+          reason,
+        }
+        kernel.emit(cleanupEvent)
+      }
+    }
+  }, deps)
+}
+
+/**
+ * Drop-in replacement for useEffect that emits effect-run and effect-cleanup events
+ *
+ * Usage:
+ * ```tsx
+ * const log = useLog('UserProfile')
+ * useLoggedEffect(() => {
+ *   fetchUser(userId)
+ * }, [userId], log)
+ * ```
+ *
+ * @param effect - The effect callback
+ * @param deps - The effect dependencies
+ * @param handle - Component handle returned by useLog
+ */
+export function useLoggedEffect(
+  effect: EffectCallback,
+  deps: DependencyList | undefined,
+  handle: UseLogResult
+): void {
+  useTrackedEffect(useEffect, effect, deps, handle)
+}
+
+/**
+ * Drop-in replacement for useLayoutEffect that emits effect-run and effect-cleanup events
+ *
+ * @param effect - The effect callback
+ * @param deps - The effect dependencies
+ * @param handle - Component handle returned by useLog
+ */
+export function useLoggedLayoutEffect(
+  effect: EffectCallback,
+  deps: DependencyList | undefined,
+  handle: UseLogResult
+): void {
+  useTrackedEffect(useLayoutEffect, effect, deps, handle)
+}
+
+/**
+ * Drop-in replacement for useInsertionEffect that emits effect-run and effect-cleanup events
+ * Falls back to useLayoutEffect on React 17
+ *
+ * @param effect - The effect callback
+ * @param deps - The effect dependencies
+ * @param handle - Component handle returned by useLog
+ */
+export function useLoggedInsertionEffect(
+  effect: EffectCallback,
+  deps: DependencyList | undefined,
+  handle: UseLogResult
+): void {
+  useTrackedEffect(useInsertionEffectCompat, effect, deps, handle)
+}
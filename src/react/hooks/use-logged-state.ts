@@ -0,0 +1,139 @@
+import { useCallback, useReducer, useRef, useState } from 'react'
+import type { Dispatch, MutableRefObject, Reducer, SetStateAction } from 'react'
+import type { UseLogResult, HookType, StateChangeEvent, StateUpdateType } from '../../types'
+import { useOptionalLogContext } from '../context'
+import { useIsomorphicLayoutEffect } from './use-isomorphic-layout-effect'
+
+/**
+ * Metadata about the last update requested through a tracked setter or dispatch
+ */
+interface PendingUpdate {
+  updateType: StateUpdateType
+  action?: unknown
+}
+
+/**
+ * Emits a state-change event after each commit in which the tracked value changed
+ *
+ * @param handle - Component handle returned by useLog
+ * @param hookType - The kind of state hook being tracked
+ * @param value - The current state value
+ * @param pendingRef - Last update requested since the previous commit
+ */
+function useStateChangeTracking(
+  handle: UseLogResult,
+  hookType: HookType,
+  value: unknown,
+  pendingRef: MutableRefObject<PendingUpdate | null>
+): void {
+  const kernel = useOptionalLogContext()
+  const hookIndexRef = useRef<number | null>(null)
+  const committedRef = useRef(value)
+
+  // Assign a stable index on first render, in hook call order, and report
+  // the initial value with the mount event
+  if (hookIndexRef.current === null) {
+    hookIndexRef.current = handle.registerHook('state')
+    if (handle.isTracking('state')) {
+      handle.recordInitialValue('state', String(hookIndexRef.current), value)
+    }
+  }
+  const hookIndex = hookIndexRef.current
+
+  // Layout effect so the change is recorded before useLog emits the update event
+  useIsomorphicLayoutEffect(() => {
+    const prevState = committedRef.current
+    const pending = pendingRef.current
+    committedRef.current = value
+    pendingRef.current = null
+
+    if (Object.is(prevState, value)) return
+    handle.recordChange('state', `state[${hookIndex}]`)
+
+    if (!kernel || !kernel.isEnabled() || !handle.isTracking('state')) return
+
+    const stateEvent: StateChangeEvent = {
+      type: 'state-change',
+      componentId: handle.componentId,
+      componentName: handle.componentName,
+      timestamp: Date.now(),
+      hookIndex,
+      hookType,
+      prevState,
+      nextState: value,
+      ...(pending?.action !== undefined && { action: pending.action }),
+      ...(pending && { updateType: pending.updateType }),
+    }
+    kernel.emit(stateEvent)
+  })
+}
+
+/**
+ * Drop-in replacement for useState that emits state-change events
+ * Records whether each update was a direct value or a functional updater
+ *
+ * Usage:
+ * ```tsx
+ * const log = useLog('Counter')
+ * const [count, setCount] = useLoggedState(0, log)
+ * ```
+ *
+ * @param initialState - Initial state or lazy initializer
+ * @param handle - Component handle returned by useLog
+ * @returns Stateful value and a tracked setter
+ */
+export function useLoggedState<S>(
+  initialState: S | (() => S),
+  handle: UseLogResult
+): [S, Dispatch<SetStateAction<S>>] {
+  const [value, setValue] = useState(initialState)
+  const pendingRef = useRef<PendingUpdate | null>(null)
+
+  useStateChangeTracking(handle, 'useState', value, pendingRef)
+
+  const setTrackedValue = useCallback((update: SetStateAction<S>) => {
+    pendingRef.current = { updateType: typeof update === 'function' ? 'function' : 'value' }
+    setValue(update)
+  }, [])
+
+  return [value, setTrackedValue]
+}
+
+/**
+ * Drop-in replacement for useReducer that emits state-change events
+ * carrying the dispatched action
+ *
+ * Usage:
+ * ```tsx
+ * const log = useLog('TodoList')
+ * const [todos, dispatch] = useLoggedReducer(todosReducer, [], log)
+ * ```
+ *
+ * @param reducer - The reducer function
+ * @param initialArg - Initial state, or argument passed to init
+ * @param handle - Component handle returned by useLog
+ * @param init - Optional lazy initializer
+ * @returns Current state and a tracked dispatch
+ */
+export function useLoggedReducer<S, A, I = S>(
+  reducer: Reducer<S, A>,
+  initialArg: I,
+  handle: UseLogResult,
+  init?: (arg: I) => S
+): [S, Dispatch<A>] {
+  const [value, dispatch] = useReducer(
+    reducer,
+    initialArg,
+    init ?? ((arg: I) => arg as unknown as S)
+  )
+  const pendingRef = useRef<PendingUpdate | null>(null)
+
+  useStateChangeTracking(handle, 'useReducer', value, pendingRef)
+
+  const trackedDispatch = useCallback((action: A) => {
+    pendingRef.current = { updateType: 'dispatch', action }
+    dispatch(action)
+  }, [])
+
+  return [value, trackedDispatch]
+}
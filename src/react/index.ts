@@ -1,7 +1,11 @@
 export { ReactLogProvider, getGlobalKernel } from './provider'
 export { ReactLogContext, useLogContext, useOptionalLogContext } from './context'
 export { useLog } from './hooks/use-log'
+export { useLoggedState, useLoggedReducer } from './hooks/use-logged-state'
+export { useLoggedContext } from './hooks/use-logged-context'
+export { useLoggedEffect, useLoggedLayoutEffect, useLoggedInsertionEffect } from './hooks/use-logged-effect'
 export { useLogMetrics, useAllMetrics } from './hooks/use-log-metrics'
 export { Log, createLogWrapper } from './components/log'
+export { LogProfiler } from './components/log-profiler'
 export { DebugPanel } from './components/debug-panel'
 export { withLog, createWithLog } from './hoc/with-log'
@@ -24,6 +24,7 @@ export function ReactLogProvider({
   children,
   enabled = typeof window !== 'undefined',
   plugins = [],
+  middleware = [],
   options = {},
   onReady,
 }: ReactLogProviderProps): React.ReactElement {
@@ -35,6 +36,8 @@ export function ReactLogProvider({
       enabled,
       ...(options.maxLogs !== undefined && { maxLogs: options.maxLogs }),
       ...(options.logLevel !== undefined && { logLevel: options.logLevel }),
+      ...(options.sampling !== undefined && { sampling: options.sampling }),
+      ...(options.persistence !== undefined && { persistence: options.persistence }),
     })
 
     // Install core plugins
@@ -45,6 +48,11 @@ export function ReactLogProvider({
       k.register(plugin)
     }
 
+    // Install middleware in order
+    for (const m of middleware) {
+      k.use(m)
+    }
+
     kernelRef.current = k
     globalKernel = k
 
@@ -65,10 +73,11 @@ export function ReactLogProvider({
     const config: Record<string, unknown> = {}
     if (options.maxLogs !== undefined) config['maxLogs'] = options.maxLogs
     if (options.logLevel !== undefined) config['logLevel'] = options.logLevel
+    if (options.sampling !== undefined) config['sampling'] = options.sampling
     if (Object.keys(config).length > 0) {
       kernel.configure(config as Parameters<typeof kernel.configure>[0])
     }
-  }, [options.maxLogs, options.logLevel, kernel])
+  }, [options.maxLogs, options.logLevel, options.sampling, kernel])
 
   // Call onReady callback
   useEffect(() => {
@@ -27,6 +27,8 @@ export interface BaseEvent {
   componentId: string
   componentName: string
   timestamp: number
+  /** Free-form context added by middleware (user, session, route, ...) */
+  meta?: Record<string, unknown>
 }
 
 /**
@@ -35,7 +37,12 @@ export interface BaseEvent {
 export interface MountEvent extends BaseEvent {
   type: 'mount'
   props: Record<string, unknown>
+  /** First values of tracked state hooks, keyed by hook index */
   initialState: Record<string, unknown>
+  /** First values of tracked contexts, keyed by context name */
+  initialContext?: Record<string, unknown>
+  /** Nearest tracked ancestor, when there is one */
+  parentId?: string
 }
 
 /**
@@ -58,6 +65,7 @@ export interface UpdateEvent extends BaseEvent {
   type: 'update'
   reason: UpdateReason
   renderCount: number
+  changedKeys?: string[]
 }
 
 /**
@@ -83,6 +91,11 @@ export interface PropsChangeEvent extends BaseEvent {
  */
 export type HookType = 'useState' | 'useReducer'
 
+/**
+ * How a state update was requested: a direct value, a functional updater or a reducer dispatch
+ */
+export type StateUpdateType = 'value' | 'function' | 'dispatch'
+
 /**
  * Event emitted when state changes
  */
@@ -93,6 +106,7 @@ export interface StateChangeEvent extends BaseEvent {
   prevState: unknown
   nextState: unknown
   action?: unknown
+  updateType?: StateUpdateType
 }
 
 /**
@@ -139,6 +153,17 @@ export interface ErrorEvent extends BaseEvent {
   recovered: boolean
 }
 
+/**
+ * Event emitted by the imperative log API (`useLog().info(...)`, `log.warn(...)`)
+ */
+export interface LogEvent extends BaseEvent {
+  type: 'log'
+  level: LogLevel
+  message: string
+  data?: unknown
+  tags?: string[]
+}
+
 /**
  * Union type of all kernel events
  */
@@ -152,6 +177,7 @@ export type KernelEvent =
   | EffectCleanupEvent
   | ContextChangeEvent
   | ErrorEvent
+  | LogEvent
 
 // ============================================
 // LOG TYPES
@@ -162,6 +188,21 @@ export type KernelEvent =
  */
 export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
 
+/**
+ * Leveled log function returned by `useLog` and exposed as `log`
+ */
+export type LogFunction = (message: string, data?: unknown, tags?: string[]) => void
+
+/**
+ * Leveled log methods
+ */
+export interface LogMethods {
+  debug: LogFunction
+  info: LogFunction
+  warn: LogFunction
+  error: LogFunction
+}
+
 /**
  * A single log entry
  */
@@ -184,6 +225,57 @@ export interface LogStore {
   byType: Map<EventType, LogEntry[]>
   startTime: number
   lastEntry: LogEntry | null
+  sessionId: string
+}
+
+/**
+ * Metadata for one recorded session (one page load)
+ */
+export interface LogSession {
+  id: string
+  startTime: number
+  lastActivity: number
+  /** Entries logged in the session, including ones trimmed by maxLogs */
+  entryCount: number
+  url?: string
+  userAgent?: string
+}
+
+/**
+ * A log entry as written to a storage backend, ordered by `seq` within its session
+ */
+export interface PersistedLogRecord {
+  sessionId: string
+  seq: number
+  entry: LogEntry
+}
+
+/**
+ * Storage backend that persists log entries and session metadata across reloads
+ * Records passed in are already serialized to structured-clone-safe values
+ */
+export interface LogStorageBackend {
+  /** All stored sessions, in any order */
+  listSessions(): Promise<LogSession[]>
+  /** Records of one session, ordered by seq */
+  loadEntries(sessionId: string): Promise<PersistedLogRecord[]>
+  /** Save session metadata and records, keeping only the last `maxEntries` records of the session */
+  append(session: LogSession, records: PersistedLogRecord[], maxEntries: number): Promise<void>
+  /** Remove the records of one session, keeping its metadata */
+  clearEntries(sessionId: string): Promise<void>
+  /** Remove a session and its records */
+  deleteSession(sessionId: string): Promise<void>
+  /** Release the underlying connection */
+  close(): void
+}
+
+/**
+ * Options for persisting logs through a storage backend
+ */
+export interface LogPersistenceOptions {
+  storage: LogStorageBackend
+  /** Sessions kept in storage, including the current one */
+  maxSessions?: number
 }
 
 /**
@@ -195,6 +287,119 @@ export interface LogFilter {
   level?: LogLevel | LogLevel[]
   timeRange?: { start: number; end: number }
   limit?: number
+  /** Query a previous session loaded from storage instead of the current one */
+  sessionId?: string
+  /** Case-insensitive text matched against component name, event type and formatted message */
+  search?: string
+  /** Additional query condition, e.g. on event payload fields */
+  where?: QueryCondition
+}
+
+/**
+ * Comparison applied by a field condition
+ */
+export type QueryOperator =
+  | 'eq'
+  | 'neq'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'in'
+  | 'contains'
+  | 'matches'
+  | 'exists'
+
+/**
+ * Compares a field of the log entry, addressed by dot path (`event.changes.key`)
+ * Arrays along the path fan out: the condition holds if any element matches
+ */
+export interface FieldCondition {
+  field: string
+  op: QueryOperator
+  value?: unknown
+}
+
+/**
+ * A query condition: a field comparison, boolean combination or custom predicate
+ */
+export type QueryCondition =
+  | FieldCondition
+  | { and: QueryCondition[] }
+  | { or: QueryCondition[] }
+  | { not: QueryCondition }
+  | ((entry: LogEntry) => boolean)
+
+/**
+ * Sort direction for query ordering
+ */
+export type SortDirection = 'asc' | 'desc'
+
+/**
+ * One page of query results
+ */
+export interface QueryPage {
+  entries: LogEntry[]
+  /** Pass to the next `page()` call; null when there are no more results */
+  nextCursor: string | null
+}
+
+/**
+ * Chainable log query
+ * Conditions on `componentId` and `event.type` use the store indexes.
+ */
+export interface LogQuery {
+  where(condition: QueryCondition): LogQuery
+  where(field: string, op: QueryOperator, value?: unknown): LogQuery
+  and(condition: QueryCondition): LogQuery
+  and(field: string, op: QueryOperator, value?: unknown): LogQuery
+  or(condition: QueryCondition): LogQuery
+  or(field: string, op: QueryOperator, value?: unknown): LogQuery
+  not(condition: QueryCondition): LogQuery
+  orderBy(field: string, direction?: SortDirection): LogQuery
+  offset(count: number): LogQuery
+  limit(count: number): LogQuery
+  /** Start after the entry a page's `nextCursor` points at; offset and limit count from there */
+  after(cursor: string | null): LogQuery
+  /** Matching entries after ordering, cursor, offset and limit */
+  run(): LogEntry[]
+  /** Total matches, ignoring the cursor, offset and limit */
+  count(): number
+  /** First entry `run()` would return */
+  first(): LogEntry | null
+  /**
+   * Cursor-based page of at most `size` entries, stable while new entries arrive
+   * Starts after `cursor`, or the `after()` cursor when omitted; offset and limit do not apply
+   */
+  page(size: number, cursor?: string | null): QueryPage
+}
+
+/**
+ * Invalid term in a text query, with its character range in the input
+ */
+export interface LogQueryParseError {
+  message: string
+  start: number
+  end: number
+}
+
+/**
+ * Result of parsing a text query
+ */
+export interface ParsedLogQuery {
+  /** Filter built from the valid terms */
+  filter: LogFilter
+  errors: LogQueryParseError[]
+}
+
+/**
+ * Completion for the last term of a text query
+ */
+export interface LogQuerySuggestion {
+  /** The completed term */
+  label: string
+  /** The full query with the term completed */
+  value: string
 }
 
 // ============================================
@@ -216,6 +421,117 @@ export type LogHandler = (entry: LogEntry) => void
  */
 export type Unsubscribe = () => void
 
+/**
+ * Continues a middleware chain with the given value
+ */
+export type MiddlewareNext<T> = (value: T) => void
+
+/**
+ * Kernel middleware, registered with `kernel.use()`
+ * Calling `next` zero times drops the value, several times fans it out
+ */
+export interface KernelMiddleware {
+  name: string
+  /**
+   * Drop the value when this middleware throws before calling `next`.
+   * By default the pipeline fails open and passes the value on unchanged.
+   */
+  failClosed?: boolean
+  /** Runs for every emitted event, before the event bus, plugin hooks and the store */
+  event?: (event: KernelEvent, next: MiddlewareNext<KernelEvent>, kernel: Kernel) => void
+  /** Runs for every log entry, before it is stored and delivered to onLog handlers */
+  entry?: (entry: LogEntry, next: MiddlewareNext<LogEntry>, kernel: Kernel) => void
+}
+
+/**
+ * Event sampling policies, applied before middleware, plugins and the store
+ * Error, mount and unmount events are never sampled
+ */
+export interface SamplingOptions {
+  /** Keep probability (0-1) per event type; unlisted types are always kept */
+  rates?: Partial<Record<EventType, number>>
+  /** Per-component token bucket: `capacity` events, refilled at `refillPerSecond` */
+  perComponent?: { capacity: number; refillPerSecond: number }
+  /** Per component and event type, keep the first `first` events, then every `every`th */
+  firstThenEvery?: { first: number; every: number }
+  /** Suppress a component's events beyond `threshold` within each `windowMs` window */
+  burst?: { threshold: number; windowMs: number }
+  /** Delay (ms) before a summary of suppressed events is logged; 0 disables summaries */
+  summaryInterval?: number
+}
+
+/**
+ * Suppressed event counts for one component
+ */
+export interface SuppressedComponentCount {
+  componentId: string
+  componentName: string
+  count: number
+  byType: Partial<Record<EventType, number>>
+}
+
+/**
+ * Summary of events suppressed by sampling since the previous summary
+ */
+export interface SamplingSummary {
+  total: number
+  since: number
+  until: number
+  components: SuppressedComponentCount[]
+}
+
+/**
+ * A recorded session loaded into a replay kernel
+ */
+export interface ReplaySession {
+  startTime: number
+  entries: LogEntry[]
+}
+
+/**
+ * A mounted component's props, state and context at one instant
+ */
+export interface ComponentSnapshot {
+  componentId: string
+  componentName: string
+  parentId: string | null
+  /** Null when the mount entry is no longer in the store */
+  mountedAt: number | null
+  props: Record<string, unknown>
+  /** Hook values by hook index */
+  state: Record<number, unknown>
+  /** Latest value of each consumed context, by context name */
+  context: Record<string, unknown>
+  renderCount: number
+  lastEventAt: number
+}
+
+/**
+ * Every component mounted at `timestamp`, in mount order
+ */
+export interface TimeTravelSnapshot {
+  timestamp: number
+  components: ComponentSnapshot[]
+}
+
+/**
+ * A tracked component in the kernel's live component tree
+ */
+export interface ComponentTreeNode {
+  componentId: string
+  componentName: string
+  /** Nearest tracked ancestor recorded at mount */
+  parentId: string | null
+  mounted: boolean
+  mountedAt: number
+  unmountedAt: number | null
+  renderCount: number
+  /** When props, state or context last changed */
+  lastChanges: Partial<Record<ChangeSource, number>>
+  /** Tracked descendants whose nearest tracked ancestor is this component, in mount order */
+  children: ComponentTreeNode[]
+}
+
 /**
  * Kernel configuration options
  */
@@ -223,6 +539,10 @@ export interface KernelOptions {
   enabled?: boolean
   maxLogs?: number
   logLevel?: LogLevel
+  sampling?: SamplingOptions
+  persistence?: LogPersistenceOptions | null
+  /** Load a recorded session; the kernel then ignores new events and never clears */
+  replay?: ReplaySession | null
 }
 
 /**
@@ -235,21 +555,32 @@ export interface Kernel {
   getPlugin<T extends Plugin>(name: string): T | undefined
   listPlugins(): PluginInfo[]
 
+  // Middleware
+  use(middleware: KernelMiddleware): Unsubscribe
+
   // Event system
   emit(event: KernelEvent): void
   on(eventType: EventType, handler: EventHandler): Unsubscribe
   onLog(handler: LogHandler): Unsubscribe
   off(eventType: EventType, handler: EventHandler): void
 
+  // Component tree
+  getComponentTree(): ComponentTreeNode[]
+  getComponent(componentId: string): ComponentTreeNode | null
+
   // Log store
   getLogs(): LogStore
   addLog(entry: LogEntry): void
   clearLogs(): void
   filterLogs(filter: LogFilter): LogEntry[]
+  query(sessionId?: string): LogQuery
+  getSessions(): LogSession[]
+  flushLogs(): Promise<void>
 
   // Configuration
   configure(options: KernelOptions): void
   isEnabled(): boolean
+  isReplay(): boolean
   enable(): void
   disable(): void
   getOptions(): KernelOptions
@@ -272,6 +603,7 @@ export interface PluginHooks {
   onEffectCleanup?: (event: EffectCleanupEvent) => void
   onContextChange?: (event: ContextChangeEvent) => void
   onError?: (event: ErrorEvent) => void
+  onLogMessage?: (event: LogEvent) => void
   onLog?: (entry: LogEntry) => void
 }
 
@@ -314,6 +646,7 @@ export interface ReactLogProviderProps {
   children: ReactNode
   enabled?: boolean
   plugins?: Plugin[]
+  middleware?: KernelMiddleware[]
   options?: ReactLogOptions
   onReady?: (kernel: Kernel) => void
 }
@@ -324,6 +657,8 @@ export interface ReactLogProviderProps {
 export interface ReactLogOptions {
   maxLogs?: number
   logLevel?: LogLevel
+  sampling?: SamplingOptions
+  persistence?: LogPersistenceOptions
 }
 
 /**
@@ -335,6 +670,35 @@ export interface UseLogOptions {
   trackState?: boolean
   trackEffects?: boolean
   trackContext?: boolean
+  tags?: string[]
+}
+
+/**
+ * Kinds of hooks that can be tracked through the useLogged* hooks
+ */
+export type TrackedHookKind = 'effect' | 'state' | 'context'
+
+/**
+ * Sources of change that can cause a component update
+ */
+export type ChangeSource = 'props' | 'state' | 'context'
+
+/**
+ * Component handle returned by useLog and passed to the useLogged* hooks
+ */
+export interface UseLogResult extends LogMethods {
+  componentId: string
+  componentName: string
+  /** Nearest tracked ancestor, from the closest `Log`, `withLog` or `LogScope` above */
+  parentId: string | null
+  renderCount: number
+  trackProps: (props: Record<string, unknown>) => void
+  trackState: (hookIndex: number, state: unknown) => void
+  registerHook: (kind: TrackedHookKind) => number
+  /** Records a useLogged* hook's first value, reported by the mount event */
+  recordInitialValue: (kind: 'state' | 'context', key: string, value: unknown) => void
+  isTracking: (kind: TrackedHookKind) => boolean
+  recordChange: (source: ChangeSource, key: string) => void
 }
 
 /**
@@ -349,6 +713,24 @@ export interface LogProps {
   trackContext?: boolean
 }
 
+/**
+ * LogScope component props
+ */
+export interface LogScopeProps {
+  /** Tracked component that becomes the parent of components mounted inside */
+  componentId: string
+  children: ReactNode
+}
+
+/**
+ * LogProfiler component props
+ */
+export interface LogProfilerProps {
+  children: ReactNode
+  /** Profiler id, also used as componentId and componentName in render-timer records */
+  id: string
+}
+
 /**
  * DebugPanel component props
  */
@@ -431,6 +813,8 @@ export interface HookState {
   type: HookType
   value: unknown
   prevValue: unknown | null
+  action?: unknown
+  updateType?: StateUpdateType
 }
 
 /**
@@ -562,8 +946,34 @@ export interface ErrorTrackerAPI {
 export interface RenderTimerOptions {
   warnThreshold: number
   errorThreshold: number
+  /**
+   * 'estimate' derives durations from mount/update events,
+   * 'profiler' only records measurements reported by <LogProfiler>
+   */
+  mode: RenderTimerMode
+  /** Max samples kept per component for percentile estimation (reservoir size) */
+  sampleSize: number
+  /** Histogram bucket upper bounds in ms, ascending; an overflow bucket is added */
+  histogramBuckets: number[]
+  /** Slowest renders kept per component for getRenderBudgetViolations */
+  maxSlowRenders: number
 }
 
+/**
+ * Render timer measurement mode
+ */
+export type RenderTimerMode = 'estimate' | 'profiler'
+
+/**
+ * React commit phase of a profiled render
+ */
+export type RenderPhase = 'mount' | 'update' | 'nested-update'
+
+/**
+ * How a render duration was measured
+ */
+export type RenderTimingSource = 'estimate' | 'profiler' | 'performance'
+
 /**
  * Render time statistics
  */
@@ -574,6 +984,22 @@ export interface RenderTimeStats {
   min: number
   max: number
   last: number
+  p50: number
+  p75: number
+  p95: number
+  p99: number
+  stdDev: number
+  histogram: RenderHistogramBucket[]
+}
+
+/**
+ * Render time histogram bucket, counting renders with duration <= le
+ * (and above the previous bucket's bound)
+ */
+export interface RenderHistogramBucket {
+  /** Upper bound in ms; '+Inf' for the overflow bucket, which survives JSON */
+  le: number | '+Inf'
+  count: number
 }
 
 /**
@@ -584,6 +1010,16 @@ export interface RenderTimeRecord {
   componentName: string
   duration: number
   timestamp: number
+  source?: RenderTimingSource
+  phase?: RenderPhase
+  /** Time spent rendering the committed update (ms) */
+  actualDuration?: number
+  /** Estimated time to render the whole subtree without memoization (ms) */
+  baseDuration?: number
+  /** High-resolution time when React started rendering this update */
+  startTime?: number
+  /** High-resolution time when React committed this update */
+  commitTime?: number
 }
 
 /**
@@ -594,6 +1030,14 @@ export interface RenderTimerAPI {
   getSlowestRenders(limit?: number): RenderTimeRecord[]
   getAverageRenderTime(componentId: string): number
   getTotalRenderTime(componentId: string): number
+  getRenderTimeByName(componentName: string): RenderTimeStats
+  /** Renders over budget in recording order, up to `maxSlowRenders` per component */
+  getRenderBudgetViolations(budgetMs: number): RenderTimeRecord[]
+  /** Recorded renders, oldest first (the most recent 1000) */
+  getRenders(): RenderTimeRecord[]
+  recordProfile(record: RenderTimeRecord): void
+  /** Subscribe to every render as it is recorded */
+  onRender(listener: (record: RenderTimeRecord) => void): Unsubscribe
 }
 
 /**
@@ -601,8 +1045,23 @@ export interface RenderTimerAPI {
  */
 export interface RenderChainOptions {
   maxDepth: number
+  /**
+   * 'timing' infers edges from consecutive events,
+   * 'fiber' walks committed fibers via the React DevTools global hook
+   */
+  source: RenderChainSource
 }
 
+/**
+ * Where render-chain relationships come from
+ */
+export type RenderChainSource = 'timing' | 'fiber'
+
+/**
+ * What React did with a component fiber in a commit
+ */
+export type FiberRenderStatus = 'mounted' | 'rendered' | 'bailed-out'
+
 /**
  * Render chain node
  */
@@ -613,6 +1072,20 @@ export interface RenderChainNode {
   triggered: string[]
   depth: number
   timestamp: number
+  /** Component that created this element (fiber source only) */
+  ownerId?: string | null
+  /** Outcome in the last commit that visited this fiber (fiber source only) */
+  status?: FiberRenderStatus
+}
+
+/**
+ * Summary of a single React commit (fiber source only)
+ */
+export interface RenderCommit {
+  timestamp: number
+  rendered: string[]
+  bailedOut: string[]
+  rootCauses: string[]
 }
 
 /**
@@ -623,9 +1096,148 @@ export interface RenderChainAPI {
   getRootCause(componentId: string): string | null
   getChildren(componentId: string): string[]
   getParent(componentId: string): string | null
+  getLastCommit(): RenderCommit | null
+  /** Nodes of all tracked (mounted) components */
+  getNodes(): RenderChainNode[]
   visualizeChain(): string
 }
 
+/**
+ * Render storm detector plugin options
+ */
+export interface RenderStormOptions {
+  /** Sliding window (ms) over which event rates are measured */
+  windowMs: number
+  /** Updates per window before a component is reported */
+  maxUpdates: number
+  /** State changes per window before a component is reported */
+  maxStateChanges: number
+  /** Effect runs per window before a component is reported */
+  maxEffectRuns: number
+  /** Consecutive effect → state → effect cycles before a loop is reported */
+  loopThreshold: number
+  /** Pause the console-output plugin when a loop is detected */
+  pauseConsole: boolean
+  /** Minimum time (ms) between two reports of the same storm or loop */
+  cooldownMs: number
+  /** Max reports kept in memory */
+  maxReports: number
+}
+
+/**
+ * Event kinds whose per-component rate the render storm detector watches
+ */
+export type RenderStormKind = 'update' | 'state-change' | 'effect-run'
+
+/**
+ * One step of a detected effect loop
+ */
+export interface EffectLoopStep {
+  type: 'effect-run' | 'state-change'
+  componentId: string
+  componentName: string
+  /** Effect index for effect runs, hook index for state changes */
+  index: number
+  /** Dependency indexes that changed, for effect runs */
+  dependenciesChanged?: number[]
+}
+
+/**
+ * Report produced by the render storm detector
+ */
+export interface RenderStormReport {
+  id: string
+  type: 'storm' | 'loop'
+  timestamp: number
+  componentId: string
+  componentName: string
+  level: 'warn' | 'error'
+  message: string
+  /** Event kind that exceeded its limit (storm reports) */
+  kind?: RenderStormKind
+  /** Events seen in the window (storms) or consecutive cycles (loops) */
+  count: number
+  windowMs: number
+  /** Offending cycle, starting and ending with the same effect (loop reports) */
+  cycle?: EffectLoopStep[]
+}
+
+/**
+ * Render storm detector plugin API
+ */
+export interface RenderStormAPI {
+  getReports(componentId?: string): RenderStormReport[]
+  /** Events of a kind seen for a component within the current window */
+  getRate(componentId: string, kind: RenderStormKind): number
+  clearReports(): void
+}
+
+/**
+ * Wasted renders plugin options
+ */
+export interface WastedRendersOptions {
+  /** Max wasted render records kept in memory */
+  maxRecords: number
+}
+
+/**
+ * What an unstable prop was recreated as
+ */
+export type UnstablePropKind = 'callback' | 'object' | 'array'
+
+/**
+ * A prop that got a new reference with an equal value
+ */
+export interface UnstableProp {
+  key: string
+  kind: UnstablePropKind
+  /** Wasted or possibly wasted renders this prop took part in */
+  count: number
+  suggestion: string
+}
+
+/**
+ * Update whose changed props were all deep-equal to their previous values
+ */
+export interface WastedRenderRecord {
+  id: string
+  componentId: string
+  componentName: string
+  timestamp: number
+  renderCount: number
+  props: string[]
+  /** Some props were callbacks recreated from the same source, whose closures may differ */
+  possible: boolean
+}
+
+/**
+ * Wasted render statistics for a component, across its instances
+ */
+export interface WastedRenderStats {
+  componentName: string
+  instances: number
+  updates: number
+  wastedRenders: number
+  /** Updates whose changed props were deep-equal or same-source callbacks */
+  possiblyWasted: number
+  lastWastedAt: number | null
+  /** Most frequently unstable first */
+  props: UnstableProp[]
+}
+
+/**
+ * Wasted renders plugin API
+ */
+export interface WastedRendersAPI {
+  /** Components with wasted or possibly wasted renders, most wasted first */
+  getRanking(): WastedRenderStats[]
+  getStats(componentName: string): WastedRenderStats | null
+  getWastedRenders(componentId?: string): WastedRenderRecord[]
+  /** Wasted renders, not counting possibly wasted ones */
+  getTotalWasted(): number
+  clear(): void
+}
+
 /**
  * Panel UI plugin options
  */
@@ -639,8 +1251,16 @@ export interface PanelUIOptions {
   defaultCollapsed: boolean
   theme: 'dark' | 'light' | 'auto'
   maxLogs: number
+  /** How long (ms) the tree tab badges a props, state or context change */
+  recentChangeMs: number
 }
 
+/**
+ * Panel UI tabs: the log list, the component tree, the time-travel snapshot
+ * or the wasted renders ranking
+ */
+export type PanelTab = 'logs' | 'tree' | 'snapshot' | 'wasted'
+
 /**
  * Panel UI plugin API
  */
@@ -651,13 +1271,23 @@ export interface PanelUIAPI {
   isOpen(): boolean
   setPosition(position: PanelUIOptions['position']): void
   setTheme(theme: PanelUIOptions['theme']): void
+  /** Show a replayed session up to `position` entries; ignored for live kernels */
+  seek(position: number): void
+  /** Entries shown by the replay timeline, or null for live kernels */
+  getReplayPosition(): number | null
+  setTab(tab: PanelTab): void
+  getTab(): PanelTab
+  /** Move the snapshot slider to `timestamp`; null follows the latest entry */
+  seekSnapshot(timestamp: number | null): void
+  /** Snapshot at the slider position */
+  getSnapshot(): TimeTravelSnapshot
 }
 
 /**
  * File exporter plugin options
  */
 export interface FileExporterOptions {
-  format: 'json' | 'csv'
+  format: 'json' | 'csv' | 'trace'
   includeMetadata: boolean
   prettyPrint: boolean
 }
@@ -681,13 +1311,50 @@ export interface ExportData {
   }
 }
 
+/**
+ * Chrome Trace Event, as read by chrome://tracing and Perfetto.
+ * `ts` and `dur` are in microseconds since the session start.
+ */
+export interface TraceEvent {
+  name: string
+  cat?: string
+  /** X = duration, i = instant, s/f = flow start/end, M = metadata */
+  ph: 'X' | 'i' | 's' | 'f' | 'M'
+  ts: number
+  dur?: number
+  pid: number
+  tid: number
+  /** Instant event scope */
+  s?: 't'
+  /** Flow id shared by the `s` and `f` events of one arrow */
+  id?: number
+  /** Flow binding point */
+  bp?: 'e'
+  args?: Record<string, unknown>
+}
+
+/**
+ * Chrome Trace Event JSON object format
+ */
+export interface TraceData {
+  traceEvents: TraceEvent[]
+  displayTimeUnit: 'ms'
+  otherData: {
+    sessionId: string
+    exportedAt: string
+  }
+}
+
 /**
  * File exporter plugin API
  */
 export interface FileExporterAPI {
   exportJSON(filename?: string): void
   exportCSV(filename?: string): void
+  /** Download a Chrome trace of lifetimes, renders and changes */
+  exportTrace(filename?: string): void
   getExportData(): ExportData
+  getTraceData(): TraceData
   downloadFile(data: string, filename: string, mimeType: string): void
 }
 
@@ -695,19 +1362,89 @@ export interface FileExporterAPI {
  * Remote logger plugin options
  */
 export interface RemoteLoggerOptions {
-  endpoint: string
+  /** URL for the default HTTP transport; required unless `transport` is set */
+  endpoint?: string
+  /** HTTP method for the default transport */
   method: 'POST' | 'PUT'
+  /** Extra headers for the default transport */
   headers?: Record<string, string>
+  /** Delivers batches instead of the default HTTP transport */
+  transport?: RemoteTransport
   batchSize: number
   batchInterval: number
   retryAttempts: number
+  /** Base delay before the first retry; doubles per attempt with jitter */
   retryDelay: number
+  /** Upper bound for the retry delay */
+  retryMaxDelay: number
+  /** Keeps pending and failed entries across reloads; memory only when unset */
+  queueStorage?: RemoteQueueStorage
+  /** Maximum number of queued (pending and failed) entries */
+  maxQueueSize: number
+  /** Which entries to drop when the queue is full */
+  overflow: RemoteQueueOverflow
+  /** Hand queued entries to the transport's `sendOnUnload` when the page is hidden or unloaded (navigator.sendBeacon for HTTP POST without custom headers) */
+  beacon: boolean
+  /** Wrap each batch in a `RemoteEnvelope` instead of sending a bare array */
+  envelope: boolean
+  /** Gzip bodies with CompressionStream where available; unload sends stay uncompressed */
+  compress: boolean
   filter?: LogFilter
   transform?: (entry: LogEntry) => unknown
   onError?: (error: Error) => void
+  /** Called with the response of each batch the default HTTP transport delivers */
   onSuccess?: (response: Response) => void
 }
 
+/**
+ * One batch of remote logger entries, ready to deliver
+ */
+export interface RemoteBatch {
+  /** Queued entries, before `transform` */
+  logs: LogEntry[]
+  /** The transformed entries as a JSON array or `RemoteEnvelope`, gzipped when `encoding` is set */
+  body: string | Blob
+  encoding?: 'gzip'
+}
+
+/**
+ * Versioned wrapper the remote logger sends around each batch with `envelope: true`
+ */
+export interface RemoteEnvelope {
+  /** Bumped when the envelope format changes incompatibly */
+  schemaVersion: number
+  sdk: { name: string; version: string }
+  /** Kernel session the batch was sent from */
+  sessionId: string | null
+  /** Batch number since install, starting at 1; retries keep their number */
+  sequence: number
+  /**
+   * Ids of the entries in `logs`, in order, kept even when `transform` drops them
+   * Retries, re-queued batches and unload beacons may regroup entries, so the
+   * server deduplicates per entry id rather than per batch
+   */
+  entryIds: string[]
+  /** Client clock (ms since epoch) when this attempt was sent */
+  sentAt: number
+  logs: unknown[]
+}
+
+/**
+ * Delivers remote logger batches
+ * The remote logger keeps batching, filtering, `transform`, retries and the
+ * queue; a transport only moves one batch to its destination.
+ */
+export interface RemoteTransport {
+  /** Deliver a batch; reject to have it retried */
+  send(batch: RemoteBatch): Promise<void>
+  /** Deliver a batch synchronously while the page goes away; false when it cannot */
+  sendOnUnload?(batch: RemoteBatch): boolean
+  /** Called when the plugin is installed, e.g. to connect early */
+  open?(): void
+  /** Called when the plugin is uninstalled */
+  close?(): void
+}
+
 /**
  * Remote logger plugin API
  */
@@ -718,9 +1455,147 @@ export interface RemoteLoggerAPI {
   isPaused(): boolean
   getPendingCount(): number
   getFailedCount(): number
+  /** Entries dropped because the queue was full */
+  getDroppedCount(): number
   retryFailed(): Promise<void>
 }
 
+/**
+ * Unsent remote logger entries, saved so they survive reloads
+ */
+export interface RemoteQueueSnapshot {
+  /** Entries not yet delivered, including batches in flight, oldest first */
+  pending: LogEntry[]
+  /** Entries whose batch ran out of retries */
+  failed: LogEntry[]
+}
+
+/**
+ * Where the remote logger keeps its queue between page loads
+ */
+export interface RemoteQueueStorage {
+  load(): Promise<RemoteQueueSnapshot | null>
+  save(snapshot: RemoteQueueSnapshot): Promise<void>
+}
+
+/**
+ * OpenTelemetry exporter plugin options
+ * Delivery options are passed to the remoteLogger that batches the export.
+ */
+export interface OtelExporterOptions
+  extends Pick<
+    RemoteLoggerOptions,
+    | 'batchSize'
+    | 'batchInterval'
+    | 'retryAttempts'
+    | 'retryDelay'
+    | 'retryMaxDelay'
+    | 'queueStorage'
+    | 'maxQueueSize'
+    | 'overflow'
+    | 'beacon'
+    | 'filter'
+    | 'onError'
+  > {
+  /** OTLP/HTTP base URL of the collector; `/v1/logs` and `/v1/traces` are appended */
+  endpoint: string
+  headers?: Record<string, string>
+  /** `service.name` resource attribute */
+  serviceName: string
+  /** Extra resource attributes, e.g. `service.version` or `deployment.environment` */
+  resourceAttributes?: Record<string, string | number | boolean>
+  /** Trace that spans and log records join, read for every batch; a random trace per install when unset */
+  traceContext?: OtelTraceContext | (() => OtelTraceContext | undefined)
+}
+
+/**
+ * W3C trace context that exported spans and log records belong to
+ */
+export interface OtelTraceContext {
+  /** 32 hex characters */
+  traceId: string
+  /** 16 hex characters; exported spans become its children */
+  spanId?: string
+}
+
+/**
+ * OpenTelemetry exporter plugin API
+ */
+export interface OtelExporterAPI extends RemoteLoggerAPI {
+  /** Trace context the next batch will be exported under */
+  getTraceContext(): OtelTraceContext
+}
+
+/**
+ * Overflow policy for a full remote logger queue
+ * - drop-oldest: evict the oldest queued entries, failed ones first
+ * - drop-newest: reject incoming entries
+ */
+export type RemoteQueueOverflow = 'drop-oldest' | 'drop-newest'
+
+/**
+ * How a sensitive value is redacted
+ * - mask: replaced by the mask string
+ * - hash: replaced by a keyed HMAC-SHA-256 prefix, so equal values stay
+ *   correlatable for as long as the same `hashSecret` is used
+ * - drop: removed from its containing object or array
+ */
+export type RedactionStrategy = 'mask' | 'hash' | 'drop'
+
+/**
+ * Key-name or path rule, optionally overriding the default strategy
+ */
+export type RedactionRule =
+  | string
+  | RegExp
+  | { pattern: string | RegExp; strategy: RedactionStrategy }
+
+/**
+ * Built-in value detectors
+ */
+export type BuiltInRedactionDetector = 'jwt' | 'credit-card' | 'email'
+
+/**
+ * Value detector, matching substrings of string values
+ */
+export type RedactionDetector =
+  | BuiltInRedactionDetector
+  | { name: string; pattern: RegExp; strategy?: RedactionStrategy }
+
+/**
+ * Redaction plugin options
+ */
+export interface RedactionOptions {
+  /**
+   * Key-name patterns; strings match whole words of the key, split at
+   * camelCase, snake_case and kebab-case boundaries, case-insensitively
+   * (`token` matches `accessToken` and `refresh_tokens`, `ssn` does not match `className`)
+   */
+  keys: RedactionRule[]
+  /** Value detectors applied to every string */
+  detectors: RedactionDetector[]
+  /** Path selectors such as `props.user.email`; `*` matches one segment */
+  paths: RedactionRule[]
+  strategy: RedactionStrategy
+  mask: string
+  /** Objects nested deeper than this are replaced by the mask */
+  maxDepth: number
+  /**
+   * Secret keying the hash strategy; defaults to a random secret per plugin
+   * instance. Set it to correlate hashes across sessions and keep it out of logs
+   */
+  hashSecret: string | null
+}
+
+/**
+ * Redaction plugin API
+ */
+export interface RedactionAPI {
+  redact<T>(value: T, path?: string): T | undefined
+  redactEvent<T extends KernelEvent>(event: T): T
+  getRedactionCount(): number
+}
+
 // ============================================
 // UTILITY TYPES
 // ============================================
@@ -105,16 +105,27 @@ export function diffArrays(
   return result
 }
 
+/**
+ * Options for diffProps
+ */
+export interface DiffPropsOptions {
+  /** Also report props that got a new reference with a deep-equal value */
+  includeDeepEqual?: boolean
+}
+
 /**
  * Computes prop changes for ReactLog events
+ * By default a new reference with a deep-equal value is not reported
  *
  * @param prev - Previous props
  * @param next - Next props
+ * @param options - Diff options
  * @returns Array of PropChange objects
  */
 export function diffProps(
   prev: Record<string, unknown>,
-  next: Record<string, unknown>
+  next: Record<string, unknown>,
+  options: DiffPropsOptions = {}
 ): PropChange[] {
   const changes: PropChange[] = []
   const allKeys = new Set([...Object.keys(prev), ...Object.keys(next)])
@@ -127,8 +138,9 @@ export function diffProps(
 
     // Only report if there's an actual change
     if (hasPrev !== hasNext || prevValue !== nextValue) {
-      const isDeepEq = deepEqual(prevValue, nextValue)
-      if (!isDeepEq || hasPrev !== hasNext) {
+      // An added or removed key is a change even when the value is undefined
+      const isDeepEq = hasPrev === hasNext && deepEqual(prevValue, nextValue)
+      if (!isDeepEq || options.includeDeepEqual) {
         changes.push({
           key,
           prevValue: hasPrev ? prevValue : undefined,
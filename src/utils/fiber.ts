@@ -0,0 +1,262 @@
+import type { FiberRenderStatus, Unsubscribe } from '../types'
+
+/**
+ * Minimal shape of a React Fiber, as seen through the DevTools hook
+ */
+export interface Fiber {
+  tag: number
+  type: unknown
+  child: Fiber | null
+  sibling: Fiber | null
+  return: Fiber | null
+  alternate: Fiber | null
+  flags: number
+  memoizedState: unknown
+  _debugOwner?: Fiber | null
+}
+
+/**
+ * Minimal shape of a React FiberRoot
+ */
+export interface FiberRoot {
+  current: Fiber
+}
+
+/**
+ * The subset of `__REACT_DEVTOOLS_GLOBAL_HOOK__` that React renderers call into
+ */
+export interface DevToolsGlobalHook {
+  renderers: Map<number, unknown>
+  supportsFiber: boolean
+  inject(renderer: unknown): number
+  onCommitFiberRoot(rendererId: number, root: FiberRoot, priority?: number, didError?: boolean): void
+  onCommitFiberUnmount(rendererId: number, fiber: Fiber): void
+  checkDCE(fn: unknown): void
+}
+
+/**
+ * Callbacks for fiber commit notifications
+ */
+export interface FiberCommitListener {
+  onCommit(root: FiberRoot): void
+  onUnmount?(fiber: Fiber): void
+}
+
+/**
+ * A component fiber visited while walking a committed tree
+ */
+export interface CommittedFiber {
+  fiber: Fiber
+  name: string
+  status: FiberRenderStatus
+  owner: Fiber | null
+}
+
+/**
+ * Marker placed on useLog's internal state so fibers can be matched to componentIds
+ */
+export const LOG_STATE_MARKER = Symbol.for('reactlog.log-state')
+
+// React work tags and flags (stable across React 16.9 - 18)
+const FUNCTION_COMPONENT = 0
+const CLASS_COMPONENT = 1
+const FORWARD_REF = 11
+const SIMPLE_MEMO_COMPONENT = 15
+const PERFORMED_WORK = 1
+
+/**
+ * Listener sets per hook, so the hook's methods are wrapped only once
+ */
+const hookListeners = new WeakMap<DevToolsGlobalHook, Set<FiberCommitListener>>()
+
+/**
+ * Returns the DevTools global hook, if one is installed
+ */
+export function getDevToolsHook(): DevToolsGlobalHook | null {
+  const globalObject = globalThis as { __REACT_DEVTOOLS_GLOBAL_HOOK__?: DevToolsGlobalHook }
+  return globalObject.__REACT_DEVTOOLS_GLOBAL_HOOK__ ?? null
+}
+
+/**
+ * Installs a minimal `__REACT_DEVTOOLS_GLOBAL_HOOK__` when React DevTools is absent
+ * React renderers attach to the hook when they load, so call this before importing react-dom
+ *
+ * @returns The installed or pre-existing hook
+ */
+export function installDevToolsHookShim(): DevToolsGlobalHook {
+  const existing = getDevToolsHook()
+  if (existing) return existing
+
+  let nextRendererId = 1
+  const hook: DevToolsGlobalHook = {
+    renderers: new Map(),
+    supportsFiber: true,
+    inject(renderer: unknown): number {
+      const id = nextRendererId++
+      hook.renderers.set(id, renderer)
+      return id
+    },
+    onCommitFiberRoot(): void {
+      // Replaced by subscribers
+    },
+    onCommitFiberUnmount(): void {
+      // Replaced by subscribers
+    },
+    checkDCE(): void {
+      // Dead code elimination check is only meaningful for the real DevTools
+    },
+  }
+
+  const globalObject = globalThis as { __REACT_DEVTOOLS_GLOBAL_HOOK__?: DevToolsGlobalHook }
+  globalObject.__REACT_DEVTOOLS_GLOBAL_HOOK__ = hook
+  return hook
+}
+
+/**
+ * Subscribes to fiber commits through the DevTools hook, chaining any existing handlers
+ *
+ * @param hook - The DevTools global hook
+ * @param listener - Commit and unmount callbacks
+ * @returns Unsubscribe function
+ */
+export function subscribeToFiberCommits(
+  hook: DevToolsGlobalHook,
+  listener: FiberCommitListener
+): Unsubscribe {
+  let listeners = hookListeners.get(hook)
+  if (!listeners) {
+    const registered = new Set<FiberCommitListener>()
+    listeners = registered
+    hookListeners.set(hook, registered)
+
+    const originalCommit = hook.onCommitFiberRoot.bind(hook)
+    const originalUnmount = hook.onCommitFiberUnmount.bind(hook)
+
+    hook.onCommitFiberRoot = (rendererId, root, priority, didError) => {
+      originalCommit(rendererId, root, priority, didError)
+      for (const current of registered) {
+        try {
+          current.onCommit(root)
+        } catch (error) {
+          console.error('[ReactLog] Error in fiber commit listener:', error)
+        }
+      }
+    }
+
+    hook.onCommitFiberUnmount = (rendererId, fiber) => {
+      originalUnmount(rendererId, fiber)
+      for (const current of registered) {
+        try {
+          current.onUnmount?.(fiber)
+        } catch (error) {
+          console.error('[ReactLog] Error in fiber unmount listener:', error)
+        }
+      }
+    }
+  }
+
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+/**
+ * Checks whether a fiber renders a user component
+ */
+export function isComponentFiber(fiber: Fiber): boolean {
+  return (
+    fiber.tag === FUNCTION_COMPONENT ||
+    fiber.tag === CLASS_COMPONENT ||
+    fiber.tag === FORWARD_REF ||
+    fiber.tag === SIMPLE_MEMO_COMPONENT
+  )
+}
+
+/**
+ * Gets a display name for a component fiber
+ */
+export function getFiberName(fiber: Fiber): string {
+  const type = fiber.type as
+    | { displayName?: string; name?: string; render?: { displayName?: string; name?: string } }
+    | null
+  if (!type) return 'Anonymous'
+
+  return (
+    type.displayName ||
+    type.render?.displayName ||
+    type.render?.name ||
+    type.name ||
+    'Anonymous'
+  )
+}
+
+/**
+ * Finds the componentId of the useLog call inside a function component, if any
+ * Walks the hook list looking for the ref holding useLog's marked state
+ */
+export function getLogComponentId(fiber: Fiber): string | null {
+  if (fiber.tag === CLASS_COMPONENT) return null
+
+  let hook = fiber.memoizedState as { memoizedState?: unknown; next?: unknown } | null
+  while (hook && typeof hook === 'object') {
+    const ref = hook.memoizedState as { current?: Record<PropertyKey, unknown> } | null
+    const value = ref && typeof ref === 'object' ? ref.current : undefined
+    if (value && typeof value === 'object' && value[LOG_STATE_MARKER] === true) {
+      return value.componentId as string
+    }
+    hook = hook.next as typeof hook
+  }
+  return null
+}
+
+/**
+ * Walks a committed fiber tree and reports the component fibers React visited
+ * Subtrees whose child list is unchanged were skipped entirely and are not reported
+ *
+ * @param root - The committed FiberRoot
+ * @returns Visited component fibers in depth-first order
+ */
+export function walkCommittedFibers(root: FiberRoot): CommittedFiber[] {
+  const committed: CommittedFiber[] = []
+  const stack: Array<{ fiber: Fiber; parentComponent: Fiber | null }> = []
+
+  const pushChildren = (fiber: Fiber, parentComponent: Fiber | null): void => {
+    const prev = fiber.alternate
+    if (prev && prev.child === fiber.child) return
+
+    // Push in reverse so children are visited in order
+    const children: Fiber[] = []
+    for (let child = fiber.child; child; child = child.sibling) {
+      children.push(child)
+    }
+    for (let i = children.length - 1; i >= 0; i--) {
+      stack.push({ fiber: children[i] as Fiber, parentComponent })
+    }
+  }
+
+  pushChildren(root.current, null)
+
+  while (stack.length > 0) {
+    const { fiber, parentComponent } = stack.pop() as { fiber: Fiber; parentComponent: Fiber | null }
+    let nextParent = parentComponent
+
+    if (isComponentFiber(fiber)) {
+      let status: FiberRenderStatus = 'bailed-out'
+      if (!fiber.alternate) {
+        status = 'mounted'
+      } else if ((fiber.flags & PERFORMED_WORK) === PERFORMED_WORK) {
+        status = 'rendered'
+      }
+
+      const debugOwner = fiber._debugOwner
+      const owner = debugOwner && isComponentFiber(debugOwner) ? debugOwner : parentComponent
+      committed.push({ fiber, name: getFiberName(fiber), status, owner })
+      nextParent = fiber
+    }
+
+    pushChildren(fiber, nextParent)
+  }
+
+  return committed
+}
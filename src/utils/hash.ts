@@ -0,0 +1,133 @@
+/**
+ * FNV-1a 32-bit hash, stable across sessions so hashed values stay comparable
+ * Not a cryptographic hash; use hmacSha256 for anything that must not be reversed
+ *
+ * @param input - String to hash
+ * @returns 8 hex characters
+ */
+export function hashString(input: string): string {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0')
+}
+
+/**
+ * SHA-256 round constants
+ */
+const K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+])
+
+const BLOCK_SIZE = 64
+
+function rotr(value: number, bits: number): number {
+  return (value >>> bits) | (value << (32 - bits))
+}
+
+/**
+ * SHA-256 digest of a byte array
+ */
+function sha256(message: Uint8Array): Uint8Array {
+  const hash = new Uint32Array([
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+  ])
+
+  // Pad to a multiple of 64 bytes: 0x80, zeros, then the bit length
+  const length = Math.ceil((message.length + 9) / BLOCK_SIZE) * BLOCK_SIZE
+  const padded = new Uint8Array(length)
+  padded.set(message)
+  padded[message.length] = 0x80
+  const view = new DataView(padded.buffer)
+  view.setUint32(length - 8, Math.floor(message.length / 0x20000000))
+  view.setUint32(length - 4, (message.length * 8) >>> 0)
+
+  const w = new Uint32Array(64)
+  for (let offset = 0; offset < length; offset += BLOCK_SIZE) {
+    for (let i = 0; i < 16; i++) {
+      w[i] = view.getUint32(offset + i * 4)
+    }
+    for (let i = 16; i < 64; i++) {
+      const w15 = w[i - 15] as number
+      const w2 = w[i - 2] as number
+      const s0 = rotr(w15, 7) ^ rotr(w15, 18) ^ (w15 >>> 3)
+      const s1 = rotr(w2, 17) ^ rotr(w2, 19) ^ (w2 >>> 10)
+      w[i] = (w[i - 16] as number) + s0 + (w[i - 7] as number) + s1
+    }
+
+    let a = hash[0] as number
+    let b = hash[1] as number
+    let c = hash[2] as number
+    let d = hash[3] as number
+    let e = hash[4] as number
+    let f = hash[5] as number
+    let g = hash[6] as number
+    let h = hash[7] as number
+    for (let i = 0; i < 64; i++) {
+      const s1 = rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)
+      const ch = (e & f) ^ (~e & g)
+      const t1 = (h + s1 + ch + (K[i] as number) + (w[i] as number)) | 0
+      const s0 = rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)
+      const maj = (a & b) ^ (a & c) ^ (b & c)
+      const t2 = (s0 + maj) | 0
+      h = g
+      g = f
+      f = e
+      e = (d + t1) | 0
+      d = c
+      c = b
+      b = a
+      a = (t1 + t2) | 0
+    }
+
+    ;[a, b, c, d, e, f, g, h].forEach((value, i) => {
+      hash[i] = (hash[i] as number) + value
+    })
+  }
+
+  const digest = new Uint8Array(32)
+  const digestView = new DataView(digest.buffer)
+  hash.forEach((word, i) => digestView.setUint32(i * 4, word))
+  return digest
+}
+
+/**
+ * HMAC-SHA-256 (RFC 2104), synchronous so it can run inside event middleware
+ *
+ * @param key - Secret key
+ * @param message - String to authenticate
+ * @returns 64 hex characters
+ */
+export function hmacSha256(key: string, message: string): string {
+  const encoder = new TextEncoder()
+  let keyBytes: Uint8Array = encoder.encode(key)
+  if (keyBytes.length > BLOCK_SIZE) keyBytes = sha256(keyBytes)
+
+  const inner = new Uint8Array(BLOCK_SIZE)
+  const outer = new Uint8Array(BLOCK_SIZE)
+  for (let i = 0; i < BLOCK_SIZE; i++) {
+    const byte = keyBytes[i] ?? 0
+    inner[i] = byte ^ 0x36
+    outer[i] = byte ^ 0x5c
+  }
+
+  const messageBytes = encoder.encode(message)
+  const innerInput = new Uint8Array(BLOCK_SIZE + messageBytes.length)
+  innerInput.set(inner)
+  innerInput.set(messageBytes, BLOCK_SIZE)
+
+  const outerInput = new Uint8Array(BLOCK_SIZE + 32)
+  outerInput.set(outer)
+  outerInput.set(sha256(innerInput), BLOCK_SIZE)
+
+  return Array.from(sha256(outerInput), (byte) => byte.toString(16).padStart(2, '0')).join('')
+}
@@ -14,6 +14,7 @@ export {
   diffProps,
   findChangedDependencies,
   type ValueChange,
+  type DiffPropsOptions,
 } from './diff'
 export {
   truncateString,
@@ -25,3 +26,21 @@ export {
   padString,
   formatNumber,
 } from './format'
+export {
+  installDevToolsHookShim,
+  getDevToolsHook,
+  subscribeToFiberCommits,
+  walkCommittedFibers,
+  getLogComponentId,
+  getFiberName,
+  isComponentFiber,
+  LOG_STATE_MARKER,
+  type Fiber,
+  type FiberRoot,
+  type DevToolsGlobalHook,
+  type FiberCommitListener,
+  type CommittedFiber,
+} from './fiber'
+export { toSerializable } from './serialize'
+export { openDatabase, runTransaction } from './indexeddb'
+export { hashString, hmacSha256 } from './hash'
@@ -0,0 +1,50 @@
+/**
+ * Open an IndexedDB database
+ *
+ * @param name - Database name
+ * @param version - Schema version
+ * @param upgrade - Creates missing object stores when the version increases
+ * @returns Promise resolving to the open connection
+ */
+export function openDatabase(
+  name: string,
+  version: number,
+  upgrade: (db: IDBDatabase) => void
+): Promise<IDBDatabase> {
+  return new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this environment'))
+      return
+    }
+
+    const request = indexedDB.open(name, version)
+    request.onupgradeneeded = () => upgrade(request.result)
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/**
+ * Run work in one transaction, resolving with the result of the request
+ * it returns once the transaction has committed
+ *
+ * @param db - Open connection
+ * @param stores - Object stores the transaction covers
+ * @param mode - Transaction mode
+ * @param work - Issues the requests
+ * @returns Promise resolving to the result of the returned request
+ */
+export function runTransaction<T>(
+  db: IDBDatabase,
+  stores: string[],
+  mode: IDBTransactionMode,
+  work: (tx: IDBTransaction) => IDBRequest<T> | void
+): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(stores, mode)
+    const request = work(tx)
+    tx.oncomplete = () => resolve(request?.result as T)
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  })
+}
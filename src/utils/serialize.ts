@@ -0,0 +1,69 @@
+/**
+ * Maximum nesting depth kept when serializing values
+ */
+const MAX_SERIALIZE_DEPTH = 10
+
+/**
+ * Converts a value into plain, structured-clone and JSON safe data
+ * Errors keep their name, message and stack; functions, symbols, bigints,
+ * React elements and cycles are replaced by descriptive strings.
+ *
+ * @param value - The value to convert
+ * @param maxDepth - Depth beyond which nested objects are replaced
+ * @returns A plain copy of the value
+ */
+export function toSerializable(value: unknown, maxDepth: number = MAX_SERIALIZE_DEPTH): unknown {
+  return serialize(value, 0, maxDepth, [])
+}
+
+function serialize(value: unknown, depth: number, maxDepth: number, ancestors: object[]): unknown {
+  switch (typeof value) {
+    case 'function':
+      return `[Function ${value.name || 'anonymous'}]`
+    case 'symbol':
+      return value.toString()
+    case 'bigint':
+      return `${value}n`
+    case 'object':
+      break
+    default:
+      return value
+  }
+
+  if (value === null) return null
+  if (value instanceof Date) return value.toISOString()
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack }
+  }
+  if ('$$typeof' in value) {
+    return '[React element]'
+  }
+
+  if (ancestors.includes(value)) return '[Circular]'
+  if (depth >= maxDepth) return '[Max depth]'
+
+  ancestors.push(value)
+  let result: unknown
+
+  if (Array.isArray(value)) {
+    result = value.map((item) => serialize(item, depth + 1, maxDepth, ancestors))
+  } else if (value instanceof Map) {
+    result = Array.from(value.entries()).map(([k, v]) => [
+      serialize(k, depth + 1, maxDepth, ancestors),
+      serialize(v, depth + 1, maxDepth, ancestors),
+    ])
+  } else if (value instanceof Set) {
+    result = Array.from(value).map((item) => serialize(item, depth + 1, maxDepth, ancestors))
+  } else {
+    const copy: Record<string, unknown> = {}
+    for (const [key, item] of Object.entries(value)) {
+      if (item !== undefined) {
+        copy[key] = serialize(item, depth + 1, maxDepth, ancestors)
+      }
+    }
+    result = copy
+  }
+
+  ancestors.pop()
+  return result
+}
@@ -0,0 +1,6 @@
+declare const __REACTLOG_VERSION__: string
+
+/**
+ * Package version, injected from package.json at build time
+ */
+export const VERSION: string = __REACTLOG_VERSION__
@@ -0,0 +1,105 @@
+import { bench, describe } from 'vitest'
+import { createLogStore } from '../../src/kernel/log-store'
+import type { EventType, LogEntry } from '../../src/types'
+
+/**
+ * One second of load at 100k events per second
+ */
+const EVENTS_PER_RUN = 100_000
+
+const TYPES: EventType[] = ['mount', 'update', 'props-change', 'state-change', 'effect-run', 'unmount']
+
+let nextId = 0
+
+/**
+ * Entries from 200 row components, like a virtualized table scrolling
+ */
+function createEntry(): LogEntry {
+  const n = nextId++
+  const type = TYPES[n % TYPES.length] as EventType
+  return {
+    id: `log-${n}`,
+    timestamp: n,
+    componentId: `row-${n % 200}`,
+    componentName: 'Row',
+    event: { type, componentId: `row-${n % 200}`, componentName: 'Row', timestamp: n } as LogEntry['event'],
+    level: 'debug',
+    formatted: type,
+  }
+}
+
+/**
+ * The previous array-backed store: `splice` on the entries, then
+ * `indexOf` + `splice` on both index lists for every evicted entry
+ */
+function createSpliceStore(maxLogs: number) {
+  const entries: LogEntry[] = []
+  const byComponent = new Map<string, LogEntry[]>()
+  const byType = new Map<EventType, LogEntry[]>()
+
+  const remove = <K>(index: Map<K, LogEntry[]>, key: K, entry: LogEntry) => {
+    const logs = index.get(key) as LogEntry[]
+    logs.splice(logs.indexOf(entry), 1)
+    if (logs.length === 0) index.delete(key)
+  }
+
+  const add = <K>(index: Map<K, LogEntry[]>, key: K, entry: LogEntry) => {
+    const logs = index.get(key)
+    if (logs) {
+      logs.push(entry)
+    } else {
+      index.set(key, [entry])
+    }
+  }
+
+  return {
+    addLog(entry: LogEntry): void {
+      entries.push(entry)
+      add(byComponent, entry.componentId, entry)
+      add(byType, entry.event.type, entry)
+
+      if (entries.length > maxLogs) {
+        for (const removed of entries.splice(0, entries.length - maxLogs)) {
+          remove(byComponent, removed.componentId, removed)
+          remove(byType, removed.event.type, removed)
+        }
+      }
+    },
+  }
+}
+
+const OPTIONS = { iterations: 5, time: 0, warmupIterations: 1, warmupTime: 0 }
+
+for (const maxLogs of [10_000, 100_000]) {
+  describe(`addLog x ${EVENTS_PER_RUN} at maxLogs ${maxLogs}`, () => {
+    const ringStore = createLogStore(maxLogs)
+
+    // Start full so every run measures steady-state eviction
+    for (let i = 0; i < maxLogs; i++) ringStore.addLog(createEntry())
+
+    bench('ring buffer', () => {
+      for (let i = 0; i < EVENTS_PER_RUN; i++) ringStore.addLog(createEntry())
+    }, OPTIONS)
+
+    // The previous store slows down quadratically with maxLogs, so it is only measured at 10k
+    if (maxLogs > 10_000) return
+
+    const spliceStore = createSpliceStore(maxLogs)
+    for (let i = 0; i < maxLogs; i++) spliceStore.addLog(createEntry())
+
+    bench('array splice (previous)', () => {
+      for (let i = 0; i < EVENTS_PER_RUN; i++) spliceStore.addLog(createEntry())
+    }, OPTIONS)
+  })
+}
+
+describe(`addLog x ${EVENTS_PER_RUN} with getLogs().startTime read per event`, () => {
+  const store = createLogStore(10_000)
+
+  bench('ring buffer', () => {
+    for (let i = 0; i < EVENTS_PER_RUN; i++) {
+      store.addLog(createEntry())
+      void store.getLogs().startTime
+    }
+  }, OPTIONS)
+})
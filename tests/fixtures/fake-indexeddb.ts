@@ -0,0 +1,223 @@
+/**
+ * Minimal in-memory IndexedDB covering what IndexedDBStorage uses:
+ * open/upgrade, keyPath object stores (including compound keys),
+ * put/get/getAll/delete with bound key ranges and transaction completion.
+ * Databases live on the FakeIndexedDB instance, so reopening one simulates a reload.
+ */
+
+type Key = string | number | Key[]
+
+function compareKeys(a: Key, b: Key): number {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+      const result = compareKeys(a[i] as Key, b[i] as Key)
+      if (result !== 0) return result
+    }
+    return a.length - b.length
+  }
+  if (typeof a !== typeof b) return typeof a < typeof b ? -1 : 1
+  return a < b ? -1 : a > b ? 1 : 0
+}
+
+export class FakeKeyRange {
+  constructor(readonly lower: Key, readonly upper: Key) {}
+
+  static bound(lower: Key, upper: Key): FakeKeyRange {
+    if (compareKeys(lower, upper) > 0) {
+      throw new Error('DataError: lower bound is greater than upper bound')
+    }
+    return new FakeKeyRange(lower, upper)
+  }
+
+  includes(key: Key): boolean {
+    return compareKeys(key, this.lower) >= 0 && compareKeys(key, this.upper) <= 0
+  }
+}
+
+interface FakeRequest<T = unknown> {
+  result: T | undefined
+  error: Error | null
+  onsuccess: (() => void) | null
+  onerror: (() => void) | null
+  onupgradeneeded?: (() => void) | null
+}
+
+class FakeObjectStore {
+  records: Map<string, { key: Key; value: unknown }> = new Map()
+
+  constructor(readonly keyPath: string | string[]) {}
+
+  keyOf(value: Record<string, unknown>): Key {
+    return Array.isArray(this.keyPath)
+      ? this.keyPath.map((path) => value[path] as Key)
+      : (value[this.keyPath] as Key)
+  }
+
+  sorted(): { key: Key; value: unknown }[] {
+    return Array.from(this.records.values()).sort((a, b) => compareKeys(a.key, b.key))
+  }
+}
+
+class FakeDatabase {
+  stores: Map<string, FakeObjectStore> = new Map()
+  version = 0
+  closed = false
+
+  objectStoreNames = {
+    contains: (name: string) => this.stores.has(name),
+  }
+
+  constructor(private factory: FakeIndexedDB) {}
+
+  createObjectStore(name: string, options: { keyPath: string | string[] }): void {
+    this.stores.set(name, new FakeObjectStore(options.keyPath))
+  }
+
+  transaction(names: string[], _mode: string): FakeTransaction {
+    if (this.closed) throw new Error('InvalidStateError: database is closed')
+    return new FakeTransaction(this, names, this.factory.takeFailure())
+  }
+
+  close(): void {
+    this.closed = true
+  }
+}
+
+class FakeTransaction {
+  error: Error | null = null
+  oncomplete: (() => void) | null = null
+  onerror: (() => void) | null = null
+  onabort: (() => void) | null = null
+
+  constructor(private db: FakeDatabase, private names: string[], failure: Error | null) {
+    // Requests run synchronously, so the transaction settles on the next task
+    setTimeout(() => {
+      if (failure) {
+        this.error = failure
+        this.onerror?.()
+        this.onabort?.()
+      } else {
+        this.oncomplete?.()
+      }
+    }, 0)
+  }
+
+  objectStore(name: string) {
+    const store = this.db.stores.get(name)
+    if (!store || !this.names.includes(name)) {
+      throw new Error(`NotFoundError: ${name}`)
+    }
+
+    const request = <T>(result: T): FakeRequest<T> => ({
+      result,
+      error: null,
+      onsuccess: null,
+      onerror: null,
+    })
+
+    return {
+      put(value: Record<string, unknown>) {
+        const key = store.keyOf(value)
+        store.records.set(JSON.stringify(key), { key, value: JSON.parse(JSON.stringify(value)) })
+        return request(key)
+      },
+      get(key: Key) {
+        const record = store.records.get(JSON.stringify(key))
+        return request(record ? JSON.parse(JSON.stringify(record.value)) : undefined)
+      },
+      getAll(range?: FakeKeyRange) {
+        const values = store
+          .sorted()
+          .filter((record) => !range || range.includes(record.key))
+          .map((record) => JSON.parse(JSON.stringify(record.value)))
+        return request(values)
+      },
+      delete(keyOrRange: Key | FakeKeyRange) {
+        for (const [id, record] of store.records) {
+          const matches =
+            keyOrRange instanceof FakeKeyRange
+              ? keyOrRange.includes(record.key)
+              : compareKeys(keyOrRange, record.key) === 0
+          if (matches) store.records.delete(id)
+        }
+        return request(undefined)
+      },
+    }
+  }
+}
+
+export class FakeIndexedDB {
+  databases: Map<string, FakeDatabase> = new Map()
+  failOpen: Error | null = null
+  private nextFailure: Error | null = null
+
+  /**
+   * Make the next transaction fail with the given error
+   */
+  failNextTransaction(error: Error): void {
+    this.nextFailure = error
+  }
+
+  takeFailure(): Error | null {
+    const failure = this.nextFailure
+    this.nextFailure = null
+    return failure
+  }
+
+  open(name: string, version: number): FakeRequest<FakeDatabase> {
+    const request: FakeRequest<FakeDatabase> = {
+      result: undefined,
+      error: null,
+      onsuccess: null,
+      onerror: null,
+      onupgradeneeded: null,
+    }
+
+    setTimeout(() => {
+      if (this.failOpen) {
+        request.error = this.failOpen
+        request.onerror?.()
+        return
+      }
+
+      let db = this.databases.get(name)
+      if (!db || db.closed) {
+        const stores = db?.stores
+        db = new FakeDatabase(this)
+        if (stores) db.stores = stores
+        this.databases.set(name, db)
+      }
+      request.result = db
+
+      if (db.version < version) {
+        db.version = version
+        request.onupgradeneeded?.()
+      }
+      request.onsuccess?.()
+    }, 0)
+
+    return request
+  }
+}
+
+/**
+ * Install a fresh FakeIndexedDB as the global indexedDB
+ *
+ * @returns The fake and a function restoring the previous globals
+ */
+export function installFakeIndexedDB(): { idb: FakeIndexedDB; restore: () => void } {
+  const globals = globalThis as Record<string, unknown>
+  const previous = { indexedDB: globals['indexedDB'], IDBKeyRange: globals['IDBKeyRange'] }
+  const idb = new FakeIndexedDB()
+
+  globals['indexedDB'] = idb
+  globals['IDBKeyRange'] = FakeKeyRange
+
+  return {
+    idb,
+    restore: () => {
+      globals['indexedDB'] = previous.indexedDB
+      globals['IDBKeyRange'] = previous.IDBKeyRange
+    },
+  }
+}
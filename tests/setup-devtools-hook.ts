@@ -0,0 +1,4 @@
+import { installDevToolsHookShim } from '../src/utils/fiber'
+
+// React attaches to the DevTools hook when react-dom loads, so fiber tests import this first
+installDevToolsHookShim()
@@ -1,10 +1,9 @@
-import { cleanup } from '@testing-library/react'
 import { afterEach, beforeEach, vi } from 'vitest'
 import '@testing-library/jest-dom'
 
-// Cleanup after each test
+// Testing Library unmounts rendered trees after each test on its own. It is not
+// imported here so that react-dom loads after any per-file DevTools hook shim.
 afterEach(() => {
-  cleanup()
   vi.clearAllMocks()
 })
 
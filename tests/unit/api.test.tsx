@@ -8,7 +8,11 @@ import {
   getLogs,
   clearLogs,
   filterLogs,
+  getSessions,
+  getSnapshot,
   exportLogs,
+  importLogs,
+  log,
   getPluginAPI,
   isEnabled,
   enable,
@@ -139,6 +143,16 @@ describe('API', () => {
     })
   })
 
+  describe('getSessions', () => {
+    it('should return the current session', () => {
+      renderWithProvider(<div>Test</div>)
+
+      const sessions = getSessions()
+      expect(sessions).toHaveLength(1)
+      expect(sessions[0]?.id).toBe(capturedKernel?.getLogs().sessionId)
+    })
+  })
+
   describe('exportLogs', () => {
     it('should export logs as JSON string', async () => {
       renderWithProvider(<TrackedComponent name="ExportTest" />)
@@ -181,6 +195,51 @@ describe('API', () => {
     })
   })
 
+  describe('getSnapshot', () => {
+    it('should list mounted components and their state at an instant', async () => {
+      renderWithProvider(<TrackedComponent name="SnapshotTest" />)
+
+      await act(async () => {
+        await vi.runAllTimersAsync()
+      })
+
+      expect(getSnapshot().components.map((c) => c.componentName)).toContain('SnapshotTest')
+      expect(getSnapshot(0).components).toEqual([])
+    })
+
+    it('should return an empty snapshot when no kernel', async () => {
+      const apiModule = await import('../../src/api')
+      const getLogsSpy = vi.spyOn(apiModule, 'getLogs').mockReturnValue(null)
+
+      expect(apiModule.getSnapshot(5).components).toEqual([])
+
+      getLogsSpy.mockRestore()
+    })
+  })
+
+  describe('importLogs', () => {
+    it('should replay an exportLogs() bundle without touching the live kernel', async () => {
+      renderWithProvider(<TrackedComponent name="ImportTest" />)
+
+      await act(async () => {
+        await vi.runAllTimersAsync()
+      })
+
+      const exported = exportLogs()
+      const replay = importLogs(exported, { logLevel: 'info' })
+
+      expect(replay).not.toBe(getKernel())
+      expect(replay.isReplay()).toBe(true)
+      expect(replay.getOptions().logLevel).toBe('info')
+      expect(replay.getLogs().entries).toEqual(JSON.parse(exported).entries)
+      expect(replay.filterLogs({ componentName: 'ImportTest' }).length).toBeGreaterThan(0)
+    })
+
+    it('should reject bundles that are not ReactLog exports', () => {
+      expect(() => importLogs('{"events":[]}')).toThrow('Invalid ReactLog export: missing logs array')
+    })
+  })
+
   describe('getPluginAPI', () => {
     it('should return plugin API if exists', () => {
       const customPlugin = {
@@ -254,4 +313,30 @@ describe('API', () => {
       expect(isEnabled()).toBe(false)
     })
   })
+
+  describe('log', () => {
+    it('should emit leveled log events to the global kernel', () => {
+      renderWithProvider(<div>Test</div>)
+
+      log.debug('debug message')
+      log.info('info message', { id: 1 })
+      log.warn('warn message', undefined, ['auth'])
+      log.error('error message')
+
+      const entries = getLogs()?.entries.filter(e => e.event.type === 'log') ?? []
+      expect(entries.map(e => e.level)).toEqual(['debug', 'info', 'warn', 'error'])
+      expect(entries[0]?.componentName).toBe('Global')
+      expect(entries[1]?.event).toMatchObject({ message: 'info message', data: { id: 1 } })
+      expect(entries[2]?.event).toMatchObject({ tags: ['auth'] })
+    })
+
+    it('should do nothing when the kernel is disabled', () => {
+      renderWithProvider(<div>Test</div>)
+      disable()
+
+      log.info('ignored')
+
+      expect(getLogs()?.entries.some(e => e.event.type === 'log')).toBe(false)
+    })
+  })
 })
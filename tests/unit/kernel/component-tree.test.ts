@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { ComponentTree, createComponentTree } from '../../../src/kernel/component-tree'
+import {
+  createMockMountEvent,
+  createMockPropsChangeEvent,
+  createMockStateChangeEvent,
+  createMockUnmountEvent,
+  createMockUpdateEvent,
+} from '../../fixtures/mock-data'
+
+describe('ComponentTree', () => {
+  let tree: ComponentTree
+
+  function mount(componentId: string, parentId?: string, timestamp = 1000): void {
+    tree.apply(createMockMountEvent({ componentId, componentName: componentId, timestamp, ...(parentId && { parentId }) }))
+  }
+
+  function shape(nodes = tree.getRoots()): unknown[] {
+    return nodes.map((node) => (node.children.length > 0 ? { [node.componentId]: shape(node.children) } : node.componentId))
+  }
+
+  beforeEach(() => {
+    tree = createComponentTree()
+  })
+
+  it('should resolve children mounted before their parent', () => {
+    // React runs child effects first
+    mount('row-1', 'list')
+    mount('row-2', 'list')
+    mount('list', 'app')
+    mount('app')
+    mount('toast')
+
+    expect(shape()).toEqual([{ app: [{ list: ['row-1', 'row-2'] }] }, 'toast'])
+    expect(tree.getNode('list')?.children.map((child) => child.parentId)).toEqual(['list', 'list'])
+    expect(tree.getNode('missing')).toBeNull()
+  })
+
+  it('should count renders and remember when each source last changed', () => {
+    mount('cart')
+    tree.apply(createMockUpdateEvent({ componentId: 'cart', renderCount: 4 }))
+    tree.apply(createMockPropsChangeEvent({ componentId: 'cart', timestamp: 2000 }))
+    tree.apply(createMockStateChangeEvent({ componentId: 'cart', timestamp: 3000 }))
+    tree.apply({ type: 'context-change', componentId: 'cart', componentName: 'Cart', timestamp: 4000, contextName: 'Theme', prevValue: 1, nextValue: 2 })
+    tree.apply(createMockStateChangeEvent({ componentId: 'unknown', timestamp: 3000 }))
+
+    const node = tree.getNode('cart')
+    expect(node).toMatchObject({ renderCount: 4, mounted: true, mountedAt: 1000, unmountedAt: null })
+    expect(node?.lastChanges).toEqual({ props: 2000, state: 3000, context: 4000 })
+
+    node!.lastChanges.props = 0
+    expect(tree.getNode('cart')?.lastChanges.props).toBe(2000)
+  })
+
+  it('should keep unmounted components until newer ones push them out', () => {
+    mount('list')
+    mount('row', 'list')
+    tree.apply(createMockUnmountEvent({ componentId: 'list', timestamp: 5000 }))
+    tree.apply(createMockUnmountEvent({ componentId: 'list', timestamp: 6000 }))
+
+    expect(tree.getNode('list')).toMatchObject({ mounted: false, unmountedAt: 5000 })
+    expect(shape()).toEqual([{ list: ['row'] }])
+
+    for (let i = 0; i < 100; i++) {
+      mount(`item-${i}`)
+      tree.apply(createMockUnmountEvent({ componentId: `item-${i}` }))
+    }
+    expect(tree.getNode('list')).toBeNull()
+    expect(tree.getNode('item-0')).not.toBeNull()
+    expect(shape()[0]).toBe('row')
+
+    tree.clear()
+    expect(tree.getRoots()).toEqual([])
+  })
+})
@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { IndexedDBStorage, createIndexedDBStorage } from '../../../src/kernel/indexeddb-storage'
+import { createLogStore } from '../../../src/kernel/log-store'
+import { FakeIndexedDB, installFakeIndexedDB } from '../../fixtures/fake-indexeddb'
+import { createMockLogEntry } from '../../fixtures/mock-data'
+import type { LogSession, PersistedLogRecord } from '../../../src/types'
+
+function session(id: string, startTime = 1000): LogSession {
+  return { id, startTime, lastActivity: startTime, entryCount: 0 }
+}
+
+function records(sessionId: string, from: number, count: number): PersistedLogRecord[] {
+  return Array.from({ length: count }, (_, i) => ({
+    sessionId,
+    seq: from + i,
+    entry: createMockLogEntry({ formatted: `log ${from + i}` }),
+  }))
+}
+
+describe('IndexedDBStorage', () => {
+  let idb: FakeIndexedDB
+  let restore: () => void
+  let storage: IndexedDBStorage
+
+  beforeEach(() => {
+    ;({ idb, restore } = installFakeIndexedDB())
+    storage = createIndexedDBStorage({ dbName: 'reactlog-test' })
+  })
+
+  afterEach(() => {
+    storage.close()
+    restore()
+  })
+
+  it('should store sessions and entries in seq order', async () => {
+    await storage.append(session('s1'), records('s1', 0, 2), 100)
+    await storage.append(session('s2', 2000), records('s2', 0, 1), 100)
+    await storage.append({ ...session('s1'), entryCount: 3 }, records('s1', 2, 1), 100)
+
+    const sessions = await storage.listSessions()
+    expect(sessions.map((s) => [s.id, s.entryCount])).toEqual([['s1', 3], ['s2', 0]])
+
+    const entries = await storage.loadEntries('s1')
+    expect(entries.map((r) => r.entry.formatted)).toEqual(['log 0', 'log 1', 'log 2'])
+  })
+
+  it('should trim a session to the last maxEntries records', async () => {
+    await storage.append(session('s1'), records('s1', 0, 3), 4)
+    await storage.append(session('s1'), records('s1', 3, 3), 4)
+
+    const entries = await storage.loadEntries('s1')
+    expect(entries.map((r) => r.seq)).toEqual([2, 3, 4, 5])
+  })
+
+  it('should clear entries and delete sessions', async () => {
+    await storage.append(session('s1'), records('s1', 0, 2), 100)
+    await storage.append(session('s2'), records('s2', 0, 2), 100)
+
+    await storage.clearEntries('s1')
+    expect(await storage.loadEntries('s1')).toEqual([])
+    expect((await storage.listSessions()).map((s) => s.id)).toEqual(['s1', 's2'])
+
+    await storage.deleteSession('s2')
+    expect((await storage.listSessions()).map((s) => s.id)).toEqual(['s1'])
+    expect(await storage.loadEntries('s2')).toEqual([])
+  })
+
+  it('should keep data across connections', async () => {
+    await storage.append(session('s1'), records('s1', 0, 1), 100)
+    storage.close()
+
+    const reopened = new IndexedDBStorage({ dbName: 'reactlog-test' })
+    expect(await reopened.loadEntries('s1')).toHaveLength(1)
+    reopened.close()
+  })
+
+  it('should back a LogStore across a simulated reload', async () => {
+    const before = createLogStore(100, { storage })
+    before.addLog(createMockLogEntry({ formatted: 'before reload' }))
+    await before.close()
+
+    const after = createLogStore(100, { storage: createIndexedDBStorage({ dbName: 'reactlog-test' }) })
+    await after.flush()
+
+    expect(after.filterLogs({ sessionId: before.sessionId }).map((e) => e.formatted)).toEqual(['before reload'])
+    await after.close()
+  })
+
+  it('should reject when the database cannot be opened', async () => {
+    idb.failOpen = new Error('blocked')
+
+    await expect(storage.listSessions()).rejects.toThrow('blocked')
+  })
+
+  it('should reject when IndexedDB is unavailable', async () => {
+    restore()
+    const unavailable = createIndexedDBStorage()
+
+    await expect(unavailable.listSessions()).rejects.toThrow('IndexedDB is not available')
+    unavailable.close()
+  })
+
+  it('should reject when a transaction fails', async () => {
+    await storage.listSessions()
+    idb.failNextTransaction(new Error('QuotaExceededError'))
+
+    await expect(storage.append(session('s1'), records('s1', 0, 1), 100)).rejects.toThrow('QuotaExceededError')
+  })
+})
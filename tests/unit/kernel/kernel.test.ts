@@ -1,7 +1,8 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import { Kernel, createKernel } from '../../../src/kernel/kernel'
 import { createPlugin } from '../../../src/plugin-factory'
-import type { MountEvent, Plugin } from '../../../src/types'
+import { createMemoryStorage } from '../../../src/kernel/memory-storage'
+import type { MountEvent, Plugin, UpdateEvent } from '../../../src/types'
 
 describe('Kernel', () => {
   let kernel: Kernel
@@ -133,6 +134,57 @@ describe('Kernel', () => {
     })
   })
 
+  describe('replay', () => {
+    const recorded = (id: string, timestamp: number) => ({
+      id,
+      timestamp,
+      componentId: 'test-id',
+      componentName: 'TestComponent',
+      event: { ...createMockEvent(), timestamp },
+      level: 'debug' as const,
+      formatted: 'MOUNT TestComponent',
+    })
+
+    it('should load the recorded session and stay read-only', () => {
+      const entries = [recorded('log-1', 1000), recorded('log-2', 2000), recorded('log-3', 3000)]
+      const onLog = vi.fn()
+      const replay = createKernel({ maxLogs: 2, replay: { startTime: 500, entries } })
+      replay.onLog(onLog)
+
+      replay.emit(createMockEvent())
+      replay.addLog(recorded('log-4', 4000))
+      replay.clearLogs()
+      replay.configure({ maxLogs: 1, logLevel: 'warn' })
+
+      expect(replay.isReplay()).toBe(true)
+      expect(kernel.isReplay()).toBe(false)
+      expect(replay.getLogs().entries.map((entry) => entry.id)).toEqual(['log-1', 'log-2', 'log-3'])
+      expect(replay.getLogs().startTime).toBe(500)
+      expect(replay.getSessions()[0]?.startTime).toBe(500)
+      expect(replay.query().where('componentName', 'eq', 'TestComponent').count()).toBe(3)
+      expect(onLog).not.toHaveBeenCalled()
+      expect(replay.getComponentTree().map((node) => node.componentId)).toEqual(['test-id'])
+    })
+  })
+
+  describe('component tree', () => {
+    it('should follow emitted lifecycle events until destroyed', () => {
+      kernel.emit({ ...createMockEvent(), componentId: 'child', parentId: 'test-id' })
+      kernel.emit(createMockEvent())
+      kernel.emit({ type: 'unmount', componentId: 'child', componentName: 'Child', timestamp: Date.now(), lifetime: 5 })
+
+      const [root] = kernel.getComponentTree()
+      expect(root?.componentId).toBe('test-id')
+      expect(root?.children.map((child) => [child.componentId, child.mounted])).toEqual([['child', false]])
+      expect(kernel.getComponent('child')?.parentId).toBe('test-id')
+
+      kernel.clearLogs()
+      expect(kernel.getComponentTree()).toHaveLength(1)
+      kernel.destroy()
+      expect(kernel.getComponent('test-id')).toBeNull()
+    })
+  })
+
   describe('configuration', () => {
     it('should enable/disable', () => {
       kernel.disable()
@@ -174,6 +226,221 @@ describe('Kernel', () => {
     })
   })
 
+  describe('middleware', () => {
+    it('should deliver enriched events to plugins, subscribers and the store', () => {
+      const onMount = vi.fn()
+      const handler = vi.fn()
+      kernel.register({
+        name: 'observer',
+        version: '1.0.0',
+        type: 'optional',
+        install: vi.fn(),
+        uninstall: vi.fn(),
+        hooks: { onMount },
+      })
+      kernel.on('mount', handler)
+      kernel.use({
+        name: 'session',
+        event: (event, next) => next({ ...event, meta: { sessionId: 's1' } }),
+      })
+
+      kernel.emit(createMockEvent())
+
+      const enriched = expect.objectContaining({ meta: { sessionId: 's1' } })
+      expect(onMount).toHaveBeenCalledWith(enriched)
+      expect(handler).toHaveBeenCalledWith(enriched)
+      expect(kernel.getLogs().entries[0]?.event).toEqual(enriched)
+    })
+
+    it('should let middleware drop events before plugins see them', () => {
+      const onMount = vi.fn()
+      kernel.register({
+        name: 'observer',
+        version: '1.0.0',
+        type: 'optional',
+        install: vi.fn(),
+        uninstall: vi.fn(),
+        hooks: { onMount },
+      })
+      kernel.use({ name: 'drop-all', event: () => {} })
+
+      kernel.emit(createMockEvent())
+
+      expect(onMount).not.toHaveBeenCalled()
+      expect(kernel.getLogs().entries).toHaveLength(0)
+    })
+
+    it('should run entry middleware before entries are stored', () => {
+      const onLog = vi.fn()
+      kernel.onLog(onLog)
+      kernel.use({
+        name: 'prefix',
+        entry: (entry, next) => next({ ...entry, formatted: `[app] ${entry.formatted}` }),
+      })
+
+      kernel.emit(createMockEvent())
+
+      expect(kernel.getLogs().entries[0]?.formatted).toBe('[app] MOUNT TestComponent')
+      expect(onLog).toHaveBeenCalledWith(expect.objectContaining({ formatted: '[app] MOUNT TestComponent' }))
+    })
+
+    it('should not run middleware while disabled and clear it on destroy', () => {
+      const middleware = vi.fn()
+      kernel.use({ name: 'spy', event: middleware })
+
+      kernel.disable()
+      kernel.emit(createMockEvent())
+      expect(middleware).not.toHaveBeenCalled()
+
+      kernel.destroy()
+      kernel.enable()
+      kernel.emit(createMockEvent())
+      expect(middleware).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('sampling', () => {
+    beforeEach(() => {
+      vi.useFakeTimers()
+    })
+
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    const createUpdateEvent = (): UpdateEvent => ({
+      type: 'update',
+      componentId: 'test-id',
+      componentName: 'TestComponent',
+      timestamp: Date.now(),
+      reason: 'parent',
+      renderCount: 2,
+      changedKeys: [],
+    })
+
+    it('should suppress sampled events before middleware and plugins', () => {
+      const onUpdate = vi.fn()
+      const middleware = vi.fn((event, next) => next(event))
+      kernel = createKernel({ sampling: { firstThenEvery: { first: 1, every: 0 }, summaryInterval: 0 } })
+      kernel.register(createPlugin({ name: 'observer', version: '1.0.0', hooks: { onUpdate } }))
+      kernel.use({ name: 'spy', event: middleware })
+
+      kernel.emit(createUpdateEvent())
+      kernel.emit(createUpdateEvent())
+      vi.runAllTimers()
+
+      expect(middleware).toHaveBeenCalledTimes(1)
+      expect(onUpdate).toHaveBeenCalledTimes(1)
+      expect(kernel.getLogs().entries).toHaveLength(1)
+    })
+
+    it('should never sample mount and unmount events', () => {
+      const onUnmount = vi.fn()
+      kernel = createKernel({
+        sampling: { rates: { mount: 0, unmount: 0 }, perComponent: { capacity: 0, refillPerSecond: 0 }, summaryInterval: 0 },
+      })
+      kernel.register(createPlugin({ name: 'observer', version: '1.0.0', hooks: { onUnmount } }))
+
+      kernel.emit(createMockEvent())
+      expect(kernel.getComponent('test-id')).not.toBeNull()
+
+      kernel.emit(createUpdateEvent())
+      kernel.emit({ ...createMockEvent(), type: 'unmount', lifetime: 10 })
+
+      expect(kernel.getLogs().entries.map((entry) => entry.event.type)).toEqual(['mount', 'unmount'])
+      expect(onUnmount).toHaveBeenCalledTimes(1)
+      expect(kernel.getComponent('test-id')?.mounted).toBe(false)
+    })
+
+    it('should log a summary of suppressed events once per interval', () => {
+      kernel = createKernel({ sampling: { burst: { threshold: 1, windowMs: 10000 }, summaryInterval: 1000 } })
+
+      for (let i = 0; i < 4; i++) kernel.emit(createUpdateEvent())
+      expect(kernel.getLogs().entries).toHaveLength(1)
+
+      vi.advanceTimersByTime(1000)
+
+      const entries = kernel.getLogs().entries
+      expect(entries).toHaveLength(2)
+      expect(entries[1]).toMatchObject({
+        componentId: 'reactlog-sampler',
+        level: 'info',
+        event: {
+          type: 'log',
+          message: 'Sampling suppressed 3 events from 1 components',
+          tags: ['sampling'],
+          data: { total: 3, components: [{ componentId: 'test-id', count: 3, byType: { update: 3 } }] },
+        },
+      })
+
+      vi.advanceTimersByTime(5000)
+      expect(kernel.getLogs().entries).toHaveLength(2)
+    })
+
+    it('should apply sampling options from configure', () => {
+      kernel.configure({ sampling: { rates: { update: 0 }, summaryInterval: 0 } })
+
+      kernel.emit(createUpdateEvent())
+
+      expect(kernel.getLogs().entries).toHaveLength(0)
+      expect(kernel.getOptions().sampling).toEqual({ rates: { update: 0 }, summaryInterval: 0 })
+    })
+
+    it('should cancel a pending summary on destroy', () => {
+      kernel = createKernel({ sampling: { rates: { update: 0 } } })
+      const handler = vi.fn()
+      kernel.onLog(handler)
+
+      kernel.emit(createUpdateEvent())
+      kernel.destroy()
+      vi.runAllTimers()
+
+      expect(handler).not.toHaveBeenCalled()
+    })
+
+    it('should skip the summary when the kernel was disabled', () => {
+      kernel = createKernel({ sampling: { rates: { update: 0 }, summaryInterval: 100 } })
+
+      kernel.emit(createUpdateEvent())
+      kernel.disable()
+      vi.advanceTimersByTime(100)
+      kernel.enable()
+
+      expect(kernel.getLogs().entries).toHaveLength(0)
+    })
+  })
+
+  describe('query', () => {
+    it('should query logged events through the store indexes', () => {
+      kernel.emit(createMockEvent())
+      kernel.emit({ ...createMockEvent(), type: 'unmount', lifetime: 10 })
+
+      const results = kernel.query().where('event.type', 'eq', 'unmount').run()
+
+      expect(results).toHaveLength(1)
+      expect(results[0]?.formatted).toBe('UNMOUNT TestComponent (lifetime: 10ms)')
+      expect(kernel.query('unknown-session').count()).toBe(0)
+    })
+  })
+
+  describe('persistence', () => {
+    it('should expose sessions and keep persisted entries after destroy', async () => {
+      const storage = createMemoryStorage()
+      kernel = createKernel({ persistence: { storage } })
+      kernel.emit(createMockEvent())
+      await kernel.flushLogs()
+
+      const [current] = kernel.getSessions()
+      kernel.destroy()
+
+      const reloaded = createKernel({ persistence: { storage } })
+      await reloaded.flushLogs()
+
+      expect(reloaded.getSessions()[1]?.id).toBe(current?.id)
+      expect(reloaded.filterLogs({ sessionId: current?.id })).toHaveLength(1)
+    })
+  })
+
   describe('destroy', () => {
     it('should clean up resources', () => {
       const handler = vi.fn()
@@ -400,5 +667,37 @@ describe('Kernel', () => {
       expect(logs.entries.length).toBe(1)
       expect(logs.entries[0].formatted).toContain('STATE')
     })
+
+    it('should format log event and use its level', () => {
+      kernel.emit({
+        type: 'log',
+        componentId: 'test-id',
+        componentName: 'LogComponent',
+        timestamp: Date.now(),
+        level: 'warn',
+        message: 'Cart is empty',
+      })
+
+      const logs = kernel.getLogs()
+      expect(logs.entries.length).toBe(1)
+      expect(logs.entries[0].level).toBe('warn')
+      expect(logs.entries[0].formatted).toBe('LOG LogComponent: Cart is empty')
+    })
+
+    it('should call onLogMessage hooks for log events', () => {
+      const onLogMessage = vi.fn()
+      kernel.register(createPlugin({ name: 'log-listener', version: '1.0.0', hooks: { onLogMessage } }))
+
+      kernel.emit({
+        type: 'log',
+        componentId: 'test-id',
+        componentName: 'LogComponent',
+        timestamp: Date.now(),
+        level: 'info',
+        message: 'hello',
+      })
+
+      expect(onLogMessage).toHaveBeenCalledWith(expect.objectContaining({ message: 'hello' }))
+    })
   })
 })
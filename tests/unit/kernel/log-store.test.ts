@@ -1,5 +1,6 @@
-import { describe, it, expect, beforeEach } from 'vitest'
+import { describe, it, expect, beforeEach, vi } from 'vitest'
 import { LogStore, createLogStore } from '../../../src/kernel/log-store'
+import { MemoryStorage, createMemoryStorage } from '../../../src/kernel/memory-storage'
 import type { LogEntry, MountEvent } from '../../../src/types'
 
 describe('LogStore', () => {
@@ -159,6 +160,22 @@ describe('LogStore', () => {
       })
       expect(filtered.length).toBe(3)
     })
+
+    it('should filter by case-insensitive search text', () => {
+      logStore.addLog(createMockLogEntry({ componentName: 'Cart', formatted: 'Checkout Failed' }))
+
+      expect(logStore.filterLogs({ search: 'componentb' })).toHaveLength(1)
+      expect(logStore.filterLogs({ search: 'checkout failed' })).toHaveLength(1)
+      expect(logStore.filterLogs({ search: 'mount' })).toHaveLength(4)
+    })
+
+    it('should filter by query conditions', () => {
+      const filtered = logStore.filterLogs({
+        level: ['debug', 'error'],
+        where: { field: 'componentName', op: 'eq', value: 'ComponentA' },
+      })
+      expect(filtered.map((log) => log.level)).toEqual(['debug', 'error'])
+    })
   })
 
   describe('setMaxLogs', () => {
@@ -253,5 +270,203 @@ describe('LogStore', () => {
       expect(store.byType.has('mount')).toBe(false)
       expect(store.byType.has('unmount')).toBe(true)
     })
+
+    it('should keep indexes in sync with entries under sustained eviction', () => {
+      const store = createLogStore(50)
+
+      for (let i = 0; i < 1000; i++) {
+        store.addLog(createMockLogEntry({ id: `log-${i}`, componentId: `comp-${i % 7}` }))
+      }
+
+      const ids = store.entries.map((e) => e.id)
+      expect(ids[0]).toBe('log-950')
+      expect(ids[49]).toBe('log-999')
+      expect(store.getLogsByType('mount').map((e) => e.id)).toEqual(ids)
+      expect(store.getLogsByComponent('comp-3').map((e) => e.id)).toEqual(
+        ids.filter((_, i) => (950 + i) % 7 === 3)
+      )
+      expect([...store.byComponent.values()].reduce((sum, logs) => sum + logs.length, 0)).toBe(50)
+      expect(store.getLogsByComponent('missing')).toEqual([])
+      expect(store.getLogsByType('error')).toEqual([])
+    })
+
+    it('should keep indexes in sync when maxLogs shrinks', () => {
+      const store = createLogStore(10)
+      for (let i = 0; i < 10; i++) {
+        store.addLog(createMockLogEntry({ id: `log-${i}`, componentId: i < 5 ? 'old' : 'new' }))
+      }
+
+      store.setMaxLogs(4)
+      store.setMaxLogs(20)
+      store.addLog(createMockLogEntry({ id: 'log-10', componentId: 'new' }))
+
+      expect(store.entries.map((e) => e.id)).toEqual(['log-6', 'log-7', 'log-8', 'log-9', 'log-10'])
+      expect(store.byComponent.has('old')).toBe(false)
+      expect(store.getLogsByComponent('new')).toHaveLength(5)
+    })
+  })
+
+  describe('snapshots', () => {
+    it('should reuse snapshots until the store changes', () => {
+      logStore.addLog(createMockLogEntry())
+
+      const entries = logStore.entries
+      const byComponent = logStore.byComponent
+      expect(logStore.entries).toBe(entries)
+      expect(logStore.byComponent).toBe(byComponent)
+      expect(logStore.byType).toBe(logStore.byType)
+
+      logStore.addLog(createMockLogEntry())
+      expect(logStore.entries).not.toBe(entries)
+      expect(entries).toHaveLength(1)
+      expect(logStore.entries).toHaveLength(2)
+    })
+
+    it('should read entries from getLogs when accessed', () => {
+      const logs = logStore.getLogs()
+      logStore.addLog(createMockLogEntry({ componentId: 'comp-1' }))
+
+      expect(logs.entries).toHaveLength(1)
+      expect(logs.byComponent.get('comp-1')).toHaveLength(1)
+      expect(logs.byType.get('mount')).toHaveLength(1)
+    })
+  })
+
+  describe('persistence', () => {
+    let storage: MemoryStorage
+
+    beforeEach(() => {
+      storage = createMemoryStorage()
+    })
+
+    it('should write entries through in one batch per microtask', async () => {
+      const append = vi.spyOn(storage, 'append')
+      const store = createLogStore(100, { storage })
+
+      store.addLog(createMockLogEntry({ formatted: 'first' }))
+      store.addLog(createMockLogEntry({ formatted: 'second' }))
+      await store.flush()
+
+      expect(append).toHaveBeenCalledTimes(1)
+      const records = await storage.loadEntries(store.sessionId)
+      expect(records.map((r) => [r.seq, r.entry.formatted])).toEqual([[0, 'first'], [1, 'second']])
+    })
+
+    it('should load previous sessions for filterLogs after a reload', async () => {
+      const before = createLogStore(100, { storage })
+      before.addLog(createMockLogEntry({ componentName: 'Checkout', formatted: 'before crash' }))
+      before.addLog(createMockLogEntry({ componentName: 'Cart' }))
+      await before.flush()
+
+      const after = createLogStore(100, { storage })
+      await after.flush()
+
+      const sessions = after.getSessions()
+      expect(sessions.map((s) => s.id)).toEqual([after.sessionId, before.sessionId])
+      expect(sessions[1]).toMatchObject({ entryCount: 2, startTime: before.startTime })
+
+      const previous = after.filterLogs({ sessionId: before.sessionId, componentName: 'Checkout' })
+      expect(previous.map((e) => e.formatted)).toEqual(['before crash'])
+      expect(after.filterLogs({ sessionId: after.sessionId })).toEqual([])
+      expect(after.filterLogs({ sessionId: 'unknown' })).toEqual([])
+    })
+
+    it('should delete sessions beyond maxSessions', async () => {
+      const ids: string[] = []
+      for (let i = 0; i < 3; i++) {
+        vi.spyOn(Date, 'now').mockReturnValue(1000 + i)
+        const store = createLogStore(100, { storage, maxSessions: 2 })
+        store.addLog(createMockLogEntry())
+        await store.flush()
+        ids.push(store.sessionId)
+        vi.restoreAllMocks()
+      }
+
+      const stored = await storage.listSessions()
+      expect(stored.map((s) => s.id).sort()).toEqual([ids[1], ids[2]].sort())
+      expect(await storage.loadEntries(ids[0] as string)).toEqual([])
+    })
+
+    it('should keep only maxLogs persisted entries per session', async () => {
+      const store = createLogStore(2, { storage })
+      for (let i = 0; i < 4; i++) store.addLog(createMockLogEntry({ formatted: `log ${i}` }))
+      await store.flush()
+
+      const records = await storage.loadEntries(store.sessionId)
+      expect(records.map((r) => r.entry.formatted)).toEqual(['log 2', 'log 3'])
+      expect(store.getSessions()[0]?.entryCount).toBe(4)
+    })
+
+    it('should serialize entries before writing them', async () => {
+      const store = createLogStore(100, { storage })
+      store.addLog(
+        createMockLogEntry({
+          event: {
+            type: 'error',
+            componentId: 'test-id',
+            componentName: 'TestComponent',
+            timestamp: 1,
+            error: new Error('boom'),
+            errorInfo: { componentStack: '' },
+            recovered: false,
+          },
+        })
+      )
+      await store.flush()
+
+      const [record] = await storage.loadEntries(store.sessionId)
+      expect(record?.entry.event).toMatchObject({ error: { name: 'Error', message: 'boom' } })
+    })
+
+    it('should clear persisted entries of the current session on clearLogs', async () => {
+      const store = createLogStore(100, { storage })
+      store.addLog(createMockLogEntry())
+      store.clearLogs()
+      store.addLog(createMockLogEntry({ formatted: 'after clear' }))
+      await store.flush()
+
+      const records = await storage.loadEntries(store.sessionId)
+      expect(records.map((r) => r.entry.formatted)).toEqual(['after clear'])
+    })
+
+    it('should keep persisted entries when closed', async () => {
+      const close = vi.spyOn(storage, 'close')
+      const store = createLogStore(100, { storage })
+      store.addLog(createMockLogEntry())
+
+      await store.close()
+      store.clearLogs()
+      await store.close()
+
+      expect(close).toHaveBeenCalledTimes(1)
+      expect(await storage.loadEntries(store.sessionId)).toHaveLength(1)
+    })
+
+    it('should log storage errors and keep entries in memory', async () => {
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+      vi.spyOn(storage, 'listSessions').mockRejectedValue(new Error('blocked'))
+      vi.spyOn(storage, 'append').mockRejectedValue(new Error('quota'))
+      const store = createLogStore(100, { storage })
+
+      store.addLog(createMockLogEntry())
+      await store.flush()
+
+      expect(store.getLogCount()).toBe(1)
+      expect(errorSpy).toHaveBeenCalledWith('[ReactLog] Log storage error:', expect.objectContaining({ message: 'blocked' }))
+      expect(errorSpy).toHaveBeenCalledWith('[ReactLog] Log storage error:', expect.objectContaining({ message: 'quota' }))
+      errorSpy.mockRestore()
+    })
+
+    it('should track the current session without storage', async () => {
+      const store = createLogStore(100)
+      store.addLog(createMockLogEntry({ timestamp: 5000 }))
+      await store.flush()
+      await store.close()
+
+      expect(store.getSessions()).toEqual([
+        expect.objectContaining({ id: store.sessionId, entryCount: 1, lastActivity: 5000 }),
+      ])
+      expect(store.getLogs().sessionId).toBe(store.sessionId)
+    })
   })
 })
@@ -0,0 +1,40 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { MemoryStorage, createMemoryStorage } from '../../../src/kernel/memory-storage'
+import { createMockLogEntry } from '../../fixtures/mock-data'
+import type { LogSession } from '../../../src/types'
+
+describe('MemoryStorage', () => {
+  let storage: MemoryStorage
+  const session: LogSession = { id: 's1', startTime: 1000, lastActivity: 1000, entryCount: 0 }
+
+  beforeEach(() => {
+    storage = createMemoryStorage()
+  })
+
+  it('should append records and trim to maxEntries', async () => {
+    const records = [0, 1, 2].map((seq) => ({ sessionId: 's1', seq, entry: createMockLogEntry() }))
+
+    await storage.append(session, records, 2)
+
+    expect((await storage.loadEntries('s1')).map((r) => r.seq)).toEqual([1, 2])
+    expect(await storage.listSessions()).toEqual([session])
+  })
+
+  it('should store nothing when maxEntries is 0', async () => {
+    await storage.append(session, [{ sessionId: 's1', seq: 0, entry: createMockLogEntry() }], 0)
+
+    expect(await storage.loadEntries('s1')).toEqual([])
+  })
+
+  it('should clear entries and delete sessions', async () => {
+    await storage.append(session, [{ sessionId: 's1', seq: 0, entry: createMockLogEntry() }], 10)
+
+    await storage.clearEntries('s1')
+    expect(await storage.loadEntries('s1')).toEqual([])
+    expect(await storage.listSessions()).toHaveLength(1)
+
+    await storage.deleteSession('s1')
+    storage.close()
+    expect(await storage.listSessions()).toEqual([])
+  })
+})
@@ -0,0 +1,185 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { MiddlewarePipeline, createMiddlewarePipeline } from '../../../src/kernel/middleware-pipeline'
+import type { Kernel, KernelEvent, KernelMiddleware, MountEvent } from '../../../src/types'
+
+describe('MiddlewarePipeline', () => {
+  let pipeline: MiddlewarePipeline
+  let sink: ReturnType<typeof vi.fn>
+
+  const event: MountEvent = {
+    type: 'mount',
+    componentId: 'comp-1',
+    componentName: 'TestComponent',
+    timestamp: 1000,
+    props: {},
+    initialState: {},
+  }
+
+  beforeEach(() => {
+    pipeline = createMiddlewarePipeline()
+    sink = vi.fn()
+  })
+
+  it('should pass values straight to the sink without middleware', () => {
+    pipeline.run('event', event, sink)
+    expect(sink).toHaveBeenCalledWith(event)
+  })
+
+  it('should run middleware in registration order', () => {
+    const order: string[] = []
+    pipeline.use({ name: 'first', event: (e, next) => { order.push('first'); next(e) } })
+    pipeline.use({ name: 'second', event: (e, next) => { order.push('second'); next(e) } })
+
+    pipeline.run('event', event, sink)
+
+    expect(order).toEqual(['first', 'second'])
+    expect(pipeline.list()).toEqual(['first', 'second'])
+  })
+
+  it('should let middleware enrich, drop and fan out values', () => {
+    pipeline.use({
+      name: 'enrich',
+      event: (e, next) => next({ ...e, meta: { userId: 'u1' } }),
+    })
+    pipeline.use({
+      name: 'fan-out',
+      event: (e, next) => {
+        next(e)
+        next({ ...e, componentName: 'Copy' })
+      },
+    })
+    pipeline.use({
+      name: 'drop-copies',
+      event: (e, next) => {
+        if (e.componentName !== 'Copy') next(e)
+      },
+    })
+
+    pipeline.run('event', event, sink)
+
+    expect(sink).toHaveBeenCalledTimes(1)
+    expect(sink).toHaveBeenCalledWith({ ...event, meta: { userId: 'u1' } })
+  })
+
+  it('should only run middleware that handles the stage', () => {
+    const entryHandler = vi.fn((value: unknown, next: (v: unknown) => void) => next(value))
+    pipeline.use({ name: 'entries-only', entry: entryHandler } as KernelMiddleware)
+
+    pipeline.run('event', event, sink)
+
+    expect(entryHandler).not.toHaveBeenCalled()
+    expect(sink).toHaveBeenCalledWith(event)
+  })
+
+  it('should pass the kernel to middleware', () => {
+    const kernel = {} as Kernel
+    const handler = vi.fn()
+    pipeline.setKernel(kernel)
+    pipeline.use({ name: 'inspect', event: handler })
+
+    pipeline.run('event', event, sink)
+
+    expect(handler).toHaveBeenCalledWith(event, expect.any(Function), kernel)
+  })
+
+  it('should skip a throwing middleware and continue with its input', () => {
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+    pipeline.use({ name: 'broken', event: () => { throw new Error('boom') } })
+
+    pipeline.run('event', event, sink)
+
+    expect(consoleSpy).toHaveBeenCalledWith('[ReactLog] Middleware "broken" event error:', expect.any(Error))
+    expect(sink).toHaveBeenCalledWith(event)
+    consoleSpy.mockRestore()
+  })
+
+  it('should drop the value when a fail-closed middleware throws before next', () => {
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+    pipeline.use({ name: 'scrub', failClosed: true, event: () => { throw new Error('boom') } })
+
+    pipeline.run('event', event, sink)
+
+    expect(consoleSpy).toHaveBeenCalledWith('[ReactLog] Middleware "scrub" event error:', expect.any(Error))
+    expect(sink).not.toHaveBeenCalled()
+    consoleSpy.mockRestore()
+  })
+
+  it('should keep what a fail-closed middleware forwarded before throwing', () => {
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+    const scrubbed = { ...event, props: {} }
+    pipeline.use({
+      name: 'scrub',
+      failClosed: true,
+      event: (_e, next) => {
+        next(scrubbed)
+        throw new Error('after next')
+      },
+    })
+
+    pipeline.run('event', event, sink)
+
+    expect(sink).toHaveBeenCalledTimes(1)
+    expect(sink).toHaveBeenCalledWith(scrubbed)
+    consoleSpy.mockRestore()
+  })
+
+  it('should not forward twice when middleware throws after calling next', () => {
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+    pipeline.use({
+      name: 'late-throw',
+      event: (e, next) => {
+        next(e)
+        throw new Error('after next')
+      },
+    })
+
+    pipeline.run('event', event, sink)
+
+    expect(sink).toHaveBeenCalledTimes(1)
+    consoleSpy.mockRestore()
+  })
+
+  it('should not blame a middleware for errors after it called next', () => {
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+    const after = vi.fn()
+    sink.mockImplementationOnce(() => { throw new Error('sink failed') })
+    pipeline.use({
+      name: 'fan-out',
+      event: (e, next) => {
+        next(e)
+        next(e)
+        after()
+      },
+    })
+    pipeline.use({ name: 'broken', event: () => { throw new Error('boom') } })
+
+    pipeline.run('event', event, sink)
+
+    expect(sink).toHaveBeenCalledTimes(2)
+    expect(after).toHaveBeenCalledTimes(1)
+    expect(consoleSpy.mock.calls.map(([message]) => message)).toEqual([
+      '[ReactLog] Middleware "broken" event error:',
+      '[ReactLog] Middleware pipeline event delivery error:',
+      '[ReactLog] Middleware "broken" event error:',
+    ])
+    consoleSpy.mockRestore()
+  })
+
+  it('should reject duplicate names', () => {
+    pipeline.use({ name: 'tagger' })
+    expect(() => pipeline.use({ name: 'tagger' })).toThrow('Middleware "tagger" is already registered')
+  })
+
+  it('should remove middleware through the returned function and clear', () => {
+    const handler = vi.fn((e: KernelEvent, next: (e: KernelEvent) => void) => next(e))
+    const remove = pipeline.use({ name: 'removable', event: handler })
+    remove()
+
+    pipeline.run('event', event, sink)
+    expect(handler).not.toHaveBeenCalled()
+
+    pipeline.use({ name: 'other' })
+    pipeline.clear()
+    expect(pipeline.list()).toEqual([])
+  })
+})
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest'
+import { parseLogQuery, suggestLogQuery } from '../../../src/kernel/query-language'
+
+describe('parseLogQuery', () => {
+  it('should parse every filter key into a LogFilter', () => {
+    const { filter, errors } = parseLogQuery(
+      'component:Cart* type:state-change level>=warn since:30s prop:items limit:20',
+      100_000
+    )
+
+    expect(errors).toEqual([])
+    expect(filter.componentName).toEqual(/^(?:Cart.*)$/i)
+    expect(filter.eventType).toEqual(['state-change'])
+    expect(filter.level).toEqual(['warn', 'error'])
+    expect(filter.timeRange).toEqual({ start: 70_000, end: Infinity })
+    expect(filter.where).toEqual({ field: 'event.changes.key', op: 'in', value: ['items'] })
+    expect(filter.limit).toBe(20)
+    expect(filter.search).toBeUndefined()
+  })
+
+  it('should return an empty filter for empty input', () => {
+    expect(parseLogQuery('   ')).toEqual({ filter: {}, errors: [] })
+  })
+
+  it('should match component globs case-insensitively and escape other characters', () => {
+    const { filter } = parseLogQuery('component:cart?tem,Nav.Bar component:List')
+    const pattern = filter.componentName as RegExp
+
+    expect(pattern.test('CartItem')).toBe(true)
+    expect(pattern.test('CartItems')).toBe(false)
+    expect(pattern.test('Nav.Bar')).toBe(true)
+    expect(pattern.test('NavxBar')).toBe(false)
+    expect(pattern.test('List')).toBe(true)
+  })
+
+  it('should merge repeated keys', () => {
+    const { filter } = parseLogQuery('type:mount,unmount type:error prop:a prop:b,c')
+
+    expect(filter.eventType).toEqual(['mount', 'unmount', 'error'])
+    expect(filter.where).toEqual({ field: 'event.changes.key', op: 'in', value: ['a', 'b', 'c'] })
+  })
+
+  it('should expand level comparisons in priority order', () => {
+    expect(parseLogQuery('level:error,debug').filter.level).toEqual(['debug', 'error'])
+    expect(parseLogQuery('level>info').filter.level).toEqual(['warn', 'error'])
+    expect(parseLogQuery('level<=info').filter.level).toEqual(['debug', 'info'])
+    expect(parseLogQuery('level<warn').filter.level).toEqual(['debug', 'info'])
+    expect(parseLogQuery('LEVEL:warn').filter.level).toEqual(['warn'])
+  })
+
+  it('should parse every duration unit', () => {
+    const start = (since: string) => parseLogQuery(`since:${since}`, 1e9).filter.timeRange?.start
+
+    expect(start('500ms')).toBe(1e9 - 500)
+    expect(start('1.5s')).toBe(1e9 - 1500)
+    expect(start('2m')).toBe(1e9 - 120_000)
+    expect(start('1h')).toBe(1e9 - 3_600_000)
+    expect(start('1d')).toBe(1e9 - 86_400_000)
+  })
+
+  it('should join free text and quoted phrases into search', () => {
+    const { filter } = parseLogQuery('"checkout failed" level:error retry')
+
+    expect(filter.search).toBe('checkout failed retry')
+    expect(filter.level).toEqual(['error'])
+  })
+
+  it('should report invalid terms with their position and keep the valid ones', () => {
+    const input = 'colour:red type:mount,bogus level:loud level>=warn,error since:soon limit:0 component: prop>x level:info'
+    const { filter, errors } = parseLogQuery(input)
+
+    expect(errors.map((e) => e.message)).toEqual([
+      'Unknown filter "colour"',
+      'Unknown event type "bogus"',
+      'Unknown level "loud"',
+      '"level>=" takes a single level',
+      'Invalid duration "soon", use e.g. 500ms, 30s, 5m, 1h or 1d',
+      'Invalid limit "0", expected a positive integer',
+      'Missing value for "component"',
+      '"prop" does not support ">"',
+    ])
+    expect(input.slice(errors[1]?.start, errors[1]?.end)).toBe('type:mount,bogus')
+    expect(filter).toEqual({ level: ['info'] })
+  })
+})
+
+describe('suggestLogQuery', () => {
+  it('should suggest filter keys for a partial key', () => {
+    expect(suggestLogQuery('le').map((s) => s.label)).toEqual(['level:', 'level>=', 'level>', 'level<=', 'level<'])
+    expect(suggestLogQuery('Cart s')).toEqual([
+      { label: 'since:', value: 'Cart since:' },
+    ])
+    expect(suggestLogQuery('')).toHaveLength(8)
+  })
+
+  it('should suggest known component names', () => {
+    const names = ['CartItem', 'Cart', 'Nav', 'Cart']
+
+    expect(suggestLogQuery('level:warn component:ca', names)).toEqual([
+      { label: 'component:Cart', value: 'level:warn component:Cart ' },
+      { label: 'component:CartItem', value: 'level:warn component:CartItem ' },
+    ])
+    expect(suggestLogQuery('component:Nav,C', names).map((s) => s.value)).toEqual([
+      'component:Nav,Cart ',
+      'component:Nav,CartItem ',
+    ])
+  })
+
+  it('should suggest event types, levels and durations', () => {
+    expect(suggestLogQuery('type:effect').map((s) => s.label)).toEqual(['type:effect-run', 'type:effect-cleanup'])
+    expect(suggestLogQuery('level>=w')).toEqual([{ label: 'level>=warn', value: 'level>=warn ' }])
+    expect(suggestLogQuery('since:')).toHaveLength(4)
+    expect(suggestLogQuery('prop:')).toEqual([])
+    expect(suggestLogQuery('type:mount')).toEqual([])
+  })
+})
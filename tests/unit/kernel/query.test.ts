@@ -0,0 +1,239 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { LogStore, createLogStore } from '../../../src/kernel/log-store'
+import { compileCondition, createLogQuery, getFieldValues } from '../../../src/kernel/query'
+import {
+  createMockLogEntry,
+  createMockMountEvent,
+  createMockPropsChangeEvent,
+  createMockUnmountEvent,
+} from '../../fixtures/mock-data'
+import type { KernelEvent, LogEntry, LogLevel } from '../../../src/types'
+
+function entryFor(event: KernelEvent, level: LogLevel = 'debug', timestamp = event.timestamp): LogEntry {
+  return createMockLogEntry({
+    componentId: event.componentId,
+    componentName: event.componentName,
+    event,
+    level,
+    timestamp,
+    formatted: `${event.type} ${event.componentName}`,
+  })
+}
+
+describe('LogQuery', () => {
+  let store: LogStore
+
+  beforeEach(() => {
+    store = createLogStore(100)
+    store.addLog(entryFor(createMockMountEvent({ componentId: 'list', componentName: 'List' }), 'debug', 1))
+    store.addLog(
+      entryFor(
+        createMockPropsChangeEvent({
+          componentId: 'list',
+          componentName: 'List',
+          changes: [{ key: 'items', prevValue: [], nextValue: [1], isDeepEqual: false }],
+        }),
+        'debug',
+        2
+      )
+    )
+    store.addLog(entryFor(createMockMountEvent({ componentId: 'row-1', componentName: 'Row' }), 'debug', 3))
+    store.addLog(
+      entryFor(
+        createMockPropsChangeEvent({
+          componentId: 'row-1',
+          componentName: 'Row',
+          changes: [{ key: 'selected', prevValue: false, nextValue: true, isDeepEqual: false }],
+        }),
+        'warn',
+        4
+      )
+    )
+    store.addLog(entryFor(createMockUnmountEvent({ componentId: 'row-1', componentName: 'Row' }), 'info', 5))
+  })
+
+  const names = (entries: LogEntry[]) => entries.map((e) => e.formatted)
+
+  it('should return every entry in insertion order without conditions', () => {
+    expect(store.query().count()).toBe(5)
+    expect(store.query().first()?.formatted).toBe('mount List')
+  })
+
+  it('should match payload fields through arrays', () => {
+    const results = store
+      .query()
+      .where('event.type', 'eq', 'props-change')
+      .and('event.changes.key', 'eq', 'items')
+      .run()
+
+    expect(names(results)).toEqual(['props-change List'])
+  })
+
+  it('should combine nested and, or and not conditions', () => {
+    const results = store
+      .query()
+      .where({
+        or: [
+          { and: [{ field: 'componentName', op: 'eq', value: 'Row' }, { field: 'level', op: 'in', value: ['warn', 'info'] }] },
+          { field: 'event.changes.key', op: 'eq', value: 'items' },
+        ],
+      })
+      .not({ field: 'event.type', op: 'eq', value: 'unmount' })
+      .run()
+
+    expect(names(results)).toEqual(['props-change List', 'props-change Row'])
+  })
+
+  it('should widen the query with or', () => {
+    const results = store.query().where('componentId', 'eq', 'list').or('level', 'eq', 'info').run()
+
+    expect(names(results)).toEqual(['mount List', 'props-change List', 'unmount Row'])
+    expect(store.query().or('level', 'eq', 'warn').count()).toBe(1)
+  })
+
+  it('should support every operator', () => {
+    const count = (field: string, op: Parameters<ReturnType<LogStore['query']>['where']>[1], value?: unknown) =>
+      store.query().where(field, op, value).count()
+
+    expect(count('componentName', 'neq', 'Row')).toBe(2)
+    expect(count('timestamp', 'gt', 3)).toBe(2)
+    expect(count('timestamp', 'gte', 3)).toBe(3)
+    expect(count('timestamp', 'lt', 3)).toBe(2)
+    expect(count('timestamp', 'lte', 3)).toBe(3)
+    expect(count('componentName', 'gt', 'Row')).toBe(0)
+    expect(count('event.props', 'gt', 1)).toBe(0)
+    expect(count('event.props', 'gte', 1)).toBe(0)
+    expect(count('event.props', 'lt', 1)).toBe(0)
+    expect(count('event.props', 'lte', 1)).toBe(0)
+    expect(count('formatted', 'contains', 'change')).toBe(2)
+    expect(count('formatted', 'matches', /^mount/g)).toBe(2)
+    expect(count('formatted', 'matches', 'Row$')).toBe(3)
+    expect(count('event.lifetime', 'exists')).toBe(1)
+    expect(count('event.lifetime', 'exists', false)).toBe(4)
+    expect(count('event.type', 'in', 'unmount')).toBe(1)
+    expect(count('event.changes.0.key', 'eq', 'selected')).toBe(1)
+  })
+
+  it('should accept predicate functions', () => {
+    const results = store.query().where((entry) => entry.timestamp % 2 === 0).run()
+
+    expect(names(results)).toEqual(['props-change List', 'props-change Row'])
+  })
+
+  it('should narrow the scan with the component and type indexes', () => {
+    const byType = store.getLogsByType('props-change')
+    const predicate = vi.fn(() => true)
+
+    const results = store.query().where('event.type', 'eq', 'props-change').and(predicate).run()
+
+    expect(results).toEqual(byType)
+    expect(predicate).toHaveBeenCalledTimes(2)
+
+    predicate.mockClear()
+    store.query().where('componentId', 'in', ['list', 'row-1', 'missing']).and('event.type', 'eq', 'unmount').and(predicate).run()
+    expect(predicate).toHaveBeenCalledTimes(1)
+  })
+
+  it('should merge index lists in insertion order', () => {
+    const results = store.query().where('event.componentId', 'in', ['row-1', 'list']).run()
+
+    expect(names(results)).toEqual(names(store.entries))
+  })
+
+  it('should order by fields with stable ties', () => {
+    const results = store.query().orderBy('componentName').orderBy('timestamp', 'desc').run()
+
+    expect(results.map((e) => e.timestamp)).toEqual([2, 1, 5, 4, 3])
+
+    const byMissingField = store.query().orderBy('event.lifetime', 'desc').run()
+    expect(byMissingField.map((e) => e.timestamp)).toEqual([4, 3, 2, 1, 5])
+  })
+
+  it('should apply offset and limit', () => {
+    const results = store.query().orderBy('timestamp', 'desc').offset(1).limit(2).run()
+
+    expect(results.map((e) => e.timestamp)).toEqual([4, 3])
+    expect(store.query().offset(4).run()).toHaveLength(1)
+    expect(store.query().where('componentName', 'eq', 'None').first()).toBeNull()
+  })
+
+  it('should page with cursors that survive new entries', () => {
+    const query = () => store.query().orderBy('timestamp', 'desc')
+
+    const first = query().page(2)
+    expect(first.entries.map((e) => e.timestamp)).toEqual([5, 4])
+
+    // A newer entry must not shift the next page
+    store.addLog(entryFor(createMockMountEvent({ componentId: 'row-2', componentName: 'Row' }), 'debug', 6))
+
+    const second = query().page(2, first.nextCursor)
+    expect(second.entries.map((e) => e.timestamp)).toEqual([3, 2])
+
+    const third = query().page(2, second.nextCursor)
+    expect(third.entries.map((e) => e.timestamp)).toEqual([1])
+    expect(third.nextCursor).toBeNull()
+
+    expect(store.query().page(10, JSON.stringify([99])).entries).toEqual([])
+  })
+
+  it('should count every match regardless of cursor, offset and limit', () => {
+    const { nextCursor } = store.query().page(2)
+    const total = store.query().count()
+
+    expect(total).toBe(5)
+    expect(store.query().offset(1).limit(2).count()).toBe(total)
+    expect(store.query().after(nextCursor).count()).toBe(total)
+  })
+
+  it('should start run and first after the cursor, then apply offset and limit', () => {
+    const query = () => store.query().orderBy('timestamp', 'desc')
+    const { nextCursor } = query().page(2)
+
+    expect(query().offset(1).first()?.timestamp).toBe(4)
+    expect(query().offset(9).first()).toBeNull()
+    expect(query().after(nextCursor).first()?.timestamp).toBe(3)
+    expect(query().after(nextCursor).offset(1).first()?.timestamp).toBe(2)
+    expect(query().after(nextCursor).offset(1).limit(1).run().map((e) => e.timestamp)).toEqual([2])
+    expect(query().after(nextCursor).page(10).entries.map((e) => e.timestamp)).toEqual([3, 2, 1])
+    expect(query().after(null).first()?.timestamp).toBe(5)
+  })
+
+  it('should reject cursors that did not come from a page of the same query', () => {
+    const { nextCursor } = store.query().orderBy('timestamp', 'desc').page(2)
+
+    expect(() => store.query().page(2, 'not json')).toThrow(
+      'Invalid page cursor "not json": pass the nextCursor of a page from the same query'
+    )
+    expect(() => store.query().page(2, '{"a":1}')).toThrow('Invalid page cursor')
+    expect(() => store.query().page(2, '["x"]')).toThrow('Invalid page cursor')
+    expect(() => store.query().page(2, nextCursor)).toThrow('Invalid page cursor')
+    expect(() => store.query().orderBy('timestamp', 'desc').page(2, nextCursor)).not.toThrow()
+  })
+
+  it('should query a source without indexes', () => {
+    const entries = store.entries.slice(0, 2)
+    const query = createLogQuery({ entries, ordinal: (entry) => entries.indexOf(entry) })
+
+    expect(query.where('event.type', 'eq', 'mount').count()).toBe(1)
+  })
+})
+
+describe('getFieldValues', () => {
+  it('should fan out over arrays', () => {
+    const value = { changes: [{ key: 'a' }, { key: 'b' }], tags: ['x'] }
+
+    expect(getFieldValues(value, 'changes.key')).toEqual(['a', 'b'])
+    expect(getFieldValues(value, 'tags')).toEqual([['x'], 'x'])
+    expect(getFieldValues(value, 'missing.key')).toEqual([])
+    expect(getFieldValues(null, 'key')).toEqual([])
+  })
+})
+
+describe('compileCondition', () => {
+  it('should compile condition trees', () => {
+    const entry = createMockLogEntry({ level: 'warn' })
+    const predicate = compileCondition({ not: { or: [{ field: 'level', op: 'eq', value: 'error' }] } })
+
+    expect(predicate(entry)).toBe(true)
+  })
+})
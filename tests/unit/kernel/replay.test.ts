@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest'
+import { readExportBundle } from '../../../src/kernel/replay'
+import {
+  createMockEffectCleanupEvent,
+  createMockEffectRunEvent,
+  createMockLogEntry,
+  createMockPropsChangeEvent,
+  createMockStateChangeEvent,
+  createMockUnmountEvent,
+  createMockUpdateEvent,
+} from '../../fixtures/mock-data'
+import { toSerializable } from '../../../src/utils/serialize'
+import type { KernelEvent } from '../../../src/types'
+
+describe('readExportBundle', () => {
+  const first = createMockLogEntry({ id: 'log-1', timestamp: 1700000001000 })
+  const second = createMockLogEntry({ id: 'log-2', timestamp: 1700000002000 })
+
+  it('should read fileExporter bundles, sorting entries by time', () => {
+    const session = readExportBundle({
+      metadata: {
+        exportedAt: '2023-11-14T22:20:00.000Z',
+        sessionStart: new Date(1700000000000).toISOString(),
+        sessionDuration: 3000,
+        totalLogs: 2,
+        componentCount: 1,
+      },
+      logs: [second, first],
+      summary: { byComponent: {}, byEventType: {} as never, byLevel: {} },
+    })
+
+    expect(session.startTime).toBe(1700000000000)
+    expect(session.entries.map((entry) => entry.id)).toEqual(['log-1', 'log-2'])
+  })
+
+  it('should read exportLogs() JSON text', () => {
+    const json = JSON.stringify({ entries: [first], startTime: 1700000000500, lastEntry: first })
+
+    expect(readExportBundle(json)).toEqual({ startTime: 1700000000500, entries: [first] })
+  })
+
+  it('should start at the first entry when the bundle has no start time', () => {
+    expect(readExportBundle(JSON.stringify({ entries: [first, second], startTime: 0 })).startTime).toBe(first.timestamp)
+    expect(readExportBundle('{"entries":[]}').startTime).toBe(0)
+  })
+
+  it('should name the first field that does not match the export format', () => {
+    const entry = (overrides: Record<string, unknown>) => JSON.stringify({ logs: [{ ...first, ...overrides }] })
+
+    expect(() => readExportBundle('{')).toThrow('Invalid ReactLog export: not valid JSON')
+    expect(() => readExportBundle('[]')).toThrow('expected an object')
+    expect(() => readExportBundle('{"logs":{}}')).toThrow('missing logs array')
+    expect(() => readExportBundle('{"logs":[null]}')).toThrow('logs[0] must be an object')
+    expect(() => readExportBundle(entry({ componentName: 7 }))).toThrow('logs[0].componentName must be a string')
+    expect(() => readExportBundle(entry({ timestamp: '2023' }))).toThrow('logs[0].timestamp must be a number')
+    expect(() => readExportBundle(entry({ level: 'trace' }))).toThrow('logs[0].level must be one of debug, info, warn, error')
+    expect(() => readExportBundle(entry({ event: { type: 'paint' } }))).toThrow('logs[0].event.type must be a known event type')
+  })
+
+  describe('event payloads', () => {
+    const base = { componentId: 'test-id', componentName: 'TestComponent', timestamp: 1700000001000 }
+    const withEvent = (event: Record<string, unknown>) => JSON.stringify({ logs: [{ ...first, event }] })
+
+    it('should read every event type as exported', () => {
+      const events: KernelEvent[] = [
+        { ...first.event, initialContext: { Theme: 'dark' }, parentId: 'root' } as KernelEvent,
+        createMockUnmountEvent(),
+        createMockUpdateEvent({ changedKeys: ['props.label'] }),
+        createMockPropsChangeEvent(),
+        createMockStateChangeEvent({ prevState: undefined, updateType: 'function' }),
+        createMockEffectRunEvent(),
+        createMockEffectCleanupEvent(),
+        { ...base, type: 'context-change', contextName: 'Theme', prevValue: 'light', nextValue: 'dark' },
+        { ...base, type: 'error', error: new Error('Boom'), errorInfo: { componentStack: '' }, recovered: false },
+        { ...base, type: 'log', level: 'info', message: 'Saved', tags: ['cart'], meta: { traceId: 'a' } },
+      ]
+      const logs = events.map((event, i) => ({ ...first, id: `log-${i}`, event }))
+
+      expect(readExportBundle(JSON.stringify(toSerializable({ logs }))).entries).toHaveLength(events.length)
+    })
+
+    it('should name the first event field that does not match its type', () => {
+      expect(() => readExportBundle(withEvent({ ...first.event, componentId: 1 })))
+        .toThrow('logs[0].event.componentId must be a string')
+      expect(() => readExportBundle(withEvent({ ...first.event, meta: 'x' })))
+        .toThrow('logs[0].event.meta must be an object')
+      expect(() => readExportBundle(withEvent({ ...first.event, props: null })))
+        .toThrow('logs[0].event.props must be an object')
+      expect(() => readExportBundle(withEvent({ ...first.event, initialContext: [] })))
+        .toThrow('logs[0].event.initialContext must be an object')
+      expect(() => readExportBundle(withEvent({ ...createMockUpdateEvent(), reason: 'timer' })))
+        .toThrow('logs[0].event.reason must be one of props, state, context, parent, force')
+      expect(() => readExportBundle(withEvent({ ...createMockUpdateEvent(), renderCount: null })))
+        .toThrow('logs[0].event.renderCount must be a number')
+      expect(() => readExportBundle(withEvent({ ...createMockEffectRunEvent(), dependencies: {} })))
+        .toThrow('logs[0].event.dependencies must be an array')
+      expect(() => readExportBundle(withEvent({ ...base, type: 'error', error: {}, errorInfo: {}, recovered: 'no' })))
+        .toThrow('logs[0].event.recovered must be a boolean')
+      expect(() => readExportBundle(withEvent({ ...createMockPropsChangeEvent(), changes: [null] })))
+        .toThrow('logs[0].event.changes[0] must be an object')
+      expect(() => readExportBundle(withEvent({ ...createMockPropsChangeEvent(), changes: [{ key: 'a' }] })))
+        .toThrow('logs[0].event.changes[0].isDeepEqual must be a boolean')
+    })
+  })
+})
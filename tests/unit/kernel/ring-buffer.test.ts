@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest'
+import { RingBuffer, createRingBuffer } from '../../../src/kernel/ring-buffer'
+
+describe('RingBuffer', () => {
+  it('should evict the oldest item when full', () => {
+    const buffer = createRingBuffer<number>(3)
+
+    expect([1, 2, 3].map((n) => buffer.push(n))).toEqual([undefined, undefined, undefined])
+    expect(buffer.push(4)).toBe(1)
+    expect(buffer.push(5)).toBe(2)
+
+    expect(buffer.toArray()).toEqual([3, 4, 5])
+    expect(buffer.length).toBe(3)
+    expect(buffer.getCapacity()).toBe(3)
+  })
+
+  it('should shift and index across the wrap point', () => {
+    const buffer = new RingBuffer<number>(4)
+    for (let i = 0; i < 6; i++) buffer.push(i)
+
+    expect(buffer.get(0)).toBe(2)
+    expect(buffer.get(3)).toBe(5)
+    expect(buffer.get(4)).toBeUndefined()
+    expect(buffer.get(-1)).toBeUndefined()
+
+    expect(buffer.shift()).toBe(2)
+    expect([...buffer]).toEqual([3, 4, 5])
+
+    buffer.clear()
+    expect(buffer.shift()).toBeUndefined()
+    expect(buffer.toArray()).toEqual([])
+  })
+
+  it('should grow without bound by default', () => {
+    const buffer = createRingBuffer<number>()
+    for (let i = 0; i < 100; i++) buffer.push(i)
+
+    // Wrap, then grow while wrapped
+    for (let i = 0; i < 10; i++) buffer.shift()
+    for (let i = 100; i < 200; i++) buffer.push(i)
+
+    expect(buffer.length).toBe(190)
+    expect(buffer.get(0)).toBe(10)
+    expect(buffer.get(189)).toBe(199)
+  })
+
+  it('should hand back pushes to a zero-capacity buffer', () => {
+    const buffer = new RingBuffer<string>(0)
+
+    expect(buffer.push('a')).toBe('a')
+    expect(buffer.length).toBe(0)
+  })
+
+  it('should evict the oldest items when the capacity shrinks', () => {
+    const buffer = new RingBuffer<number>(5)
+    for (let i = 0; i < 7; i++) buffer.push(i)
+
+    expect(buffer.setCapacity(2)).toEqual([2, 3, 4])
+    expect(buffer.toArray()).toEqual([5, 6])
+    expect(buffer.push(7)).toBe(5)
+
+    expect(buffer.setCapacity(10)).toEqual([])
+    buffer.push(8)
+    expect(buffer.toArray()).toEqual([6, 7, 8])
+  })
+})
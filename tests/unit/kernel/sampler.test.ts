@@ -0,0 +1,172 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { EventSampler, createEventSampler } from '../../../src/kernel/sampler'
+import type { KernelEvent } from '../../../src/types'
+
+function updateEvent(componentId = 'comp-1', componentName = 'Row'): KernelEvent {
+  return {
+    type: 'update',
+    componentId,
+    componentName,
+    timestamp: Date.now(),
+    reason: 'state',
+    renderCount: 1,
+  }
+}
+
+function errorEvent(componentId = 'comp-1'): KernelEvent {
+  return {
+    type: 'error',
+    componentId,
+    componentName: 'Row',
+    timestamp: Date.now(),
+    error: new Error('boom'),
+    errorInfo: { componentStack: '' },
+    recovered: false,
+  }
+}
+
+function keptCount(sampler: EventSampler, events: KernelEvent[]): number {
+  return events.filter((event) => sampler.shouldKeep(event)).length
+}
+
+describe('EventSampler', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(0)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  it('should keep everything without policies', () => {
+    const sampler = createEventSampler()
+
+    expect(sampler.isActive()).toBe(false)
+    expect(keptCount(sampler, Array.from({ length: 50 }, () => updateEvent()))).toBe(50)
+    expect(sampler.takeSummary()).toBeNull()
+  })
+
+  it('should sample by event type rate', () => {
+    const sampler = createEventSampler({ rates: { update: 0.5 } })
+    const random = vi.spyOn(Math, 'random')
+    random.mockReturnValueOnce(0.2).mockReturnValueOnce(0.7)
+
+    expect(sampler.shouldKeep(updateEvent())).toBe(true)
+    expect(sampler.shouldKeep(updateEvent())).toBe(false)
+
+    // Types without a rate are always kept
+    expect(sampler.shouldKeep({ ...updateEvent(), type: 'unmount', lifetime: 1 })).toBe(true)
+  })
+
+  it('should keep the first N events then every Nth per component and type', () => {
+    const sampler = createEventSampler({ firstThenEvery: { first: 2, every: 3 } })
+    const results = Array.from({ length: 8 }, () => sampler.shouldKeep(updateEvent()))
+
+    expect(results).toEqual([true, true, false, false, true, false, false, true])
+
+    // Counters are independent per component
+    expect(sampler.shouldKeep(updateEvent('comp-2'))).toBe(true)
+  })
+
+  it('should suppress everything past first when every is 0', () => {
+    const sampler = createEventSampler({ firstThenEvery: { first: 1, every: 0 } })
+
+    expect(keptCount(sampler, Array.from({ length: 5 }, () => updateEvent()))).toBe(1)
+  })
+
+  it('should suppress bursts within a window', () => {
+    const sampler = createEventSampler({ burst: { threshold: 3, windowMs: 100 } })
+
+    expect(keptCount(sampler, Array.from({ length: 5 }, () => updateEvent()))).toBe(3)
+
+    vi.advanceTimersByTime(100)
+    expect(sampler.shouldKeep(updateEvent())).toBe(true)
+  })
+
+  it('should rate limit components with a token bucket', () => {
+    const sampler = createEventSampler({ perComponent: { capacity: 2, refillPerSecond: 4 } })
+
+    expect(keptCount(sampler, Array.from({ length: 4 }, () => updateEvent()))).toBe(2)
+    expect(sampler.shouldKeep(updateEvent('comp-2'))).toBe(true)
+
+    vi.advanceTimersByTime(250)
+    expect(sampler.shouldKeep(updateEvent())).toBe(true)
+    expect(sampler.shouldKeep(updateEvent())).toBe(false)
+  })
+
+  it('should never sample error events', () => {
+    const sampler = createEventSampler({ rates: { error: 0 }, perComponent: { capacity: 0, refillPerSecond: 0 } })
+
+    expect(keptCount(sampler, [errorEvent(), errorEvent()])).toBe(2)
+  })
+
+  it('should never sample mount and unmount events', () => {
+    const sampler = createEventSampler({
+      rates: { mount: 0, unmount: 0 },
+      firstThenEvery: { first: 0, every: 0 },
+      perComponent: { capacity: 0, refillPerSecond: 0 },
+    })
+    const mount: KernelEvent = {
+      type: 'mount',
+      componentId: 'comp-1',
+      componentName: 'Row',
+      timestamp: 0,
+      props: {},
+      initialState: {},
+    }
+
+    expect(sampler.shouldKeep(mount)).toBe(true)
+    expect(sampler.shouldKeep(updateEvent())).toBe(false)
+    expect(sampler.shouldKeep({ ...updateEvent(), type: 'unmount', lifetime: 1 })).toBe(true)
+    expect(sampler.takeSummary()?.components).toEqual([
+      { componentId: 'comp-1', componentName: 'Row', count: 1, byType: { update: 1 } },
+    ])
+  })
+
+  it('should summarize suppressed events per component', () => {
+    const sampler = createEventSampler({ firstThenEvery: { first: 1, every: 0 } })
+    for (let i = 0; i < 4; i++) sampler.shouldKeep(updateEvent('comp-1', 'Row'))
+    vi.advanceTimersByTime(10)
+    for (let i = 0; i < 2; i++) sampler.shouldKeep(updateEvent('comp-2', 'Cell'))
+    vi.advanceTimersByTime(10)
+
+    const summary = sampler.takeSummary()
+
+    expect(summary).toEqual({
+      total: 4,
+      since: 0,
+      until: 20,
+      components: [
+        { componentId: 'comp-1', componentName: 'Row', count: 3, byType: { update: 3 } },
+        { componentId: 'comp-2', componentName: 'Cell', count: 1, byType: { update: 1 } },
+      ],
+    })
+    expect(sampler.takeSummary()).toBeNull()
+  })
+
+  it('should forget component state on unmount', () => {
+    const sampler = createEventSampler({ firstThenEvery: { first: 1, every: 0 } })
+    sampler.shouldKeep(updateEvent())
+    expect(sampler.shouldKeep(updateEvent())).toBe(false)
+
+    sampler.shouldKeep({ ...updateEvent(), type: 'unmount', lifetime: 10 })
+
+    expect(sampler.shouldKeep(updateEvent())).toBe(true)
+  })
+
+  it('should reconfigure and reset', () => {
+    const sampler = new EventSampler({ burst: { threshold: 1, windowMs: 1000 } })
+    sampler.shouldKeep(updateEvent())
+    sampler.shouldKeep(updateEvent())
+    expect(sampler.getSummaryInterval()).toBe(5000)
+
+    sampler.configure({ summaryInterval: 100 })
+    expect(sampler.isActive()).toBe(false)
+    expect(sampler.getSummaryInterval()).toBe(100)
+
+    sampler.reset()
+    expect(sampler.takeSummary()).toBeNull()
+  })
+})
@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { buildSnapshot } from '../../../src/kernel/snapshot'
+import { createKernel } from '../../../src/kernel/kernel'
+import type { Kernel } from '../../../src/types'
+import {
+  createMockMountEvent,
+  createMockPropsChangeEvent,
+  createMockStateChangeEvent,
+  createMockUnmountEvent,
+  createMockUpdateEvent,
+} from '../../fixtures/mock-data'
+
+describe('buildSnapshot', () => {
+  let kernel: Kernel
+
+  const cart = { componentId: 'cart', componentName: 'Cart' }
+  const nav = { componentId: 'nav', componentName: 'Nav' }
+
+  function snapshotAt(timestamp: number) {
+    return buildSnapshot(kernel.getLogs().entries, timestamp)
+  }
+
+  beforeEach(() => {
+    kernel = createKernel()
+    kernel.emit(createMockMountEvent({ ...cart, timestamp: 1000, props: { items: 1, coupon: 'A' }, initialState: { 0: false } }))
+    kernel.emit(createMockMountEvent({ ...nav, timestamp: 1100, props: {}, initialState: {}, initialContext: { Theme: 'light' }, parentId: 'cart' }))
+    kernel.emit(createMockPropsChangeEvent({
+      ...cart,
+      timestamp: 2000,
+      changes: [
+        { key: 'items', prevValue: 1, nextValue: 2, isDeepEqual: false },
+        { key: 'coupon', prevValue: 'A', nextValue: undefined, isDeepEqual: false },
+      ],
+    }))
+    kernel.emit(createMockUpdateEvent({ ...cart, timestamp: 2000, renderCount: 2 }))
+    kernel.emit(createMockStateChangeEvent({ ...cart, timestamp: 3000, hookIndex: 0, nextState: true }))
+    kernel.emit({ type: 'context-change', ...nav, timestamp: 3500, contextName: 'Theme', prevValue: 'light', nextValue: 'dark' })
+    kernel.emit(createMockUnmountEvent({ ...nav, timestamp: 4000, lifetime: 2900 }))
+  })
+
+  it('should fold props, state and context up to the chosen instant', () => {
+    expect(snapshotAt(1500).components).toEqual([
+      { ...cart, parentId: null, mountedAt: 1000, props: { items: 1, coupon: 'A' }, state: { 0: false }, context: {}, renderCount: 1, lastEventAt: 1000 },
+      { ...nav, parentId: 'cart', mountedAt: 1100, props: {}, state: {}, context: { Theme: 'light' }, renderCount: 1, lastEventAt: 1100 },
+    ])
+
+    const [cartAt, navAt] = snapshotAt(3500).components
+    expect(cartAt).toMatchObject({ props: { items: 2 }, state: { 0: true }, renderCount: 2, lastEventAt: 3000 })
+    expect(navAt?.context).toEqual({ Theme: 'dark' })
+  })
+
+  it('should keep the hook indexes of initial state with gaps', () => {
+    const list = { componentId: 'list', componentName: 'List' }
+    kernel.emit(createMockMountEvent({ ...list, timestamp: 5000, props: {}, initialState: { 0: 'a', 2: 'b' } }))
+    kernel.emit(createMockStateChangeEvent({ ...list, timestamp: 5100, hookIndex: 2, prevState: 'b', nextState: 'c' }))
+
+    expect(snapshotAt(5000).components.find((c) => c.componentId === 'list')?.state).toEqual({ 0: 'a', 2: 'b' })
+    expect(snapshotAt(5100).components.find((c) => c.componentId === 'list')?.state).toEqual({ 0: 'a', 2: 'c' })
+  })
+
+  it('should drop unmounted components and keep remounts in mount order', () => {
+    expect(snapshotAt(4000).components.map((c) => c.componentId)).toEqual(['cart'])
+
+    kernel.emit(createMockMountEvent({ ...nav, timestamp: 5000, props: {}, initialState: {} }))
+    kernel.emit(createMockMountEvent({ ...cart, timestamp: 5100, props: {}, initialState: {} }))
+    expect(snapshotAt(6000)).toMatchObject({ timestamp: 6000, components: [{ componentId: 'nav' }, { componentId: 'cart', renderCount: 1 }] })
+    expect(snapshotAt(999).components).toEqual([])
+  })
+
+  it('should start components whose mount was evicted from their first remaining entry', () => {
+    kernel.configure({ maxLogs: 3 })
+    kernel.emit(createMockUpdateEvent({ ...cart, timestamp: 6000, renderCount: 7 }))
+    kernel.emit({ type: 'log', componentId: 'global', componentName: 'Global', timestamp: 6100, level: 'info', message: 'saved' })
+    kernel.emit({ type: 'log', ...cart, timestamp: 6200, level: 'info', message: 'checkout' })
+
+    expect(snapshotAt(7000).components).toEqual([
+      { ...cart, parentId: null, mountedAt: null, props: {}, state: {}, context: {}, renderCount: 7, lastEventAt: 6200 },
+    ])
+  })
+})
@@ -403,6 +403,29 @@ describe('consoleOutput plugin', () => {
       })
     })
 
+    describe('log event', () => {
+      it('should output log event with details as a group', () => {
+        const entry: LogEntry = {
+          id: '1',
+          timestamp: Date.now(),
+          componentId: 'comp-1',
+          componentName: 'TestComponent',
+          level: 'info',
+          event: {
+            type: 'log',
+            componentId: 'comp-1',
+            componentName: 'TestComponent',
+            timestamp: Date.now(),
+            level: 'info',
+            message: 'Loaded',
+            data: { items: 3 },
+          },
+        }
+        plugin.hooks?.onLog?.(entry)
+        expect(consoleSpy.groupCollapsed).toHaveBeenCalled()
+      })
+    })
+
     describe('filtering', () => {
       it('should filter by component name string', () => {
         plugin.api.configure({
@@ -10,6 +10,7 @@ import {
   formatEffectCleanupEvent,
   formatContextChangeEvent,
   formatErrorEvent,
+  formatLogEvent,
   formatTimestampForConsole,
 } from '../../../../src/plugins/core/console-output/formatters'
 import type {
@@ -22,6 +23,7 @@ import type {
   EffectCleanupEvent,
   ContextChangeEvent,
   ErrorEvent,
+  LogEvent,
 } from '../../../../src/types'
 
 describe('CONSOLE_STYLES', () => {
@@ -139,6 +141,21 @@ describe('formatUpdateEvent', () => {
     expect(result.message).toContain('render #5')
     expect(result.args).toHaveLength(3)
   })
+
+  it('should list changed keys after the reason', () => {
+    const event: UpdateEvent = {
+      type: 'update',
+      componentId: 'comp-1',
+      componentName: 'TestComponent',
+      timestamp: Date.now(),
+      renderCount: 2,
+      reason: 'props',
+      changedKeys: ['props.label', 'props.count'],
+    }
+
+    const result = formatUpdateEvent(event)
+    expect(result.message).toContain('props: props.label, props.count')
+  })
 })
 
 describe('formatPropsChangeEvent', () => {
@@ -177,6 +194,23 @@ describe('formatPropsChangeEvent', () => {
     expect(result.message).toContain('1 change)')
     expect(result.message).not.toContain('changes')
   })
+
+  it('should mark new references with equal values', () => {
+    const event: PropsChangeEvent = {
+      type: 'props-change',
+      componentId: 'comp-1',
+      componentName: 'TestComponent',
+      timestamp: Date.now(),
+      changes: [
+        { key: 'style', prevValue: {}, nextValue: {}, isDeepEqual: true },
+        { key: 'foo', prevValue: 'bar', nextValue: 'baz', isDeepEqual: false },
+      ],
+    }
+
+    const result = formatPropsChangeEvent(event)
+    expect(result.details[0].message).toContain('(new reference, same value)')
+    expect(result.details[1].message).not.toContain('new reference')
+  })
 })
 
 describe('formatStateChangeEvent', () => {
@@ -315,6 +349,33 @@ describe('formatErrorEvent', () => {
   })
 })
 
+describe('formatLogEvent', () => {
+  const baseEvent: LogEvent = {
+    type: 'log',
+    componentId: 'test-id',
+    componentName: 'Cart',
+    timestamp: Date.now(),
+    level: 'warn',
+    message: 'Cart is empty',
+  }
+
+  it('should format message with level and level style', () => {
+    const result = formatLogEvent(baseEvent)
+    expect(result.message).toContain('WARN')
+    expect(result.message).toContain('Cart')
+    expect(result.message).toContain('Cart is empty')
+    expect(result.args[0]).toBe(CONSOLE_STYLES.log.warn)
+    expect(result.details).toEqual([])
+  })
+
+  it('should include data and tags as details', () => {
+    const result = formatLogEvent({ ...baseEvent, data: { items: 0 }, tags: ['cart', 'checkout'] })
+    expect(result.details).toHaveLength(2)
+    expect(result.details[0]?.message).toContain('items: 0')
+    expect(result.details[1]?.message).toContain('cart, checkout')
+  })
+})
+
 describe('formatTimestampForConsole', () => {
   it('should format timestamp correctly', () => {
     // Create a specific date: 2024-01-15 10:30:45.123
@@ -1,6 +1,8 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import { fileExporter } from '../../../src/plugins/optional/file-exporter'
-import type { Kernel, LogEntry } from '../../../src/types'
+import { renderTimer } from '../../../src/plugins/optional/render-timer'
+import { renderChain } from '../../../src/plugins/optional/render-chain'
+import type { Kernel, LogEntry, Plugin } from '../../../src/types'
 
 describe('fileExporter plugin', () => {
   let mockKernel: Kernel
@@ -209,3 +211,130 @@ describe('fileExporter plugin', () => {
     expect(data.metadata.totalLogs).toBe(0)
   })
 })
+
+describe('fileExporter trace export', () => {
+  const start = 1700000000000
+  let timer: ReturnType<typeof renderTimer>
+  let chain: ReturnType<typeof renderChain>
+  let kernel: Kernel
+
+  function entry(id: string, componentId: string, componentName: string, event: LogEntry['event']): LogEntry {
+    return { id, timestamp: event.timestamp, componentId, componentName, event, level: 'info', formatted: `${event.type} ${componentName}` }
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(start + 5000)
+
+    const entries = [
+      entry('log-1', 'list', 'List', { type: 'mount', componentId: 'list', componentName: 'List', timestamp: start + 100, props: {} }),
+      entry('log-2', 'row', 'Row', { type: 'mount', componentId: 'row', componentName: 'Row', timestamp: start + 110, props: {} }),
+      entry('log-3', 'list', 'List', {
+        type: 'state-change',
+        componentId: 'list',
+        componentName: 'List',
+        timestamp: start + 1000,
+        hookIndex: 0,
+        hookType: 'useState',
+        prevState: 1,
+        nextState: 2,
+      }),
+      entry('log-4', 'row', 'Row', { type: 'unmount', componentId: 'row', componentName: 'Row', timestamp: start + 2000, lifetime: 1890 }),
+      entry('log-5', 'list', 'List', { type: 'update', componentId: 'list', componentName: 'List', timestamp: start + 2000, reason: 'state-change', renderCount: 2 }),
+    ]
+
+    timer = renderTimer({ mode: 'profiler' })
+    chain = renderChain()
+    const plugins: Record<string, Plugin> = { 'render-timer': timer, 'render-chain': chain }
+    kernel = {
+      getLogs: vi.fn().mockReturnValue({ entries, byComponent: new Map(), startTime: start, sessionId: 'session-1' }),
+      getPlugin: vi.fn((name: string) => plugins[name]),
+    } as unknown as Kernel
+    timer.install(kernel)
+    chain.install(kernel)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  it('should describe threads, lifetimes and changes in microseconds', () => {
+    const plugin = fileExporter({ format: 'trace' })
+    plugin.install(kernel)
+
+    const { traceEvents, displayTimeUnit, otherData } = plugin.api.getTraceData()
+    expect(displayTimeUnit).toBe('ms')
+    expect(otherData.sessionId).toBe('session-1')
+
+    expect(traceEvents.filter((e) => e.ph === 'M' && e.name === 'thread_name')).toEqual([
+      { name: 'thread_name', ph: 'M', ts: 0, pid: 1, tid: 1, args: { name: 'List' } },
+      { name: 'thread_name', ph: 'M', ts: 0, pid: 1, tid: 2, args: { name: 'Row' } },
+    ])
+    expect(traceEvents.filter((e) => e.cat === 'lifetime')).toEqual([
+      { name: 'Row', cat: 'lifetime', ph: 'X', ts: 110000, dur: 1890000, pid: 1, tid: 2 },
+      { name: 'List', cat: 'lifetime', ph: 'X', ts: 100000, dur: 4900000, pid: 1, tid: 1, args: { mounted: true } },
+    ])
+    expect(traceEvents.filter((e) => e.ph === 'i')).toEqual([
+      {
+        name: 'state-change',
+        cat: 'change',
+        ph: 'i',
+        s: 't',
+        ts: 1000000,
+        pid: 1,
+        tid: 1,
+        args: { entryId: 'log-3', summary: 'state-change List' },
+      },
+    ])
+  })
+
+  it('should add render slices and render-chain flows when those plugins are registered', () => {
+    const plugin = fileExporter()
+    plugin.install(kernel)
+    timer.api.recordProfile({ componentId: 'list', componentName: 'List', duration: 4, timestamp: start + 1010, source: 'profiler', phase: 'update' })
+    timer.api.recordProfile({ componentId: 'cell', componentName: 'Cell', duration: 2.5, timestamp: start + 1020, source: 'estimate' })
+    chain.hooks?.onMount?.({ componentId: 'list', componentName: 'List', timestamp: start + 100, props: {} })
+    chain.hooks?.onMount?.({ componentId: 'row', componentName: 'Row', timestamp: start + 110, props: {} })
+
+    const { traceEvents } = plugin.api.getTraceData()
+    expect(traceEvents.filter((e) => e.cat === 'render')).toEqual([
+      { name: 'render', cat: 'render', ph: 'X', ts: 1006000, dur: 4000, pid: 1, tid: 1, args: { phase: 'update', source: 'profiler', baseDuration: undefined } },
+      { name: 'render', cat: 'render', ph: 'X', ts: 1020000, dur: 2500, pid: 1, tid: 3, args: { phase: undefined, source: 'estimate', baseDuration: undefined } },
+    ])
+    expect(traceEvents.filter((e) => e.cat === 'render-chain')).toEqual([
+      { name: 'triggered', cat: 'render-chain', ph: 's', id: 1, ts: 100000, pid: 1, tid: 1 },
+      { name: 'triggered', cat: 'render-chain', ph: 'f', bp: 'e', id: 1, ts: 110000, pid: 1, tid: 2 },
+    ])
+    expect(traceEvents.filter((e) => e.name === 'thread_sort_index').map((e) => [e.tid, e.args])).toEqual([
+      [1, { sort_index: 0 }],
+      [2, { sort_index: 1 }],
+    ])
+  })
+
+  it('should download the trace as JSON', () => {
+    const link = { href: '', download: '', click: vi.fn() }
+    global.URL.createObjectURL = vi.fn().mockReturnValue('blob:trace')
+    global.URL.revokeObjectURL = vi.fn()
+    vi.spyOn(document, 'createElement').mockReturnValue(link as unknown as HTMLElement)
+    vi.spyOn(document.body, 'appendChild').mockImplementation(() => link as unknown as HTMLElement)
+    vi.spyOn(document.body, 'removeChild').mockImplementation(() => link as unknown as HTMLElement)
+
+    const plugin = fileExporter({ prettyPrint: false })
+    plugin.install(kernel)
+    plugin.api.exportTrace()
+    expect(link.download).toBe(`reactlog-trace-${start + 5000}.json`)
+
+    const pretty = fileExporter()
+    pretty.install(kernel)
+    pretty.api.exportTrace('app.trace.json')
+    expect(link.download).toBe('app.trace.json')
+    expect(link.click).toHaveBeenCalledTimes(2)
+  })
+
+  it('should return an empty trace without kernel', () => {
+    const { traceEvents, otherData } = fileExporter().api.getTraceData()
+    expect(traceEvents.map((e) => e.name)).toEqual(['process_name'])
+    expect(otherData.sessionId).toBe('')
+  })
+})
@@ -0,0 +1,333 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { otelExporter, parseTraceparent } from '../../../src/plugins/optional/otel-exporter'
+import { renderTimer } from '../../../src/plugins/optional/render-timer'
+import { createKernel } from '../../../src/kernel/kernel'
+import type { ErrorEvent, Kernel } from '../../../src/types'
+import { createMockUnmountEvent } from '../../fixtures/mock-data'
+
+interface Attribute {
+  key: string
+  value: Record<string, unknown>
+}
+
+function attributes(list: Attribute[]): Record<string, unknown> {
+  return Object.fromEntries(list.map(({ key, value }) => [key, Object.values(value)[0]]))
+}
+
+describe('otelExporter plugin', () => {
+  const traceId = '4bf92f3577b34da6a3ce929d0e0e4736'
+  const parentId = '00f067aa0ba902b7'
+  let kernel: Kernel
+  let mockFetch: ReturnType<typeof vi.fn>
+
+  function requests(path: string): Record<string, unknown>[] {
+    return (mockFetch.mock.calls as [string, RequestInit][])
+      .filter(([url]) => url === `http://collector:4318${path}`)
+      .map(([, init]) => JSON.parse(init.body as string) as Record<string, unknown>)
+  }
+
+  function spans(call = 0): Record<string, unknown>[] {
+    const body = requests('/v1/traces')[call] as { resourceSpans: { scopeSpans: { spans: Record<string, unknown>[] }[] }[] }
+    return body.resourceSpans[0]?.scopeSpans[0]?.spans ?? []
+  }
+
+  function logRecords(call = 0): Record<string, unknown>[] {
+    const body = requests('/v1/logs')[call] as { resourceLogs: { scopeLogs: { logRecords: Record<string, unknown>[] }[] }[] }
+    return body.resourceLogs[0]?.scopeLogs[0]?.logRecords ?? []
+  }
+
+  function createErrorEvent(): ErrorEvent {
+    const error = new TypeError('items is undefined')
+    return {
+      type: 'error',
+      componentId: 'cart-1',
+      componentName: 'Cart',
+      timestamp: 2000,
+      error,
+      errorInfo: { componentStack: '\n    at Cart' },
+      recovered: false,
+    }
+  }
+
+  beforeEach(() => {
+    kernel = createKernel()
+    mockFetch = vi.fn().mockResolvedValue({ ok: true, status: 200 })
+    global.fetch = mockFetch
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('should export log records and lifetime spans under the trace context', async () => {
+    const plugin = otelExporter({
+      endpoint: 'http://collector:4318/',
+      serviceName: 'storefront',
+      resourceAttributes: { 'deployment.environment': 'staging' },
+      traceContext: { traceId, spanId: parentId },
+    })
+    kernel.register(plugin)
+    kernel.use({ name: 'route', event: (event, next) => next({ ...event, meta: { route: '/cart' } }) })
+
+    kernel.emit(createMockUnmountEvent({ componentId: 'cart-1', componentName: 'Cart', timestamp: 5000, lifetime: 1500.5 }))
+    await plugin.api.flush()
+
+    const logs = requests('/v1/logs')[0] as { resourceLogs: { resource: { attributes: Attribute[] } }[] }
+    expect(attributes(logs.resourceLogs[0]?.resource.attributes ?? [])).toEqual({
+      'service.name': 'storefront',
+      'telemetry.sdk.name': '@oxog/reactlog',
+      'telemetry.sdk.version': expect.any(String),
+      'telemetry.sdk.language': 'webjs',
+      'session.id': kernel.getLogs().sessionId,
+      'deployment.environment': 'staging',
+    })
+
+    const [record] = logRecords()
+    expect(record).toMatchObject({
+      timeUnixNano: '5000000000',
+      severityNumber: 9,
+      severityText: 'INFO',
+      traceId,
+      spanId: parentId,
+    })
+    expect(attributes(record?.attributes as Attribute[])).toMatchObject({
+      'react.component.name': 'Cart',
+      'reactlog.event.type': 'unmount',
+      'reactlog.meta.route': '/cart',
+    })
+
+    const [span] = spans()
+    expect(span).toMatchObject({
+      traceId,
+      parentSpanId: parentId,
+      name: 'lifetime Cart',
+      startTimeUnixNano: '3499500000',
+      endTimeUnixNano: '5000000000',
+      spanId: expect.stringMatching(/^[0-9a-f]{16}$/),
+    })
+  })
+
+  it('should export errors as spans with an exception event', async () => {
+    const plugin = otelExporter({ endpoint: 'http://collector:4318' })
+    kernel.register(plugin)
+
+    kernel.emit(createErrorEvent())
+    await plugin.api.flush()
+
+    const [span] = spans()
+    expect(span).toMatchObject({ name: 'error Cart', status: { code: 2, message: 'items is undefined' } })
+    expect(span).not.toHaveProperty('parentSpanId')
+    const [exception] = span?.events as { name: string; attributes: Attribute[] }[]
+    expect(exception?.name).toBe('exception')
+    expect(attributes(exception?.attributes ?? [])).toMatchObject({
+      'exception.type': 'TypeError',
+      'exception.message': 'items is undefined',
+      'react.component_stack': '\n    at Cart',
+    })
+
+    const [record] = logRecords()
+    expect(record).toMatchObject({ severityText: 'ERROR', severityNumber: 17 })
+    expect(attributes(record?.attributes as Attribute[])).toHaveProperty('exception.type', 'TypeError')
+  })
+
+  it('should export renders from render-timer with the next batch and keep them on failure', async () => {
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 503 })
+    const plugin = otelExporter({ endpoint: 'http://collector:4318', retryAttempts: 2, retryDelay: 0 })
+    const timer = renderTimer({ mode: 'profiler' })
+    kernel.register(plugin)
+    kernel.register(timer)
+
+    kernel.emit(createMockUnmountEvent({ timestamp: 1000 }))
+    timer.api.recordProfile({ componentId: 'list', componentName: 'List', duration: 4, timestamp: 1010, source: 'profiler', phase: 'update' })
+    timer.api.recordProfile({ componentId: 'row', componentName: 'Row', duration: 2, timestamp: 1020, source: 'estimate' })
+    await plugin.api.flush()
+
+    const [lifetime, list, row] = spans()
+    expect(lifetime?.name).toBe('lifetime TestComponent')
+    expect(list).toMatchObject({ name: 'render List', startTimeUnixNano: '1006000000', endTimeUnixNano: '1010000000' })
+    expect(attributes(list?.attributes as Attribute[])).toMatchObject({ 'react.render.phase': 'update', 'react.render.source': 'profiler' })
+    expect(row).toMatchObject({ name: 'render Row', startTimeUnixNano: '1020000000', endTimeUnixNano: '1022000000' })
+
+    kernel.emit(createMockUnmountEvent({ timestamp: 2000 }))
+    await plugin.api.flush()
+    expect(spans(1)).toHaveLength(1)
+  })
+
+  it('should retry only the failed signal and repeat span ids', async () => {
+    mockFetch.mockResolvedValueOnce({ ok: true, status: 200 }).mockResolvedValueOnce({ ok: false, status: 503 })
+    const plugin = otelExporter({ endpoint: 'http://collector:4318', retryAttempts: 2, retryDelay: 0 })
+    const timer = renderTimer({ mode: 'profiler' })
+    kernel.register(plugin)
+    kernel.register(timer)
+
+    kernel.emit(createMockUnmountEvent())
+    timer.api.recordProfile({ componentId: 'list', componentName: 'List', duration: 4, timestamp: 1010 })
+    await plugin.api.flush()
+
+    expect(requests('/v1/logs')).toHaveLength(1)
+    expect(requests('/v1/traces')).toHaveLength(2)
+    expect(spans(1).map((span) => span.spanId)).toEqual(spans(0).map((span) => span.spanId))
+    expect(spans(1)[1]?.spanId).toMatch(/^[0-9a-f]{16}$/)
+
+    // Delivered entries are forgotten, so their next appearance is sent again
+    kernel.emit(createMockUnmountEvent({ timestamp: 3000 }))
+    await plugin.api.flush()
+    expect(requests('/v1/logs')).toHaveLength(2)
+  })
+
+  it('should keep retrying traces without resending delivered logs', async () => {
+    mockFetch.mockImplementation(async (url: string) => ({ ok: !url.endsWith('/v1/traces'), status: 503 }))
+    const plugin = otelExporter({ endpoint: 'http://collector:4318', retryAttempts: 1, retryDelay: 0, maxQueueSize: 1 })
+    kernel.register(plugin)
+
+    kernel.emit(createMockUnmountEvent({ componentId: 'a' }))
+    await plugin.api.flush()
+    kernel.emit(createMockUnmountEvent({ componentId: 'b' }))
+    await plugin.api.flush()
+    await plugin.api.retryFailed()
+
+    expect(requests('/v1/logs')).toHaveLength(2)
+    expect(requests('/v1/traces')).toHaveLength(3)
+    expect(plugin.api.getFailedCount()).toBe(1)
+    kernel.unregister('otel-exporter')
+  })
+
+  it('should skip the traces request when a batch has no spans', async () => {
+    const plugin = otelExporter({ endpoint: 'http://collector:4318' })
+    kernel.register(plugin)
+
+    kernel.emit({ type: 'log', componentId: 'g', componentName: 'Global', timestamp: 1000, level: 'warn', message: 'slow' })
+    await plugin.api.flush()
+
+    expect(requests('/v1/logs')).toHaveLength(1)
+    expect(requests('/v1/traces')).toHaveLength(0)
+  })
+
+  it('should read the trace context for every batch and fall back to a random trace', () => {
+    let context: { traceId: string } | undefined = { traceId }
+    const plugin = otelExporter({ traceContext: () => context })
+    expect(plugin.api.getTraceContext()).toEqual({ traceId })
+
+    context = undefined
+    const fallback = plugin.api.getTraceContext()
+    expect(fallback.traceId).toMatch(/^[0-9a-f]{32}$/)
+    expect(plugin.api.getTraceContext()).toBe(fallback)
+
+    plugin.install(kernel)
+    plugin.uninstall()
+    expect(plugin.api.getTraceContext()).not.toBe(fallback)
+  })
+
+  it('should resubscribe when render-timer is unregistered and registered again', async () => {
+    const plugin = otelExporter({ endpoint: 'http://collector:4318' })
+    kernel.register(renderTimer({ mode: 'profiler' }))
+    kernel.register(plugin)
+    kernel.unregister('render-timer')
+
+    const timer = renderTimer({ mode: 'profiler' })
+    kernel.register(timer)
+    kernel.emit(createMockUnmountEvent())
+    timer.api.recordProfile({ componentId: 'list', componentName: 'List', duration: 4, timestamp: 1010 })
+    await plugin.api.flush()
+
+    expect(spans().map((span) => span.name)).toEqual(['lifetime TestComponent', 'render List'])
+  })
+
+  it('should stop collecting renders after uninstall', () => {
+    const plugin = otelExporter()
+    const timer = renderTimer({ mode: 'profiler' })
+    kernel.register(timer)
+    kernel.register(plugin)
+    kernel.unregister('otel-exporter')
+
+    timer.api.recordProfile({ componentId: 'list', componentName: 'List', duration: 4, timestamp: 1010 })
+    expect(plugin.api.getPendingCount()).toBe(0)
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
+
+  describe('on unload', () => {
+    let sendBeacon: ReturnType<typeof vi.fn>
+
+    beforeEach(() => {
+      sendBeacon = vi.fn().mockReturnValue(true)
+      Object.defineProperty(navigator, 'sendBeacon', { value: sendBeacon, configurable: true })
+    })
+
+    afterEach(() => {
+      delete (navigator as unknown as Record<string, unknown>)['sendBeacon']
+      kernel.unregister('otel-exporter')
+    })
+
+    it('should beacon logs and traces', () => {
+      kernel.register(otelExporter({ endpoint: 'http://collector:4318' }))
+      kernel.emit(createErrorEvent())
+
+      window.dispatchEvent(new Event('pagehide'))
+
+      expect(sendBeacon.mock.calls.map(([url]) => url)).toEqual([
+        'http://collector:4318/v1/logs',
+        'http://collector:4318/v1/traces',
+      ])
+    })
+
+    it('should only beacon traces for entries whose logs were delivered', async () => {
+      mockFetch.mockImplementation(async (url: string) => ({ ok: !url.endsWith('/v1/traces'), status: 503 }))
+      const plugin = otelExporter({ endpoint: 'http://collector:4318', retryAttempts: 1, retryDelay: 0 })
+      kernel.register(plugin)
+      kernel.emit(createMockUnmountEvent())
+      await plugin.api.flush()
+
+      window.dispatchEvent(new Event('pagehide'))
+
+      expect(sendBeacon.mock.calls.map(([url]) => url)).toEqual(['http://collector:4318/v1/traces'])
+      expect(plugin.api.getPendingCount()).toBe(0)
+    })
+
+    it('should keep entries queued when the logs beacon is refused', () => {
+      sendBeacon.mockReturnValue(false)
+      const plugin = otelExporter({ endpoint: 'http://collector:4318' })
+      kernel.register(plugin)
+      kernel.emit(createMockUnmountEvent())
+
+      window.dispatchEvent(new Event('pagehide'))
+
+      expect(sendBeacon).toHaveBeenCalledTimes(1)
+      expect(plugin.api.getPendingCount()).toBe(1)
+    })
+
+    it('should keep renders and the batch when the traces beacon is refused', async () => {
+      sendBeacon.mockImplementation((url: string) => !url.endsWith('/v1/traces'))
+      const plugin = otelExporter({ endpoint: 'http://collector:4318' })
+      const timer = renderTimer({ mode: 'profiler' })
+      kernel.register(plugin)
+      kernel.register(timer)
+      kernel.emit(createMockUnmountEvent({ timestamp: 1000 }))
+      timer.api.recordProfile({ componentId: 'list', componentName: 'List', duration: 4, timestamp: 1010, source: 'profiler' })
+
+      window.dispatchEvent(new Event('pagehide'))
+
+      expect(sendBeacon.mock.calls.map(([url]) => url)).toEqual([
+        'http://collector:4318/v1/logs',
+        'http://collector:4318/v1/traces',
+      ])
+      expect(plugin.api.getPendingCount()).toBe(1)
+
+      await plugin.api.flush()
+      expect(requests('/v1/logs')).toHaveLength(0)
+      expect(spans().map((span) => span.name)).toEqual(['lifetime TestComponent', 'render List'])
+      expect(plugin.api.getPendingCount()).toBe(0)
+    })
+  })
+})
+
+describe('parseTraceparent', () => {
+  it('should parse valid headers and reject malformed or zero ids', () => {
+    expect(parseTraceparent(' 00-4BF92F3577B34DA6A3CE929D0E0E4736-00F067AA0BA902B7-01 ')).toEqual({
+      traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+      spanId: '00f067aa0ba902b7',
+    })
+    expect(parseTraceparent('00-4bf92f3577b34da6a3ce929d0e0e4736-01')).toBeUndefined()
+    expect(parseTraceparent(`00-${'0'.repeat(32)}-00f067aa0ba902b7-01`)).toBeUndefined()
+    expect(parseTraceparent(`00-4bf92f3577b34da6a3ce929d0e0e4736-${'0'.repeat(16)}-01`)).toBeUndefined()
+  })
+})
@@ -0,0 +1,361 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { panelUI } from '../../../src/plugins/optional/panel-ui'
+import { createKernel } from '../../../src/kernel/kernel'
+import { wastedRenders } from '../../../src/plugins/optional/wasted-renders'
+import type { Kernel, LogLevel } from '../../../src/types'
+
+describe('panelUI plugin', () => {
+  let kernel: Kernel
+
+  function root(): ShadowRoot {
+    return document.getElementById('reactlog-panel-container')?.shadowRoot as ShadowRoot
+  }
+
+  function input(): HTMLInputElement {
+    return root().querySelector('.reactlog-filter') as HTMLInputElement
+  }
+
+  function type(value: string): void {
+    input().value = value
+    input().dispatchEvent(new Event('input'))
+  }
+
+  function press(key: string): KeyboardEvent {
+    const event = new KeyboardEvent('keydown', { key, cancelable: true })
+    input().dispatchEvent(event)
+    return event
+  }
+
+  function components(): string[] {
+    return Array.from(root().querySelectorAll('.reactlog-component')).map((el) => el.textContent ?? '')
+  }
+
+  function suggestions(): string[] {
+    return Array.from(root().querySelectorAll('.reactlog-suggestion')).map((el) => el.textContent ?? '')
+  }
+
+  function log(componentName: string, level: LogLevel): void {
+    kernel.emit({ type: 'log', componentId: componentName, componentName, timestamp: Date.now(), level, message: `${componentName} ${level}` })
+  }
+
+  beforeEach(() => {
+    localStorage.clear()
+    kernel = createKernel()
+    kernel.register(panelUI())
+    log('CartItem', 'warn')
+    log('Cart', 'debug')
+    log('Nav', 'error')
+  })
+
+  afterEach(() => {
+    kernel.destroy()
+  })
+
+  it('should filter logs with the query language', () => {
+    type('component:Cart* level>=warn')
+
+    expect(components()).toEqual(['CartItem'])
+
+    type('nav')
+    expect(components()).toEqual(['Nav'])
+  })
+
+  it('should show validation errors inline and still apply valid terms', () => {
+    type('level:loud component:Nav')
+
+    expect(input().classList.contains('reactlog-filter-invalid')).toBe(true)
+    expect(root().querySelector('.reactlog-filter-error')?.textContent).toBe('Unknown level "loud"')
+    expect(components()).toEqual(['Nav'])
+
+    type('level:loud since:soon')
+    expect(root().querySelector('.reactlog-filter-error')?.textContent).toBe('Unknown level "loud" (+1 more)')
+  })
+
+  it('should keep focus and offer completions while typing', () => {
+    input().focus()
+    type('component:Ca')
+
+    expect(root().activeElement).toBe(input())
+    expect(suggestions()).toEqual(['component:Cart', 'component:CartItem'])
+
+    const tab = press('Tab')
+    expect(tab.defaultPrevented).toBe(true)
+    expect(input().value).toBe('component:Cart ')
+
+    root().querySelector('.reactlog-suggestion')?.dispatchEvent(new MouseEvent('mousedown', { cancelable: true }))
+    expect(input().value).toBe('component:Cart component:')
+
+    input().blur()
+    expect(suggestions()).toEqual([])
+  })
+
+  it('should save queries to history and recall them', () => {
+    input().focus()
+    type('level:error')
+    press('Enter')
+    type('component:Nav')
+    press('Enter')
+    type('level:error')
+    press('Enter')
+
+    expect(JSON.parse(localStorage.getItem('reactlog:query-history') as string)).toEqual(['level:error', 'component:Nav'])
+
+    type('')
+    expect(suggestions()).toEqual(['level:error', 'component:Nav'])
+
+    press('ArrowUp')
+    press('ArrowUp')
+    press('ArrowUp')
+    expect(input().value).toBe('component:Nav')
+
+    press('ArrowDown')
+    expect(input().value).toBe('level:error')
+    press('ArrowDown')
+    expect(input().value).toBe('')
+  })
+
+  describe('tree tab', () => {
+    function rows(): string[] {
+      return Array.from(root().querySelectorAll('.reactlog-tree-node')).map((row) =>
+        Array.from(row.children).map((el) => el.textContent).filter(Boolean).join(' ')
+      )
+    }
+
+    it('should show a collapsible tree with render counts, mount state and change badges', () => {
+      const panel = kernel.getPlugin<ReturnType<typeof panelUI>>('panel-ui')
+      const now = Date.now()
+      kernel.emit({ type: 'mount', componentId: 'row', componentName: 'Row', timestamp: now, props: {}, initialState: {}, parentId: 'list' })
+      kernel.emit({ type: 'mount', componentId: 'list', componentName: 'List', timestamp: now, props: {}, initialState: {} })
+      kernel.emit({ type: 'update', componentId: 'list', componentName: 'List', timestamp: now, reason: 'state', renderCount: 3 })
+      kernel.emit({ type: 'state-change', componentId: 'list', componentName: 'List', timestamp: now, hookIndex: 0, hookType: 'useState', prevState: 1, nextState: 2 })
+      kernel.emit({ type: 'props-change', componentId: 'row', componentName: 'Row', timestamp: now - 5000, changes: [] })
+      kernel.emit({ type: 'unmount', componentId: 'row', componentName: 'Row', timestamp: now, lifetime: 1 })
+
+      panel?.api.setTab('tree')
+      expect(rows()).toEqual(['\u25BE List \u00D73 state', 'Row \u00D71 unmounted'])
+      expect(root().querySelector('.reactlog-tree-unmounted .reactlog-component')?.textContent).toBe('Row')
+      expect(root().querySelector('.reactlog-controls span')?.textContent).toBe('1 mounted')
+      expect(root().querySelector('.reactlog-filter')).toBeNull()
+
+      const toggle = () => root().querySelector('.reactlog-tree-toggle') as HTMLButtonElement
+      toggle().click()
+      expect(rows()).toEqual(['\u25B8 List \u00D73 state'])
+      expect(toggle().getAttribute('aria-expanded')).toBe('false')
+      toggle().click()
+      expect(rows()).toHaveLength(2)
+    })
+
+    it('should say when nothing is tracked and badge replays against their last entry', () => {
+      const panel = kernel.getPlugin<ReturnType<typeof panelUI>>('panel-ui')
+      panel?.api.setTab('tree')
+      expect(root().querySelector('.reactlog-empty')?.textContent).toBe('No tracked components')
+
+      kernel.destroy()
+      const event = { type: 'context-change' as const, componentId: 'app', componentName: 'App', timestamp: 1000, contextName: 'Theme', prevValue: 1, nextValue: 2 }
+      kernel = createKernel({
+        replay: {
+          startTime: 0,
+          entries: [
+            { id: 'a', timestamp: 500, componentId: 'app', componentName: 'App', level: 'debug', formatted: '', event: { type: 'mount', componentId: 'app', componentName: 'App', timestamp: 500, props: {}, initialState: {} } },
+            { id: 'b', timestamp: 1000, componentId: 'app', componentName: 'App', level: 'debug', formatted: '', event },
+          ],
+        },
+      })
+      const replayPanel = panelUI()
+      kernel.register(replayPanel)
+      replayPanel.api.setTab('tree')
+      expect(rows()).toEqual(['App \u00D71 context'])
+      expect(root().querySelector('.reactlog-timeline')).toBeNull()
+    })
+  })
+
+  describe('wasted tab', () => {
+    function rows(): string[] {
+      return Array.from(root().querySelectorAll('.reactlog-snapshot-row')).map((el) => el.textContent ?? '')
+    }
+
+    function wasteRender(componentId: string, componentName: string, key: string, value: unknown): void {
+      const timestamp = Date.now()
+      kernel.emit({ type: 'props-change', componentId, componentName, timestamp, changes: [{ key, prevValue: value, nextValue: value, isDeepEqual: true }] })
+      kernel.emit({ type: 'update', componentId, componentName, timestamp, reason: 'parent', renderCount: 2 })
+    }
+
+    it('should rank components by wasted renders with suggestions', () => {
+      const panel = kernel.getPlugin<ReturnType<typeof panelUI>>('panel-ui')
+      panel?.api.setTab('wasted')
+      expect(root().querySelector('.reactlog-empty')?.textContent).toBe('Register wastedRenders() to find wasted renders')
+      expect(root().querySelector('.reactlog-controls span')?.textContent).toBe('0 wasted')
+
+      kernel.register(wastedRenders())
+      panel?.api.setTab('wasted')
+      expect(root().querySelector('.reactlog-empty')?.textContent).toBe('No wasted renders')
+
+      wasteRender('header', 'Header', 'style', {})
+      wasteRender('row', 'Row', 'onSelect', () => undefined)
+      wasteRender('row', 'Row', 'onSelect', () => undefined)
+      kernel.emit({
+        type: 'props-change',
+        componentId: 'row',
+        componentName: 'Row',
+        timestamp: Date.now(),
+        changes: [{ key: 'onSelect', prevValue: () => undefined, nextValue: () => undefined, isDeepEqual: false }],
+      })
+      kernel.emit({ type: 'update', componentId: 'row', componentName: 'Row', timestamp: Date.now(), reason: 'parent', renderCount: 3 })
+      kernel.emit({ type: 'update', componentId: 'row', componentName: 'Row', timestamp: Date.now(), reason: 'state', renderCount: 4 })
+
+      expect(components()).toEqual(['Row', 'Header'])
+      expect(Array.from(root().querySelectorAll('.reactlog-message')).map((el) => el.textContent)).toEqual([
+        '2/4 updates wasted, 1 possibly',
+        '1/1 updates wasted',
+      ])
+      expect(rows()).toEqual([
+        'onSelect is an inline callback; wrap it in useCallback (\u00D73)',
+        'style is an object literal; memoize it with useMemo or move it out of render (\u00D71)',
+      ])
+      expect(root().querySelector('.reactlog-controls span')?.textContent).toBe('3 wasted')
+      expect(root().querySelector('.reactlog-filter')).toBeNull()
+    })
+  })
+
+  describe('snapshot tab', () => {
+    function tabs(): HTMLButtonElement[] {
+      return Array.from(root().querySelectorAll<HTMLButtonElement>('.reactlog-tab'))
+    }
+
+    function rows(): string[] {
+      return Array.from(root().querySelectorAll('.reactlog-snapshot-row')).map((el) => el.textContent ?? '')
+    }
+
+    it('should show mounted components at the slider time', () => {
+      kernel.destroy()
+      kernel = createKernel()
+      const panel = panelUI()
+      kernel.register(panel)
+      const start = kernel.getLogs().startTime
+      kernel.emit({ type: 'mount', componentId: 'cart', componentName: 'Cart', timestamp: start + 1000, props: { items: 1 }, initialState: { 0: false } })
+      kernel.emit({ type: 'state-change', componentId: 'cart', componentName: 'Cart', timestamp: start + 2000, hookIndex: 0, hookType: 'useState', prevState: false, nextState: true })
+      kernel.emit({ type: 'context-change', componentId: 'cart', componentName: 'Cart', timestamp: start + 2500, contextName: 'Theme', prevValue: 'light', nextValue: 'dark' })
+
+      tabs()[2]?.click()
+      expect(panel.api.getTab()).toBe('snapshot')
+      expect(tabs().map((tab) => tab.classList.contains('reactlog-tab-active'))).toEqual([false, false, true, false])
+      expect(root().querySelector('.reactlog-filter')).toBeNull()
+      expect(components()).toEqual(['Cart'])
+      expect(rows()).toEqual(['props { items: 1 }', 'state { 0: true }', 'context { Theme: "dark" }'])
+      expect(root().querySelector('.reactlog-timeline span')?.textContent).toBe('t=2.5s')
+
+      const slider = root().querySelector('.reactlog-scrubber') as HTMLInputElement
+      slider.value = String(start + 1500)
+      slider.dispatchEvent(new Event('input'))
+      expect(rows()).toEqual(['props { items: 1 }', 'state { 0: false }'])
+      expect(root().querySelector('.reactlog-timeline span')?.textContent).toBe('t=1.5s')
+      expect(root().querySelector('.reactlog-controls span')?.textContent).toBe('1 mounted')
+
+      // New entries do not move a slider that was set by hand
+      kernel.emit({ type: 'unmount', componentId: 'cart', componentName: 'Cart', timestamp: start + 3000, lifetime: 2000 })
+      expect(panel.api.getSnapshot().components).toHaveLength(1)
+
+      const latest = root().querySelector('.reactlog-scrubber') as HTMLInputElement
+      latest.value = latest.max
+      latest.dispatchEvent(new Event('input'))
+      expect(root().querySelector('.reactlog-empty')?.textContent).toBe('No mounted components')
+
+      panel.api.seekSnapshot(start + 1200)
+      expect(components()).toEqual(['Cart'])
+      expect(root().querySelector('.reactlog-message')?.textContent).toBe('render #1')
+
+      panel.api.setTab('logs')
+      expect(root().querySelector('.reactlog-filter')).not.toBeNull()
+    })
+
+    it('should mark components whose mount left the store', () => {
+      kernel.configure({ maxLogs: 1 })
+      kernel.emit({ type: 'update', componentId: 'row', componentName: 'Row', timestamp: Date.now(), reason: 'parent', renderCount: 4 })
+      const panel = kernel.getPlugin<ReturnType<typeof panelUI>>('panel-ui')
+
+      panel?.api.setTab('snapshot')
+      expect(root().querySelector('.reactlog-message')?.textContent).toBe('mount not in store')
+    })
+  })
+
+  describe('replay', () => {
+    function replayKernel(): Kernel {
+      const entries = kernel.getLogs().entries.map((entry, index) => ({ ...entry, timestamp: 1700000000000 + index * 65000 }))
+      return createKernel({ replay: { startTime: 1700000000000, entries } })
+    }
+
+    function scrubber(): HTMLInputElement {
+      return root().querySelector('.reactlog-scrubber') as HTMLInputElement
+    }
+
+    function footerTime(): string {
+      return root().querySelector('.reactlog-footer > span')?.textContent ?? ''
+    }
+
+    it('should scrub through the recorded session', () => {
+      const replay = replayKernel()
+      kernel.destroy()
+      kernel = replay
+      const panel = panelUI()
+      kernel.register(panel)
+
+      expect(panel.api.getReplayPosition()).toBe(3)
+      expect(components()).toEqual(['CartItem', 'Cart', 'Nav'])
+      expect(footerTime()).toBe('2:10')
+      expect(Array.from(root().querySelectorAll('.reactlog-btn')).map((el) => el.textContent)).toEqual(['\u2212', '\u25C0', '\u25B6'])
+
+      scrubber().value = '1'
+      scrubber().dispatchEvent(new Event('input'))
+      expect(components()).toEqual(['CartItem'])
+      expect(root().querySelector('.reactlog-controls span')?.textContent).toBe('1/3 logs')
+      expect(footerTime()).toBe('0:00')
+
+      const [, back, forward] = Array.from(root().querySelectorAll<HTMLButtonElement>('.reactlog-btn'))
+      forward?.click()
+      expect(components()).toEqual(['CartItem', 'Cart'])
+      back?.click()
+      back?.click()
+      back?.click()
+      expect(panel.api.getReplayPosition()).toBe(0)
+      expect(root().querySelector('.reactlog-empty')).not.toBeNull()
+
+      panel.api.seek(99)
+      expect(scrubber().value).toBe('3')
+      type('level:error')
+      expect(components()).toEqual(['Nav'])
+    })
+
+    it('should leave live panels without a timeline', () => {
+      const panel = kernel.getPlugin<ReturnType<typeof panelUI>>('panel-ui')
+
+      panel?.api.seek(0)
+      expect(panel?.api.getReplayPosition()).toBeNull()
+      expect(components()).toHaveLength(3)
+      expect(scrubber()).toBeNull()
+    })
+  })
+
+  it('should load history from a previous page', () => {
+    kernel.destroy()
+    localStorage.setItem('reactlog:query-history', JSON.stringify(['since:5m', 42]))
+
+    kernel = createKernel()
+    kernel.register(panelUI())
+    input().focus()
+
+    expect(suggestions()).toEqual(['since:5m'])
+  })
+
+  it('should ignore unreadable history', () => {
+    kernel.destroy()
+    localStorage.setItem('reactlog:query-history', '{')
+
+    kernel = createKernel()
+    kernel.register(panelUI())
+    input().focus()
+
+    expect(suggestions()).toEqual([])
+    expect(press('ArrowUp').defaultPrevented).toBe(false)
+    expect(press('Tab').defaultPrevented).toBe(false)
+  })
+})
@@ -1,6 +1,14 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import { remoteLogger } from '../../../src/plugins/optional/remote-logger'
-import type { Kernel, LogEntry } from '../../../src/types'
+import { version as packageVersion } from '../../../package.json'
+import type {
+  Kernel,
+  LogEntry,
+  Plugin,
+  RemoteEnvelope,
+  RemoteLoggerOptions,
+  RemoteQueueSnapshot,
+} from '../../../src/types'
 
 describe('remoteLogger plugin', () => {
   let mockKernel: Kernel
@@ -383,3 +391,388 @@ describe('remoteLogger plugin', () => {
     expect(mockFetch).toHaveBeenCalledTimes(3)
   })
 })
+
+describe('remoteLogger delivery queue', () => {
+  // Plugins left installed by other tests still listen to window events,
+  // so only calls to this endpoint are counted
+  const endpoint = 'https://api.example.com/queue'
+  let mockFetch: ReturnType<typeof vi.fn>
+  let online: boolean
+  let installed: Plugin[]
+
+  function create(options: Partial<RemoteLoggerOptions> = {}) {
+    const plugin = remoteLogger({ endpoint, ...options })
+    plugin.install({ getLogs: () => ({ sessionId: 'session-1' }) } as unknown as Kernel)
+    installed.push(plugin)
+    return plugin
+  }
+
+  function entry(id: string): LogEntry {
+    return {
+      id,
+      timestamp: 1000,
+      componentId: 'comp-1',
+      componentName: 'TestComponent',
+      event: { type: 'mount' },
+      level: 'info',
+      formatted: 'MOUNT TestComponent',
+    } as LogEntry
+  }
+
+  function fetchCalls(): [string, RequestInit][] {
+    return (mockFetch.mock.calls as [string, RequestInit][]).filter(([url]) => url === endpoint)
+  }
+
+  function sentIds(call = 0): string[] {
+    const body = fetchCalls()[call]?.[1]?.body as string
+    return (JSON.parse(body) as LogEntry[]).map((e) => e.id)
+  }
+
+  function createMemoryQueue(initial: RemoteQueueSnapshot | null = null) {
+    let stored = initial
+    return {
+      load: vi.fn(async () => stored),
+      save: vi.fn(async (snapshot: RemoteQueueSnapshot) => {
+        stored = snapshot
+      }),
+      get stored() {
+        return stored
+      },
+    }
+  }
+
+  beforeEach(() => {
+    installed = []
+    online = true
+    vi.spyOn(navigator, 'onLine', 'get').mockImplementation(() => online)
+    mockFetch = vi.fn().mockResolvedValue({ ok: true, status: 200 })
+    global.fetch = mockFetch
+  })
+
+  afterEach(() => {
+    for (const plugin of installed) plugin.uninstall()
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  it('should back off exponentially with jitter up to retryMaxDelay', async () => {
+    vi.useFakeTimers()
+    vi.spyOn(Math, 'random').mockReturnValue(0)
+    mockFetch.mockRejectedValue(new Error('Network error'))
+
+    const plugin = create({ retryAttempts: 4, retryDelay: 100, retryMaxDelay: 250 })
+    plugin.hooks?.onLog?.(entry('log-1'))
+    const flushed = plugin.api.flush()
+
+    // Half of 100, 200 and min(400, 250) with zero jitter
+    for (const [delay, calls] of [[49, 1], [1, 2], [99, 2], [1, 3], [124, 3], [1, 4]] as const) {
+      await vi.advanceTimersByTimeAsync(delay)
+      expect(mockFetch).toHaveBeenCalledTimes(calls)
+    }
+
+    await flushed
+    expect(plugin.api.getFailedCount()).toBe(1)
+  })
+
+  it('should hold entries while offline and send them when back online', async () => {
+    online = false
+    const plugin = create({ batchSize: 1 })
+
+    plugin.hooks?.onLog?.(entry('log-1'))
+    await plugin.api.flush()
+
+    expect(mockFetch).not.toHaveBeenCalled()
+    expect(plugin.api.getPendingCount()).toBe(1)
+
+    online = true
+    window.dispatchEvent(new Event('online'))
+
+    await vi.waitFor(() => expect(fetchCalls()).toHaveLength(1))
+    expect(sentIds()).toEqual(['log-1'])
+  })
+
+  it('should requeue a batch instead of failing it when the connection drops', async () => {
+    mockFetch.mockImplementation(async () => {
+      online = false
+      throw new Error('Network error')
+    })
+
+    const onError = vi.fn()
+    const plugin = create({ onError })
+    plugin.hooks?.onLog?.(entry('log-1'))
+    await plugin.api.flush()
+
+    expect(plugin.api.getPendingCount()).toBe(1)
+    expect(plugin.api.getFailedCount()).toBe(0)
+    expect(onError).not.toHaveBeenCalled()
+  })
+
+  it('should retry failed entries when back online', async () => {
+    mockFetch.mockRejectedValueOnce(new Error('Network error'))
+    const plugin = create({ retryAttempts: 1 })
+    plugin.hooks?.onLog?.(entry('log-1'))
+    await plugin.api.flush()
+
+    online = false
+    await plugin.api.retryFailed()
+    expect(plugin.api.getFailedCount()).toBe(1)
+
+    online = true
+    window.dispatchEvent(new Event('online'))
+    await vi.waitFor(() => expect(plugin.api.getFailedCount()).toBe(0))
+    expect(sentIds(1)).toEqual(['log-1'])
+  })
+
+  it('should drop the oldest entries, failed ones first, when the queue is full', async () => {
+    mockFetch.mockRejectedValueOnce(new Error('Network error'))
+    const plugin = create({ retryAttempts: 1, batchSize: 100, maxQueueSize: 3 })
+
+    plugin.hooks?.onLog?.(entry('failed-1'))
+    await plugin.api.flush()
+
+    for (const id of ['log-1', 'log-2', 'log-3', 'log-4']) plugin.hooks?.onLog?.(entry(id))
+
+    expect(plugin.api.getFailedCount()).toBe(0)
+    expect(plugin.api.getDroppedCount()).toBe(2)
+
+    await plugin.api.flush()
+    expect(sentIds(1)).toEqual(['log-2', 'log-3', 'log-4'])
+  })
+
+  it('should reject incoming entries with the drop-newest policy', async () => {
+    const plugin = create({ batchSize: 100, maxQueueSize: 2, overflow: 'drop-newest' })
+
+    for (const id of ['log-1', 'log-2', 'log-3']) plugin.hooks?.onLog?.(entry(id))
+    await plugin.api.flush()
+
+    expect(sentIds()).toEqual(['log-1', 'log-2'])
+    expect(plugin.api.getDroppedCount()).toBe(1)
+  })
+
+  it('should drop the newest failed entries once pending is empty', async () => {
+    mockFetch.mockRejectedValue(new Error('Network error'))
+    const plugin = create({ retryAttempts: 1, batchSize: 100, maxQueueSize: 2, overflow: 'drop-newest' })
+
+    plugin.hooks?.onLog?.(entry('log-1'))
+    await plugin.api.flush()
+    plugin.hooks?.onLog?.(entry('log-2'))
+    plugin.hooks?.onLog?.(entry('log-3'))
+    await plugin.api.flush()
+
+    expect(plugin.api.getFailedCount()).toBe(2)
+    expect(plugin.api.getDroppedCount()).toBe(1)
+  })
+
+  it('should save the queue, including batches in flight, and restore it on the next install', async () => {
+    const storage = createMemoryQueue()
+    mockFetch.mockReturnValue(new Promise(() => {}))
+
+    const plugin = create({ batchSize: 2, queueStorage: storage })
+    for (const id of ['log-1', 'log-2', 'log-3']) plugin.hooks?.onLog?.(entry(id))
+
+    await vi.waitFor(() => expect(storage.stored?.pending.map((e) => e.id)).toEqual(['log-1', 'log-2', 'log-3']))
+
+    plugin.uninstall()
+    expect(plugin.api.getPendingCount()).toBe(0)
+
+    mockFetch.mockResolvedValue({ ok: true, status: 200 })
+    const next = create({ queueStorage: storage })
+
+    await vi.waitFor(() => expect(storage.stored).toEqual({ pending: [], failed: [] }))
+    // The first install sent log-1/log-2 on batch size and log-3 once the load settled
+    expect(sentIds(2)).toEqual(['log-1', 'log-2', 'log-3'])
+  })
+
+  it('should restore failed entries and merge them with entries logged during the load', async () => {
+    let finishLoad: (snapshot: RemoteQueueSnapshot) => void = () => {}
+    const storage = createMemoryQueue()
+    storage.load.mockReturnValue(new Promise((resolve) => (finishLoad = resolve)))
+    online = false
+
+    const plugin = create({ queueStorage: storage })
+    plugin.hooks?.onLog?.(entry('new-1'))
+    plugin.uninstall()
+
+    finishLoad({ pending: [entry('old-1')], failed: [entry('old-failed')] })
+
+    await vi.waitFor(() => expect(storage.save).toHaveBeenCalled())
+    expect(storage.stored?.pending.map((e) => e.id)).toEqual(['old-1', 'new-1'])
+    expect(storage.stored?.failed.map((e) => e.id)).toEqual(['old-failed'])
+  })
+
+  it('should log queue storage errors', async () => {
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+    const storage = createMemoryQueue()
+    storage.load.mockRejectedValue(new Error('denied'))
+
+    const plugin = create({ queueStorage: storage })
+
+    await vi.waitFor(() => expect(consoleSpy).toHaveBeenCalledWith('[ReactLog] Remote logger queue error:', expect.any(Error)))
+  })
+
+  it('should wrap batches in a versioned envelope that keeps its sequence and entry ids across retries', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0)
+    mockFetch.mockRejectedValueOnce(new Error('Network error'))
+    const plugin = create({ envelope: true, retryDelay: 0, batchSize: 100, transform: (e) => ({ message: e.formatted }) })
+
+    plugin.hooks?.onLog?.(entry('log-1'))
+    plugin.hooks?.onLog?.(entry('log-2'))
+    await plugin.api.flush()
+    plugin.hooks?.onLog?.(entry('log-3'))
+    await plugin.api.flush()
+
+    const [failed, retried, next] = fetchCalls().map(([, init]) => JSON.parse(init.body as string) as RemoteEnvelope)
+    expect(retried).toEqual({
+      schemaVersion: 1,
+      sdk: { name: '@oxog/reactlog', version: packageVersion },
+      sessionId: 'session-1',
+      sequence: 1,
+      entryIds: ['log-1', 'log-2'],
+      sentAt: expect.any(Number),
+      logs: [{ message: 'MOUNT TestComponent' }, { message: 'MOUNT TestComponent' }],
+    })
+    expect(failed?.sequence).toBe(1)
+    expect(failed?.entryIds).toEqual(retried?.entryIds)
+    expect(next?.sequence).toBe(2)
+    expect(next?.entryIds).toEqual(['log-3'])
+  })
+
+  it('should keep entry ids when failed batches are regrouped for retry', async () => {
+    mockFetch.mockRejectedValueOnce(new Error('Network error')).mockRejectedValueOnce(new Error('Network error'))
+    const plugin = create({ envelope: true, retryAttempts: 1, batchSize: 100 })
+
+    plugin.hooks?.onLog?.(entry('log-1'))
+    await plugin.api.flush()
+    plugin.hooks?.onLog?.(entry('log-2'))
+    await plugin.api.flush()
+    await plugin.api.retryFailed()
+
+    const envelopes = fetchCalls().map(([, init]) => JSON.parse(init.body as string) as RemoteEnvelope)
+    expect(envelopes.map((envelope) => envelope.entryIds)).toEqual([['log-1'], ['log-2'], ['log-1', 'log-2']])
+  })
+
+  it('should gzip bodies when compression is enabled', async () => {
+    const plugin = create({ compress: true, envelope: true })
+    plugin.hooks?.onLog?.(entry('log-1'))
+    await plugin.api.flush()
+
+    const [, init] = fetchCalls()[0] as [string, RequestInit]
+    expect(init.headers).toMatchObject({ 'Content-Encoding': 'gzip' })
+
+    const decompressed = new Response(init.body as Blob).body?.pipeThrough(new DecompressionStream('gzip'))
+    const envelope = JSON.parse(await new Response(decompressed).text()) as RemoteEnvelope
+    expect(envelope.logs).toEqual([expect.objectContaining({ id: 'log-1' })])
+  })
+
+  it('should send plain JSON when CompressionStream is unavailable', async () => {
+    vi.stubGlobal('CompressionStream', undefined)
+    const plugin = create({ compress: true })
+    plugin.hooks?.onLog?.(entry('log-1'))
+    await plugin.api.flush()
+    vi.unstubAllGlobals()
+
+    expect(sentIds()).toEqual(['log-1'])
+    expect(fetchCalls()[0]?.[1].headers).not.toHaveProperty('Content-Encoding')
+  })
+
+  describe('beacon', () => {
+    let sendBeacon: ReturnType<typeof vi.fn>
+    let accept: boolean
+
+    function beaconIds(): string[][] {
+      return (sendBeacon.mock.calls as [string, Blob][])
+        .filter(([url]) => url === endpoint)
+        .map(([, body]) => (JSON.parse(readBlob(body)) as LogEntry[]).map((e) => e.id))
+    }
+
+    function readBlob(blob: Blob): string {
+      return (blob as unknown as { text: string }).text
+    }
+
+    beforeEach(() => {
+      accept = true
+      sendBeacon = vi.fn((url: string) => url !== endpoint || accept)
+      Object.defineProperty(navigator, 'sendBeacon', { value: sendBeacon, configurable: true })
+      vi.spyOn(globalThis, 'Blob').mockImplementation(
+        (parts?: BlobPart[]) => ({ text: (parts ?? []).join('') }) as unknown as Blob
+      )
+    })
+
+    afterEach(() => {
+      delete (navigator as unknown as Record<string, unknown>)['sendBeacon']
+    })
+
+    it('should send failed and pending entries in batches on pagehide', async () => {
+      mockFetch.mockRejectedValueOnce(new Error('Network error'))
+      const plugin = create({ batchSize: 2, retryAttempts: 1 })
+
+      plugin.hooks?.onLog?.(entry('failed-1'))
+      plugin.hooks?.onLog?.(entry('failed-2'))
+      await vi.waitFor(() => expect(plugin.api.getFailedCount()).toBe(2))
+      plugin.hooks?.onLog?.(entry('log-1'))
+
+      window.dispatchEvent(new Event('pagehide'))
+
+      expect(beaconIds()).toEqual([['failed-1', 'failed-2'], ['log-1']])
+      expect(plugin.api.getFailedCount()).toBe(0)
+      expect(plugin.api.getPendingCount()).toBe(0)
+    })
+
+    it('should save the entries the browser refuses', async () => {
+      mockFetch.mockRejectedValue(new Error('Network error'))
+      const storage = createMemoryQueue()
+      const plugin = create({ retryAttempts: 1, queueStorage: storage })
+
+      plugin.hooks?.onLog?.(entry('log-1'))
+      await vi.waitFor(() => expect(plugin.api.getFailedCount()).toBe(1))
+      accept = false
+      window.dispatchEvent(new Event('pagehide'))
+
+      expect(plugin.api.getFailedCount()).toBe(1)
+      await vi.waitFor(() => expect(storage.stored?.failed.map((e) => e.id)).toEqual(['log-1']))
+    })
+
+    it('should send uncompressed envelopes on unload', () => {
+      const plugin = create({ compress: true, envelope: true })
+      plugin.hooks?.onLog?.(entry('log-1'))
+
+      window.dispatchEvent(new Event('pagehide'))
+
+      const [, body] = sendBeacon.mock.calls.find(([url]) => url === endpoint) as [string, Blob]
+      expect(JSON.parse(readBlob(body))).toMatchObject({ sequence: 1, logs: [{ id: 'log-1' }] })
+    })
+
+    it('should send when the page becomes hidden', () => {
+      const plugin = create({ batchSize: 100 })
+      plugin.hooks?.onLog?.(entry('log-1'))
+
+      Object.defineProperty(document, 'visibilityState', { value: 'visible', configurable: true })
+      document.dispatchEvent(new Event('visibilitychange'))
+      expect(beaconIds()).toEqual([])
+
+      Object.defineProperty(document, 'visibilityState', { value: 'hidden', configurable: true })
+      document.dispatchEvent(new Event('visibilitychange'))
+      expect(beaconIds()).toEqual([['log-1']])
+
+      delete (document as unknown as Record<string, unknown>)['visibilityState']
+    })
+
+    it('should not use beacons for PUT, custom headers, offline or when disabled', () => {
+      const plugins = [
+        create({ method: 'PUT' }),
+        create({ headers: { Authorization: 'Bearer token' } }),
+        create({ beacon: false }),
+      ]
+      for (const plugin of plugins) plugin.hooks?.onLog?.(entry('log-1'))
+
+      window.dispatchEvent(new Event('pagehide'))
+      online = false
+      const offline = create()
+      offline.hooks?.onLog?.(entry('log-1'))
+      window.dispatchEvent(new Event('pagehide'))
+
+      expect(beaconIds()).toEqual([])
+      for (const plugin of [...plugins, offline]) expect(plugin.api.getPendingCount()).toBe(1)
+    })
+  })
+})
@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { createIndexedDBQueue, createLocalStorageQueue } from '../../../src/plugins/optional/remote-queue'
+import { installFakeIndexedDB } from '../../fixtures/fake-indexeddb'
+import { createMockLogEntry } from '../../fixtures/mock-data'
+
+describe('LocalStorageQueue', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  it('should save, load and remove the snapshot', async () => {
+    const queue = createLocalStorageQueue({ key: 'test-queue' })
+    const entry = createMockLogEntry({ id: 'log-1' })
+
+    expect(await queue.load()).toBeNull()
+
+    await queue.save({ pending: [entry], failed: [] })
+    expect(localStorage.getItem('test-queue')).not.toBeNull()
+    expect(await createLocalStorageQueue({ key: 'test-queue' }).load()).toEqual({ pending: [entry], failed: [] })
+
+    await queue.save({ pending: [], failed: [] })
+    expect(localStorage.getItem('test-queue')).toBeNull()
+  })
+
+  it('should use a default key', async () => {
+    await createLocalStorageQueue().save({ pending: [], failed: [createMockLogEntry()] })
+
+    expect(localStorage.getItem('reactlog:remote-queue')).not.toBeNull()
+  })
+})
+
+describe('IndexedDBQueue', () => {
+  let restore: () => void
+
+  beforeEach(() => {
+    ;({ restore } = installFakeIndexedDB())
+  })
+
+  afterEach(() => {
+    restore()
+  })
+
+  it('should save and load snapshots per key', async () => {
+    const entry = createMockLogEntry({ id: 'log-1' })
+    const queue = createIndexedDBQueue()
+
+    expect(await queue.load()).toBeNull()
+
+    await queue.save({ pending: [], failed: [entry] })
+    await createIndexedDBQueue({ key: 'other' }).save({ pending: [entry], failed: [] })
+
+    expect(await createIndexedDBQueue().load()).toEqual({ pending: [], failed: [entry] })
+    expect(await createIndexedDBQueue({ dbName: 'reactlog-remote', key: 'other' }).load()).toEqual({
+      pending: [entry],
+      failed: [],
+    })
+  })
+
+  it('should reject when IndexedDB is unavailable', async () => {
+    restore()
+    const globals = globalThis as Record<string, unknown>
+    const previous = globals['indexedDB']
+    delete globals['indexedDB']
+
+    await expect(createIndexedDBQueue().load()).rejects.toThrow('IndexedDB is not available')
+
+    globals['indexedDB'] = previous
+  })
+})
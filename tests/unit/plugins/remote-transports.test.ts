@@ -0,0 +1,206 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import {
+  createBeaconTransport,
+  createCustomTransport,
+  createHttpTransport,
+  createWebSocketTransport,
+} from '../../../src/plugins/optional/remote-transports'
+import { remoteLogger } from '../../../src/plugins/optional/remote-logger'
+import type { Kernel, LogEntry, RemoteBatch } from '../../../src/types'
+import { createMockLogEntry } from '../../fixtures/mock-data'
+
+/**
+ * Minimal WebSocket that opens or fails when the test says so
+ */
+class FakeWebSocket extends EventTarget {
+  static readonly CONNECTING = 0
+  static readonly OPEN = 1
+  static readonly CLOSED = 3
+  static instances: FakeWebSocket[] = []
+
+  readyState = FakeWebSocket.CONNECTING
+  sent: string[] = []
+
+  constructor(
+    public url: string,
+    public protocols?: string | string[]
+  ) {
+    super()
+    FakeWebSocket.instances.push(this)
+  }
+
+  send(data: string): void {
+    this.sent.push(data)
+  }
+
+  close(): void {
+    this.readyState = FakeWebSocket.CLOSED
+    this.dispatchEvent(new Event('close'))
+  }
+
+  accept(): void {
+    this.readyState = FakeWebSocket.OPEN
+    this.dispatchEvent(new Event('open'))
+  }
+}
+
+const batch: RemoteBatch = { logs: [], body: '[{"id":"log-1"}]' }
+
+describe('HttpTransport', () => {
+  let mockFetch: ReturnType<typeof vi.fn>
+
+  beforeEach(() => {
+    mockFetch = vi.fn().mockResolvedValue({ ok: true, status: 200 })
+    global.fetch = mockFetch
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('should send the body and report the response', async () => {
+    const onSuccess = vi.fn()
+    await createHttpTransport({ endpoint: '/logs', method: 'PUT', headers: { 'X-Key': 'k' }, onSuccess }).send(batch)
+
+    expect(mockFetch).toHaveBeenCalledWith('/logs', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json', 'X-Key': 'k' },
+      body: batch.body,
+    })
+    expect(onSuccess).toHaveBeenCalledWith({ ok: true, status: 200 })
+  })
+
+  it('should declare gzipped bodies', async () => {
+    const body = new Blob(['gzipped'])
+    await createHttpTransport({ endpoint: '/logs' }).send({ logs: [], body, encoding: 'gzip' })
+
+    expect(mockFetch).toHaveBeenCalledWith('/logs', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Content-Encoding': 'gzip' },
+      body,
+    })
+  })
+
+  it('should reject on error responses', async () => {
+    mockFetch.mockResolvedValue({ ok: false, status: 503 })
+
+    await expect(createHttpTransport({ endpoint: '/logs' }).send(batch)).rejects.toThrow('HTTP error: 503')
+  })
+})
+
+describe('BeaconTransport', () => {
+  afterEach(() => {
+    delete (navigator as unknown as Record<string, unknown>)['sendBeacon']
+  })
+
+  it('should resolve when the browser queues the beacon', async () => {
+    const sendBeacon = vi.fn().mockReturnValueOnce(true).mockReturnValue(false)
+    Object.defineProperty(navigator, 'sendBeacon', { value: sendBeacon, configurable: true })
+    const transport = createBeaconTransport({ url: '/beacon' })
+
+    await transport.send(batch)
+    expect(sendBeacon).toHaveBeenCalledWith('/beacon', expect.any(Blob))
+    await expect(transport.send(batch)).rejects.toThrow('sendBeacon is unavailable or refused the batch')
+    expect(transport.sendOnUnload(batch)).toBe(false)
+
+    transport.sendOnUnload({ logs: [], body: new Blob(['gzipped']), encoding: 'gzip' })
+    expect((sendBeacon.mock.calls[0]?.[1] as Blob).type).toBe('application/json')
+    expect((sendBeacon.mock.calls[3]?.[1] as Blob).type).toBe('application/gzip')
+  })
+
+  it('should reject when sendBeacon is unavailable', async () => {
+    await expect(createBeaconTransport({ url: '/beacon' }).send(batch)).rejects.toThrow()
+  })
+})
+
+describe('WebSocketTransport', () => {
+  beforeEach(() => {
+    FakeWebSocket.instances = []
+    vi.stubGlobal('WebSocket', FakeWebSocket)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('should connect on open and send once the socket is open', async () => {
+    const transport = createWebSocketTransport({ url: 'wss://logs.example.com', protocols: 'reactlog' })
+    transport.open()
+
+    const sent = transport.send(batch)
+    const [socket] = FakeWebSocket.instances
+    expect(socket?.protocols).toBe('reactlog')
+    expect(transport.sendOnUnload(batch)).toBe(false)
+
+    socket?.accept()
+    await sent
+    expect(transport.sendOnUnload(batch)).toBe(true)
+    await transport.send(batch)
+
+    expect(socket?.sent).toEqual([batch.body, batch.body, batch.body])
+    expect(FakeWebSocket.instances).toHaveLength(1)
+  })
+
+  it('should reject sends while the socket is down and reconnect on the next send', async () => {
+    const transport = createWebSocketTransport({ url: 'wss://logs.example.com' })
+
+    const failed = transport.send(batch)
+    FakeWebSocket.instances[0]?.close()
+    await expect(failed).rejects.toThrow('WebSocket closed: wss://logs.example.com')
+
+    const retried = transport.send(batch)
+    FakeWebSocket.instances[1]?.accept()
+    await retried
+
+    FakeWebSocket.instances[1]?.close()
+    expect(transport.sendOnUnload(batch)).toBe(false)
+    expect(FakeWebSocket.instances[1]?.sent).toEqual([batch.body])
+  })
+
+  it('should close the socket, failing a pending connect', async () => {
+    const transport = createWebSocketTransport({ url: 'wss://logs.example.com' })
+    transport.open()
+    const sent = transport.send(batch)
+
+    transport.close()
+    transport.close()
+
+    await expect(sent).rejects.toThrow()
+    expect(FakeWebSocket.instances[0]?.readyState).toBe(FakeWebSocket.CLOSED)
+  })
+
+  it('should stream batches from remoteLogger and send the last one before closing', async () => {
+    const transport = createWebSocketTransport({ url: 'wss://logs.example.com' })
+    const plugin = remoteLogger({ transport, batchSize: 2 })
+    plugin.install({} as Kernel)
+    FakeWebSocket.instances[0]?.accept()
+
+    for (const id of ['log-1', 'log-2', 'log-3']) plugin.hooks?.onLog?.(createMockLogEntry({ id }))
+    plugin.uninstall()
+
+    const sent = FakeWebSocket.instances[0]?.sent.map((body) => (JSON.parse(body) as LogEntry[]).map((e) => e.id))
+    expect(sent).toEqual([['log-1', 'log-2'], ['log-3']])
+    expect(FakeWebSocket.instances[0]?.readyState).toBe(FakeWebSocket.CLOSED)
+  })
+})
+
+describe('createCustomTransport', () => {
+  it('should pass transformed batches from remoteLogger to the callback and retry its failures', async () => {
+    const send = vi.fn().mockRejectedValueOnce(new Error('busy')).mockResolvedValue(undefined)
+    const plugin = remoteLogger({
+      transport: createCustomTransport(send),
+      retryDelay: 0,
+      transform: (entry) => ({ id: entry.id }),
+    })
+    plugin.install({} as Kernel)
+
+    const entry = createMockLogEntry({ id: 'log-1' })
+    plugin.hooks?.onLog?.(entry)
+    await plugin.api.flush()
+
+    expect(send).toHaveBeenCalledTimes(2)
+    expect(send).toHaveBeenLastCalledWith({ logs: [entry], body: '[{"id":"log-1"}]' })
+    expect(plugin.api.getFailedCount()).toBe(0)
+    plugin.uninstall()
+  })
+})
@@ -0,0 +1,192 @@
+import '../../setup-devtools-hook'
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import React, { memo, useState } from 'react'
+import { render, screen, fireEvent } from '@testing-library/react'
+import { ReactLogProvider } from '../../../src/react/provider'
+import { useLog } from '../../../src/react/hooks/use-log'
+import { renderChain } from '../../../src/plugins/optional/render-chain'
+import type { Kernel } from '../../../src/types'
+
+describe('renderChain plugin (fiber source)', () => {
+  let capturedKernel: Kernel | null = null
+
+  beforeEach(() => {
+    capturedKernel = null
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  function Leaf() {
+    const log = useLog('Leaf')
+    return <span data-testid="leaf-id">{log.componentId}</span>
+  }
+
+  const MemoizedLeaf = memo(function PureLeaf() {
+    return <span>pure</span>
+  })
+
+  function Counter() {
+    const log = useLog('Counter')
+    const [count, setCount] = useState(0)
+    const [showLeaf, setShowLeaf] = useState(true)
+    return (
+      <div>
+        <span data-testid="counter-id">{log.componentId}</span>
+        <button data-testid="increment" onClick={() => setCount((c) => c + 1)}>{count}</button>
+        <button data-testid="hide-leaf" onClick={() => setShowLeaf(false)}>hide</button>
+        {showLeaf && <Leaf />}
+        <MemoizedLeaf />
+      </div>
+    )
+  }
+
+  function Sibling() {
+    return <p>sibling</p>
+  }
+
+  function App({ showCounter = true }: { showCounter?: boolean }) {
+    return (
+      <main>
+        {showCounter && <Counter />}
+        <Sibling />
+      </main>
+    )
+  }
+
+  function renderApp(plugin = renderChain({ source: 'fiber' })) {
+    const result = render(
+      <ReactLogProvider plugins={[plugin]} onReady={(k) => { capturedKernel = k }}>
+        <App />
+      </ReactLogProvider>
+    )
+    return { plugin, ...result }
+  }
+
+  function nameOf(plugin: ReturnType<typeof renderChain>, id: string): string | undefined {
+    return plugin.api.getChain(id)?.componentName
+  }
+
+  it('should record mounted fibers with their owners', () => {
+    const { plugin } = renderApp()
+    const counterId = screen.getByTestId('counter-id').textContent ?? ''
+    const leafId = screen.getByTestId('leaf-id').textContent ?? ''
+
+    const commit = plugin.api.getLastCommit()
+    expect(commit?.rendered.map((id) => nameOf(plugin, id))).toEqual(
+      expect.arrayContaining(['App', 'Counter', 'Leaf', 'PureLeaf', 'Sibling'])
+    )
+    expect(plugin.api.getChain(leafId)).toMatchObject({ status: 'mounted', ownerId: counterId })
+    expect(plugin.api.getParent(leafId)).toBe(counterId)
+  })
+
+  it('should point the root cause at the component whose state changed', () => {
+    const { plugin } = renderApp()
+    const counterId = screen.getByTestId('counter-id').textContent ?? ''
+    const leafId = screen.getByTestId('leaf-id').textContent ?? ''
+
+    fireEvent.click(screen.getByTestId('increment'))
+
+    const commit = plugin.api.getLastCommit()
+    expect(commit?.rootCauses).toEqual([counterId])
+    expect(commit?.rendered).toEqual([counterId, leafId])
+    expect(commit?.bailedOut.map((id) => nameOf(plugin, id))).toEqual(
+      expect.arrayContaining(['App', 'PureLeaf', 'Sibling'])
+    )
+    expect(plugin.api.getRootCause(leafId)).toBe(counterId)
+    expect(plugin.api.getChain(counterId)).toMatchObject({ status: 'rendered', triggeredBy: null, depth: 0 })
+    expect(plugin.api.getChain(leafId)).toMatchObject({ status: 'rendered', triggeredBy: counterId, depth: 1 })
+  })
+
+  it('should warn about deep render chains', () => {
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    renderApp(renderChain({ source: 'fiber', maxDepth: 2 }))
+
+    expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('Deep render chain detected: Leaf at depth 3'))
+  })
+
+  it('should ignore timing-based lifecycle events', () => {
+    const { plugin } = renderApp()
+    const counterId = screen.getByTestId('counter-id').textContent ?? ''
+
+    plugin.hooks?.onUpdate?.({
+      type: 'update',
+      componentId: 'unrelated',
+      componentName: 'Unrelated',
+      timestamp: Date.now(),
+      reason: 'state',
+      renderCount: 2,
+    })
+    plugin.hooks?.onMount?.({
+      type: 'mount',
+      componentId: 'unrelated-2',
+      componentName: 'Unrelated',
+      timestamp: Date.now(),
+      props: {},
+      initialState: {},
+    })
+
+    expect(plugin.api.getChain('unrelated')).toBeNull()
+    expect(plugin.api.getParent(counterId)).not.toBe('unrelated')
+  })
+
+  it('should forget unmounted fibers', () => {
+    const plugin = renderChain({ source: 'fiber' })
+    const { rerender } = render(
+      <ReactLogProvider plugins={[plugin]}>
+        <App />
+      </ReactLogProvider>
+    )
+    const leafId = screen.getByTestId('leaf-id').textContent ?? ''
+
+    rerender(
+      <ReactLogProvider plugins={[plugin]}>
+        <App showCounter={false} />
+      </ReactLogProvider>
+    )
+
+    expect(plugin.api.getChain(leafId)).toBeNull()
+    expect(plugin.api.getParent(leafId)).toBeNull()
+  })
+
+  it('should drop unmounted fibers from the chain that triggered them', () => {
+    const { plugin } = renderApp()
+    const counterId = screen.getByTestId('counter-id').textContent ?? ''
+    const leafId = screen.getByTestId('leaf-id').textContent ?? ''
+
+    fireEvent.click(screen.getByTestId('increment'))
+    expect(plugin.api.getChain(counterId)?.triggered).toContain(leafId)
+
+    fireEvent.click(screen.getByTestId('hide-leaf'))
+
+    expect(plugin.api.getChain(leafId)).toBeNull()
+    expect(plugin.api.getChain(counterId)?.triggered).not.toContain(leafId)
+  })
+
+  it('should stop listening after uninstall', () => {
+    const { plugin } = renderApp()
+    capturedKernel?.unregister('render-chain')
+
+    fireEvent.click(screen.getByTestId('increment'))
+
+    expect(plugin.api.getLastCommit()).toBeNull()
+  })
+
+  it('should warn when no renderer is attached to the hook', () => {
+    const globalObject = globalThis as { __REACT_DEVTOOLS_GLOBAL_HOOK__?: unknown }
+    const realHook = globalObject.__REACT_DEVTOOLS_GLOBAL_HOOK__
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    delete globalObject.__REACT_DEVTOOLS_GLOBAL_HOOK__
+
+    try {
+      const plugin = renderChain({ source: 'fiber' })
+      plugin.install({} as Kernel)
+
+      expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('installDevToolsHookShim()'))
+      plugin.uninstall()
+    } finally {
+      globalObject.__REACT_DEVTOOLS_GLOBAL_HOOK__ = realHook
+    }
+  })
+})
@@ -77,6 +77,20 @@ describe('renderChain plugin', () => {
     expect(childChain?.triggeredBy).toBe('parent')
   })
 
+  it('should list tracked nodes', () => {
+    const plugin = renderChain()
+    plugin.install(mockKernel)
+
+    const now = Date.now()
+    plugin.hooks?.onMount?.({ componentId: 'parent', componentName: 'Parent', timestamp: now, props: {} })
+    plugin.hooks?.onMount?.({ componentId: 'child', componentName: 'Child', timestamp: now + 10, props: {} })
+
+    expect(plugin.api.getNodes().map((node) => [node.componentId, node.depth])).toEqual([
+      ['parent', 0],
+      ['child', 1],
+    ])
+  })
+
   it('should not link renders outside time window', () => {
     const plugin = renderChain()
     plugin.install(mockKernel)
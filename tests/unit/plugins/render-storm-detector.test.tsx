@@ -0,0 +1,421 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import React from 'react'
+import { render } from '@testing-library/react'
+import { renderStormDetector } from '../../../src/plugins/optional/render-storm-detector'
+import { createKernel } from '../../../src/kernel/kernel'
+import { consoleOutput } from '../../../src/plugins/core/console-output'
+import { ReactLogProvider } from '../../../src/react/provider'
+import { useLog } from '../../../src/react/hooks/use-log'
+import { useLoggedState } from '../../../src/react/hooks/use-logged-state'
+import { useLoggedEffect } from '../../../src/react/hooks/use-logged-effect'
+import type {
+  ConsoleOutputAPI,
+  EffectRunEvent,
+  Kernel,
+  LogEvent,
+  MountEvent,
+  Plugin,
+  StateChangeEvent,
+  UpdateEvent,
+} from '../../../src/types'
+
+function updateEvent(timestamp: number, componentId = 'comp-1'): UpdateEvent {
+  return {
+    type: 'update',
+    componentId,
+    componentName: 'Cart',
+    timestamp,
+    reason: 'state',
+    renderCount: 2,
+    changedKeys: [],
+  }
+}
+
+function stateEvent(timestamp: number, hookIndex = 0, componentId = 'comp-1'): StateChangeEvent {
+  return {
+    type: 'state-change',
+    componentId,
+    componentName: 'Cart',
+    timestamp,
+    hookIndex,
+    hookType: 'useState',
+    prevState: 0,
+    nextState: 1,
+  }
+}
+
+function mountEvent(componentId: string, parentId?: string): MountEvent {
+  return {
+    type: 'mount',
+    componentId,
+    componentName: 'Cart',
+    timestamp: 0,
+    props: {},
+    initialState: {},
+    ...(parentId && { parentId }),
+  }
+}
+
+function effectEvent(timestamp: number, dependenciesChanged = [0], effectIndex = 0): EffectRunEvent {
+  return {
+    type: 'effect-run',
+    componentId: 'comp-1',
+    componentName: 'Cart',
+    timestamp,
+    effectIndex,
+    dependencies: [1],
+    dependenciesChanged,
+  }
+}
+
+describe('renderStormDetector plugin', () => {
+  let mockKernel: Kernel
+
+  beforeEach(() => {
+    mockKernel = {
+      emit: vi.fn(),
+      getPlugin: vi.fn(),
+    } as unknown as Kernel
+  })
+
+  it('should create plugin with correct name and version', () => {
+    const plugin = renderStormDetector()
+    expect(plugin.name).toBe('render-storm-detector')
+    expect(plugin.version).toBe('1.0.0')
+    expect(plugin.type).toBe('optional')
+  })
+
+  describe('rate detection', () => {
+    it('should report a component exceeding the update limit once per cooldown', () => {
+      const plugin = renderStormDetector({ maxUpdates: 3, cooldownMs: 1000 })
+      plugin.install(mockKernel)
+
+      for (let i = 0; i < 3; i++) plugin.hooks?.onUpdate?.(updateEvent(1000 + i))
+      expect(plugin.api.getReports()).toHaveLength(0)
+
+      plugin.hooks?.onUpdate?.(updateEvent(1003))
+      plugin.hooks?.onUpdate?.(updateEvent(1004))
+
+      const reports = plugin.api.getReports()
+      expect(reports).toHaveLength(1)
+      expect(reports[0]).toMatchObject({
+        type: 'storm',
+        kind: 'update',
+        level: 'warn',
+        count: 4,
+        windowMs: 1000,
+        componentId: 'comp-1',
+        message: 'Render storm: Cart updated 4 times in 1000ms',
+      })
+      expect(mockKernel.emit).toHaveBeenCalledTimes(1)
+      expect(mockKernel.emit).toHaveBeenCalledWith(expect.objectContaining({
+        type: 'log',
+        level: 'warn',
+        componentId: 'comp-1',
+        message: 'Render storm: Cart updated 4 times in 1000ms',
+        tags: ['render-storm'],
+        data: reports[0],
+      }))
+
+      // Still storming after the cooldown
+      for (let i = 0; i < 4; i++) plugin.hooks?.onUpdate?.(updateEvent(2100 + i))
+      expect(plugin.api.getReports()).toHaveLength(2)
+    })
+
+    it('should measure rates over a sliding window', () => {
+      const plugin = renderStormDetector({ maxUpdates: 2, windowMs: 100 })
+      plugin.install(mockKernel)
+
+      plugin.hooks?.onUpdate?.(updateEvent(0))
+      plugin.hooks?.onUpdate?.(updateEvent(60))
+      plugin.hooks?.onUpdate?.(updateEvent(120))
+      plugin.hooks?.onUpdate?.(updateEvent(180))
+
+      expect(plugin.api.getReports()).toHaveLength(0)
+    })
+
+    it('should apply separate limits to state changes and effect runs', () => {
+      const plugin = renderStormDetector({ maxStateChanges: 1, maxEffectRuns: 1, loopThreshold: 100 })
+      plugin.install(mockKernel)
+
+      plugin.hooks?.onStateChange?.(stateEvent(0))
+      plugin.hooks?.onStateChange?.(stateEvent(1))
+      plugin.hooks?.onEffectRun?.(effectEvent(2, []))
+      plugin.hooks?.onEffectRun?.(effectEvent(3, []))
+
+      expect(plugin.api.getReports().map((r) => r.message)).toEqual([
+        'Render storm: Cart changed state 2 times in 1000ms',
+        'Render storm: Cart ran effects 2 times in 1000ms',
+      ])
+    })
+
+    it('should expose the current rate', () => {
+      vi.useFakeTimers()
+      vi.setSystemTime(10_000)
+      const plugin = renderStormDetector()
+      plugin.install(mockKernel)
+
+      plugin.hooks?.onUpdate?.(updateEvent(9_500))
+      plugin.hooks?.onUpdate?.(updateEvent(9_900))
+
+      expect(plugin.api.getRate('comp-1', 'update')).toBe(2)
+      expect(plugin.api.getRate('comp-1', 'effect-run')).toBe(0)
+      expect(plugin.api.getRate('unknown', 'update')).toBe(0)
+
+      vi.setSystemTime(10_600)
+      expect(plugin.api.getRate('comp-1', 'update')).toBe(1)
+      vi.setSystemTime(20_000)
+      expect(plugin.api.getRate('comp-1', 'update')).toBe(0)
+      vi.useRealTimers()
+    })
+
+    it('should forget components on unmount', () => {
+      const plugin = renderStormDetector({ maxUpdates: 1 })
+      plugin.install(mockKernel)
+
+      plugin.hooks?.onUpdate?.(updateEvent(0))
+      plugin.hooks?.onUnmount?.({
+        type: 'unmount',
+        componentId: 'comp-1',
+        componentName: 'Cart',
+        timestamp: 1,
+        lifetime: 1,
+      })
+      plugin.hooks?.onUpdate?.(updateEvent(2))
+
+      expect(plugin.api.getReports()).toHaveLength(0)
+    })
+  })
+
+  describe('loop detection', () => {
+    function runCycles(plugin: ReturnType<typeof renderStormDetector>, cycles: number, start = 0, step = 1): void {
+      plugin.hooks?.onEffectRun?.(effectEvent(start, []))
+      for (let i = 1; i <= cycles; i++) {
+        plugin.hooks?.onStateChange?.(stateEvent(start + i * step))
+        plugin.hooks?.onEffectRun?.(effectEvent(start + i * step))
+      }
+    }
+
+    it('should report effect → state → effect cycles as an error with the cycle', () => {
+      const plugin = renderStormDetector({ loopThreshold: 3 })
+      plugin.install(mockKernel)
+
+      runCycles(plugin, 2)
+      expect(plugin.api.getReports()).toHaveLength(0)
+
+      plugin.hooks?.onStateChange?.(stateEvent(3))
+      plugin.hooks?.onEffectRun?.(effectEvent(3))
+      plugin.hooks?.onStateChange?.(stateEvent(4))
+      plugin.hooks?.onEffectRun?.(effectEvent(4))
+
+      // Reported once per cooldown
+      expect(plugin.api.getReports()).toHaveLength(1)
+      const [loop] = plugin.api.getReports()
+      expect(loop).toMatchObject({
+        type: 'loop',
+        level: 'error',
+        count: 3,
+        message: 'Effect loop: Cart effect[0] → Cart state[0] → Cart effect[0] (3 cycles in 1000ms)',
+      })
+      expect(loop?.cycle).toEqual([
+        { type: 'effect-run', componentId: 'comp-1', componentName: 'Cart', index: 0, dependenciesChanged: [0] },
+        { type: 'state-change', componentId: 'comp-1', componentName: 'Cart', index: 0 },
+        { type: 'effect-run', componentId: 'comp-1', componentName: 'Cart', index: 0, dependenciesChanged: [0] },
+      ])
+      expect(mockKernel.emit).toHaveBeenCalledWith(expect.objectContaining({
+        type: 'log',
+        level: 'error',
+        tags: ['effect-loop'],
+      }))
+    })
+
+    it('should list each distinct state change between runs', () => {
+      const plugin = renderStormDetector({ loopThreshold: 1 })
+      plugin.install(mockKernel)
+
+      plugin.hooks?.onMount?.(mountEvent('comp-2', 'comp-1'))
+      plugin.hooks?.onMount?.(mountEvent('comp-3', 'comp-2'))
+      plugin.hooks?.onEffectRun?.(effectEvent(0, []))
+      plugin.hooks?.onStateChange?.(stateEvent(1, 0))
+      plugin.hooks?.onStateChange?.(stateEvent(1, 0))
+      plugin.hooks?.onStateChange?.(stateEvent(1, 2, 'comp-3'))
+      plugin.hooks?.onEffectRun?.(effectEvent(2))
+
+      expect(plugin.api.getReports()[0]?.message).toBe(
+        'Effect loop: Cart effect[0] → Cart state[0] → Cart state[2] → Cart effect[0] (1 cycles in 1000ms)'
+      )
+    })
+
+    it('should ignore state changes outside the effect component and its subtree', () => {
+      const plugin = renderStormDetector({ loopThreshold: 2 })
+      plugin.install(mockKernel)
+
+      plugin.hooks?.onMount?.(mountEvent('comp-1'))
+      plugin.hooks?.onMount?.(mountEvent('comp-2'))
+      plugin.hooks?.onMount?.(mountEvent('comp-3', 'comp-2'))
+      plugin.hooks?.onEffectRun?.(effectEvent(0, []))
+      for (let i = 1; i <= 5; i++) {
+        plugin.hooks?.onStateChange?.(stateEvent(i, 0, 'comp-2'))
+        plugin.hooks?.onStateChange?.(stateEvent(i, 0, 'comp-3'))
+        plugin.hooks?.onStateChange?.(stateEvent(i, 0, 'unknown'))
+        plugin.hooks?.onEffectRun?.(effectEvent(i))
+      }
+
+      expect(plugin.api.getReports()).toHaveLength(0)
+    })
+
+    it('should not count runs without changed dependencies or state changes', () => {
+      const plugin = renderStormDetector({ loopThreshold: 2 })
+      plugin.install(mockKernel)
+
+      plugin.hooks?.onEffectRun?.(effectEvent(0, []))
+      plugin.hooks?.onStateChange?.(stateEvent(1))
+      plugin.hooks?.onEffectRun?.(effectEvent(2, []))
+      plugin.hooks?.onEffectRun?.(effectEvent(3))
+      plugin.hooks?.onEffectRun?.(effectEvent(4))
+      plugin.hooks?.onStateChange?.(stateEvent(5))
+      plugin.hooks?.onEffectRun?.(effectEvent(6))
+
+      expect(plugin.api.getReports()).toHaveLength(0)
+    })
+
+    it('should ignore slow chains that do not reach the threshold within the window', () => {
+      const plugin = renderStormDetector({ loopThreshold: 3, windowMs: 100 })
+      plugin.install(mockKernel)
+
+      runCycles(plugin, 10, 0, 60)
+
+      expect(plugin.api.getReports()).toHaveLength(0)
+    })
+
+    it('should track effects of a component separately', () => {
+      const plugin = renderStormDetector({ loopThreshold: 2 })
+      plugin.install(mockKernel)
+
+      plugin.hooks?.onEffectRun?.(effectEvent(0, [], 0))
+      plugin.hooks?.onStateChange?.(stateEvent(1))
+      plugin.hooks?.onEffectRun?.(effectEvent(2, [0], 1))
+      plugin.hooks?.onStateChange?.(stateEvent(3))
+      plugin.hooks?.onEffectRun?.(effectEvent(4, [0], 1))
+
+      expect(plugin.api.getReports()).toHaveLength(0)
+    })
+
+    it('should pause console-output when pauseConsole is enabled', () => {
+      const pause = vi.fn()
+      vi.mocked(mockKernel.getPlugin).mockReturnValue({ api: { pause } } as unknown as Plugin)
+      const plugin = renderStormDetector({ loopThreshold: 1, pauseConsole: true })
+      plugin.install(mockKernel)
+
+      runCycles(plugin, 1)
+
+      expect(mockKernel.getPlugin).toHaveBeenCalledWith('console-output')
+      expect(pause).toHaveBeenCalledTimes(1)
+    })
+
+    it('should leave console-output running by default', () => {
+      const plugin = renderStormDetector({ loopThreshold: 1 })
+      plugin.install(mockKernel)
+
+      runCycles(plugin, 1)
+
+      expect(mockKernel.getPlugin).not.toHaveBeenCalled()
+    })
+
+    it('should tolerate a missing console-output plugin', () => {
+      const plugin = renderStormDetector({ loopThreshold: 1, pauseConsole: true })
+      plugin.install(mockKernel)
+
+      expect(() => runCycles(plugin, 1)).not.toThrow()
+      expect(plugin.api.getReports()).toHaveLength(1)
+    })
+  })
+
+  describe('reports', () => {
+    it('should filter reports by component, cap them and clear them', () => {
+      const plugin = renderStormDetector({ maxUpdates: 0, maxReports: 2, cooldownMs: 0 })
+      plugin.install(mockKernel)
+
+      plugin.hooks?.onUpdate?.(updateEvent(0, 'a'))
+      plugin.hooks?.onUpdate?.(updateEvent(1, 'b'))
+      plugin.hooks?.onUpdate?.(updateEvent(2, 'b'))
+
+      expect(plugin.api.getReports().map((r) => r.componentId)).toEqual(['b', 'b'])
+      expect(plugin.api.getReports('a')).toHaveLength(0)
+      expect(plugin.api.getReports('b')).toHaveLength(2)
+
+      plugin.api.clearReports()
+      expect(plugin.api.getReports()).toHaveLength(0)
+    })
+
+    it('should keep reports without a kernel and reset on uninstall', () => {
+      const plugin = renderStormDetector({ maxUpdates: 0 })
+
+      plugin.hooks?.onUpdate?.(updateEvent(0))
+      expect(plugin.api.getReports()).toHaveLength(1)
+
+      plugin.install(mockKernel)
+      plugin.uninstall()
+      expect(plugin.api.getReports()).toHaveLength(0)
+      expect(plugin.api.getRate('comp-1', 'update')).toBe(0)
+    })
+  })
+
+  describe('kernel integration', () => {
+    afterEach(() => {
+      vi.restoreAllMocks()
+    })
+
+    it('should log reports as entries and pause console output', () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {})
+      vi.spyOn(console, 'group').mockImplementation(() => {})
+      vi.spyOn(console, 'groupCollapsed').mockImplementation(() => {})
+      vi.spyOn(console, 'groupEnd').mockImplementation(() => {})
+      const kernel = createKernel()
+      const output = consoleOutput()
+      kernel.register(output)
+      kernel.register(renderStormDetector({ loopThreshold: 2, pauseConsole: true }))
+
+      kernel.emit(effectEvent(0, []))
+      kernel.emit(stateEvent(1))
+      kernel.emit(effectEvent(2))
+      expect((output.api as unknown as ConsoleOutputAPI).isPaused()).toBe(false)
+
+      kernel.emit(stateEvent(3))
+      kernel.emit(effectEvent(4))
+
+      const loops = kernel.getLogs().entries.filter((entry) => entry.event.type === 'log')
+      expect(loops).toHaveLength(1)
+      expect(loops[0]?.level).toBe('error')
+      expect((loops[0]?.event as LogEvent).message).toBe(
+        'Effect loop: Cart effect[0] → Cart state[0] → Cart effect[0] (2 cycles in 1000ms)'
+      )
+      expect((output.api as unknown as ConsoleOutputAPI).isPaused()).toBe(true)
+    })
+
+    it('should detect an effect that keeps setting its own dependency', () => {
+      const detector = renderStormDetector({ loopThreshold: 5 })
+
+      function Counter(): React.ReactElement {
+        const log = useLog('Counter')
+        const [count, setCount] = useLoggedState(0, log)
+
+        useLoggedEffect(() => {
+          if (count < 10) setCount(count + 1)
+        }, [count], log)
+
+        return <span>{count}</span>
+      }
+
+      render(
+        <ReactLogProvider plugins={[detector]} options={{ logLevel: 'warn' }}>
+          <Counter />
+        </ReactLogProvider>
+      )
+
+      const [loop] = detector.api.getReports()
+      expect(loop?.type).toBe('loop')
+      expect(loop?.message).toMatch(/^Effect loop: Counter effect\[0\] → Counter state\[0\] → Counter effect\[0\]/)
+    })
+  })
+})
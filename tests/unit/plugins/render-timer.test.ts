@@ -91,6 +91,12 @@ describe('renderTimer plugin', () => {
       min: 0,
       max: 0,
       last: 0,
+      p50: 0,
+      p75: 0,
+      p95: 0,
+      p99: 0,
+      stdDev: 0,
+      histogram: [1, 2, 4, 8, 16, 33, 50, 100, '+Inf'].map((le) => ({ le, count: 0 })),
     })
   })
 
@@ -279,4 +285,173 @@ describe('renderTimer plugin', () => {
     const stats = plugin.api.getRenderTime('comp-1')
     expect(stats.count).toBeGreaterThanOrEqual(1)
   })
+
+  it('should ignore lifecycle events in profiler mode', () => {
+    const plugin = renderTimer({ mode: 'profiler' })
+    plugin.install(mockKernel)
+
+    const now = Date.now()
+    plugin.hooks?.onMount?.({
+      componentId: 'comp-1',
+      componentName: 'TestComponent',
+      timestamp: now - 100,
+      props: {},
+      initialState: {},
+      type: 'mount',
+    })
+    plugin.hooks?.onUpdate?.({
+      componentId: 'comp-1',
+      componentName: 'TestComponent',
+      timestamp: now,
+      reason: 'state',
+      renderCount: 2,
+      type: 'update',
+    })
+
+    expect(plugin.api.getRenderTime('comp-1').count).toBe(0)
+  })
+
+  it('should record profiler measurements', () => {
+    const plugin = renderTimer({ mode: 'profiler', warnThreshold: 1, errorThreshold: 50 })
+    plugin.install(mockKernel)
+
+    plugin.api.recordProfile({
+      componentId: 'List',
+      componentName: 'List',
+      duration: 2.5,
+      timestamp: Date.now(),
+      source: 'profiler',
+      phase: 'update',
+      actualDuration: 2.5,
+      baseDuration: 4,
+      startTime: 100,
+      commitTime: 103,
+    })
+
+    expect(plugin.api.getRenderTime('List')).toMatchObject({ count: 1, last: 2.5 })
+    expect(plugin.api.getSlowestRenders(1)[0]).toMatchObject({ phase: 'update', baseDuration: 4, commitTime: 103 })
+    expect(consoleDebugSpy).toHaveBeenCalledWith(expect.stringContaining('List took 2.50ms'))
+  })
+
+  it('should notify render listeners until they unsubscribe', () => {
+    const plugin = renderTimer({ mode: 'profiler' })
+    plugin.install(mockKernel)
+    const listener = vi.fn()
+    const record = { componentId: 'List', componentName: 'List', duration: 2, timestamp: Date.now() }
+
+    const unsubscribe = plugin.api.onRender(listener)
+    plugin.api.recordProfile(record)
+    unsubscribe()
+    plugin.api.recordProfile(record)
+
+    expect(listener).toHaveBeenCalledTimes(1)
+    expect(listener).toHaveBeenCalledWith(record)
+  })
+
+  describe('statistics', () => {
+    function profile(
+      plugin: ReturnType<typeof renderTimer>,
+      componentId: string,
+      componentName: string,
+      duration: number
+    ) {
+      plugin.api.recordProfile({ componentId, componentName, duration, timestamp: Date.now(), source: 'profiler' })
+    }
+
+    it('should compute percentiles and standard deviation', () => {
+      const plugin = renderTimer({ mode: 'profiler', warnThreshold: 1000, errorThreshold: 1000 })
+      for (let i = 1; i <= 100; i++) {
+        profile(plugin, 'list-1', 'List', i)
+      }
+
+      const stats = plugin.api.getRenderTime('list-1')
+      expect(stats.count).toBe(100)
+      expect(stats.average).toBe(50.5)
+      expect(stats.p50).toBeCloseTo(50.5)
+      expect(stats.p75).toBeCloseTo(75.25)
+      expect(stats.p95).toBeCloseTo(95.05)
+      expect(stats.p99).toBeCloseTo(99.01)
+      expect(stats.stdDev).toBeCloseTo(28.866, 2)
+    })
+
+    it('should bucket durations into a histogram with an overflow bucket', () => {
+      const plugin = renderTimer({ mode: 'profiler', histogramBuckets: [16, 4], warnThreshold: 1000, errorThreshold: 1000 })
+      for (const duration of [1, 4, 5, 16, 17, 200]) {
+        profile(plugin, 'list-1', 'List', duration)
+      }
+
+      expect(plugin.api.getRenderTime('list-1').histogram).toEqual([
+        { le: 4, count: 2 },
+        { le: 16, count: 2 },
+        { le: '+Inf', count: 2 },
+      ])
+      expect(JSON.parse(JSON.stringify(plugin.api.getRenderTime('list-1').histogram))[2]).toEqual({ le: '+Inf', count: 2 })
+    })
+
+    it('should keep memory bounded with a reservoir sample', () => {
+      const plugin = renderTimer({ mode: 'profiler', sampleSize: 10, warnThreshold: 1e6, errorThreshold: 1e6 })
+      for (let i = 1; i <= 5000; i++) {
+        profile(plugin, 'list-1', 'List', i)
+      }
+
+      const stats = plugin.api.getRenderTime('list-1')
+      expect(stats.count).toBe(5000)
+      expect(stats.min).toBe(1)
+      expect(stats.max).toBe(5000)
+      expect(stats.p99).toBeLessThanOrEqual(5000)
+      expect(stats.histogram.reduce((sum, bucket) => sum + bucket.count, 0)).toBe(5000)
+    })
+
+    it('should aggregate stats per component name', () => {
+      const plugin = renderTimer({ mode: 'profiler' })
+      profile(plugin, 'row-1', 'Row', 2)
+      profile(plugin, 'row-2', 'Row', 4)
+      profile(plugin, 'list-1', 'List', 10)
+
+      expect(plugin.api.getRenderTimeByName('Row')).toMatchObject({ count: 2, total: 6, min: 2, max: 4, p50: 3 })
+      expect(plugin.api.getRenderTimeByName('Unknown').count).toBe(0)
+
+      plugin.uninstall()
+      expect(plugin.api.getRenderTimeByName('Row').count).toBe(0)
+    })
+
+    it('should list renders over budget in recording order', () => {
+      const plugin = renderTimer({ mode: 'profiler' })
+      profile(plugin, 'a', 'A', 20)
+      profile(plugin, 'b', 'B', 8)
+      profile(plugin, 'c', 'C', 16)
+      profile(plugin, 'd', 'D', 17)
+
+      expect(plugin.api.getRenderBudgetViolations(16).map((r) => r.componentId)).toEqual(['a', 'd'])
+    })
+
+    it('should keep the slowest renders of each component past the global record limit', () => {
+      const plugin = renderTimer({ mode: 'profiler', maxSlowRenders: 2, warnThreshold: 1e6, errorThreshold: 1e6 })
+      profile(plugin, 'a', 'A', 20)
+      profile(plugin, 'a', 'A', 30)
+      profile(plugin, 'a', 'A', 10)
+      profile(plugin, 'a', 'A', 25)
+      for (let i = 0; i < 1500; i++) {
+        profile(plugin, 'b', 'B', 1)
+      }
+      profile(plugin, 'b', 'B', 40)
+
+      expect(plugin.api.getRenders().some((r) => r.componentId === 'a')).toBe(false)
+      expect(plugin.api.getRenderBudgetViolations(16).map((r) => [r.componentId, r.duration])).toEqual([
+        ['a', 30],
+        ['a', 25],
+        ['b', 40],
+      ])
+    })
+
+    it('should list all renders in recording order as a copy', () => {
+      const plugin = renderTimer({ mode: 'profiler' })
+      profile(plugin, 'a', 'A', 20)
+      profile(plugin, 'b', 'B', 8)
+
+      const renders = plugin.api.getRenders()
+      renders.pop()
+      expect(plugin.api.getRenders().map((r) => r.componentId)).toEqual(['a', 'b'])
+    })
+  })
 })
@@ -0,0 +1,295 @@
+import { describe, it, expect } from 'vitest'
+import React, { useState } from 'react'
+import { render, fireEvent, screen } from '@testing-library/react'
+import { wastedRenders } from '../../../src/plugins/optional/wasted-renders'
+import { ReactLogProvider } from '../../../src/react/provider'
+import { withLog } from '../../../src/react/hoc/with-log'
+import type { Kernel, PropChange, PropsChangeEvent, UpdateEvent, UpdateReason } from '../../../src/types'
+
+function propsEvent(changes: PropChange[], componentId = 'row-1', componentName = 'Row'): PropsChangeEvent {
+  return { type: 'props-change', componentId, componentName, timestamp: 100, changes }
+}
+
+function updateEvent(
+  reason: UpdateReason = 'parent',
+  componentId = 'row-1',
+  componentName = 'Row',
+  timestamp = 100
+): UpdateEvent {
+  return { type: 'update', componentId, componentName, timestamp, reason, renderCount: 2, changedKeys: [] }
+}
+
+function equalChange(key: string, value: unknown): PropChange {
+  return { key, prevValue: value, nextValue: value, isDeepEqual: true }
+}
+
+describe('wastedRenders plugin', () => {
+  it('should create plugin with correct name and version', () => {
+    const plugin = wastedRenders()
+    expect(plugin.name).toBe('wasted-renders')
+    expect(plugin.version).toBe('1.0.0')
+    expect(plugin.type).toBe('optional')
+    expect(() => plugin.install({} as Kernel)).not.toThrow()
+  })
+
+  it('should flag updates whose changed props were all deep-equal', () => {
+    const plugin = wastedRenders()
+
+    plugin.hooks?.onPropsChange?.(propsEvent([equalChange('onSelect', () => undefined), equalChange('style', {})]))
+    plugin.hooks?.onUpdate?.(updateEvent('parent', 'row-1', 'Row', 150))
+
+    expect(plugin.api.getTotalWasted()).toBe(1)
+    expect(plugin.api.getWastedRenders()).toEqual([
+      expect.objectContaining({
+        componentId: 'row-1',
+        componentName: 'Row',
+        timestamp: 150,
+        renderCount: 2,
+        props: ['onSelect', 'style'],
+      }),
+    ])
+    expect(plugin.api.getStats('Row')).toEqual({
+      componentName: 'Row',
+      instances: 1,
+      updates: 1,
+      wastedRenders: 1,
+      possiblyWasted: 0,
+      lastWastedAt: 150,
+      props: [
+        { key: 'onSelect', kind: 'callback', count: 1, suggestion: 'onSelect is an inline callback; wrap it in useCallback' },
+        { key: 'style', kind: 'object', count: 1, suggestion: 'style is an object literal; memoize it with useMemo or move it out of render' },
+      ],
+    })
+  })
+
+  it('should not flag updates with a real prop change', () => {
+    const plugin = wastedRenders()
+
+    plugin.hooks?.onPropsChange?.(propsEvent([
+      equalChange('style', {}),
+      { key: 'label', prevValue: 'a', nextValue: 'b', isDeepEqual: false },
+    ]))
+    plugin.hooks?.onUpdate?.(updateEvent('props'))
+
+    expect(plugin.api.getTotalWasted()).toBe(0)
+    expect(plugin.api.getStats('Row')).toMatchObject({ updates: 1, wastedRenders: 0, props: [] })
+  })
+
+  it('should report callbacks recreated from the same source as possibly wasted only', () => {
+    const plugin = wastedRenders()
+    const create = () => () => undefined
+    const callback = (prevValue: unknown, nextValue: unknown): PropChange =>
+      ({ key: 'onSelect', prevValue, nextValue, isDeepEqual: false })
+
+    plugin.hooks?.onPropsChange?.(propsEvent([callback(create(), create()), equalChange('style', {})]))
+    plugin.hooks?.onUpdate?.(updateEvent('props', 'row-1', 'Row', 150))
+    plugin.hooks?.onPropsChange?.(propsEvent([callback(() => 1, () => 2)]))
+    plugin.hooks?.onUpdate?.(updateEvent('props'))
+    plugin.hooks?.onPropsChange?.(propsEvent([callback(create(), 'select')]))
+    plugin.hooks?.onUpdate?.(updateEvent('props'))
+
+    expect(plugin.api.getTotalWasted()).toBe(0)
+    expect(plugin.api.getWastedRenders()).toEqual([
+      expect.objectContaining({ timestamp: 150, props: ['onSelect', 'style'], possible: true }),
+    ])
+    expect(plugin.api.getStats('Row')).toMatchObject({
+      updates: 3,
+      wastedRenders: 0,
+      possiblyWasted: 1,
+      lastWastedAt: 150,
+      props: [
+        expect.objectContaining({ key: 'onSelect', kind: 'callback', count: 1 }),
+        expect.objectContaining({ key: 'style', kind: 'object', count: 1 }),
+      ],
+    })
+  })
+
+  it('should not flag updates caused by state or context', () => {
+    const plugin = wastedRenders()
+
+    plugin.hooks?.onPropsChange?.(propsEvent([equalChange('style', {})]))
+    plugin.hooks?.onUpdate?.(updateEvent('state'))
+    plugin.hooks?.onPropsChange?.(propsEvent([equalChange('style', {})]))
+    plugin.hooks?.onUpdate?.(updateEvent('context'))
+
+    expect(plugin.api.getTotalWasted()).toBe(0)
+  })
+
+  it('should not flag updates without props changes', () => {
+    const plugin = wastedRenders()
+
+    plugin.hooks?.onUpdate?.(updateEvent())
+
+    expect(plugin.api.getTotalWasted()).toBe(0)
+    expect(plugin.api.getStats('Row')?.updates).toBe(1)
+    expect(plugin.api.getStats('Missing')).toBeNull()
+  })
+
+  it('should attribute props changes to the next update of the same component only', () => {
+    const plugin = wastedRenders()
+
+    plugin.hooks?.onPropsChange?.(propsEvent([equalChange('items', [1])]))
+    plugin.hooks?.onPropsChange?.(propsEvent([equalChange('items', [1])]))
+    plugin.hooks?.onUpdate?.(updateEvent('parent', 'row-2'))
+    plugin.hooks?.onUpdate?.(updateEvent())
+    plugin.hooks?.onUpdate?.(updateEvent())
+
+    expect(plugin.api.getWastedRenders('row-1')).toHaveLength(1)
+    expect(plugin.api.getWastedRenders('row-2')).toHaveLength(0)
+    expect(plugin.api.getStats('Row')).toMatchObject({
+      instances: 2,
+      updates: 3,
+      wastedRenders: 1,
+      props: [{
+        key: 'items',
+        kind: 'array',
+        count: 2,
+        suggestion: 'items is an array literal; memoize it with useMemo or move it out of render',
+      }],
+    })
+  })
+
+  it('should drop pending changes on mount and unmount', () => {
+    const plugin = wastedRenders()
+
+    plugin.hooks?.onPropsChange?.(propsEvent([{ key: 'style', prevValue: undefined, nextValue: {}, isDeepEqual: false }]))
+    plugin.hooks?.onMount?.({ type: 'mount', componentId: 'row-1', componentName: 'Row', timestamp: 100, props: {}, initialState: {} })
+    plugin.hooks?.onPropsChange?.(propsEvent([equalChange('style', {})]))
+    plugin.hooks?.onUpdate?.(updateEvent())
+    expect(plugin.api.getTotalWasted()).toBe(1)
+
+    plugin.hooks?.onPropsChange?.(propsEvent([equalChange('style', {})]))
+    plugin.hooks?.onUnmount?.({ type: 'unmount', componentId: 'row-1', componentName: 'Row', timestamp: 100, lifetime: 10 })
+    plugin.hooks?.onUpdate?.(updateEvent())
+
+    expect(plugin.api.getTotalWasted()).toBe(1)
+  })
+
+  it('should count remounted instances without keeping unmounted ids', () => {
+    const plugin = wastedRenders()
+
+    for (let i = 0; i < 100; i++) {
+      plugin.hooks?.onUpdate?.(updateEvent('parent', `row-${i}`))
+      plugin.hooks?.onUpdate?.(updateEvent('parent', `row-${i}`))
+      plugin.hooks?.onUnmount?.({ type: 'unmount', componentId: `row-${i}`, componentName: 'Row', timestamp: 100, lifetime: 10 })
+    }
+    expect(plugin.api.getStats('Row')).toMatchObject({ instances: 100, updates: 200 })
+
+    // An id seen before counts again once it was unmounted
+    plugin.hooks?.onUpdate?.(updateEvent('parent', 'row-0'))
+    plugin.hooks?.onUpdate?.(updateEvent('parent', 'row-0'))
+    expect(plugin.api.getStats('Row')).toMatchObject({ instances: 101, updates: 202 })
+
+    plugin.hooks?.onUnmount?.({ type: 'unmount', componentId: 'cell-1', componentName: 'Cell', timestamp: 100, lifetime: 10 })
+    expect(plugin.api.getStats('Cell')).toBeNull()
+  })
+
+  it('should rank components by wasted renders and props by count', () => {
+    const plugin = wastedRenders()
+    const waste = (componentName: string, keys: string[], value: unknown = {}): void => {
+      plugin.hooks?.onPropsChange?.(propsEvent(keys.map((key) => equalChange(key, value)), componentName, componentName))
+      plugin.hooks?.onUpdate?.(updateEvent('parent', componentName, componentName))
+    }
+
+    waste('Header', ['style'])
+    waste('Row', ['style', 'onSelect'])
+    waste('Row', ['onSelect'], () => undefined)
+    waste('Footer', ['style'])
+    plugin.hooks?.onUpdate?.(updateEvent('parent', 'Clean', 'Clean'))
+    for (const componentName of ['Menu', 'Header']) {
+      plugin.hooks?.onPropsChange?.(propsEvent([
+        { key: 'onOpen', prevValue: () => undefined, nextValue: () => undefined, isDeepEqual: false },
+      ], componentName, componentName))
+      plugin.hooks?.onUpdate?.(updateEvent('parent', componentName, componentName))
+    }
+
+    const ranking = plugin.api.getRanking()
+    expect(ranking.map((stats) => [stats.componentName, stats.wastedRenders, stats.possiblyWasted])).toEqual([
+      ['Row', 2, 0],
+      ['Header', 1, 1],
+      ['Footer', 1, 0],
+      ['Menu', 0, 1],
+    ])
+    // The latest value decides the kind
+    expect(ranking[0]?.props.map((prop) => [prop.key, prop.kind, prop.count])).toEqual([
+      ['onSelect', 'callback', 2],
+      ['style', 'object', 1],
+    ])
+  })
+
+  it('should cap records and clear state', () => {
+    const plugin = wastedRenders({ maxRecords: 2 })
+
+    for (let i = 0; i < 3; i++) {
+      plugin.hooks?.onPropsChange?.(propsEvent([equalChange('style', {})]))
+      plugin.hooks?.onUpdate?.(updateEvent('parent', 'row-1', 'Row', i))
+    }
+
+    expect(plugin.api.getWastedRenders().map((record) => record.timestamp)).toEqual([1, 2])
+    expect(plugin.api.getTotalWasted()).toBe(3)
+
+    plugin.api.clear()
+    expect(plugin.api.getRanking()).toEqual([])
+    expect(plugin.api.getWastedRenders()).toEqual([])
+    expect(plugin.api.getTotalWasted()).toBe(0)
+
+    plugin.hooks?.onPropsChange?.(propsEvent([equalChange('style', {})]))
+    plugin.uninstall()
+    plugin.hooks?.onUpdate?.(updateEvent())
+    expect(plugin.api.getTotalWasted()).toBe(0)
+  })
+
+  describe('react integration', () => {
+    const Row = withLog(
+      ({ label }: { label: string; style: { bold: boolean }; onSelect: () => void }) => <span>{label}</span>,
+      { name: 'Row' }
+    )
+    const Badge = withLog(({ style }: { style: { bold: boolean } }) => <b style={style} />, { name: 'Badge' })
+
+    function List() {
+      const [tick, setTick] = useState(0)
+      const [label, setLabel] = useState('a')
+      return (
+        <div>
+          <button data-testid="tick" onClick={() => setTick(tick + 1)}>tick</button>
+          <button data-testid="relabel" onClick={() => setLabel(label + 'a')}>relabel</button>
+          <Row label={label} style={{ bold: true }} onSelect={() => setTick(0)} />
+          <Badge style={{ bold: true }} />
+        </div>
+      )
+    }
+
+    it('should find inline props that re-render a child with equal values', () => {
+      const plugin = wastedRenders()
+      render(
+        <ReactLogProvider plugins={[plugin]}>
+          <List />
+        </ReactLogProvider>
+      )
+
+      fireEvent.click(screen.getByTestId('tick'))
+      fireEvent.click(screen.getByTestId('tick'))
+      fireEvent.click(screen.getByTestId('relabel'))
+
+      expect(plugin.api.getRanking()).toEqual([
+        expect.objectContaining({
+          componentName: 'Badge',
+          updates: 3,
+          wastedRenders: 3,
+          possiblyWasted: 0,
+          props: [expect.objectContaining({ key: 'style', kind: 'object', count: 3 })],
+        }),
+        expect.objectContaining({
+          componentName: 'Row',
+          updates: 3,
+          wastedRenders: 0,
+          possiblyWasted: 2,
+          props: [
+            expect.objectContaining({ key: 'onSelect', kind: 'callback', count: 2 }),
+            expect.objectContaining({ key: 'style', kind: 'object', count: 2 }),
+          ],
+        }),
+      ])
+    })
+  })
+})
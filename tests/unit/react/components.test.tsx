@@ -4,7 +4,10 @@ import { render, screen, fireEvent, act } from '@testing-library/react'
 import { ReactLogProvider } from '../../../src/react/provider'
 import { Log, createLogWrapper } from '../../../src/react/components/log'
 import { DebugPanel } from '../../../src/react/components/debug-panel'
-import type { Kernel } from '../../../src/types'
+import { LogScope } from '../../../src/react/components/log-scope'
+import { withLog } from '../../../src/react/hoc/with-log'
+import { useLog } from '../../../src/react/hooks/use-log'
+import type { ComponentTreeNode, Kernel } from '../../../src/types'
 
 describe('Log Component', () => {
   let capturedKernel: Kernel | null = null
@@ -78,8 +81,12 @@ describe('Log Component', () => {
     })
 
     const logs = capturedKernel?.getLogs()
-    const propsEvent = logs?.entries.find(e => e.event.type === 'props-change')
-    expect(propsEvent).toBeDefined()
+    const events = logs?.entries
+      .map(e => e.event)
+      .filter(e => e.type === 'mount' || e.type === 'props-change')
+    // The mount carries the initial props; only the rerender logs a props-change
+    expect(events?.map(e => e.type)).toEqual(['mount', 'props-change'])
+    expect(events?.[0]).toMatchObject({ props: { value: 'First' } })
   })
 
   it('should respect trackProps=false', async () => {
@@ -398,3 +405,59 @@ describe('DebugPanel', () => {
     expect(closeFn).toHaveBeenCalled()
   })
 })
+
+describe('component hierarchy', () => {
+  let capturedKernel: Kernel | null = null
+
+  beforeEach(() => {
+    capturedKernel = null
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  function Row() {
+    useLog('Row')
+    return <li>row</li>
+  }
+
+  function List() {
+    const { componentId, parentId } = useLog('List')
+    return (
+      <LogScope componentId={componentId}>
+        <ul data-parent={parentId ?? 'none'}>
+          <Row />
+        </ul>
+      </LogScope>
+    )
+  }
+
+  const Page = withLog(() => <List />, { name: 'Page' })
+
+  it('should record the nearest tracked ancestor on mount', async () => {
+    const { container } = render(
+      <ReactLogProvider onReady={(k) => { capturedKernel = k }}>
+        <Log name="App">
+          <Page />
+        </Log>
+        <Row />
+      </ReactLogProvider>
+    )
+
+    await act(async () => {
+      await vi.runAllTimersAsync()
+    })
+
+    const shape = (nodes: ComponentTreeNode[]): unknown[] =>
+      nodes.map((node) => ({ [node.componentName]: shape(node.children) }))
+    expect(shape(capturedKernel?.getComponentTree() ?? [])).toEqual([
+      { App: [{ Page: [{ List: [{ Row: [] }] }] }] },
+      { Row: [] },
+    ])
+
+    const page = capturedKernel?.getLogs().entries.find((e) => e.componentName === 'Page')
+    expect(container.querySelector('ul')?.dataset['parent']).toBe(page?.componentId)
+  })
+})
@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import React, { useState } from 'react'
+import { render, screen, fireEvent } from '@testing-library/react'
+import { ReactLogProvider } from '../../../src/react/provider'
+import { LogProfiler } from '../../../src/react/components/log-profiler'
+import { renderTimer } from '../../../src/plugins/optional/render-timer'
+import type { Kernel } from '../../../src/types'
+
+describe('LogProfiler', () => {
+  let capturedKernel: Kernel | null = null
+
+  beforeEach(() => {
+    capturedKernel = null
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  function Counter() {
+    const [count, setCount] = useState(0)
+    return <button data-testid="increment" onClick={() => setCount((c) => c + 1)}>{count}</button>
+  }
+
+  function renderProfiled(timer = renderTimer({ mode: 'profiler' })) {
+    render(
+      <ReactLogProvider plugins={[timer]} onReady={(k) => { capturedKernel = k }}>
+        <LogProfiler id="Counter">
+          <Counter />
+        </LogProfiler>
+      </ReactLogProvider>
+    )
+    return timer
+  }
+
+  it('should render children', () => {
+    render(
+      <LogProfiler id="Counter">
+        <Counter />
+      </LogProfiler>
+    )
+    expect(screen.getByTestId('increment').textContent).toBe('0')
+  })
+
+  it('should record Profiler measurements for mount and update', () => {
+    const timer = renderProfiled()
+
+    fireEvent.click(screen.getByTestId('increment'))
+
+    const records = timer.api.getSlowestRenders(10)
+    expect(records).toHaveLength(2)
+    expect(records.map((r) => r.phase).sort()).toEqual(['mount', 'update'])
+    for (const record of records) {
+      expect(record).toMatchObject({ componentId: 'Counter', componentName: 'Counter', source: 'profiler' })
+      expect(record.duration).toBe(record.actualDuration)
+      expect(typeof record.baseDuration).toBe('number')
+      expect(record.commitTime).toBeGreaterThanOrEqual(record.startTime ?? 0)
+    }
+    expect(timer.api.getRenderTime('Counter').count).toBe(2)
+  })
+
+  it('should not mix in estimated durations in profiler mode', () => {
+    const timer = renderProfiled()
+
+    fireEvent.click(screen.getByTestId('increment'))
+
+    expect(timer.api.getSlowestRenders().every((r) => r.source === 'profiler')).toBe(true)
+  })
+
+  it('should fall back to performance.now() when the Profiler never reports', () => {
+    const Passthrough = ({ children }: { children?: React.ReactNode }) => <>{children}</>
+    vi.spyOn(React, 'Profiler', 'get').mockReturnValue(Passthrough as unknown as typeof React.Profiler)
+    const timer = renderProfiled()
+
+    fireEvent.click(screen.getByTestId('increment'))
+
+    const records = timer.api.getSlowestRenders()
+    expect(records).toHaveLength(1)
+    expect(records[0]).toMatchObject({ componentId: 'Counter', source: 'performance', phase: 'mount' })
+    expect(records[0]?.baseDuration).toBeUndefined()
+  })
+
+  it('should fall back when React has no Profiler', () => {
+    vi.spyOn(React, 'Profiler', 'get').mockReturnValue(undefined as unknown as typeof React.Profiler)
+    const timer = renderProfiled()
+
+    expect(screen.getByTestId('increment').textContent).toBe('0')
+    expect(timer.api.getSlowestRenders()).toEqual([
+      expect.objectContaining({ source: 'performance', phase: 'mount' }),
+    ])
+  })
+
+  it('should not report without the render-timer plugin or when disabled', () => {
+    render(
+      <ReactLogProvider onReady={(k) => { capturedKernel = k }}>
+        <LogProfiler id="Counter">
+          <Counter />
+        </LogProfiler>
+      </ReactLogProvider>
+    )
+    expect(capturedKernel?.getPlugin('render-timer')).toBeUndefined()
+
+    const timer = renderTimer({ mode: 'profiler' })
+    render(
+      <ReactLogProvider enabled={false} plugins={[timer]}>
+        <LogProfiler id="Disabled">
+          <Counter />
+        </LogProfiler>
+      </ReactLogProvider>
+    )
+    expect(timer.api.getSlowestRenders()).toHaveLength(0)
+  })
+})
@@ -3,6 +3,7 @@ import React from 'react'
 import { render, screen } from '@testing-library/react'
 import { ReactLogProvider } from '../../../src/react/provider'
 import { useLogContext, useOptionalLogContext } from '../../../src/react/context'
+import { createMemoryStorage } from '../../../src/kernel/memory-storage'
 import type { Kernel } from '../../../src/types'
 
 describe('ReactLogProvider', () => {
@@ -93,6 +94,56 @@ describe('ReactLogProvider', () => {
     expect(customPlugin.install).toHaveBeenCalled()
     expect(capturedKernel?.getPlugin('custom-plugin')).toBeDefined()
   })
+
+  it('should install middleware', () => {
+    let capturedKernel: Kernel | null = null
+
+    render(
+      <ReactLogProvider
+        middleware={[{ name: 'route', event: (event, next) => next({ ...event, meta: { route: '/home' } }) }]}
+        onReady={(k) => { capturedKernel = k }}
+      >
+        <div>Test</div>
+      </ReactLogProvider>
+    )
+
+    capturedKernel?.emit({ type: 'mount', componentId: 'c1', componentName: 'Home', timestamp: Date.now(), props: {}, initialState: {} })
+
+    expect(capturedKernel?.getLogs().entries[0]?.event.meta).toEqual({ route: '/home' })
+  })
+
+  it('should pass sampling options to the kernel', () => {
+    let capturedKernel: Kernel | null = null
+    const sampling = { rates: { update: 0 }, summaryInterval: 0 }
+
+    render(
+      <ReactLogProvider options={{ sampling }} onReady={(k) => { capturedKernel = k }}>
+        <div>Test</div>
+      </ReactLogProvider>
+    )
+
+    capturedKernel?.emit({ type: 'update', componentId: 'c1', componentName: 'Home', timestamp: Date.now(), reason: 'parent', renderCount: 2, changedKeys: [] })
+
+    expect(capturedKernel?.getOptions().sampling).toBe(sampling)
+    expect(capturedKernel?.getLogs().entries).toHaveLength(0)
+  })
+
+  it('should persist logs through the configured storage', async () => {
+    let capturedKernel: Kernel | null = null
+    const storage = createMemoryStorage()
+
+    render(
+      <ReactLogProvider options={{ persistence: { storage } }} onReady={(k) => { capturedKernel = k }}>
+        <div>Test</div>
+      </ReactLogProvider>
+    )
+
+    capturedKernel?.emit({ type: 'mount', componentId: 'c1', componentName: 'Home', timestamp: Date.now(), props: {}, initialState: {} })
+    await capturedKernel?.flushLogs()
+
+    const [session] = await storage.listSessions()
+    expect(session?.entryCount).toBe(1)
+  })
 })
 
 describe('useLogContext', () => {
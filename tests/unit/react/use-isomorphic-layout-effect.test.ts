@@ -0,0 +1,22 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { useEffect, useLayoutEffect } from 'react'
+
+describe('useIsomorphicLayoutEffect', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.resetModules()
+  })
+
+  it('should use useLayoutEffect in the browser', async () => {
+    const { useIsomorphicLayoutEffect } = await import('../../../src/react/hooks/use-isomorphic-layout-effect')
+    expect(useIsomorphicLayoutEffect).toBe(useLayoutEffect)
+  })
+
+  it('should use useEffect without a window', async () => {
+    vi.stubGlobal('window', undefined)
+    vi.resetModules()
+
+    const { useIsomorphicLayoutEffect } = await import('../../../src/react/hooks/use-isomorphic-layout-effect')
+    expect(useIsomorphicLayoutEffect).toBe(useEffect)
+  })
+})
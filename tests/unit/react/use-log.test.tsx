@@ -1,8 +1,12 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
-import React, { useState } from 'react'
+import React, { createContext, useLayoutEffect, useReducer, useState } from 'react'
 import { render, screen, fireEvent, act, waitFor } from '@testing-library/react'
 import { ReactLogProvider } from '../../../src/react/provider'
 import { useLog } from '../../../src/react/hooks/use-log'
+import { useLoggedState } from '../../../src/react/hooks/use-logged-state'
+import { useLoggedContext } from '../../../src/react/hooks/use-logged-context'
+import { withLog } from '../../../src/react/hoc/with-log'
+import { wastedRenders } from '../../../src/plugins/optional/wasted-renders'
 import type { Kernel } from '../../../src/types'
 
 describe('useLog', () => {
@@ -361,4 +365,181 @@ describe('useLog', () => {
     const disabledEvents = logs?.entries.filter(e => e.componentName === 'DisabledTest')
     expect(disabledEvents?.length ?? 0).toBe(0)
   })
+
+  describe('log methods', () => {
+    function LoggingComponent({ tags }: { tags?: string[] }) {
+      const { info, warn } = useLog('Logger', { tags })
+
+      return (
+        <div>
+          <button data-testid="log-info" onClick={() => info('Loaded', { items: 3 })}>Info</button>
+          <button data-testid="log-warn" onClick={() => warn('Empty', undefined, ['cart'])}>Warn</button>
+        </div>
+      )
+    }
+
+    it('should emit log events with message and data', async () => {
+      render(
+        <ReactLogProvider onReady={(k) => { capturedKernel = k }}>
+          <LoggingComponent />
+        </ReactLogProvider>
+      )
+
+      fireEvent.click(screen.getByTestId('log-info'))
+
+      const entry = capturedKernel?.getLogs().entries.find(e => e.event.type === 'log')
+      expect(entry?.level).toBe('info')
+      expect(entry?.componentName).toBe('Logger')
+      expect(entry?.event).toMatchObject({ message: 'Loaded', data: { items: 3 } })
+      expect(entry?.event).not.toHaveProperty('tags')
+    })
+
+    it('should merge default tags with call tags', () => {
+      render(
+        <ReactLogProvider onReady={(k) => { capturedKernel = k }}>
+          <LoggingComponent tags={['ui']} />
+        </ReactLogProvider>
+      )
+
+      fireEvent.click(screen.getByTestId('log-warn'))
+
+      const entry = capturedKernel?.getLogs().entries.find(e => e.event.type === 'log')
+      expect(entry?.level).toBe('warn')
+      expect(entry?.event).toMatchObject({ message: 'Empty', tags: ['ui', 'cart'] })
+      expect(entry?.event).not.toHaveProperty('data')
+    })
+
+    it('should not emit log events without a provider', () => {
+      render(<LoggingComponent />)
+      expect(() => fireEvent.click(screen.getByTestId('log-info'))).not.toThrow()
+    })
+  })
+
+  describe('update reason', () => {
+    const SettingsContext = createContext({ compact: false })
+    SettingsContext.displayName = 'SettingsContext'
+    const STABLE_PROPS = { id: 1 }
+
+    function getUpdateEvents(componentName: string) {
+      return (capturedKernel?.getLogs().entries ?? [])
+        .map((entry) => entry.event)
+        .filter((event) => event.type === 'update' && event.componentName === componentName)
+    }
+
+    function StateReason() {
+      const log = useLog('StateReason')
+      const [count, setCount] = useLoggedState(0, log)
+      return <button data-testid="state-reason" onClick={() => setCount(count + 1)}>{count}</button>
+    }
+
+    function ContextReason() {
+      const log = useLog('ContextReason')
+      const settings = useLoggedContext(SettingsContext, log)
+      return <span>{String(settings.compact)}</span>
+    }
+
+    function ForceReason() {
+      const log = useLog('ForceReason')
+      const [, forceUpdate] = useReducer((n: number) => n + 1, 0)
+      useLayoutEffect(() => {
+        log.trackProps(STABLE_PROPS)
+      })
+      return <button data-testid="force-reason" onClick={forceUpdate}>force</button>
+    }
+
+    function ParentReason() {
+      useLog('ParentReason')
+      return null
+    }
+
+    const PropsReason = withLog(({ label }: { label: string }) => <span>{label}</span>, { name: 'PropsReason' })
+    const ReferenceReason = withLog(({ style }: { style: { color: string } }) => <span style={style} />, { name: 'ReferenceReason' })
+
+    function App() {
+      const [compact, setCompact] = useState(false)
+      const [label, setLabel] = useState('a')
+      return (
+        <SettingsContext.Provider value={{ compact }}>
+          <button data-testid="toggle-compact" onClick={() => setCompact((c) => !c)}>compact</button>
+          <button data-testid="change-label" onClick={() => setLabel('b')}>label</button>
+          <StateReason />
+          <ContextReason />
+          <ForceReason />
+          <ParentReason />
+          <PropsReason label={label} />
+          <ReferenceReason style={{ color: 'red' }} />
+        </SettingsContext.Provider>
+      )
+    }
+
+    beforeEach(() => {
+      render(
+        <ReactLogProvider onReady={(k) => { capturedKernel = k }}>
+          <App />
+        </ReactLogProvider>
+      )
+    })
+
+    it('should attribute own state changes to state', () => {
+      fireEvent.click(screen.getByTestId('state-reason'))
+
+      expect(getUpdateEvents('StateReason')).toEqual([
+        expect.objectContaining({ reason: 'state', changedKeys: ['state[0]'] }),
+      ])
+    })
+
+    it('should attribute context changes to context', () => {
+      fireEvent.click(screen.getByTestId('toggle-compact'))
+
+      expect(getUpdateEvents('ContextReason')).toEqual([
+        expect.objectContaining({ reason: 'context', changedKeys: ['context.SettingsContext'] }),
+      ])
+    })
+
+    it('should attribute changed props to props and untouched children to parent', () => {
+      fireEvent.click(screen.getByTestId('change-label'))
+
+      expect(getUpdateEvents('PropsReason')).toEqual([
+        expect.objectContaining({ reason: 'props', changedKeys: ['props.label'] }),
+      ])
+      expect(getUpdateEvents('ParentReason')).toEqual([
+        expect.objectContaining({ reason: 'parent', changedKeys: [] }),
+      ])
+    })
+
+    it('should skip new references with equal values without the wasted-renders plugin', () => {
+      fireEvent.click(screen.getByTestId('change-label'))
+
+      const propsEvents = (capturedKernel?.getLogs().entries ?? [])
+        .map((entry) => entry.event)
+        .filter((event) => event.type === 'props-change' && event.componentName === 'ReferenceReason')
+      expect(propsEvents).toEqual([])
+      expect(getUpdateEvents('ReferenceReason')).toEqual([
+        expect.objectContaining({ reason: 'parent', changedKeys: [] }),
+      ])
+    })
+
+    it('should log new references with equal values without making them the reason', () => {
+      capturedKernel?.register(wastedRenders())
+      fireEvent.click(screen.getByTestId('change-label'))
+
+      const propsEvents = (capturedKernel?.getLogs().entries ?? [])
+        .map((entry) => entry.event)
+        .filter((event) => event.type === 'props-change' && event.componentName === 'ReferenceReason')
+      expect(propsEvents.at(-1)).toMatchObject({
+        changes: [{ key: 'style', prevValue: { color: 'red' }, nextValue: { color: 'red' }, isDeepEqual: true }],
+      })
+      expect(getUpdateEvents('ReferenceReason')).toEqual([
+        expect.objectContaining({ reason: 'parent', changedKeys: [] }),
+      ])
+    })
+
+    it('should attribute self-triggered renders with identical props to force', () => {
+      fireEvent.click(screen.getByTestId('force-reason'))
+
+      expect(getUpdateEvents('ForceReason')).toEqual([
+        expect.objectContaining({ reason: 'force', changedKeys: [] }),
+      ])
+    })
+  })
 })
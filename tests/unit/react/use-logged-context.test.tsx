@@ -0,0 +1,156 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import React, { createContext, useState } from 'react'
+import { render, screen, fireEvent } from '@testing-library/react'
+import { ReactLogProvider } from '../../../src/react/provider'
+import { useLog } from '../../../src/react/hooks/use-log'
+import { useLoggedContext } from '../../../src/react/hooks/use-logged-context'
+import { contextTracker } from '../../../src/plugins/optional/context-tracker'
+import { buildSnapshot } from '../../../src/kernel/snapshot'
+import type { ContextChangeEvent, Kernel, MountEvent } from '../../../src/types'
+
+describe('useLoggedContext', () => {
+  let capturedKernel: Kernel | null = null
+
+  beforeEach(() => {
+    capturedKernel = null
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  const ThemeContext = createContext({ mode: 'light' })
+  ThemeContext.displayName = 'ThemeContext'
+  const LocaleContext = createContext('en')
+
+  function Consumer({ trackContext }: { trackContext?: boolean }) {
+    const log = useLog('Consumer', { trackContext })
+    const theme = useLoggedContext(ThemeContext, log)
+    const locale = useLoggedContext(LocaleContext, log)
+    return (
+      <span data-testid="consumer">
+        {log.componentId}|{theme.mode}|{locale}
+      </span>
+    )
+  }
+
+  function App({ trackContext }: { trackContext?: boolean }) {
+    const [mode, setMode] = useState('light')
+    const [sameModeRenders, setSameModeRenders] = useState(0)
+    const [locale, setLocale] = useState('en')
+
+    return (
+      <ThemeContext.Provider value={{ mode }}>
+        <LocaleContext.Provider value={locale}>
+          <button data-testid="dark" onClick={() => setMode('dark')}>dark</button>
+          <button data-testid="new-ref" onClick={() => setSameModeRenders((n) => n + 1)}>{sameModeRenders}</button>
+          <button data-testid="locale" onClick={() => setLocale('fr')}>fr</button>
+          <Consumer trackContext={trackContext} />
+        </LocaleContext.Provider>
+      </ThemeContext.Provider>
+    )
+  }
+
+  function getContextEvents(): ContextChangeEvent[] {
+    return (capturedKernel?.getLogs().entries ?? [])
+      .map((entry) => entry.event)
+      .filter((event): event is ContextChangeEvent => event.type === 'context-change')
+  }
+
+  it('should return the context value', () => {
+    render(<App />)
+    expect(screen.getByTestId('consumer').textContent).toContain('light|en')
+  })
+
+  it('should emit context-change named after displayName', () => {
+    render(
+      <ReactLogProvider onReady={(k) => { capturedKernel = k }}>
+        <App />
+      </ReactLogProvider>
+    )
+
+    expect(getContextEvents()).toHaveLength(0)
+
+    fireEvent.click(screen.getByTestId('dark'))
+
+    expect(getContextEvents()).toEqual([
+      expect.objectContaining({
+        componentName: 'Consumer',
+        contextName: 'ThemeContext',
+        prevValue: { mode: 'light' },
+        nextValue: { mode: 'dark' },
+      }),
+    ])
+  })
+
+  it('should fall back to an indexed name without displayName', () => {
+    render(
+      <ReactLogProvider onReady={(k) => { capturedKernel = k }}>
+        <App />
+      </ReactLogProvider>
+    )
+
+    fireEvent.click(screen.getByTestId('locale'))
+
+    expect(getContextEvents()).toEqual([
+      expect.objectContaining({ contextName: 'Context[1]', prevValue: 'en', nextValue: 'fr' }),
+    ])
+  })
+
+  it('should ignore new references with deep-equal values', () => {
+    render(
+      <ReactLogProvider onReady={(k) => { capturedKernel = k }}>
+        <App />
+      </ReactLogProvider>
+    )
+
+    fireEvent.click(screen.getByTestId('new-ref'))
+
+    expect(getContextEvents()).toHaveLength(0)
+  })
+
+  it('should report initial values with the mount event and in snapshots', () => {
+    render(
+      <ReactLogProvider onReady={(k) => { capturedKernel = k }}>
+        <App />
+      </ReactLogProvider>
+    )
+    const componentId = screen.getByTestId('consumer').textContent?.split('|')[0] ?? ''
+    const mount = capturedKernel?.getLogs().entries.find((entry) => entry.event.type === 'mount')?.event as MountEvent
+
+    expect(mount.initialContext).toEqual({ ThemeContext: { mode: 'light' }, 'Context[1]': 'en' })
+    const snapshot = buildSnapshot(capturedKernel?.getLogs().entries ?? [], Date.now())
+    expect(snapshot.components.find((component) => component.componentId === componentId)?.context)
+      .toEqual({ ThemeContext: { mode: 'light' }, 'Context[1]': 'en' })
+  })
+
+  it('should not emit when trackContext is false', () => {
+    render(
+      <ReactLogProvider onReady={(k) => { capturedKernel = k }}>
+        <App trackContext={false} />
+      </ReactLogProvider>
+    )
+
+    fireEvent.click(screen.getByTestId('dark'))
+
+    expect(getContextEvents()).toHaveLength(0)
+    const mount = capturedKernel?.getLogs().entries.find((entry) => entry.event.type === 'mount')?.event
+    expect(mount).not.toHaveProperty('initialContext')
+  })
+
+  it('should feed the context-tracker plugin', () => {
+    const plugin = contextTracker()
+    render(
+      <ReactLogProvider plugins={[plugin]} onReady={(k) => { capturedKernel = k }}>
+        <App />
+      </ReactLogProvider>
+    )
+    const componentId = screen.getByTestId('consumer').textContent?.split('|')[0] ?? ''
+
+    fireEvent.click(screen.getByTestId('dark'))
+
+    expect(plugin.api.getContextValue(componentId, 'ThemeContext')).toEqual({ mode: 'dark' })
+    expect(plugin.api.getTrackedContexts()).toContain('ThemeContext')
+  })
+})
@@ -0,0 +1,164 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import React, { useState } from 'react'
+import { render, screen, fireEvent, act } from '@testing-library/react'
+import { ReactLogProvider } from '../../../src/react/provider'
+import { useLog } from '../../../src/react/hooks/use-log'
+import {
+  useLoggedEffect,
+  useLoggedLayoutEffect,
+  useLoggedInsertionEffect,
+} from '../../../src/react/hooks/use-logged-effect'
+import type { EffectTrackerAPI, Kernel, KernelEvent, Plugin } from '../../../src/types'
+
+describe('useLoggedEffect', () => {
+  let capturedKernel: Kernel | null = null
+
+  beforeEach(() => {
+    capturedKernel = null
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  function getEffectEvents(): KernelEvent[] {
+    return (capturedKernel?.getLogs().entries ?? [])
+      .map((entry) => entry.event)
+      .filter((event) => event.type === 'effect-run' || event.type === 'effect-cleanup')
+  }
+
+  function EffectComponent({ trackEffects = true }: { trackEffects?: boolean }) {
+    const [userId, setUserId] = useState(1)
+    const [other, setOther] = useState(0)
+    const log = useLog('EffectComponent', { trackEffects })
+    const cleanup = vi.fn()
+
+    useLoggedEffect(() => cleanup, [userId], log)
+    useLoggedLayoutEffect(() => undefined, [userId, other], log)
+    useLoggedInsertionEffect(() => undefined, [], log)
+
+    return (
+      <div>
+        <span data-testid="component-id">{log.componentId}</span>
+        <button data-testid="change-user" onClick={() => setUserId((id) => id + 1)}>user</button>
+        <button data-testid="change-other" onClick={() => setOther((o) => o + 1)}>other</button>
+      </div>
+    )
+  }
+
+  function Toggle({ trackEffects }: { trackEffects?: boolean }) {
+    const [show, setShow] = useState(true)
+    return (
+      <div>
+        <button data-testid="toggle" onClick={() => setShow(false)}>hide</button>
+        {show && <EffectComponent trackEffects={trackEffects} />}
+      </div>
+    )
+  }
+
+  it('should assign stable effect indexes and emit run events on mount', () => {
+    render(
+      <ReactLogProvider onReady={(k) => { capturedKernel = k }}>
+        <EffectComponent />
+      </ReactLogProvider>
+    )
+
+    const runs = getEffectEvents().filter((e) => e.type === 'effect-run')
+    expect(runs.map((e) => e.type === 'effect-run' && e.effectIndex).sort()).toEqual([0, 1, 2])
+    for (const run of runs) {
+      expect(run.type === 'effect-run' && run.dependenciesChanged).toEqual([])
+    }
+  })
+
+  it('should diff dependencies and emit deps-change cleanups', () => {
+    render(
+      <ReactLogProvider onReady={(k) => { capturedKernel = k }}>
+        <EffectComponent />
+      </ReactLogProvider>
+    )
+
+    capturedKernel?.clearLogs()
+    fireEvent.click(screen.getByTestId('change-other'))
+
+    const events = getEffectEvents()
+    expect(events).toEqual([
+      expect.objectContaining({ type: 'effect-cleanup', effectIndex: 1, reason: 'deps-change' }),
+      expect.objectContaining({
+        type: 'effect-run',
+        effectIndex: 1,
+        dependencies: [1, 1],
+        dependenciesChanged: [1],
+      }),
+    ])
+  })
+
+  it('should emit unmount cleanups when the component unmounts', () => {
+    render(
+      <ReactLogProvider onReady={(k) => { capturedKernel = k }}>
+        <Toggle />
+      </ReactLogProvider>
+    )
+
+    capturedKernel?.clearLogs()
+    fireEvent.click(screen.getByTestId('toggle'))
+
+    const cleanups = getEffectEvents()
+    expect(cleanups).toHaveLength(3)
+    for (const cleanup of cleanups) {
+      expect(cleanup).toMatchObject({ type: 'effect-cleanup', reason: 'unmount' })
+    }
+  })
+
+  it('should feed the effect-tracker plugin', () => {
+    render(
+      <ReactLogProvider onReady={(k) => { capturedKernel = k }}>
+        <EffectComponent />
+      </ReactLogProvider>
+    )
+
+    const componentId = screen.getByTestId('component-id').textContent ?? ''
+    const tracker = capturedKernel?.getPlugin<Plugin & { api: EffectTrackerAPI }>('effect-tracker')
+
+    expect(tracker?.api.getActiveEffects(componentId).sort()).toEqual([0, 1, 2])
+
+    fireEvent.click(screen.getByTestId('change-user'))
+
+    expect(tracker?.api.getEffectRunCount(componentId, 0)).toBe(2)
+    expect(tracker?.api.getEffectDependencies(componentId, 0)).toEqual([2])
+  })
+
+  it('should not emit events when trackEffects is false', () => {
+    render(
+      <ReactLogProvider onReady={(k) => { capturedKernel = k }}>
+        <Toggle trackEffects={false} />
+      </ReactLogProvider>
+    )
+
+    fireEvent.click(screen.getByTestId('toggle'))
+
+    expect(getEffectEvents()).toHaveLength(0)
+  })
+
+  it('should still run effects and cleanups without a provider', () => {
+    const effect = vi.fn()
+    const cleanup = vi.fn()
+
+    function Standalone() {
+      const log = useLog('Standalone')
+      useLoggedEffect(() => {
+        effect()
+        return cleanup
+      }, undefined, log)
+      return null
+    }
+
+    const { unmount } = render(<Standalone />)
+    act(() => {
+      unmount()
+    })
+
+    expect(effect).toHaveBeenCalledTimes(1)
+    expect(cleanup).toHaveBeenCalledTimes(1)
+  })
+})
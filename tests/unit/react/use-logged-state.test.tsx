@@ -0,0 +1,192 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import React from 'react'
+import { render, screen, fireEvent } from '@testing-library/react'
+import { ReactLogProvider } from '../../../src/react/provider'
+import { useLog } from '../../../src/react/hooks/use-log'
+import { useLoggedState, useLoggedReducer } from '../../../src/react/hooks/use-logged-state'
+import { buildSnapshot } from '../../../src/kernel/snapshot'
+import type { Kernel, MountEvent, Plugin, StateChangeEvent, StateTrackerAPI } from '../../../src/types'
+
+describe('useLoggedState / useLoggedReducer', () => {
+  let capturedKernel: Kernel | null = null
+
+  beforeEach(() => {
+    capturedKernel = null
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  type Action = { type: 'add'; text: string } | { type: 'reset' }
+
+  function todosReducer(state: string[], action: Action): string[] {
+    switch (action.type) {
+      case 'add':
+        return [...state, action.text]
+      case 'reset':
+        return []
+    }
+  }
+
+  function StateComponent({ trackState = true }: { trackState?: boolean }) {
+    const log = useLog('StateComponent', { trackState })
+    const [count, setCount] = useLoggedState(0, log)
+    const [label, setLabel] = useLoggedState(() => 'initial', log)
+    const [todos, dispatch] = useLoggedReducer(todosReducer, [] as string[], log)
+
+    return (
+      <div>
+        <span data-testid="component-id">{log.componentId}</span>
+        <span data-testid="count">{count}</span>
+        <span data-testid="label">{label}</span>
+        <span data-testid="todos">{todos.join(',')}</span>
+        <button data-testid="increment" onClick={() => setCount((c) => c + 1)}>+</button>
+        <button data-testid="set-label" onClick={() => setLabel('changed')}>label</button>
+        <button data-testid="same-label" onClick={() => setLabel((l) => l)}>same</button>
+        <button data-testid="add" onClick={() => dispatch({ type: 'add', text: 'milk' })}>add</button>
+      </div>
+    )
+  }
+
+  function getStateEvents(): StateChangeEvent[] {
+    return (capturedKernel?.getLogs().entries ?? [])
+      .map((entry) => entry.event)
+      .filter((event): event is StateChangeEvent => event.type === 'state-change')
+  }
+
+  function renderComponent(trackState?: boolean) {
+    return render(
+      <ReactLogProvider onReady={(k) => { capturedKernel = k }}>
+        <StateComponent trackState={trackState} />
+      </ReactLogProvider>
+    )
+  }
+
+  it('should behave like useState and useReducer', () => {
+    renderComponent()
+
+    fireEvent.click(screen.getByTestId('increment'))
+    fireEvent.click(screen.getByTestId('set-label'))
+    fireEvent.click(screen.getByTestId('add'))
+
+    expect(screen.getByTestId('count').textContent).toBe('1')
+    expect(screen.getByTestId('label').textContent).toBe('changed')
+    expect(screen.getByTestId('todos').textContent).toBe('milk')
+  })
+
+  it('should not emit events on mount', () => {
+    renderComponent()
+    expect(getStateEvents()).toHaveLength(0)
+  })
+
+  it('should report initial values with the mount event', () => {
+    renderComponent()
+    const mount = capturedKernel?.getLogs().entries.find((entry) => entry.event.type === 'mount')?.event as MountEvent
+
+    expect(mount.initialState).toEqual({ 0: 0, 1: 'initial', 2: [] })
+    expect(mount).not.toHaveProperty('initialContext')
+  })
+
+  it('should include unchanged state in snapshots taken before the first change', () => {
+    renderComponent()
+    const componentId = screen.getByTestId('component-id').textContent ?? ''
+
+    const snapshot = buildSnapshot(capturedKernel?.getLogs().entries ?? [], Date.now())
+    expect(snapshot.components.find((component) => component.componentId === componentId)?.state)
+      .toEqual({ 0: 0, 1: 'initial', 2: [] })
+  })
+
+  it('should not report initial values when trackState is false', () => {
+    renderComponent(false)
+    const mount = capturedKernel?.getLogs().entries.find((entry) => entry.event.type === 'mount')?.event as MountEvent
+
+    expect(mount.initialState).toEqual({})
+  })
+
+  it('should auto-assign hook indexes and record the update type', () => {
+    renderComponent()
+
+    fireEvent.click(screen.getByTestId('increment'))
+    fireEvent.click(screen.getByTestId('set-label'))
+
+    expect(getStateEvents()).toEqual([
+      expect.objectContaining({
+        hookIndex: 0,
+        hookType: 'useState',
+        prevState: 0,
+        nextState: 1,
+        updateType: 'function',
+      }),
+      expect.objectContaining({
+        hookIndex: 1,
+        hookType: 'useState',
+        prevState: 'initial',
+        nextState: 'changed',
+        updateType: 'value',
+      }),
+    ])
+  })
+
+  it('should emit the dispatched action for reducers', () => {
+    renderComponent()
+
+    fireEvent.click(screen.getByTestId('add'))
+
+    expect(getStateEvents()).toEqual([
+      expect.objectContaining({
+        hookIndex: 2,
+        hookType: 'useReducer',
+        prevState: [],
+        nextState: ['milk'],
+        action: { type: 'add', text: 'milk' },
+        updateType: 'dispatch',
+      }),
+    ])
+  })
+
+  it('should not emit when the value did not change', () => {
+    renderComponent()
+
+    fireEvent.click(screen.getByTestId('same-label'))
+
+    expect(getStateEvents()).toHaveLength(0)
+  })
+
+  it('should populate the state-tracker history', () => {
+    renderComponent()
+    const componentId = screen.getByTestId('component-id').textContent ?? ''
+
+    fireEvent.click(screen.getByTestId('increment'))
+    fireEvent.click(screen.getByTestId('increment'))
+
+    const tracker = capturedKernel?.getPlugin<Plugin & { api: StateTrackerAPI }>('state-tracker')
+    const history = tracker?.api.getStateHistory(componentId) ?? []
+    // The mount seeds the initial value, then each change adds an entry
+    expect(history).toHaveLength(3)
+    expect(history[0]?.hooks[0]).toMatchObject({ value: 0 })
+    expect(tracker?.api.getHookState(componentId, 0)).toBe(2)
+    expect(history[2]?.hooks[0]).toMatchObject({ value: 2, prevValue: 1, updateType: 'function' })
+  })
+
+  it('should not emit events when trackState is false', () => {
+    renderComponent(false)
+
+    fireEvent.click(screen.getByTestId('increment'))
+
+    expect(getStateEvents()).toHaveLength(0)
+  })
+
+  it('should support a lazy reducer initializer', () => {
+    function LazyComponent() {
+      const log = useLog('LazyComponent')
+      const [todos] = useLoggedReducer(todosReducer, 2, log, (n: number) => Array.from({ length: n }, () => 'x'))
+      return <span data-testid="lazy">{todos.join(',')}</span>
+    }
+
+    render(<LazyComponent />)
+
+    expect(screen.getByTestId('lazy').textContent).toBe('x,x')
+  })
+})
@@ -122,6 +122,41 @@ describe('withLog HOC', () => {
     expect(propsEvent).toBeDefined()
   })
 
+  it('should report initial props on mount without a props-change', async () => {
+    const WrappedComponent = withLog(SimpleComponent, { name: 'MountProps' })
+
+    const { rerender } = render(
+      <ReactLogProvider onReady={(k) => { capturedKernel = k }}>
+        <WrappedComponent message="First" />
+      </ReactLogProvider>
+    )
+
+    await act(async () => {
+      await vi.runAllTimersAsync()
+    })
+
+    rerender(
+      <ReactLogProvider onReady={(k) => { capturedKernel = k }}>
+        <WrappedComponent message="Second" />
+      </ReactLogProvider>
+    )
+
+    await act(async () => {
+      await vi.runAllTimersAsync()
+    })
+
+    const events = capturedKernel?.getLogs().entries
+      .map(e => e.event)
+      .filter(e => e.type === 'mount' || e.type === 'props-change')
+    expect(events).toEqual([
+      expect.objectContaining({ type: 'mount', props: { message: 'First' } }),
+      expect.objectContaining({
+        type: 'props-change',
+        changes: [expect.objectContaining({ key: 'message', prevValue: 'First', nextValue: 'Second' })],
+      }),
+    ])
+  })
+
   it('should not track props when trackProps is false', async () => {
     const WrappedComponent = withLog(SimpleComponent, {
       name: 'NoPropsTracked',
@@ -178,6 +178,23 @@ describe('diffProps', () => {
     expect(changes[0].isDeepEqual).toBe(false)
   })
 
+  it('should report deep-equal props with a new reference when asked to', () => {
+    const onClick = () => undefined
+    const prev = { style: { color: 'red' }, onClick, id: 1 }
+    const next = { style: { color: 'red' }, onClick, id: 2 }
+
+    const changes = diffProps(prev, next, { includeDeepEqual: true })
+    expect(changes).toEqual([
+      { key: 'style', prevValue: { color: 'red' }, nextValue: { color: 'red' }, isDeepEqual: true },
+      { key: 'id', prevValue: 1, nextValue: 2, isDeepEqual: false },
+    ])
+  })
+
+  it('should not treat an added undefined prop as deep-equal', () => {
+    const changes = diffProps({}, { value: undefined }, { includeDeepEqual: true })
+    expect(changes).toEqual([{ key: 'value', prevValue: undefined, nextValue: undefined, isDeepEqual: false }])
+  })
+
   it('should not report unchanged props', () => {
     const prev = { a: 1, b: 2 }
     const next = { a: 1, b: 2 }
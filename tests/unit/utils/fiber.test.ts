@@ -0,0 +1,158 @@
+import { describe, it, expect, vi } from 'vitest'
+import {
+  getDevToolsHook,
+  getFiberName,
+  getLogComponentId,
+  installDevToolsHookShim,
+  isComponentFiber,
+  subscribeToFiberCommits,
+  walkCommittedFibers,
+  LOG_STATE_MARKER,
+} from '../../../src/utils/fiber'
+import type { DevToolsGlobalHook, Fiber, FiberRoot } from '../../../src/utils/fiber'
+
+function createFiber(overrides: Partial<Fiber> = {}): Fiber {
+  return {
+    tag: 0,
+    type: function Component() {},
+    child: null,
+    sibling: null,
+    return: null,
+    alternate: null,
+    flags: 0,
+    memoizedState: null,
+    ...overrides,
+  }
+}
+
+describe('installDevToolsHookShim', () => {
+  it('should return the existing hook', () => {
+    const hook = installDevToolsHookShim()
+    expect(getDevToolsHook()).toBe(hook)
+    expect(installDevToolsHookShim()).toBe(hook)
+  })
+
+  it('should install a hook renderers can inject into', () => {
+    const globalObject = globalThis as { __REACT_DEVTOOLS_GLOBAL_HOOK__?: DevToolsGlobalHook }
+    const realHook = globalObject.__REACT_DEVTOOLS_GLOBAL_HOOK__
+    delete globalObject.__REACT_DEVTOOLS_GLOBAL_HOOK__
+
+    try {
+      const hook = installDevToolsHookShim()
+      expect(getDevToolsHook()).toBe(hook)
+      expect(hook.supportsFiber).toBe(true)
+      expect(hook.inject({})).toBe(1)
+      expect(hook.inject({})).toBe(2)
+      expect(hook.renderers.size).toBe(2)
+      expect(() => hook.checkDCE(() => {})).not.toThrow()
+    } finally {
+      globalObject.__REACT_DEVTOOLS_GLOBAL_HOOK__ = realHook
+    }
+  })
+})
+
+describe('subscribeToFiberCommits', () => {
+  function createHook(): DevToolsGlobalHook {
+    return {
+      renderers: new Map(),
+      supportsFiber: true,
+      inject: () => 1,
+      onCommitFiberRoot: vi.fn(),
+      onCommitFiberUnmount: vi.fn(),
+      checkDCE: () => {},
+    }
+  }
+
+  it('should chain existing handlers and notify listeners', () => {
+    const hook = createHook()
+    const originalCommit = hook.onCommitFiberRoot
+    const originalUnmount = hook.onCommitFiberUnmount
+    const onCommit = vi.fn()
+    const onUnmount = vi.fn()
+    const root = { current: createFiber({ tag: 3 }) }
+    const fiber = createFiber()
+
+    const unsubscribe = subscribeToFiberCommits(hook, { onCommit, onUnmount })
+    subscribeToFiberCommits(hook, { onCommit: vi.fn() })
+    hook.onCommitFiberRoot(1, root)
+    hook.onCommitFiberUnmount(1, fiber)
+
+    expect(originalCommit).toHaveBeenCalledWith(1, root, undefined, undefined)
+    expect(originalUnmount).toHaveBeenCalledWith(1, fiber)
+    expect(onCommit).toHaveBeenCalledWith(root)
+    expect(onUnmount).toHaveBeenCalledWith(fiber)
+
+    unsubscribe()
+    hook.onCommitFiberRoot(1, root)
+    expect(onCommit).toHaveBeenCalledTimes(1)
+  })
+
+  it('should isolate listener errors', () => {
+    const hook = createHook()
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+    const next = vi.fn()
+
+    subscribeToFiberCommits(hook, { onCommit: () => { throw new Error('boom') } })
+    subscribeToFiberCommits(hook, { onCommit: next })
+    hook.onCommitFiberRoot(1, { current: createFiber({ tag: 3 }) })
+
+    expect(errorSpy).toHaveBeenCalledWith('[ReactLog] Error in fiber commit listener:', expect.any(Error))
+    expect(next).toHaveBeenCalled()
+  })
+
+  it('should isolate unmount listener errors', () => {
+    const hook = createHook()
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+    const next = vi.fn()
+    const fiber = createFiber()
+
+    subscribeToFiberCommits(hook, { onCommit: vi.fn(), onUnmount: () => { throw new Error('boom') } })
+    subscribeToFiberCommits(hook, { onCommit: vi.fn(), onUnmount: next })
+    hook.onCommitFiberUnmount(1, fiber)
+
+    expect(errorSpy).toHaveBeenCalledWith('[ReactLog] Error in fiber unmount listener:', expect.any(Error))
+    expect(next).toHaveBeenCalledWith(fiber)
+  })
+})
+
+describe('fiber helpers', () => {
+  it('should detect component fibers', () => {
+    expect(isComponentFiber(createFiber({ tag: 0 }))).toBe(true)
+    expect(isComponentFiber(createFiber({ tag: 1 }))).toBe(true)
+    expect(isComponentFiber(createFiber({ tag: 11 }))).toBe(true)
+    expect(isComponentFiber(createFiber({ tag: 15 }))).toBe(true)
+    expect(isComponentFiber(createFiber({ tag: 5 }))).toBe(false)
+  })
+
+  it('should resolve display names', () => {
+    const Named = Object.assign(function Inner() {}, { displayName: 'Outer' })
+    expect(getFiberName(createFiber({ type: Named }))).toBe('Outer')
+    expect(getFiberName(createFiber({ type: function Plain() {} }))).toBe('Plain')
+    expect(getFiberName(createFiber({ type: { render: function Forwarded() {} } }))).toBe('Forwarded')
+    expect(getFiberName(createFiber({ type: { render: { displayName: 'Ref' } } }))).toBe('Ref')
+    expect(getFiberName(createFiber({ type: {} }))).toBe('Anonymous')
+    expect(getFiberName(createFiber({ type: null }))).toBe('Anonymous')
+  })
+
+  it('should find the useLog componentId in the hook list', () => {
+    const logState = { [LOG_STATE_MARKER]: true, componentId: 'comp-1' }
+    const hooks = { memoizedState: 0, next: { memoizedState: { current: logState }, next: null } }
+
+    expect(getLogComponentId(createFiber({ memoizedState: hooks }))).toBe('comp-1')
+    expect(getLogComponentId(createFiber({ memoizedState: { memoizedState: { current: {} }, next: null } }))).toBeNull()
+    expect(getLogComponentId(createFiber({ tag: 1, memoizedState: hooks }))).toBeNull()
+  })
+
+  it('should skip subtrees whose children were not re-created', () => {
+    const reused = createFiber({ type: function Reused() {} })
+    const prevParent = createFiber({ type: function Parent() {}, child: reused })
+    const parent = createFiber({ type: function Parent() {}, child: reused, alternate: prevParent })
+    const host = createFiber({ tag: 5, type: 'div', child: parent })
+    const prevRoot = createFiber({ tag: 3 })
+    const root: FiberRoot = { current: createFiber({ tag: 3, child: host, alternate: prevRoot }) }
+
+    expect(walkCommittedFibers(root)).toEqual([
+      { fiber: parent, name: 'Parent', status: 'bailed-out', owner: null },
+    ])
+  })
+})
@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest'
+import { createHmac } from 'node:crypto'
+import { hashString, hmacSha256 } from '../../../src/utils/hash'
+
+describe('hash utilities', () => {
+  describe('hashString', () => {
+    it('should return stable 8-character hex hashes', () => {
+      expect(hashString('abc')).toMatch(/^[0-9a-f]{8}$/)
+      expect(hashString('abc')).toBe(hashString('abc'))
+      expect(hashString('abc')).not.toBe(hashString('abd'))
+    })
+  })
+
+  describe('hmacSha256', () => {
+    it('should match RFC 4231 test vectors', () => {
+      expect(hmacSha256('Jefe', 'what do ya want for nothing?'))
+        .toBe('5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843')
+      expect(hmacSha256('', '')).toBe('b613679a0814d9ec772f95d778c35fc5ff1697c493715653c6c712144292c5ad')
+    })
+
+    it('should match Node crypto for long keys and multi-block UTF-8 input', () => {
+      const key = 'k'.repeat(131)
+      const message = 'héllo 😀 '.repeat(40)
+
+      expect(hmacSha256(key, message)).toBe(createHmac('sha256', key).update(message).digest('hex'))
+    })
+  })
+})
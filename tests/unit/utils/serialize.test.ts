@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest'
+import React from 'react'
+import { toSerializable } from '../../../src/utils/serialize'
+
+describe('toSerializable', () => {
+  it('should keep primitives and plain data', () => {
+    expect(toSerializable(42)).toBe(42)
+    expect(toSerializable('text')).toBe('text')
+    expect(toSerializable(null)).toBeNull()
+    expect(toSerializable({ a: [1, { b: true }], skip: undefined })).toEqual({ a: [1, { b: true }] })
+  })
+
+  it('should describe values that cannot be cloned', () => {
+    function handleClick() {}
+
+    expect(toSerializable(handleClick)).toBe('[Function handleClick]')
+    expect(toSerializable(() => {})).toBe('[Function anonymous]')
+    expect(toSerializable(Symbol('id'))).toBe('Symbol(id)')
+    expect(toSerializable(BigInt(10))).toBe('10n')
+    expect(toSerializable(React.createElement('div'))).toBe('[React element]')
+  })
+
+  it('should convert errors, dates, maps and sets', () => {
+    const error = new TypeError('bad input')
+
+    expect(toSerializable(error)).toEqual({ name: 'TypeError', message: 'bad input', stack: error.stack })
+    expect(toSerializable(new Date(0))).toBe('1970-01-01T00:00:00.000Z')
+    expect(toSerializable(new Map([['a', 1]]))).toEqual([['a', 1]])
+    expect(toSerializable(new Set([1, 2]))).toEqual([1, 2])
+  })
+
+  it('should replace cycles but keep shared references', () => {
+    const shared = { value: 1 }
+    const node: Record<string, unknown> = { left: shared, right: shared }
+    node['self'] = node
+
+    expect(toSerializable(node)).toEqual({ left: { value: 1 }, right: { value: 1 }, self: '[Circular]' })
+  })
+
+  it('should stop at maxDepth', () => {
+    expect(toSerializable({ a: { b: { c: 1 } } }, 2)).toEqual({ a: { b: '[Max depth]' } })
+  })
+})
@@ -1,5 +1,8 @@
+import { readFileSync } from 'node:fs'
 import { defineConfig } from 'tsup'
 
+const { version } = JSON.parse(readFileSync('./package.json', 'utf8')) as { version: string }
+
 export default defineConfig({
   entry: {
     'index': 'src/index.ts',
@@ -13,4 +16,7 @@ export default defineConfig({
   treeshake: true,
   minify: false,
   splitting: false,
+  define: {
+    __REACTLOG_VERSION__: JSON.stringify(version),
+  },
 })